@@ -0,0 +1,423 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle2, Gavel, Loader2, Paperclip } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DISPUTE_REASONS,
+  DISPUTE_RESOLUTIONS,
+  type DisputeItem,
+  type DisputeResolution,
+  type DisputeStatus,
+  type DisputeUser,
+} from '@/lib/types/disputes';
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: { value: DisputeStatus; label: string }[] = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'RESOLVED', label: 'Resolved' },
+];
+
+function reasonLabel(reason: string) {
+  return DISPUTE_REASONS.find((r) => r.value === reason)?.label || reason;
+}
+
+function resolutionLabel(resolution: string | null) {
+  return (
+    DISPUTE_RESOLUTIONS.find((r) => r.value === resolution)?.label ||
+    resolution
+  );
+}
+
+function UserLink({ user }: { user: DisputeUser }) {
+  return (
+    <Link href={`/profile/${user.id}`} className="font-medium hover:underline">
+      {user.name}
+    </Link>
+  );
+}
+
+export function AdminDisputesContent() {
+  const [status, setStatus] = useState<DisputeStatus>('OPEN');
+  const [disputes, setDisputes] = useState<DisputeItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Resolve dialog state
+  const [resolving, setResolving] = useState<DisputeItem | null>(null);
+  const [resolution, setResolution] =
+    useState<DisputeResolution>('FULL_REFUND');
+  const [refundCredits, setRefundCredits] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchDisputes = useCallback(
+    async (pageToLoad: number) => {
+      const response = await fetch(
+        `/api/admin/disputes?status=${status}&page=${pageToLoad}&limit=${PAGE_SIZE}`,
+        { cache: 'no-store' }
+      );
+      if (!response.ok) {
+        throw new Error('Failed to load disputes');
+      }
+      return response.json();
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    const loadInitial = async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchDisputes(1);
+        setDisputes(data.disputes);
+        setPage(1);
+        setHasMore(data.pagination.hasNextPage);
+        setTotalItems(data.pagination.totalItems);
+      } catch (error) {
+        console.error('Error fetching disputes:', error);
+        toast.error('Failed to load disputes');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInitial();
+  }, [fetchDisputes]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const data = await fetchDisputes(page + 1);
+      setDisputes((prev) => [...prev, ...data.disputes]);
+      setPage(page + 1);
+      setHasMore(data.pagination.hasNextPage);
+    } catch (error) {
+      console.error('Error fetching more disputes:', error);
+      toast.error('Failed to load disputes');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const openResolve = (dispute: DisputeItem) => {
+    setResolving(dispute);
+    setResolution('FULL_REFUND');
+    setRefundCredits('');
+    setNote('');
+  };
+
+  const partialRefund = parseInt(refundCredits);
+  const partialRefundValid =
+    !!resolving &&
+    Number.isInteger(partialRefund) &&
+    partialRefund >= 1 &&
+    partialRefund < resolving.frozenCredits;
+
+  const handleConfirmResolve = async () => {
+    if (!resolving) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/disputes/${resolving.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resolution,
+          refundCredits:
+            resolution === 'PARTIAL_REFUND' ? partialRefund : null,
+          note: note.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resolve dispute');
+      }
+
+      setDisputes((prev) => prev.filter((d) => d.id !== resolving.id));
+      setTotalItems((prev) => Math.max(0, prev - 1));
+      toast.success(data.message || 'Dispute resolved');
+      setResolving(null);
+    } catch (error) {
+      toast.error('Error', {
+        description:
+          error instanceof Error ? error.message : 'Failed to resolve dispute',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Tabs
+        value={status}
+        onValueChange={(value) => setStatus(value as DisputeStatus)}
+      >
+        <TabsList>
+          {STATUS_TABS.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+              {tab.value === status && !isLoading && ` (${totalItems})`}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="p-6">
+              <Skeleton className="h-4 w-1/3 mb-3" />
+              <Skeleton className="h-16 w-full" />
+            </Card>
+          ))}
+        </div>
+      ) : disputes.length === 0 ? (
+        <Card className="p-12 text-center">
+          <CheckCircle2 className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-muted-foreground">No disputes here</p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {disputes.map((dispute) => (
+            <Card key={dispute.id} className="p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">
+                    {reasonLabel(dispute.reason)}
+                  </Badge>
+                  <Badge variant="outline">
+                    {dispute.frozenCredits} credits frozen
+                  </Badge>
+                  <Badge variant="outline">
+                    {dispute.sessionStatus === 'ACTIVE'
+                      ? 'Raised before completion'
+                      : 'Raised after completion'}
+                  </Badge>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(dispute.createdAt), {
+                    addSuffix: true,
+                  })}
+                </span>
+              </div>
+
+              <div>
+                <p className="font-semibold">{dispute.sessionName}</p>
+                <div className="flex flex-wrap gap-6 text-sm">
+                  <span>
+                    <span className="text-muted-foreground">Learner: </span>
+                    <UserLink user={dispute.learner} />
+                  </span>
+                  <span>
+                    <span className="text-muted-foreground">Provider: </span>
+                    <UserLink user={dispute.provider} />
+                  </span>
+                </div>
+              </div>
+
+              <div className="rounded-md border bg-muted/40 p-3 text-sm space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Raised by {dispute.raisedBy.name}
+                </p>
+                <p className="whitespace-pre-wrap">{dispute.description}</p>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <p className="font-medium">
+                  Evidence ({dispute.evidence.length})
+                </p>
+                {dispute.evidence.map((item) => (
+                  <div key={item.id} className="rounded-md border p-3 space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {item.submittedBy.name} ·{' '}
+                      {formatDistanceToNow(new Date(item.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </p>
+                    {item.content && (
+                      <p className="whitespace-pre-wrap">{item.content}</p>
+                    )}
+                    {item.attachment && (
+                      <a
+                        href={item.attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-primary hover:underline"
+                      >
+                        <Paperclip className="w-3 h-3" />
+                        {item.attachment.name}
+                      </a>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {dispute.status === 'OPEN' ? (
+                <div className="flex flex-wrap gap-2 pt-2 border-t">
+                  <Button size="sm" onClick={() => openResolve(dispute)}>
+                    <Gavel className="w-4 h-4 mr-2" />
+                    Resolve
+                  </Button>
+                </div>
+              ) : (
+                <div className="pt-2 border-t text-sm space-y-1">
+                  <p>
+                    <span className="font-medium">
+                      {resolutionLabel(dispute.resolution)}:{' '}
+                    </span>
+                    {dispute.refundedCredits ?? 0} credits to the learner,{' '}
+                    {dispute.frozenCredits - (dispute.refundedCredits ?? 0)} to
+                    the provider
+                  </p>
+                  {dispute.resolutionNote && (
+                    <p className="text-muted-foreground">
+                      {dispute.resolutionNote}
+                    </p>
+                  )}
+                </div>
+              )}
+            </Card>
+          ))}
+
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore && (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                )}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog
+        open={!!resolving}
+        onOpenChange={(open) => {
+          if (!open && !isSubmitting) setResolving(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Resolve dispute</DialogTitle>
+            <DialogDescription>
+              Decide how the {resolving?.frozenCredits} frozen credits are
+              split between {resolving?.learner.name} (learner) and{' '}
+              {resolving?.provider.name} (provider).
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <RadioGroup
+              value={resolution}
+              onValueChange={(value) =>
+                setResolution(value as DisputeResolution)
+              }
+              className="gap-3"
+            >
+              {DISPUTE_RESOLUTIONS.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value={option.value}
+                    id={`resolution-${option.value}`}
+                  />
+                  <Label
+                    htmlFor={`resolution-${option.value}`}
+                    className="cursor-pointer font-normal"
+                  >
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {resolution === 'PARTIAL_REFUND' && resolving && (
+              <div className="space-y-2">
+                <Label htmlFor="refund-credits">Credits to refund</Label>
+                <Input
+                  id="refund-credits"
+                  type="number"
+                  min={1}
+                  max={resolving.frozenCredits - 1}
+                  step={1}
+                  value={refundCredits}
+                  onChange={(e) => setRefundCredits(e.target.value)}
+                />
+                {partialRefundValid && (
+                  <p className="text-xs text-muted-foreground">
+                    {partialRefund} to the learner,{' '}
+                    {resolving.frozenCredits - partialRefund} to the provider
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="resolution-note">Note (optional)</Label>
+              <Textarea
+                id="resolution-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                rows={3}
+                placeholder="Shared with both participants and recorded in the admin log"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setResolving(null)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirmResolve}
+              disabled={
+                isSubmitting ||
+                (resolution === 'PARTIAL_REFUND' && !partialRefundValid)
+              }
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Resolve Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
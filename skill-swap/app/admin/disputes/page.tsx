@@ -0,0 +1,57 @@
+/**
+ * Admin Disputes Page
+ *
+ * Queue of session disputes where admins review both sides' evidence and
+ * split the frozen credits between learner and provider.
+ * Only reachable by users with the isAdmin flag.
+ *
+ * @fileoverview Admin dispute resolution page
+ */
+
+import { notFound, redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Header } from '@/components/layout/header';
+import { MobileNav } from '@/components/layout/mobile-nav';
+import { AdminDisputesContent } from './admin-disputes-content';
+
+export const metadata = {
+  title: 'Disputes - Skill Swap Admin',
+  description: 'Resolve session disputes',
+};
+
+export default async function AdminDisputesPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect('/login');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { isAdmin: true },
+  });
+
+  // Hide the page entirely from non-admins
+  if (!user?.isAdmin) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <MobileNav />
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Disputes</h1>
+          <p className="text-muted-foreground">
+            Review disputed sessions and decide who gets the frozen credits
+          </p>
+        </div>
+
+        <AdminDisputesContent />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle2,
+  Loader2,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { getInitials } from '@/lib/utils';
+import {
+  REPORT_REASONS,
+  SUSPENSION_DURATIONS,
+  type AdminReportItem,
+  type ModerationAction,
+  type ReportStatus,
+} from '@/lib/types/moderation';
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: { value: ReportStatus; label: string }[] = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'ACTIONED', label: 'Actioned' },
+  { value: 'DISMISSED', label: 'Dismissed' },
+];
+
+const ACTION_COPY: Record<
+  ModerationAction,
+  { title: string; description: string; confirm: string }
+> = {
+  DISMISS: {
+    title: 'Dismiss report',
+    description: 'Close this report without taking action.',
+    confirm: 'Dismiss',
+  },
+  WARN: {
+    title: 'Warn user',
+    description: 'Send the reported user a warning notification.',
+    confirm: 'Send Warning',
+  },
+  REMOVE_CONTENT: {
+    title: 'Remove content',
+    description:
+      'Permanently delete the reported content. Other open reports about it will be closed.',
+    confirm: 'Remove Content',
+  },
+  SUSPEND: {
+    title: 'Suspend user',
+    description: 'Suspend the reported user from the platform.',
+    confirm: 'Suspend User',
+  },
+};
+
+function reasonLabel(reason: string) {
+  return REPORT_REASONS.find((r) => r.value === reason)?.label || reason;
+}
+
+export function AdminReportsContent() {
+  const [status, setStatus] = useState<ReportStatus>('PENDING');
+  const [reports, setReports] = useState<AdminReportItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalItems, setTotalItems] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Action dialog state
+  const [pendingAction, setPendingAction] = useState<{
+    report: AdminReportItem;
+    action: ModerationAction;
+  } | null>(null);
+  const [note, setNote] = useState('');
+  const [duration, setDuration] = useState('7');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchReports = useCallback(
+    async (pageToLoad: number) => {
+      const response = await fetch(
+        `/api/admin/reports?status=${status}&page=${pageToLoad}&limit=${PAGE_SIZE}`,
+        { cache: 'no-store' }
+      );
+      if (!response.ok) {
+        throw new Error('Failed to load reports');
+      }
+      return response.json();
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    const loadInitial = async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchReports(1);
+        setReports(data.reports);
+        setPage(1);
+        setHasMore(data.pagination.hasNextPage);
+        setTotalItems(data.pagination.totalItems);
+      } catch (error) {
+        console.error('Error fetching reports:', error);
+        toast.error('Failed to load reports');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInitial();
+  }, [fetchReports]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const data = await fetchReports(page + 1);
+      setReports((prev) => [...prev, ...data.reports]);
+      setPage(page + 1);
+      setHasMore(data.pagination.hasNextPage);
+    } catch (error) {
+      console.error('Error fetching more reports:', error);
+      toast.error('Failed to load reports');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const openAction = (report: AdminReportItem, action: ModerationAction) => {
+    setPendingAction({ report, action });
+    setNote('');
+    setDuration('7');
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { report, action } = pendingAction;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/reports/${report.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          note: note.trim() || null,
+          durationDays:
+            action === 'SUSPEND' && duration !== 'permanent'
+              ? parseInt(duration)
+              : null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resolve report');
+      }
+
+      // Removing content closes every report about it
+      const resolved = (r: AdminReportItem) =>
+        r.id === report.id ||
+        (action === 'REMOVE_CONTENT' &&
+          r.contentType === report.contentType &&
+          r.contentId === report.contentId);
+
+      setReports((prev) => prev.filter((r) => !resolved(r)));
+      setTotalItems((prev) =>
+        Math.max(0, prev - reports.filter(resolved).length)
+      );
+      toast.success(data.message || 'Report resolved');
+      setPendingAction(null);
+    } catch (error) {
+      toast.error('Error', {
+        description:
+          error instanceof Error ? error.message : 'Failed to resolve report',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copy = pendingAction ? ACTION_COPY[pendingAction.action] : null;
+
+  return (
+    <div className="space-y-6">
+      <Tabs
+        value={status}
+        onValueChange={(value) => setStatus(value as ReportStatus)}
+      >
+        <TabsList>
+          {STATUS_TABS.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+              {tab.value === status && !isLoading && ` (${totalItems})`}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="p-6">
+              <Skeleton className="h-4 w-1/3 mb-3" />
+              <Skeleton className="h-16 w-full" />
+            </Card>
+          ))}
+        </div>
+      ) : reports.length === 0 ? (
+        <Card className="p-12 text-center">
+          <CheckCircle2 className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-muted-foreground">No reports here</p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <Card key={report.id} className="p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="capitalize">
+                    {report.contentType}
+                  </Badge>
+                  <Badge variant="secondary">{reasonLabel(report.reason)}</Badge>
+                  {report.action && (
+                    <Badge variant="destructive">{report.action}</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(report.createdAt), {
+                    addSuffix: true,
+                  })}
+                </span>
+              </div>
+
+              <div className="rounded-md border bg-muted/40 p-3 text-sm">
+                {report.contentPreview ?? (
+                  <span className="italic text-muted-foreground">
+                    Content no longer exists
+                  </span>
+                )}
+              </div>
+
+              {report.description && (
+                <p className="text-sm">
+                  <span className="font-medium">Reporter&apos;s note: </span>
+                  {report.description}
+                </p>
+              )}
+
+              <div className="flex flex-wrap gap-6 text-sm">
+                {[
+                  { label: 'Reported user', user: report.reportedUser },
+                  { label: 'Reported by', user: report.reportedBy },
+                ].map(({ label, user }) => (
+                  <div key={label} className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{label}:</span>
+                    {user ? (
+                      <Link
+                        href={`/profile/${user.id}`}
+                        className="flex items-center gap-2 hover:underline"
+                      >
+                        <Avatar className="w-6 h-6">
+                          <AvatarImage src={user.image || undefined} />
+                          <AvatarFallback className="text-[10px]">
+                            {getInitials(user.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        {user.name}
+                        {user.status === 'SUSPENDED' && (
+                          <Badge variant="destructive" className="text-[10px]">
+                            Suspended
+                          </Badge>
+                        )}
+                      </Link>
+                    ) : (
+                      <span className="italic text-muted-foreground">
+                        Deleted account
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {report.status === 'PENDING' && (
+                <div className="flex flex-wrap gap-2 pt-2 border-t">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openAction(report, 'DISMISS')}
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Dismiss
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openAction(report, 'WARN')}
+                    disabled={!report.reportedUser}
+                  >
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    Warn
+                  </Button>
+                  {report.contentType !== 'user' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openAction(report, 'REMOVE_CONTENT')}
+                      disabled={!report.contentPreview}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove Content
+                    </Button>
+                  )}
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => openAction(report, 'SUSPEND')}
+                    disabled={
+                      !report.reportedUser ||
+                      report.reportedUser.status === 'SUSPENDED'
+                    }
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    Suspend
+                  </Button>
+                </div>
+              )}
+            </Card>
+          ))}
+
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore && (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                )}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog
+        open={!!pendingAction}
+        onOpenChange={(open) => {
+          if (!open && !isSubmitting) setPendingAction(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{copy?.title}</DialogTitle>
+            <DialogDescription>{copy?.description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {pendingAction?.action === 'SUSPEND' && (
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select value={duration} onValueChange={setDuration}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUSPENSION_DURATIONS.map((option) => (
+                      <SelectItem
+                        key={option.label}
+                        value={option.days ? String(option.days) : 'permanent'}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="moderation-note">Note (optional)</Label>
+              <Textarea
+                id="moderation-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                rows={3}
+                placeholder={
+                  pendingAction?.action === 'WARN'
+                    ? 'Shown to the user with the warning'
+                    : 'Recorded in the admin log'
+                }
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPendingAction(null)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant={
+                pendingAction?.action === 'DISMISS' ? 'default' : 'destructive'
+              }
+              onClick={handleConfirmAction}
+              disabled={isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {copy?.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Admin Reports Page
+ *
+ * Moderation queue where admins triage reported content.
+ * Only reachable by users with the isAdmin flag.
+ *
+ * @fileoverview Admin moderation queue page
+ */
+
+import { notFound, redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Header } from '@/components/layout/header';
+import { MobileNav } from '@/components/layout/mobile-nav';
+import { AdminReportsContent } from './admin-reports-content';
+
+export const metadata = {
+  title: 'Reports - Skill Swap Admin',
+  description: 'Review reported content',
+};
+
+export default async function AdminReportsPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect('/login');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { isAdmin: true },
+  });
+
+  // Hide the page entirely from non-admins
+  if (!user?.isAdmin) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <MobileNav />
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Reports</h1>
+          <p className="text-muted-foreground">
+            Review reported content and take action
+          </p>
+        </div>
+
+        <AdminReportsContent />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  CheckCircle2,
+  Loader2,
+  RefreshCcw,
+  Undo2,
+  Unlock,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { TRANSACTION_LABELS } from '@/lib/transactions';
+import type {
+  OrphanedHold,
+  WalletDiscrepancy,
+  WalletOwner,
+  WalletRepairReport,
+} from '@/lib/types/wallets';
+
+type PendingRepair =
+  | { kind: 'RELEASE' | 'REVERSE'; hold: OrphanedHold }
+  | { kind: 'RELEASE_UNBACKED'; wallet: WalletDiscrepancy };
+
+const REPAIR_COPY: Record<
+  PendingRepair['kind'],
+  { title: string; description: string; confirm: string }
+> = {
+  RELEASE: {
+    title: 'Release hold',
+    description:
+      "Return the held credits from the wallet's outgoing to its available balance.",
+    confirm: 'Release Credits',
+  },
+  REVERSE: {
+    title: 'Reverse hold',
+    description:
+      'Void this hold without moving credits. Use this when its credits have already left the outgoing balance.',
+    confirm: 'Reverse Hold',
+  },
+  RELEASE_UNBACKED: {
+    title: 'Release stuck credits',
+    description:
+      "Return outgoing credits that no pending hold accounts for to the wallet's available balance.",
+    confirm: 'Release Credits',
+  },
+};
+
+function OwnerLink({ owner }: { owner: WalletOwner }) {
+  return (
+    <Link href={`/profile/${owner.id}`} className="font-medium hover:underline">
+      {owner.name}
+      {owner.email && (
+        <span className="ml-1 font-normal text-muted-foreground">
+          ({owner.email})
+        </span>
+      )}
+    </Link>
+  );
+}
+
+export function AdminWalletsContent() {
+  const [report, setReport] = useState<WalletRepairReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Repair dialog state
+  const [pendingRepair, setPendingRepair] = useState<PendingRepair | null>(
+    null
+  );
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/wallets', {
+        cache: 'no-store',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to load wallets');
+      }
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Error fetching wallet report:', error);
+      toast.error('Failed to load wallets');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const openRepair = (repair: PendingRepair) => {
+    setPendingRepair(repair);
+    setNote('');
+  };
+
+  const handleConfirmRepair = async () => {
+    if (!pendingRepair) return;
+
+    setIsSubmitting(true);
+    try {
+      const response =
+        pendingRepair.kind === 'RELEASE_UNBACKED'
+          ? await fetch(
+              `/api/admin/wallets/${pendingRepair.wallet.walletId}/release`,
+              {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ note: note.trim() || null }),
+              }
+            )
+          : await fetch(
+              `/api/admin/wallets/holds/${pendingRepair.hold.transactionId}`,
+              {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                  action: pendingRepair.kind,
+                  note: note.trim() || null,
+                }),
+              }
+            );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to repair wallet');
+      }
+
+      toast.success(data.message || 'Wallet repaired');
+      setPendingRepair(null);
+      // One repair can clear several rows, so reload the whole report
+      await fetchReport();
+    } catch (error) {
+      toast.error('Error', {
+        description:
+          error instanceof Error ? error.message : 'Failed to repair wallet',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copy = pendingRepair ? REPAIR_COPY[pendingRepair.kind] : null;
+
+  if (isLoading && !report) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="p-6">
+            <Skeleton className="h-4 w-1/3 mb-3" />
+            <Skeleton className="h-10 w-full" />
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const discrepancies = report?.discrepancies ?? [];
+  const orphanedHolds = report?.orphanedHolds ?? [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchReport}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCcw className="w-4 h-4 mr-2" />
+          )}
+          Refresh
+        </Button>
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">
+          Outgoing balance mismatches ({discrepancies.length})
+        </h2>
+
+        {discrepancies.length === 0 ? (
+          <Card className="p-8 text-center">
+            <CheckCircle2 className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              Every outgoing balance matches its pending holds
+            </p>
+          </Card>
+        ) : (
+          discrepancies.map((wallet) => (
+            <Card key={wallet.walletId} className="p-6 space-y-3">
+              <OwnerLink owner={wallet.owner} />
+
+              <div className="flex flex-wrap gap-6 text-sm">
+                <span>
+                  <span className="text-muted-foreground">Outgoing: </span>
+                  {wallet.outgoingBalance}
+                </span>
+                <span>
+                  <span className="text-muted-foreground">
+                    Pending holds:{' '}
+                  </span>
+                  {wallet.pendingHolds}
+                </span>
+                <Badge
+                  variant={wallet.difference > 0 ? 'destructive' : 'secondary'}
+                >
+                  {wallet.difference > 0 ? '+' : ''}
+                  {wallet.difference} credits
+                </Badge>
+              </div>
+
+              {wallet.difference > 0 ? (
+                <div className="pt-2 border-t">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      openRepair({ kind: 'RELEASE_UNBACKED', wallet })
+                    }
+                  >
+                    <Unlock className="w-4 h-4 mr-2" />
+                    Release {wallet.difference} credits
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground pt-2 border-t">
+                  Pending holds exceed the outgoing balance. Reverse the
+                  orphaned holds below whose credits were already returned.
+                </p>
+              )}
+            </Card>
+          ))
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">
+          Orphaned holds ({orphanedHolds.length})
+        </h2>
+
+        {orphanedHolds.length === 0 ? (
+          <Card className="p-8 text-center">
+            <CheckCircle2 className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+            <p className="text-muted-foreground">No orphaned holds</p>
+          </Card>
+        ) : (
+          orphanedHolds.map((hold) => (
+            <Card key={hold.transactionId} className="p-6 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {TRANSACTION_LABELS[hold.type] || hold.type}
+                  </Badge>
+                  <Badge variant="secondary">{hold.amount} credits</Badge>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(hold.createdAt), {
+                    addSuffix: true,
+                  })}
+                </span>
+              </div>
+
+              <OwnerLink owner={hold.owner} />
+
+              <p className="text-sm">
+                <span className="font-medium">Why it&apos;s orphaned: </span>
+                {hold.reason}
+              </p>
+              {hold.note && (
+                <p className="text-sm text-muted-foreground">{hold.note}</p>
+              )}
+
+              <div className="flex flex-wrap gap-2 pt-2 border-t">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openRepair({ kind: 'RELEASE', hold })}
+                >
+                  <Unlock className="w-4 h-4 mr-2" />
+                  Release
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openRepair({ kind: 'REVERSE', hold })}
+                >
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Reverse
+                </Button>
+              </div>
+            </Card>
+          ))
+        )}
+      </section>
+
+      <Dialog
+        open={!!pendingRepair}
+        onOpenChange={(open) => {
+          if (!open && !isSubmitting) setPendingRepair(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{copy?.title}</DialogTitle>
+            <DialogDescription>{copy?.description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-2">
+            <Label htmlFor="repair-note">Note (optional)</Label>
+            <Textarea
+              id="repair-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder="Recorded in the admin log"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPendingRepair(null)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmRepair} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {copy?.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
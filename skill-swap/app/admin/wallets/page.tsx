@@ -0,0 +1,57 @@
+/**
+ * Admin Wallets Page
+ *
+ * Lists wallets with credits stuck in outgoing and orphaned holds so an
+ * admin can release or reverse them.
+ * Only reachable by users with the isAdmin flag.
+ *
+ * @fileoverview Admin wallet repair page
+ */
+
+import { notFound, redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Header } from '@/components/layout/header';
+import { MobileNav } from '@/components/layout/mobile-nav';
+import { AdminWalletsContent } from './admin-wallets-content';
+
+export const metadata = {
+  title: 'Wallets - Skill Swap Admin',
+  description: 'Find and repair stuck wallet credits',
+};
+
+export default async function AdminWalletsPage() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    redirect('/login');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { isAdmin: true },
+  });
+
+  // Hide the page entirely from non-admins
+  if (!user?.isAdmin) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <MobileNav />
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Wallets</h1>
+          <p className="text-muted-foreground">
+            Find credits stuck in outgoing balances and release them
+          </p>
+        </div>
+
+        <AdminWalletsContent />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Admin Dispute Resolution API Route
+ *
+ * Resolves an open session dispute by splitting its frozen credits:
+ * - FULL_REFUND: every frozen credit goes back to the learner
+ * - PARTIAL_REFUND: `refundCredits` go to the learner, the rest to the provider
+ * - NO_REFUND: every frozen credit goes to the provider
+ *
+ * The credit movements are recorded as transactions and the decision in
+ * the AdminLog.
+ *
+ * @fileoverview PATCH /api/admin/disputes/[disputeId]
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUserId } from '@/lib/moderation';
+import { DisputeError, resolveDispute } from '@/lib/disputes';
+import type { DisputeResolution } from '@/lib/types/disputes';
+
+const RESOLUTIONS: DisputeResolution[] = [
+  'FULL_REFUND',
+  'PARTIAL_REFUND',
+  'NO_REFUND',
+];
+
+const MAX_NOTE_LENGTH = 500;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ disputeId: string }> }
+) {
+  try {
+    const adminId = await getAdminUserId();
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { disputeId } = await params;
+    const body = await request.json();
+    const { resolution, refundCredits, note } = body as {
+      resolution: DisputeResolution;
+      refundCredits?: number | null;
+      note?: string;
+    };
+
+    if (!RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json(
+        { error: 'Invalid resolution' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      note != null &&
+      (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `Note must be ${MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const { refundedCredits, providerCredits } = await resolveDispute(
+      adminId,
+      disputeId,
+      resolution,
+      typeof refundCredits === 'number' ? refundCredits : null,
+      note
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Dispute resolved: ${refundedCredits} credits to the learner, ${providerCredits} to the provider`,
+      refundedCredits,
+      providerCredits,
+    });
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error resolving dispute:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve dispute' },
+      { status: 500 }
+    );
+  }
+}
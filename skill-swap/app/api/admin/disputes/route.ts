@@ -0,0 +1,79 @@
+/**
+ * Admin Disputes API Route
+ *
+ * Returns session disputes for admins, filtered by status, with both
+ * participants' evidence.
+ *
+ * @fileoverview GET /api/admin/disputes
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { PAGINATION } from '@/lib/constants';
+import { getAdminUserId } from '@/lib/moderation';
+import { DISPUTE_INCLUDE, toDisputeItems } from '@/lib/disputes';
+import type { DisputeStatus } from '@/lib/types/disputes';
+
+export const dynamic = 'force-dynamic';
+
+const DISPUTE_STATUSES: DisputeStatus[] = ['OPEN', 'RESOLVED'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const adminId = await getAdminUserId();
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') || 'OPEN';
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const pageSize = Math.min(
+      PAGINATION.MAX_PAGE_SIZE,
+      Math.max(
+        1,
+        parseInt(
+          searchParams.get('limit') || String(PAGINATION.DEFAULT_PAGE_SIZE)
+        )
+      )
+    );
+
+    if (!DISPUTE_STATUSES.includes(statusParam as DisputeStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const where = { status: statusParam };
+
+    const [disputes, totalItems] = await Promise.all([
+      prisma.sessionDispute.findMany({
+        where,
+        include: DISPUTE_INCLUDE,
+        // Oldest first so the queue is worked in order
+        orderBy: { createdAt: statusParam === 'OPEN' ? 'asc' : 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.sessionDispute.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return NextResponse.json({
+      disputes: await toDisputeItems(disputes),
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching disputes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch disputes' },
+      { status: 500 }
+    );
+  }
+}
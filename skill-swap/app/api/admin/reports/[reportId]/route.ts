@@ -0,0 +1,296 @@
+/**
+ * Admin Report Action API Route
+ *
+ * Resolves a pending report with one of the moderation actions:
+ * - DISMISS: close the report without further action
+ * - WARN: send the reported user a warning notification
+ * - REMOVE_CONTENT: delete the reported post, comment, review or message
+ * - SUSPEND: suspend the reported user, temporarily or permanently
+ *
+ * Every action is recorded in the AdminLog.
+ *
+ * @fileoverview PATCH /api/admin/reports/[reportId]
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  getAdminUserId,
+  logAdminAction,
+  removeContent,
+} from '@/lib/moderation';
+import { createNotification } from '@/lib/notifications';
+import { disconnectUsers } from '@/lib/realtime';
+import {
+  MAX_SUSPENSION_DAYS,
+  REPORT_REASONS,
+  type ModerationAction,
+  type ReportContentType,
+} from '@/lib/types/moderation';
+
+const MODERATION_ACTIONS: ModerationAction[] = [
+  'DISMISS',
+  'WARN',
+  'REMOVE_CONTENT',
+  'SUSPEND',
+];
+
+const MAX_NOTE_LENGTH = 500;
+
+// How each action leaves the report
+const REPORT_OUTCOMES: Record<
+  ModerationAction,
+  { status: string; action: string }
+> = {
+  DISMISS: { status: 'DISMISSED', action: 'DISMISSED' },
+  WARN: { status: 'ACTIONED', action: 'WARNING' },
+  REMOVE_CONTENT: { status: 'ACTIONED', action: 'DELETED' },
+  SUSPEND: { status: 'ACTIONED', action: 'SUSPENDED' },
+};
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const adminId = await getAdminUserId();
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { reportId } = await params;
+    const body = await request.json();
+    const { action, note, durationDays } = body as {
+      action: ModerationAction;
+      note?: string;
+      durationDays?: number | null;
+    };
+
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    if (
+      note != null &&
+      (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `Note must be ${MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      action === 'SUSPEND' &&
+      durationDays != null &&
+      (!Number.isInteger(durationDays) ||
+        durationDays < 1 ||
+        durationDays > MAX_SUSPENSION_DAYS)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Suspension must be between 1 and ${MAX_SUSPENSION_DAYS} days, or permanent`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await prisma.reportedContent.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    if (report.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: 'This report has already been resolved' },
+        { status: 409 }
+      );
+    }
+
+    const contentType = report.contentType as ReportContentType;
+    const targetUserId = report.reportedUserId;
+    const reason =
+      note?.trim() ||
+      REPORT_REASONS.find((r) => r.value === report.reason)?.label ||
+      report.reason;
+
+    if (action !== 'DISMISS' && !targetUserId) {
+      return NextResponse.json(
+        { error: 'This report has no user to act on' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'REMOVE_CONTENT' && contentType === 'user') {
+      return NextResponse.json(
+        { error: 'Profiles cannot be removed; suspend the user instead' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'SUSPEND') {
+      if (targetUserId === adminId) {
+        return NextResponse.json(
+          { error: 'You cannot suspend yourself' },
+          { status: 400 }
+        );
+      }
+
+      const targetUser = await prisma.user.findUnique({
+        where: { id: targetUserId! },
+        select: { isAdmin: true },
+      });
+
+      if (!targetUser) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+
+      if (targetUser.isAdmin) {
+        return NextResponse.json(
+          { error: 'Admins cannot be suspended' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const now = new Date();
+    const suspendedUntil =
+      action === 'SUSPEND' && durationDays
+        ? new Date(now.getTime() + durationDays * 24 * 60 * 60 * 1000)
+        : null;
+
+    const resolved = await prisma.$transaction(async (tx) => {
+      const resolution = {
+        reviewedByAdminId: adminId,
+        reviewedAt: now,
+      };
+
+      // Claim the report first, so two admins acting on it at once can't
+      // both apply their action
+      const { count } = await tx.reportedContent.updateMany({
+        where: { id: report.id, status: 'PENDING' },
+        data: { ...resolution, ...REPORT_OUTCOMES[action] },
+      });
+      if (count === 0) return false;
+
+      switch (action) {
+        case 'DISMISS':
+          await logAdminAction(tx, {
+            adminId,
+            action: 'REPORT_DISMISSED',
+            targetUserId,
+            targetEntityType: contentType,
+            targetEntityId: report.contentId,
+            reason,
+            details: { reportId: report.id },
+          });
+          break;
+
+        case 'WARN':
+          await logAdminAction(tx, {
+            adminId,
+            action: 'USER_WARNED',
+            targetUserId,
+            targetEntityType: contentType,
+            targetEntityId: report.contentId,
+            reason,
+            details: { reportId: report.id },
+          });
+          break;
+
+        case 'REMOVE_CONTENT': {
+          const removed = await removeContent(
+            tx,
+            contentType as Exclude<ReportContentType, 'user'>,
+            report.contentId
+          );
+          // Close every other open report about the same content
+          await tx.reportedContent.updateMany({
+            where: {
+              contentType: report.contentType,
+              contentId: report.contentId,
+              status: 'PENDING',
+            },
+            data: { ...resolution, status: 'ACTIONED', action: 'DELETED' },
+          });
+          await logAdminAction(tx, {
+            adminId,
+            action: 'CONTENT_REMOVED',
+            targetUserId,
+            targetEntityType: contentType,
+            targetEntityId: report.contentId,
+            reason,
+            details: { reportId: report.id, alreadyDeleted: !removed },
+          });
+          break;
+        }
+
+        case 'SUSPEND':
+          await tx.user.update({
+            where: { id: targetUserId! },
+            data: {
+              status: 'SUSPENDED',
+              suspendedUntil,
+              suspensionReason: reason,
+            },
+          });
+          await logAdminAction(tx, {
+            adminId,
+            action: 'USER_SUSPENDED',
+            targetUserId,
+            targetEntityType: 'user',
+            targetEntityId: targetUserId,
+            reason,
+            details: {
+              reportId: report.id,
+              suspendedUntil: suspendedUntil?.toISOString() ?? 'permanent',
+            },
+          });
+          break;
+      }
+
+      return true;
+    });
+
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'This report has already been resolved' },
+        { status: 409 }
+      );
+    }
+
+    // Let the user know why their account or content was actioned
+    if (action === 'WARN') {
+      await createNotification({
+        userId: targetUserId!,
+        type: 'ADMIN_WARNING',
+        title: 'Community guidelines warning',
+        message: `A moderator reviewed a report about your ${contentType} and issued a warning: ${reason}`,
+      });
+    } else if (action === 'REMOVE_CONTENT') {
+      await createNotification({
+        userId: targetUserId!,
+        type: 'CONTENT_REMOVED',
+        title: 'Content removed',
+        message: `Your ${contentType} was removed by a moderator: ${reason}`,
+      });
+    } else if (action === 'SUSPEND') {
+      // Kick the user out of any open tabs right away
+      await disconnectUsers([targetUserId!]);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Report resolved',
+    });
+  } catch (error) {
+    console.error('Error resolving report:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Admin Reports API Route
+ *
+ * Returns the moderation queue for admins, filtered by report status,
+ * with the reporter, the reported user and a preview of the content.
+ *
+ * @fileoverview GET /api/admin/reports
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { PAGINATION } from '@/lib/constants';
+import { getAdminUserId, getContentPreviews } from '@/lib/moderation';
+import type {
+  AdminReportItem,
+  ReportContentType,
+  ReportStatus,
+} from '@/lib/types/moderation';
+
+export const dynamic = 'force-dynamic';
+
+const REPORT_STATUSES: ReportStatus[] = [
+  'PENDING',
+  'REVIEWED',
+  'DISMISSED',
+  'ACTIONED',
+];
+
+export async function GET(request: NextRequest) {
+  try {
+    const adminId = await getAdminUserId();
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') || 'PENDING';
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const pageSize = Math.min(
+      PAGINATION.MAX_PAGE_SIZE,
+      Math.max(
+        1,
+        parseInt(
+          searchParams.get('limit') || String(PAGINATION.DEFAULT_PAGE_SIZE)
+        )
+      )
+    );
+
+    if (!REPORT_STATUSES.includes(statusParam as ReportStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const where = { status: statusParam };
+
+    const [reports, totalItems] = await Promise.all([
+      prisma.reportedContent.findMany({
+        where,
+        // Oldest first so the queue is worked in order
+        orderBy: { createdAt: statusParam === 'PENDING' ? 'asc' : 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.reportedContent.count({ where }),
+    ]);
+
+    const userIds = [
+      ...new Set(
+        reports.flatMap((r) =>
+          [r.reportedByUserId, r.reportedUserId].filter(
+            (id): id is string => !!id
+          )
+        )
+      ),
+    ];
+
+    const [users, previews] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: {
+          id: true,
+          fullName: true,
+          name: true,
+          image: true,
+          status: true,
+        },
+      }),
+      getContentPreviews(reports),
+    ]);
+    const usersById = new Map(users.map((u) => [u.id, u]));
+
+    const toReportUser = (id: string | null) => {
+      const user = id ? usersById.get(id) : undefined;
+      return user
+        ? {
+            id: user.id,
+            name: user.fullName || user.name || 'User',
+            image: user.image,
+            status: user.status,
+          }
+        : null;
+    };
+
+    const items: AdminReportItem[] = reports.map((report) => ({
+      id: report.id,
+      contentType: report.contentType as ReportContentType,
+      contentId: report.contentId,
+      reason: report.reason,
+      description: report.description,
+      status: report.status as ReportStatus,
+      action: report.action,
+      createdAt: report.createdAt,
+      reviewedAt: report.reviewedAt,
+      reportedBy: toReportUser(report.reportedByUserId),
+      reportedUser: toReportUser(report.reportedUserId),
+      contentPreview:
+        previews.get(`${report.contentType}:${report.contentId}`) ?? null,
+    }));
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return NextResponse.json({
+      reports: items,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reports' },
+      { status: 500 }
+    );
+  }
+}
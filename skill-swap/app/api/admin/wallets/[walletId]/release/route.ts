@@ -0,0 +1,64 @@
+/**
+ * Admin Wallet Release API Route
+ *
+ * Returns outgoing credits that no PENDING hold accounts for to the
+ * wallet's available balance. Recorded in the AdminLog.
+ *
+ * @fileoverview POST /api/admin/wallets/[walletId]/release
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUserId } from '@/lib/moderation';
+import {
+  releaseUnbackedOutgoing,
+  WalletRepairError,
+} from '@/lib/wallet-repair';
+
+const MAX_NOTE_LENGTH = 500;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ walletId: string }> }
+) {
+  try {
+    const adminId = await getAdminUserId();
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { walletId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { note } = body as { note?: string };
+
+    if (
+      note != null &&
+      (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `Note must be ${MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const { amount } = await releaseUnbackedOutgoing(adminId, walletId, note);
+
+    return NextResponse.json({
+      success: true,
+      message: `Released ${amount} credits back to the wallet`,
+      amount,
+    });
+  } catch (error) {
+    if (error instanceof WalletRepairError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error releasing wallet credits:', error);
+    return NextResponse.json(
+      { error: 'Failed to release wallet credits' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Admin Hold Repair API Route
+ *
+ * Resolves an orphaned hold with one of the repair actions:
+ * - RELEASE: refund the held credits to the payer's available balance
+ * - REVERSE: void the hold without moving credits, for holds whose
+ *   credits have already left the outgoing balance
+ *
+ * Every repair is recorded in the AdminLog.
+ *
+ * @fileoverview PATCH /api/admin/wallets/holds/[transactionId]
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUserId } from '@/lib/moderation';
+import { repairHold, WalletRepairError } from '@/lib/wallet-repair';
+import type { HoldRepairAction } from '@/lib/types/wallets';
+
+const REPAIR_ACTIONS: HoldRepairAction[] = ['RELEASE', 'REVERSE'];
+
+const MAX_NOTE_LENGTH = 500;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ transactionId: string }> }
+) {
+  try {
+    const adminId = await getAdminUserId();
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { transactionId } = await params;
+    const body = await request.json();
+    const { action, note } = body as {
+      action: HoldRepairAction;
+      note?: string;
+    };
+
+    if (!REPAIR_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    if (
+      note != null &&
+      (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `Note must be ${MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const { amount } = await repairHold(adminId, transactionId, action, note);
+
+    return NextResponse.json({
+      success: true,
+      message:
+        action === 'RELEASE'
+          ? `Released ${amount} credits back to the wallet`
+          : 'Hold reversed',
+      amount,
+    });
+  } catch (error) {
+    if (error instanceof WalletRepairError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error repairing hold:', error);
+    return NextResponse.json(
+      { error: 'Failed to repair hold' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Admin Wallets API Route
+ *
+ * Returns the wallet repair report for admins: wallets whose outgoing
+ * balance doesn't match their PENDING holds, and holds left behind by
+ * requests or sessions that no longer need them.
+ *
+ * @fileoverview GET /api/admin/wallets
+ */
+import { NextResponse } from 'next/server';
+import { getAdminUserId } from '@/lib/moderation';
+import { getWalletRepairReport } from '@/lib/wallet-repair';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const adminId = await getAdminUserId();
+
+    if (!adminId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const report = await getWalletRepairReport();
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fetching wallet report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch wallet report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Forgot Password API Route
+ *
+ * Emails a password reset link to credentials accounts. The response is
+ * the same whether or not the email is registered, so it can't be used
+ * to discover accounts.
+ *
+ * @fileoverview POST /api/auth/forgot-password
+ */
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getAppUrl, passwordResetEmail, sendMail } from '@/lib/mail';
+import { getLastTokenIssuedAt, issueToken } from '@/lib/verification-tokens';
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Minimum gap between reset emails to the same address
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+const GENERIC_RESPONSE = {
+  message:
+    'If an account exists for that email, we have sent a link to reset the password.',
+};
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const email =
+      typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+
+    // Validate email format
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      return NextResponse.json(
+        { error: 'Invalid email format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, passwordHash: true },
+    });
+
+    // OAuth-only accounts have no password to reset
+    if (!user?.passwordHash) {
+      return NextResponse.json(GENERIC_RESPONSE);
+    }
+
+    const lastIssuedAt = await getLastTokenIssuedAt(
+      'password-reset',
+      email,
+      PASSWORD_RESET_TTL_MS
+    );
+    if (
+      lastIssuedAt &&
+      Date.now() - lastIssuedAt.getTime() < RESEND_INTERVAL_MS
+    ) {
+      return NextResponse.json(GENERIC_RESPONSE);
+    }
+
+    const token = await issueToken(
+      'password-reset',
+      email,
+      PASSWORD_RESET_TTL_MS
+    );
+    const resetUrl = getAppUrl(
+      `/reset-password?token=${encodeURIComponent(token)}`
+    );
+
+    await sendMail(
+      passwordResetEmail(email, resetUrl, PASSWORD_RESET_TTL_MS / 60000)
+    );
+
+    return NextResponse.json(GENERIC_RESPONSE);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while requesting a password reset' },
+      { status: 500 }
+    );
+  }
+}
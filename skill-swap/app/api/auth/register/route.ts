@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { openWallet } from '@/lib/ledger';
 
 export async function POST(request: Request) {
   try {
@@ -47,42 +49,29 @@ export async function POST(request: Request) {
     // Hash password
     const passwordHash = await bcrypt.hash(password, 12);
 
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        email: email.toLowerCase(),
-        fullName,
-        name: fullName,
-        passwordHash,
-        isVerified: false,
-      },
-    });
+    // Create user and wallet with the welcome bonus
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email: email.toLowerCase(),
+          fullName,
+          name: fullName,
+          passwordHash,
+          isVerified: false,
+        },
+      });
 
-    // Create wallet with initial 100 credits
-    await prisma.wallet.create({
-      data: {
-        userId: user.id,
-        availableBalance: 100,
-        outgoingBalance: 0,
-        incomingBalance: 0,
-      },
-    });
+      await openWallet(tx, created.id);
 
-    // Create initial transaction record
-    const wallet = await prisma.wallet.findUnique({
-      where: { userId: user.id },
+      return created;
     });
 
-    if (wallet) {
-      await prisma.transaction.create({
-        data: {
-          walletId: wallet.id,
-          amount: 100,
-          type: 'INITIAL_ALLOCATION',
-          status: 'COMPLETED',
-          note: 'Welcome bonus credits',
-        },
-      });
+    // The account works without it, so a mail failure shouldn't fail
+    // the sign-up; the user can resend the link from Settings
+    try {
+      await sendVerificationEmail(user.email);
+    } catch (mailError) {
+      console.error('Error sending verification email:', mailError);
     }
 
     return NextResponse.json(
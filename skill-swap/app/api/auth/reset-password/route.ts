@@ -0,0 +1,73 @@
+/**
+ * Reset Password API Route
+ *
+ * Sets a new password using a token from a password reset email.
+ * Tokens expire after an hour and are deleted once used.
+ *
+ * @fileoverview POST /api/auth/reset-password
+ */
+import { NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@/lib/prisma';
+import { consumeToken } from '@/lib/verification-tokens';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { token, password } = body;
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'Reset token is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate password strength
+    if (typeof password !== 'string' || password.length < 8) {
+      return NextResponse.json(
+        { error: 'Password must be at least 8 characters' },
+        { status: 400 }
+      );
+    }
+
+    const email = await consumeToken('password-reset', token);
+
+    if (!email) {
+      return NextResponse.json(
+        {
+          error:
+            'This reset link is invalid or has expired. Please request a new one.',
+        },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await bcrypt.hash(password, 12);
+
+    const { count } = await prisma.user.updateMany({
+      where: { email },
+      data: { passwordHash },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          error:
+            'This reset link is invalid or has expired. Please request a new one.',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Your password has been reset. You can now log in.',
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while resetting your password' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import jwt from 'jsonwebtoken';
 
 export async function GET() {
@@ -9,6 +10,10 @@ export async function GET() {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  // Suspended users must not be able to open a socket
+  const suspended = await rejectSuspendedUser((session.user as any).id);
+  if (suspended) return suspended;
+
   // We sign a token that simply contains the User ID
   // This token is valid for only 1 minute (short-lived for security)
   // The User ID must match what is in your database (session.user.id)
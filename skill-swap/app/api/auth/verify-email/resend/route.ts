@@ -0,0 +1,65 @@
+/**
+ * Resend Verification Email API Route
+ *
+ * Sends a fresh verification link to the signed-in user. Limited to one
+ * email a minute per address.
+ *
+ * @fileoverview POST /api/auth/verify-email/resend
+ */
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  getResendCooldownMs,
+  sendVerificationEmail,
+} from '@/lib/email-verification';
+
+export async function POST() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, isVerified: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (user.isVerified) {
+      return NextResponse.json(
+        { error: 'Your email address is already verified' },
+        { status: 400 }
+      );
+    }
+
+    const cooldownMs = await getResendCooldownMs(user.email);
+    if (cooldownMs > 0) {
+      const retryAfter = Math.ceil(cooldownMs / 1000);
+      return NextResponse.json(
+        {
+          error: `Please wait ${retryAfter} seconds before requesting another email`,
+          retryAfter,
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    await sendVerificationEmail(user.email);
+
+    return NextResponse.json({
+      message: `We've sent a new verification link to ${user.email}.`,
+    });
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while sending the verification email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Verify Email API Route
+ *
+ * Confirms a credentials account's email address using the token from
+ * the verification email. Tokens expire after 24 hours and are deleted
+ * once used.
+ *
+ * @fileoverview POST /api/auth/verify-email
+ */
+import { NextResponse } from 'next/server';
+import { verifyEmailToken } from '@/lib/email-verification';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { token } = body;
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'Verification token is required' },
+        { status: 400 }
+      );
+    }
+
+    const verified = await verifyEmailToken(token);
+
+    if (!verified) {
+      return NextResponse.json(
+        {
+          error:
+            'This verification link is invalid or has expired. Please request a new one.',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Your email address has been verified.',
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while verifying your email' },
+      { status: 500 }
+    );
+  }
+}
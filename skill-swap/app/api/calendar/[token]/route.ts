@@ -0,0 +1,39 @@
+/**
+ * Calendar Feed API Route
+ *
+ * GET - The iCalendar feed of the user the secret token belongs to, for
+ * calendar apps to subscribe to. The token is the credential, so there is
+ * no session check. The URL ends in ".ics", which some clients expect.
+ *
+ * @fileoverview GET /api/calendar/[token].ics
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getCalendarFeed } from '@/lib/calendar';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const feed = await getCalendarFeed(token.replace(/\.ics$/, ''));
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return new NextResponse(feed, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="skillswap-sessions.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    );
+  }
+}
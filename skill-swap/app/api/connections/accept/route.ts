@@ -12,9 +12,11 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { rejectUnverifiedUser } from '@/lib/email-verification';
 import { prisma } from '@/lib/prisma';
-
-const CONNECTION_COST = 5;
+import { createNotification } from '@/lib/notifications';
+import { ledgerReference, settleHold } from '@/lib/ledger';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,6 +26,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const unverified = await rejectUnverifiedUser(session.user.id);
+    if (unverified) return unverified;
+
     const body = await request.json();
     const { requestId } = body;
 
@@ -86,23 +94,25 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // 2. Update sender's wallet: remove from outgoingBalance (credits already deducted from available)
-      await tx.wallet.update({
-        where: { userId: senderId },
+      // 2. Record the receiver's receipt, then pay the held fee from the
+      // sender's outgoing to the receiver's available balance
+      const receipt = await tx.transaction.create({
         data: {
-          outgoingBalance: { decrement: creditsToTransfer },
+          walletId: receiverWallet.id,
+          amount: creditsToTransfer,
+          type: 'CONNECTION_REQUEST_RECEIVED',
+          status: 'COMPLETED',
+          relatedUserId: senderId,
+          note: `Connection request accepted - received ${creditsToTransfer} credits`,
         },
       });
 
-      // 3. Update receiver's wallet: add to availableBalance
-      await tx.wallet.update({
-        where: { userId: receiverId },
-        data: {
-          availableBalance: { increment: creditsToTransfer },
-        },
+      await settleHold(tx, senderWallet.id, receiverWallet.id, creditsToTransfer, {
+        reference: ledgerReference('connection_request', connectionRequest.id),
+        transactionId: receipt.id,
       });
 
-      // 4. Update sender's transaction to COMPLETED and remove request reference
+      // 3. Update sender's transaction to COMPLETED and remove request reference
       if (connectionRequest.transaction) {
         await tx.transaction.update({
           where: { id: connectionRequest.transaction.id },
@@ -114,19 +124,7 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      // 5. Create transaction record for receiver (credits received)
-      await tx.transaction.create({
-        data: {
-          walletId: receiverWallet.id,
-          amount: creditsToTransfer,
-          type: 'CONNECTION_REQUEST_RECEIVED',
-          status: 'COMPLETED',
-          relatedUserId: senderId,
-          note: `Connection request accepted - received ${creditsToTransfer} credits`,
-        },
-      });
-
-      // 6. Create or reactivate Connection record between the two users
+      // 4. Create or reactivate Connection record between the two users
       // Always put the smaller ID as user1Id for consistency
       const [user1Id, user2Id] =
         senderId < receiverId ? [senderId, receiverId] : [receiverId, senderId];
@@ -147,7 +145,7 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // 7. Delete the connection request from database
+      // 5. Delete the connection request from database
       // This keeps the table clean and allows future requests if connection is ended
       await tx.connectionRequest.delete({
         where: { id: connectionRequest.id },
@@ -156,6 +154,16 @@ export async function POST(request: NextRequest) {
       return connection;
     });
 
+    await createNotification({
+      userId: senderId,
+      type: 'CONNECTION_ACCEPTED',
+      title: 'Connection request accepted',
+      message: `${session.user.name || 'Someone'} accepted your connection request`,
+      relatedUserId: receiverId,
+      relatedEntityId: result.id,
+      relatedEntityType: 'connection',
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Connection request accepted successfully',
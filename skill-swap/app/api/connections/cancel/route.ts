@@ -11,7 +11,9 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { ledgerReference, releaseHold } from '@/lib/ledger';
 
 export async function DELETE(request: NextRequest) {
   try {
@@ -21,6 +23,9 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const body = await request.json();
     const { receiverId } = body;
 
@@ -85,12 +90,9 @@ export async function DELETE(request: NextRequest) {
       });
 
       // 3. Refund credits: move from outgoingBalance back to availableBalance
-      await tx.wallet.update({
-        where: { userId: senderId },
-        data: {
-          availableBalance: { increment: creditsToRefund },
-          outgoingBalance: { decrement: creditsToRefund },
-        },
+      await releaseHold(tx, senderWallet.id, creditsToRefund, {
+        reference: ledgerReference('connection_request', connectionRequest.id),
+        transactionId,
       });
     });
 
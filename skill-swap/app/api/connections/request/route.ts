@@ -5,16 +5,23 @@
  * When a request is sent:
  * 1. Validates the sender has sufficient balance
  * 2. Creates a connection request record
- * 3. Puts 5 credits on hold in sender's outgoingBalance
+ * 3. Puts the connection request fee on hold in sender's outgoingBalance
  * 4. Creates a pending transaction record
  *
  * @fileoverview POST /api/connections/request
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { rejectUnverifiedUser } from '@/lib/email-verification';
 import { prisma } from '@/lib/prisma';
-
-const CONNECTION_COST = 5;
+import { createNotification } from '@/lib/notifications';
+import { CONNECTION_REQUEST_COST } from '@/lib/pricing';
+import {
+  holdCredits,
+  InsufficientCreditsError,
+  ledgerReference,
+} from '@/lib/ledger';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,6 +31,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const unverified = await rejectUnverifiedUser(session.user.id);
+    if (unverified) return unverified;
+
     const body = await request.json();
     const { receiverId } = body;
 
@@ -133,7 +146,7 @@ export async function POST(request: NextRequest) {
     );
 
     // Check if sender has sufficient available balance
-    if (senderWallet.availableBalance < CONNECTION_COST) {
+    if (senderWallet.availableBalance < CONNECTION_REQUEST_COST) {
       console.log(
         '[Connection Request] Blocked: Insufficient balance',
         senderWallet.availableBalance
@@ -141,7 +154,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           error: 'Insufficient balance',
-          message: `You need at least ${CONNECTION_COST} credits to send a connection request. Your current balance is ${senderWallet.availableBalance} credits.`,
+          message: `You need at least ${CONNECTION_REQUEST_COST} credits to send a connection request. Your current balance is ${senderWallet.availableBalance} credits.`,
         },
         { status: 400 }
       );
@@ -149,30 +162,26 @@ export async function POST(request: NextRequest) {
 
     // Use a transaction to ensure atomicity
     const result = await prisma.$transaction(async (tx) => {
+      // Clear an earlier expired request so the pair can request again
+      await tx.connectionRequest.deleteMany({
+        where: { senderId, receiverId, status: 'EXPIRED' },
+      });
+
       // Create a new connection request
       const connectionRequest = await tx.connectionRequest.create({
         data: {
           senderId,
           receiverId,
           status: 'PENDING',
-          creditsHeld: CONNECTION_COST,
-        },
-      });
-
-      // Update sender's wallet - move credits from available to outgoing
-      await tx.wallet.update({
-        where: { userId: senderId },
-        data: {
-          availableBalance: { decrement: CONNECTION_COST },
-          outgoingBalance: { increment: CONNECTION_COST },
+          creditsHeld: CONNECTION_REQUEST_COST,
         },
       });
 
       // Create a transaction record for tracking
-      await tx.transaction.create({
+      const holdTransaction = await tx.transaction.create({
         data: {
           walletId: senderWallet.id,
-          amount: CONNECTION_COST,
+          amount: CONNECTION_REQUEST_COST,
           type: 'CONNECTION_REQUEST_SENT',
           status: 'PENDING',
           relatedUserId: receiverId,
@@ -183,9 +192,25 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // Move the fee from the sender's available to outgoing balance
+      await holdCredits(tx, senderWallet.id, CONNECTION_REQUEST_COST, {
+        reference: ledgerReference('connection_request', connectionRequest.id),
+        transactionId: holdTransaction.id,
+      });
+
       return connectionRequest;
     });
 
+    await createNotification({
+      userId: receiverId,
+      type: 'CONNECTION_REQUEST',
+      title: 'New connection request',
+      message: `${session.user.name || 'Someone'} wants to connect with you`,
+      relatedUserId: senderId,
+      relatedEntityId: result.id,
+      relatedEntityType: 'connection_request',
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Connection request sent successfully',
@@ -200,6 +225,17 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Error sending connection request:', error);
 
+    // Balance changed between the check above and the hold
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        {
+          error: 'Insufficient balance',
+          message: `You need at least ${CONNECTION_REQUEST_COST} credits to send a connection request.`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Handle unique constraint violation (duplicate request)
     if (error instanceof Error && error.message.includes('Unique constraint')) {
       return NextResponse.json(
@@ -7,6 +7,7 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
 
 export async function GET(request: NextRequest) {
@@ -17,6 +18,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
 
     // Fetch active connections where user is either user1 or user2
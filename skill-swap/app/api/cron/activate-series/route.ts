@@ -0,0 +1,34 @@
+/**
+ * Activate Series Cron Route
+ *
+ * Scheduled job (see vercel.json) that reserves credits for recurring
+ * series occurrences starting soon and makes them active, cancelling
+ * occurrences the learner can't cover. Requires the CRON_SECRET as a
+ * bearer token.
+ *
+ * @fileoverview GET /api/cron/activate-series
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { activateUpcomingOccurrences } from '@/lib/session-series';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await activateUpcomingOccurrences();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error activating series sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to activate series sessions' },
+      { status: 500 }
+    );
+  }
+}
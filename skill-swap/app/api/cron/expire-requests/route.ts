@@ -0,0 +1,33 @@
+/**
+ * Expire Requests Cron Route
+ *
+ * Scheduled job (see vercel.json) that expires stale pending connection
+ * and session requests and refunds their held credits. Requires the
+ * CRON_SECRET as a bearer token.
+ *
+ * @fileoverview GET /api/cron/expire-requests
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { expireStaleRequests } from '@/lib/request-expiry';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await expireStaleRequests();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error expiring requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to expire requests' },
+      { status: 500 }
+    );
+  }
+}
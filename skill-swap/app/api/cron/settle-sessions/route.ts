@@ -0,0 +1,37 @@
+/**
+ * Settle Sessions Cron Route
+ *
+ * Scheduled job (see vercel.json) that auto-completes sessions only one
+ * party confirmed, or marks them disputed if the other party asked to
+ * cancel, once they are past their end date. Group sessions past their
+ * end date have their waiting seats paid out or refunded. Requires the
+ * CRON_SECRET as a bearer token.
+ *
+ * @fileoverview GET /api/cron/settle-sessions
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { settleOverdueGroupSessions } from '@/lib/group-sessions';
+import { settleOverdueSessions } from '@/lib/session-settlement';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await settleOverdueSessions();
+    const groupSessions = await settleOverdueGroupSessions();
+
+    return NextResponse.json({ success: true, ...result, groupSessions });
+  } catch (error) {
+    console.error('Error settling sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to settle sessions' },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,7 @@
  */
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
 
 export const dynamic = 'force-dynamic';
@@ -28,6 +29,9 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
 
     // Fetch all data in parallel for better performance
@@ -109,11 +113,11 @@ export async function GET() {
         },
       }),
 
-      // Upcoming sessions (active sessions with future start date)
+      // Upcoming sessions (active or scheduled sessions with future start date)
       prisma.session.findMany({
         where: {
           OR: [{ learnerId: userId }, { providerId: userId }],
-          status: 'ACTIVE',
+          status: { in: ['ACTIVE', 'SCHEDULED'] },
           startDate: { gte: new Date() },
         },
         select: {
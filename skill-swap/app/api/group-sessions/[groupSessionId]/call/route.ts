@@ -0,0 +1,87 @@
+/**
+ * Group Session Call API Route
+ *
+ * POST - Get a LiveKit token for the group session's room. Only the
+ * provider and learners holding a seat can join, and only while the
+ * session is open.
+ *
+ * @fileoverview POST /api/group-sessions/[groupSessionId]/call
+ */
+import { AccessToken } from 'livekit-server-sdk';
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { FEATURES } from '@/lib/constants';
+import {
+  getGroupCallSession,
+  GroupSessionError,
+  groupSessionRoomName,
+} from '@/lib/group-sessions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupSessionId: string }> }
+) {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { groupSessionId } = await params;
+    const groupSession = await getGroupCallSession(groupSessionId, session.user.id);
+
+    const apiKey = process.env.LIVEKIT_API_KEY;
+    const apiSecret = process.env.LIVEKIT_API_SECRET;
+    const liveKitUrl = process.env.NEXT_PUBLIC_LIVEKIT_URL;
+
+    if (!apiKey || !apiSecret || !liveKitUrl) {
+      console.error('LiveKit credentials not configured');
+      return NextResponse.json(
+        { error: 'LiveKit server not configured' },
+        { status: 500 }
+      );
+    }
+
+    const roomName = groupSessionRoomName(groupSession.id);
+    const at = new AccessToken(apiKey, apiSecret, {
+      identity: session.user.id,
+      name: session.user.name || 'Attendee',
+    });
+
+    at.addGrant({
+      roomJoin: true,
+      room: roomName,
+      canPublish: true,
+      canPublishData: true,
+      canSubscribe: true,
+    });
+
+    return NextResponse.json({
+      token: await at.toJwt(),
+      url: liveKitUrl,
+      roomName,
+    });
+  } catch (error) {
+    if (error instanceof GroupSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error generating group session token:', error);
+    return NextResponse.json(
+      { error: 'Failed to join the call' },
+      { status: 500 }
+    );
+  }
+}
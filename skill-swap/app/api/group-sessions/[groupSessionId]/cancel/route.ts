@@ -0,0 +1,65 @@
+/**
+ * Cancel Group Session API Route
+ *
+ * Cancels a group session as its provider and refunds every seat. Not
+ * possible once a seat has been completed.
+ *
+ * @fileoverview POST /api/group-sessions/[groupSessionId]/cancel
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { FEATURES } from '@/lib/constants';
+import { cancelGroupSession, GroupSessionError } from '@/lib/group-sessions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupSessionId: string }> }
+) {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { groupSessionId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { reason } = body as { reason?: string };
+
+    const { seatsRefunded } = await cancelGroupSession({
+      groupSessionId,
+      userId: session.user.id,
+      reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message:
+        seatsRefunded > 0
+          ? `Group session cancelled. ${seatsRefunded} attendee${seatsRefunded === 1 ? ' has' : 's have'} been refunded.`
+          : 'Group session cancelled',
+      seatsRefunded,
+    });
+  } catch (error) {
+    if (error instanceof GroupSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error cancelling group session:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel group session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Group Session Completion API Route
+ *
+ * POST - Confirm completion once the session has started. Learners
+ * confirm their own seat; the provider confirms the seat in `seatId`, or
+ * every seat when it's omitted. Each seat's credits transfer to the
+ * provider once both sides have confirmed it.
+ *
+ * @fileoverview POST /api/group-sessions/[groupSessionId]/complete
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { FEATURES } from '@/lib/constants';
+import { confirmGroupCompletion, GroupSessionError } from '@/lib/group-sessions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupSessionId: string }> }
+) {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { groupSessionId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { seatId } = body as { seatId?: string };
+
+    const result = await confirmGroupCompletion({
+      groupSessionId,
+      userId: session.user.id,
+      userName: session.user.name || 'Your partner',
+      seatId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message:
+        result.seatsCompleted > 0
+          ? `Completion confirmed. ${result.creditsTransferred} credits have been transferred.`
+          : 'Completion confirmed. Waiting for the other side to confirm.',
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof GroupSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error confirming group session completion:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm completion' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Join Group Session API Route
+ *
+ * Takes a seat in an open group session. The seat's credits are held
+ * until the seat is completed, or refunded if the learner leaves before
+ * the session starts or the provider cancels it.
+ *
+ * @fileoverview POST /api/group-sessions/[groupSessionId]/join
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { rejectUnverifiedUser } from '@/lib/email-verification';
+import { FEATURES } from '@/lib/constants';
+import { GroupSessionError, joinGroupSession } from '@/lib/group-sessions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupSessionId: string }> }
+) {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const unverified = await rejectUnverifiedUser(session.user.id);
+    if (unverified) return unverified;
+
+    const { groupSessionId } = await params;
+
+    const { creditsHeld } = await joinGroupSession({
+      groupSessionId,
+      userId: session.user.id,
+      userName: session.user.name || 'A learner',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `You're in! ${creditsHeld} credits are reserved for your seat.`,
+      creditsHeld,
+    });
+  } catch (error) {
+    if (error instanceof GroupSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error joining group session:', error);
+    return NextResponse.json(
+      { error: 'Failed to join group session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Leave Group Session API Route
+ *
+ * Gives up the user's seat before the session starts and refunds the
+ * seat's credits.
+ *
+ * @fileoverview POST /api/group-sessions/[groupSessionId]/leave
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { FEATURES } from '@/lib/constants';
+import { GroupSessionError, leaveGroupSession } from '@/lib/group-sessions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupSessionId: string }> }
+) {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { groupSessionId } = await params;
+
+    const { creditsRefunded } = await leaveGroupSession({
+      groupSessionId,
+      userId: session.user.id,
+      userName: session.user.name || 'A learner',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `You left the session. ${creditsRefunded} credits have been refunded.`,
+      creditsRefunded,
+    });
+  } catch (error) {
+    if (error instanceof GroupSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error leaving group session:', error);
+    return NextResponse.json(
+      { error: 'Failed to leave group session' },
+      { status: 500 }
+    );
+  }
+}
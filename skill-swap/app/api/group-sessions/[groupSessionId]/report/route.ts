@@ -0,0 +1,79 @@
+/**
+ * Report Group Session Problem API Route
+ *
+ * Reports, as a seated learner, that a group session which has started
+ * didn't happen as agreed. The seat's credits are refunded when the
+ * session is settled instead of going to the provider.
+ *
+ * @fileoverview POST /api/group-sessions/[groupSessionId]/report
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { FEATURES, VALIDATION } from '@/lib/constants';
+import {
+  GroupSessionError,
+  reportGroupSessionProblem,
+} from '@/lib/group-sessions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupSessionId: string }> }
+) {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { groupSessionId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { reason } = body as { reason?: string };
+
+    if (
+      reason != null &&
+      (typeof reason !== 'string' ||
+        reason.length > VALIDATION.GROUP_REPORT_REASON_MAX_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Reason must be ${VALIDATION.GROUP_REPORT_REASON_MAX_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { creditsHeld } = await reportGroupSessionProblem({
+      groupSessionId,
+      userId: session.user.id,
+      userName: session.user.name || 'A learner',
+      reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Problem reported. Your ${creditsHeld} credits will be refunded when the session is settled.`,
+    });
+  } catch (error) {
+    if (error instanceof GroupSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error reporting group session problem:', error);
+    return NextResponse.json(
+      { error: 'Failed to report problem' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Group Sessions API Route
+ *
+ * GET - Fetch the user's group sessions: those they host, those they hold
+ * a seat in, and open sessions from providers they're connected with
+ * POST - Open a new group session for one of the user's teaching skills
+ *
+ * @fileoverview /api/group-sessions
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { rejectUnverifiedUser } from '@/lib/email-verification';
+import { prisma } from '@/lib/prisma';
+import { FEATURES } from '@/lib/constants';
+import {
+  createGroupSession,
+  GROUP_SESSION_INCLUDE,
+  GroupSessionError,
+  toGroupSessionItem,
+} from '@/lib/group-sessions';
+
+export async function GET() {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const now = new Date();
+
+    const connections = await prisma.connection.findMany({
+      where: {
+        OR: [{ user1Id: userId }, { user2Id: userId }],
+        status: 'ACTIVE',
+      },
+      select: { user1Id: true, user2Id: true },
+    });
+    const connectedIds = connections.map((c) =>
+      c.user1Id === userId ? c.user2Id : c.user1Id
+    );
+
+    const [hosting, joined, available] = await Promise.all([
+      prisma.groupSession.findMany({
+        where: { providerId: userId },
+        include: GROUP_SESSION_INCLUDE,
+        orderBy: { startDate: 'desc' },
+      }),
+      prisma.groupSession.findMany({
+        where: { seats: { some: { learnerId: userId } } },
+        include: GROUP_SESSION_INCLUDE,
+        orderBy: { startDate: 'desc' },
+      }),
+      prisma.groupSession.findMany({
+        where: {
+          providerId: { in: connectedIds },
+          status: 'OPEN',
+          startDate: { gt: now },
+          seats: {
+            none: { learnerId: userId, status: { in: ['JOINED', 'COMPLETED'] } },
+          },
+        },
+        include: GROUP_SESSION_INCLUDE,
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      hosting: hosting.map((gs) => toGroupSessionItem(gs, userId)),
+      // Sessions the user left are only listed as available again
+      joined: joined
+        .map((gs) => toGroupSessionItem(gs, userId))
+        .filter((gs) => gs.mySeat && gs.mySeat.status !== 'LEFT'),
+      available: available.map((gs) => toGroupSessionItem(gs, userId)),
+    });
+  } catch (error) {
+    console.error('Error fetching group sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch group sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!FEATURES.enableGroupSessions) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const unverified = await rejectUnverifiedUser(session.user.id);
+    if (unverified) return unverified;
+
+    const body = await request.json();
+    const {
+      skillId,
+      sessionName,
+      description,
+      mode,
+      startDate,
+      endDate,
+      seatLimit,
+      quotedCredits,
+    } = body as {
+      skillId?: string;
+      sessionName?: string;
+      description?: string;
+      mode?: string;
+      startDate?: string;
+      endDate?: string;
+      seatLimit?: number;
+      quotedCredits?: number;
+    };
+
+    if (!skillId || !sessionName?.trim() || !startDate || !endDate || seatLimit == null) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const groupSession = await createGroupSession({
+      providerId: session.user.id,
+      skillId,
+      sessionName,
+      description,
+      mode,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      seatLimit: Number(seatLimit),
+      quotedCredits: quotedCredits !== undefined ? Number(quotedCredits) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Group session opened. Your connections can now take a seat.',
+      groupSessionId: groupSession.id,
+      creditsPerSeat: groupSession.creditsPerSeat,
+    });
+  } catch (error) {
+    if (error instanceof GroupSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error creating group session:', error);
+    return NextResponse.json(
+      { error: 'Failed to create group session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Single Learning Post API Route
+ *
+ * Fetch, edit, close or delete one learning post. Only the author can
+ * change a post; drafts are visible to the author alone.
+ *
+ * PATCH accepts any editable field plus an optional `status` to publish
+ * a draft, close a post, mark it fulfilled or reopen it.
+ *
+ * @fileoverview GET, PATCH, DELETE /api/learning-posts/[postId]
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getActiveSuspension, rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import {
+  LEARNING_POST_INCLUDE,
+  canTransitionStatus,
+  formatLearningPost,
+  validateLearningPostInput,
+} from '@/lib/learning-posts';
+
+/**
+ * GET - Fetch a learning post
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const { postId } = await params;
+
+    const post = await prisma.learningPost.findUnique({
+      where: { id: postId },
+      include: {
+        ...LEARNING_POST_INCLUDE,
+        author: {
+          select: {
+            ...LEARNING_POST_INCLUDE.author.select,
+            status: true,
+            suspendedUntil: true,
+            suspensionReason: true,
+          },
+        },
+      },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (post.authorId !== userId) {
+      const blocked = await prisma.blockedUser.findFirst({
+        where: {
+          OR: [
+            { blockerId: userId, blockedId: post.authorId },
+            { blockerId: post.authorId, blockedId: userId },
+          ],
+        },
+        select: { id: true },
+      });
+
+      // Drafts, blocked and suspended authors' posts look missing
+      if (
+        post.status === 'draft' ||
+        blocked ||
+        getActiveSuspension(post.author)
+      ) {
+        return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+      }
+    }
+
+    return NextResponse.json({
+      post: formatLearningPost(post),
+      isAuthor: post.authorId === userId,
+    });
+  } catch (error) {
+    console.error('Error fetching learning post:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch learning post' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Edit a learning post or change its status
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const { postId } = await params;
+    const { status, ...fields } = await request.json();
+
+    const post = await prisma.learningPost.findUnique({
+      where: { id: postId },
+      select: {
+        authorId: true,
+        type: true,
+        status: true,
+        skillOffered: true,
+        skillsRequested: true,
+      },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (post.authorId !== userId) {
+      return NextResponse.json(
+        { error: 'You can only edit your own posts' },
+        { status: 403 }
+      );
+    }
+
+    if (
+      status !== undefined &&
+      status !== post.status &&
+      !canTransitionStatus(post.status, status)
+    ) {
+      return NextResponse.json(
+        { error: `A ${post.status} post cannot be marked ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await validateLearningPostInput(fields, userId, post);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const statusChanged = status !== undefined && status !== post.status;
+    const isClosing = status === 'closed' || status === 'fulfilled';
+
+    const updatedPost = await prisma.learningPost.update({
+      where: { id: postId },
+      data: {
+        ...result.data,
+        ...(statusChanged && {
+          status,
+          closedAt: isClosing ? new Date() : null,
+        }),
+      },
+      include: LEARNING_POST_INCLUDE,
+    });
+
+    return NextResponse.json({
+      success: true,
+      post: formatLearningPost(updatedPost),
+    });
+  } catch (error) {
+    console.error('Error updating learning post:', error);
+    return NextResponse.json(
+      { error: 'Failed to update learning post' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a learning post
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { postId } = await params;
+
+    const post = await prisma.learningPost.findUnique({
+      where: { id: postId },
+      select: { authorId: true },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (post.authorId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only delete your own posts' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.learningPost.delete({ where: { id: postId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting learning post:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete learning post' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Learning Posts API Route
+ *
+ * Lists and creates "I can teach X" / "I want to learn Y" posts.
+ *
+ * Query params (GET):
+ * - mine=true: the current user's own posts in any status
+ * - type: teach | learn
+ * - status: filter own posts by status (only with mine=true)
+ * - authorId: active posts by one user (e.g. on their profile)
+ * - q: text search across title, description and skills
+ * - page, limit: pagination
+ *
+ * @fileoverview GET, POST /api/learning-posts
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { activeUserFilter, rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { PAGINATION } from '@/lib/constants';
+import {
+  LEARNING_POST_INCLUDE,
+  POST_STATUSES,
+  POST_TYPES,
+  formatLearningPost,
+  isCreatableStatus,
+  learningPostSearchFilter,
+  validateLearningPostInput,
+  type LearningPostInput,
+} from '@/lib/learning-posts';
+import type { PostStatus, PostType } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - List learning posts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+    const mine = searchParams.get('mine') === 'true';
+    const type = searchParams.get('type');
+    const status = searchParams.get('status');
+    const authorId = searchParams.get('authorId');
+    const query = searchParams.get('q')?.trim();
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const pageSize = Math.min(
+      Math.max(
+        1,
+        parseInt(
+          searchParams.get('limit') || String(PAGINATION.DEFAULT_PAGE_SIZE),
+          10
+        ) || PAGINATION.DEFAULT_PAGE_SIZE
+      ),
+      PAGINATION.MAX_PAGE_SIZE
+    );
+
+    if (type && !POST_TYPES.includes(type as PostType)) {
+      return NextResponse.json({ error: 'Invalid post type' }, { status: 400 });
+    }
+
+    if (status && !POST_STATUSES.includes(status as PostStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const where: Prisma.LearningPostWhereInput = {};
+
+    if (mine) {
+      where.authorId = userId;
+      if (status) where.status = status;
+    } else {
+      // Other users' live posts, hiding blocked and suspended authors
+      const [blockedByMe, blockedMe] = await Promise.all([
+        prisma.blockedUser.findMany({
+          where: { blockerId: userId },
+          select: { blockedId: true },
+        }),
+        prisma.blockedUser.findMany({
+          where: { blockedId: userId },
+          select: { blockerId: true },
+        }),
+      ]);
+
+      const blockedUserIds = [
+        ...blockedByMe.map((b) => b.blockedId),
+        ...blockedMe.map((b) => b.blockerId),
+      ];
+
+      if (authorId && blockedUserIds.includes(authorId)) {
+        return NextResponse.json({
+          posts: [],
+          pagination: {
+            page,
+            pageSize,
+            totalItems: 0,
+            totalPages: 0,
+            hasNextPage: false,
+            hasPreviousPage: false,
+          },
+        });
+      }
+
+      where.status = 'active';
+      where.authorId = authorId
+        ? authorId
+        : { not: userId, notIn: blockedUserIds };
+      where.author = activeUserFilter();
+    }
+
+    if (type) where.type = type;
+    if (query) Object.assign(where, learningPostSearchFilter(query));
+
+    const [totalItems, posts] = await Promise.all([
+      prisma.learningPost.count({ where }),
+      prisma.learningPost.findMany({
+        where,
+        include: LEARNING_POST_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return NextResponse.json({
+      posts: posts.map(formatLearningPost),
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching learning posts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch learning posts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Publish a learning post or save it as a draft
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const body = await request.json();
+    const status = body.status ?? 'active';
+
+    if (!isCreatableStatus(status)) {
+      return NextResponse.json(
+        { error: 'New posts must be active or a draft' },
+        { status: 400 }
+      );
+    }
+
+    const result = await validateLearningPostInput(body, userId);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const post = await prisma.learningPost.create({
+      data: {
+        ...(result.data as LearningPostInput),
+        authorId: userId,
+        status,
+      },
+      include: LEARNING_POST_INCLUDE,
+    });
+
+    return NextResponse.json(
+      { success: true, post: formatLearningPost(post) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating learning post:', error);
+    return NextResponse.json(
+      { error: 'Failed to create learning post' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,19 @@
 import { AccessToken } from 'livekit-server-sdk';
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { isGroupSessionRoom } from '@/lib/group-sessions';
 
 /**
  * POST /api/livekit/token
- * Generates a LiveKit access token for a user to join a video room
+ * Generates a LiveKit access token for the signed-in user to join a video
+ * room. The participant identity is the user's ID. Group session rooms are
+ * rejected; attendees get those tokens from
+ * /api/group-sessions/[groupSessionId]/call.
  *
  * Request body:
  * - roomName: string - Name of the LiveKit room
  * - userName: string - Display name of the participant
- * - userId: string - Unique identifier for the participant
  *
  * Response:
  * - token: string - JWT token for LiveKit access
@@ -16,18 +21,34 @@ import { NextRequest, NextResponse } from 'next/server';
  */
 export async function POST(request: NextRequest) {
   try {
-    const { roomName, userName, userId } = await request.json();
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { roomName, userName } = await request.json();
 
     // Validate required fields
-    if (!roomName || !userName || !userId) {
+    if (!roomName || !userName || typeof roomName !== 'string') {
       return NextResponse.json(
         {
-          error: 'Missing required fields: roomName, userName, userId',
+          error: 'Missing required fields: roomName, userName',
         },
         { status: 400 }
       );
     }
 
+    if (isGroupSessionRoom(roomName)) {
+      return NextResponse.json(
+        { error: 'Join group sessions from the sessions page' },
+        { status: 403 }
+      );
+    }
+
     // Get LiveKit credentials from environment
     const apiKey = process.env.LIVEKIT_API_KEY;
     const apiSecret = process.env.LIVEKIT_API_SECRET;
@@ -45,7 +66,7 @@ export async function POST(request: NextRequest) {
 
     // Create access token
     const at = new AccessToken(apiKey, apiSecret, {
-      identity: userId,
+      identity: session.user.id,
       name: userName,
     });
 
@@ -0,0 +1,72 @@
+/**
+ * Skill Matches API Route
+ *
+ * Suggests users whose offered skills cover the current user's learning
+ * goals, ranked by match score, with mutual matches (they want
+ * something the current user teaches) scored highest.
+ *
+ * Query params:
+ * - limit: number of matches (default 10, max 50)
+ * - format: preferred teaching format (Online | In-Person | Hybrid)
+ * - mutual=true: only mutual matches
+ *
+ * @fileoverview GET /api/matches
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { PAGINATION, SESSION_FORMATS } from '@/lib/constants';
+import { findSkillMatches } from '@/lib/matching';
+
+export const dynamic = 'force-dynamic';
+
+const FORMAT_LABELS: string[] = SESSION_FORMATS.map((f) => f.label);
+
+/**
+ * GET - Suggested skill swap partners
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || undefined;
+    const mutualOnly = searchParams.get('mutual') === 'true';
+    const limit = Math.min(
+      Math.max(
+        1,
+        parseInt(searchParams.get('limit') || '', 10) ||
+          PAGINATION.DEFAULT_PAGE_SIZE
+      ),
+      PAGINATION.MAX_PAGE_SIZE
+    );
+
+    if (format && !FORMAT_LABELS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Invalid teaching format' },
+        { status: 400 }
+      );
+    }
+
+    const matches = await findSkillMatches(session.user.id, {
+      limit,
+      format,
+      mutualOnly,
+    });
+
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error('Error fetching skill matches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch matches' },
+      { status: 500 }
+    );
+  }
+}
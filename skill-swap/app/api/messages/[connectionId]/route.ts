@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import prisma from '@/lib/prisma';
 
 /**
@@ -19,6 +20,9 @@ export async function GET(
     }
 
     const userId = (session.user as any).id;
+
+    const suspended = await rejectSuspendedUser(userId);
+    if (suspended) return suspended;
     const { connectionId } = await params;
 
     // Verify that the user is part of this connection
@@ -149,6 +153,9 @@ export async function DELETE(
     }
 
     const userId = (session.user as any).id;
+
+    const suspended = await rejectSuspendedUser(userId);
+    if (suspended) return suspended;
     const { connectionId } = await params;
 
     // Verify that the user is part of this connection
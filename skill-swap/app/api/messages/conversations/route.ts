@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import prisma from '@/lib/prisma';
 
 /**
@@ -17,6 +18,9 @@ export async function GET(req: NextRequest) {
 
     const userId = (session.user as any).id;
 
+    const suspended = await rejectSuspendedUser(userId);
+    if (suspended) return suspended;
+
     // Get all active connections for this user
     const connections = await prisma.connection.findMany({
       where: {
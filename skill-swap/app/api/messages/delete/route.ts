@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import prisma from '@/lib/prisma';
 
 export async function DELETE(req: NextRequest) {
@@ -17,6 +18,9 @@ export async function DELETE(req: NextRequest) {
     }
 
     const userId = (session.user as any).id;
+
+    const suspended = await rejectSuspendedUser(userId);
+    if (suspended) return suspended;
     const { messageIds, connectionId, deleteForEveryone } = await req.json();
 
     if (!messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { createClient } from '@supabase/supabase-js';
 
 // Initialize Supabase client with service role for storage operations
@@ -73,6 +74,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const connectionId = formData.get('connectionId') as string | null;
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications';
 
 export async function GET(
   request: NextRequest,
@@ -61,6 +63,9 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const { postId } = await params;
     const body = await request.json();
     const { content } = body;
@@ -83,7 +88,7 @@ export async function POST(
     // Check if post exists
     const post = await prisma.newsfeedPost.findUnique({
       where: { id: postId },
-      select: { id: true, authorId: true },
+      select: { id: true, authorId: true, title: true },
     });
 
     if (!post) {
@@ -109,6 +114,16 @@ export async function POST(
       },
     });
 
+    await createNotification({
+      userId: post.authorId,
+      type: 'POST_COMMENT',
+      title: 'New comment on your post',
+      message: `${comment.commenter.fullName || comment.commenter.name || 'Someone'} commented on "${post.title}"`,
+      relatedUserId: session.user.id,
+      relatedEntityId: postId,
+      relatedEntityType: 'post',
+    });
+
     return NextResponse.json(
       {
         id: comment.id,
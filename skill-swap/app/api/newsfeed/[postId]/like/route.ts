@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications';
 
 export async function POST(
   request: NextRequest,
@@ -13,12 +15,15 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const { postId } = await params;
 
     // Check if post exists
     const post = await prisma.newsfeedPost.findUnique({
       where: { id: postId },
-      select: { id: true },
+      select: { id: true, authorId: true, title: true },
     });
 
     if (!post) {
@@ -52,6 +57,16 @@ export async function POST(
         },
       });
       isLiked = true;
+
+      await createNotification({
+        userId: post.authorId,
+        type: 'POST_LIKE',
+        title: 'New like on your post',
+        message: `${session.user.name || 'Someone'} liked "${post.title}"`,
+        relatedUserId: session.user.id,
+        relatedEntityId: postId,
+        relatedEntityType: 'post',
+      });
     }
 
     // Get updated like count
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { activeUserFilter, rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
 import { uploadMediaToStorage } from '@/lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
@@ -15,6 +16,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const { searchParams } = new URL(request.url);
     const cursor = searchParams.get('cursor');
     const limit = parseInt(
@@ -45,6 +49,8 @@ export async function GET(request: NextRequest) {
         authorId: {
           notIn: blockedUserIds,
         },
+        // Hide posts from suspended users
+        author: activeUserFilter(),
       },
       take: limit + 1, // Fetch one extra to determine if there are more posts
       ...(cursor && {
@@ -150,6 +156,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const formData = await request.formData();
     const title = formData.get('title') as string;
     const content = formData.get('content') as string;
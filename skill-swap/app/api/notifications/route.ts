@@ -0,0 +1,132 @@
+/**
+ * Notifications API Route
+ *
+ * GET - Fetch the current user's notifications (paginated)
+ * PATCH - Mark specific notifications, or all of them, as read
+ *
+ * @fileoverview /api/notifications
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { PAGINATION } from '@/lib/constants';
+import { serializeNotifications } from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * A query parameter as a positive integer, or the fallback when it is
+ * missing or not one (e.g. "abc", "0" or "2.5")
+ */
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+    const page = parsePositiveInt(searchParams.get('page'), 1);
+    const pageSize = Math.min(
+      PAGINATION.MAX_PAGE_SIZE,
+      parsePositiveInt(searchParams.get('limit'), PAGINATION.DEFAULT_PAGE_SIZE)
+    );
+    const unreadOnly = searchParams.get('unread') === 'true';
+
+    const whereClause: { userId: string; isRead?: boolean } = { userId };
+    if (unreadOnly) {
+      whereClause.isRead = false;
+    }
+
+    const [notifications, totalItems, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: whereClause,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.notification.count({ where: whereClause }),
+      prisma.notification.count({ where: { userId, isRead: false } }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return NextResponse.json({
+      notifications: await serializeNotifications(notifications),
+      unreadCount,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const body = await request.json();
+    const { notificationIds, markAll } = body;
+
+    if (!markAll && (!Array.isArray(notificationIds) || notificationIds.length === 0)) {
+      return NextResponse.json(
+        { error: 'Provide notificationIds or markAll' },
+        { status: 400 }
+      );
+    }
+
+    // Scope to the current user so nobody can mark someone else's notifications
+    const result = await prisma.notification.updateMany({
+      where: markAll
+        ? { userId, isRead: false }
+        : { userId, id: { in: notificationIds as string[] } },
+      data: { isRead: true },
+    });
+
+    const unreadCount = await prisma.notification.count({
+      where: { userId, isRead: false },
+    });
+
+    return NextResponse.json({
+      success: true,
+      updated: result.count,
+      unreadCount,
+    });
+  } catch (error) {
+    console.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
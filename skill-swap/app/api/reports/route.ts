@@ -0,0 +1,138 @@
+/**
+ * Content Reports API Route
+ *
+ * Lets users flag posts, comments, profiles, reviews and messages for
+ * admin review. Reports land in the moderation queue as PENDING.
+ *
+ * @fileoverview POST /api/reports
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { getContentOwner } from '@/lib/moderation';
+import {
+  REPORT_CONTENT_TYPES,
+  REPORT_REASONS,
+  type ReportContentType,
+} from '@/lib/types/moderation';
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const body = await request.json();
+    const { contentType, contentId, reason, description } = body;
+
+    if (!REPORT_CONTENT_TYPES.includes(contentType)) {
+      return NextResponse.json(
+        { error: 'Invalid content type' },
+        { status: 400 }
+      );
+    }
+
+    if (!contentId || typeof contentId !== 'string') {
+      return NextResponse.json(
+        { error: 'Content ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!REPORT_REASONS.some((r) => r.value === reason)) {
+      return NextResponse.json(
+        { error: 'Please select a reason for the report' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      description != null &&
+      (typeof description !== 'string' ||
+        description.length > MAX_DESCRIPTION_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const owner = await getContentOwner(
+      contentType as ReportContentType,
+      contentId
+    );
+
+    if (
+      !owner ||
+      (owner.participantIds.length > 0 &&
+        !owner.participantIds.includes(userId))
+    ) {
+      return NextResponse.json(
+        { error: 'Content not found' },
+        { status: 404 }
+      );
+    }
+
+    if (owner.ownerId === userId) {
+      return NextResponse.json(
+        { error: 'You cannot report your own content' },
+        { status: 400 }
+      );
+    }
+
+    // One open report per user per piece of content
+    const existingReport = await prisma.reportedContent.findFirst({
+      where: {
+        reportedByUserId: userId,
+        contentType,
+        contentId,
+        status: 'PENDING',
+      },
+      select: { id: true },
+    });
+
+    if (existingReport) {
+      return NextResponse.json(
+        { error: 'You have already reported this' },
+        { status: 409 }
+      );
+    }
+
+    const report = await prisma.reportedContent.create({
+      data: {
+        reportedByUserId: userId,
+        reportedUserId: owner.ownerId,
+        contentType,
+        contentId,
+        reason,
+        description: description?.trim() || null,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Thanks for letting us know. Our team will review it.',
+        reportId: report.id,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating report:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Session Calendar File API Route
+ *
+ * GET - Download a session as an .ics file, to add it to a calendar app.
+ * Only the session's learner and provider can download it.
+ *
+ * @fileoverview GET /api/sessions/[sessionId]/calendar
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getSessionCalendar } from '@/lib/calendar';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+    const calendar = await getSessionCalendar(sessionId, session.user.id);
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="skillswap-session-${sessionId}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error building session calendar file:', error);
+    return NextResponse.json(
+      { error: 'Failed to build calendar file' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,20 @@
 /**
  * Session Cancellation API Route
  *
- * POST - Request to cancel an active session
+ * POST - Request to cancel an active session, or a scheduled occurrence
+ * of a recurring series
  * REQUIRES MUTUAL CONSENT: Both learner and provider must agree to cancel
- * When both agree, credits are refunded to the learner
+ * When both agree, credits are refunded to the learner. Scheduled
+ * occurrences have no credits reserved yet, so nothing is refunded.
  *
  * @fileoverview POST /api/sessions/[sessionId]/cancel
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { createNotifications } from '@/lib/notifications';
+import { ledgerReference, releaseHold } from '@/lib/ledger';
 
 export async function POST(
   request: NextRequest,
@@ -22,6 +27,9 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const { sessionId } = await params;
     const userId = session.user.id;
     const body = await request.json();
@@ -43,7 +51,7 @@ export async function POST(
       );
     }
 
-    if (sessionRecord.status !== 'ACTIVE') {
+    if (sessionRecord.status !== 'ACTIVE' && sessionRecord.status !== 'SCHEDULED') {
       return NextResponse.json(
         { error: 'Session is not active' },
         { status: 400 }
@@ -81,6 +89,47 @@ export async function POST(
       (isLearner && sessionRecord.providerCancellationRequested) ||
       (isProvider && sessionRecord.learnerCancellationRequested);
 
+    if (willCancel && sessionRecord.status === 'SCHEDULED') {
+      const { count } = await prisma.session.updateMany({
+        where: { id: sessionId, status: 'SCHEDULED' },
+        data: {
+          status: 'CANCELLED',
+          learnerCancellationRequested: true,
+          providerCancellationRequested: true,
+          cancelledBy: userId,
+          cancelReason: reason || 'Mutual cancellation agreement',
+          cancelledAt: new Date(),
+        },
+      });
+
+      // Its credits were reserved since it was loaded; cancel it as active
+      if (count === 0) {
+        return NextResponse.json(
+          { error: 'This session has just become active. Please try again.' },
+          { status: 409 }
+        );
+      }
+
+      await createNotifications([
+        {
+          userId: isLearner ? sessionRecord.providerId : sessionRecord.learnerId,
+          type: 'SESSION_CANCELLED',
+          title: 'Session cancelled',
+          message: `${sessionRecord.sessionName} was cancelled by mutual agreement`,
+          relatedUserId: userId,
+          relatedEntityId: sessionId,
+          relatedEntityType: 'session',
+        },
+      ]);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Session cancelled by mutual agreement.',
+        sessionCancelled: true,
+        creditsRefunded: 0,
+      });
+    }
+
     if (willCancel) {
       // Both parties have agreed - cancel the session and refund credits
       const learnerWallet = await prisma.wallet.findUnique({
@@ -94,10 +143,11 @@ export async function POST(
         );
       }
 
-      await prisma.$transaction(async (tx) => {
-        // 1. Mark session as cancelled with both flags
-        await tx.session.update({
-          where: { id: sessionId },
+      const cancelled = await prisma.$transaction(async (tx) => {
+        // 1. Mark session as cancelled with both flags, unless it was
+        // completed, disputed or cancelled since it was loaded
+        const { count } = await tx.session.updateMany({
+          where: { id: sessionId, status: 'ACTIVE' },
           data: {
             status: 'CANCELLED',
             learnerCancellationRequested: true,
@@ -107,18 +157,21 @@ export async function POST(
             cancelledAt: new Date(),
           },
         });
+        if (count === 0) return false;
 
-        // 2. Refund session credits from learner's outgoing to available
-        await tx.wallet.update({
-          where: { userId: sessionRecord.learnerId },
-          data: {
-            outgoingBalance: { decrement: sessionRecord.sessionCredits },
-            availableBalance: { increment: sessionRecord.sessionCredits },
+        // 2. Mark the learner's reservation as refunded
+        await tx.transaction.updateMany({
+          where: {
+            walletId: learnerWallet.id,
+            sessionId,
+            status: 'PENDING',
+            type: { in: ['SESSION_CREDITS_RESERVED', 'SESSION_REQUEST_SENT'] },
           },
+          data: { status: 'REFUNDED' },
         });
 
         // 3. Create transaction record for refund
-        await tx.transaction.create({
+        const refund = await tx.transaction.create({
           data: {
             walletId: learnerWallet.id,
             amount: sessionRecord.sessionCredits,
@@ -129,8 +182,35 @@ export async function POST(
             note: `Session cancelled by mutual agreement: ${sessionRecord.sessionName} - ${sessionRecord.sessionCredits} credits refunded`,
           },
         });
+
+        // 4. Refund session credits from learner's outgoing to available
+        await releaseHold(tx, learnerWallet.id, sessionRecord.sessionCredits, {
+          reference: ledgerReference('session', sessionId),
+          transactionId: refund.id,
+        });
+
+        return true;
       });
 
+      if (!cancelled) {
+        return NextResponse.json(
+          { error: 'This session is no longer active' },
+          { status: 409 }
+        );
+      }
+
+      await createNotifications([
+        {
+          userId: isLearner ? sessionRecord.providerId : sessionRecord.learnerId,
+          type: 'SESSION_CANCELLED',
+          title: 'Session cancelled',
+          message: `${sessionRecord.sessionName} was cancelled by mutual agreement`,
+          relatedUserId: userId,
+          relatedEntityId: sessionId,
+          relatedEntityType: 'session',
+        },
+      ]);
+
       return NextResponse.json({
         success: true,
         message: 'Session cancelled by mutual agreement. Credits have been refunded to the learner.',
@@ -148,6 +228,18 @@ export async function POST(
 
       const otherUser = isLearner ? sessionRecord.provider : sessionRecord.learner;
 
+      await createNotifications([
+        {
+          userId: otherUser.id,
+          type: 'SESSION_CANCELLED',
+          title: 'Cancellation requested',
+          message: `${session.user.name || 'Your partner'} asked to cancel ${sessionRecord.sessionName}`,
+          relatedUserId: userId,
+          relatedEntityId: sessionId,
+          relatedEntityType: 'session',
+        },
+      ]);
+
       return NextResponse.json({
         success: true,
         message: `Cancellation requested. Waiting for ${otherUser.fullName || 'the other party'} to agree.`,
@@ -3,13 +3,16 @@
  *
  * POST - Confirm session completion
  * When both learner and provider confirm, the session is completed
- * and 40 credits transfer to the provider
+ * and the reserved session credits transfer to the provider
  *
  * @fileoverview POST /api/sessions/[sessionId]/complete
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { createNotifications } from '@/lib/notifications';
+import { ledgerReference, settleHold } from '@/lib/ledger';
 
 export async function POST(
   request: NextRequest,
@@ -22,6 +25,9 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const { sessionId } = await params;
     const userId = session.user.id;
 
@@ -95,10 +101,11 @@ export async function POST(
         );
       }
 
-      await prisma.$transaction(async (tx) => {
-        // 1. Mark session as completed
-        await tx.session.update({
-          where: { id: sessionId },
+      const completed = await prisma.$transaction(async (tx) => {
+        // 1. Mark session as completed, unless it was settled, disputed or
+        // cancelled since it was loaded
+        const { count } = await tx.session.updateMany({
+          where: { id: sessionId, status: 'ACTIVE' },
           data: {
             status: 'COMPLETED',
             learnerCompletionConfirmed: true,
@@ -106,36 +113,26 @@ export async function POST(
             completedAt: new Date(),
           },
         });
+        if (count === 0) return false;
 
-        // 2. Transfer session credits from learner's outgoing to provider's available
-        await tx.wallet.update({
-          where: { userId: sessionRecord.learnerId },
-          data: {
-            outgoingBalance: { decrement: sessionRecord.sessionCredits },
-          },
-        });
-
-        await tx.wallet.update({
-          where: { userId: sessionRecord.providerId },
-          data: {
-            availableBalance: { increment: sessionRecord.sessionCredits },
+        // 2. Close out the learner's reservation row rather than
+        // writing a second learner record for the same credits
+        await tx.transaction.updateMany({
+          where: {
+            walletId: learnerWallet.id,
+            sessionId,
+            status: 'PENDING',
+            type: { in: ['SESSION_CREDITS_RESERVED', 'SESSION_REQUEST_SENT'] },
           },
-        });
-
-        // 3. Create transaction records
-        await tx.transaction.create({
           data: {
-            walletId: learnerWallet.id,
-            amount: -sessionRecord.sessionCredits,
             type: 'SESSION_COMPLETED',
             status: 'COMPLETED',
-            relatedUserId: sessionRecord.providerId,
-            sessionId: sessionId,
             note: `Session completed: ${sessionRecord.sessionName}`,
           },
         });
 
-        await tx.transaction.create({
+        // 3. Record the provider's earnings
+        const earnings = await tx.transaction.create({
           data: {
             walletId: providerWallet.id,
             amount: sessionRecord.sessionCredits,
@@ -146,8 +143,50 @@ export async function POST(
             note: `Session completed: ${sessionRecord.sessionName} - earned ${sessionRecord.sessionCredits} credits`,
           },
         });
+
+        // 4. Transfer session credits from learner's outgoing to provider's available
+        await settleHold(
+          tx,
+          learnerWallet.id,
+          providerWallet.id,
+          sessionRecord.sessionCredits,
+          {
+            reference: ledgerReference('session', sessionId),
+            transactionId: earnings.id,
+          }
+        );
+
+        return true;
       });
 
+      if (!completed) {
+        return NextResponse.json(
+          { error: 'This session is no longer active' },
+          { status: 409 }
+        );
+      }
+
+      await createNotifications([
+        {
+          userId: sessionRecord.providerId,
+          type: 'SESSION_COMPLETED',
+          title: 'Session completed',
+          message: `${sessionRecord.sessionName} is complete - you earned ${sessionRecord.sessionCredits} credits. Leave a review!`,
+          relatedUserId: sessionRecord.learnerId,
+          relatedEntityId: sessionId,
+          relatedEntityType: 'session',
+        },
+        {
+          userId: sessionRecord.learnerId,
+          type: 'SESSION_COMPLETED',
+          title: 'Session completed',
+          message: `${sessionRecord.sessionName} is complete. Leave a review!`,
+          relatedUserId: sessionRecord.providerId,
+          relatedEntityId: sessionId,
+          relatedEntityType: 'session',
+        },
+      ]);
+
       return NextResponse.json({
         success: true,
         message: 'Session completed! Credits have been transferred.',
@@ -156,13 +195,32 @@ export async function POST(
       });
     } else {
       // Update the confirmation flag
-      await prisma.session.update({
-        where: { id: sessionId },
+      const { count } = await prisma.session.updateMany({
+        where: { id: sessionId, status: 'ACTIVE' },
         data: isLearner
           ? { learnerCompletionConfirmed: true }
           : { providerCompletionConfirmed: true },
       });
 
+      if (count === 0) {
+        return NextResponse.json(
+          { error: 'This session is no longer active' },
+          { status: 409 }
+        );
+      }
+
+      await createNotifications([
+        {
+          userId: isLearner ? sessionRecord.providerId : sessionRecord.learnerId,
+          type: 'SESSION_COMPLETED',
+          title: 'Confirm session completion',
+          message: `${session.user.name || 'Your partner'} marked ${sessionRecord.sessionName} as complete`,
+          relatedUserId: userId,
+          relatedEntityId: sessionId,
+          relatedEntityType: 'session',
+        },
+      ]);
+
       return NextResponse.json({
         success: true,
         message: 'Completion confirmed. Waiting for the other party to confirm.',
@@ -0,0 +1,165 @@
+/**
+ * Dispute Evidence API Route
+ *
+ * Lets either participant add evidence to an open dispute: a written
+ * statement with an optional attachment (image, PDF or text file) stored
+ * in a private Supabase Storage bucket. Only the object path is saved;
+ * participants and admins get signed URLs when the dispute is fetched.
+ *
+ * @fileoverview POST /api/sessions/[sessionId]/dispute/evidence
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import {
+  DISPUTE_EVIDENCE_BUCKET,
+  uploadPrivateFileToStorage,
+} from '@/lib/supabase';
+import { DISPUTES, VALIDATION } from '@/lib/constants';
+import { DISPUTE_ATTACHMENT_TYPES } from '@/lib/types/disputes';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const userId = session.user.id;
+
+    const formData = await request.formData();
+    const content = ((formData.get('content') as string | null) || '').trim();
+    const file = formData.get('file') as File | null;
+
+    if (!content && !file) {
+      return NextResponse.json(
+        { error: 'Add a statement or a file' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > VALIDATION.DISPUTE_TEXT_MAX_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Evidence must be ${VALIDATION.DISPUTE_TEXT_MAX_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (file) {
+      if (!DISPUTE_ATTACHMENT_TYPES.includes(file.type)) {
+        return NextResponse.json(
+          { error: 'File type not allowed. Supported: images, PDF, text' },
+          { status: 400 }
+        );
+      }
+
+      if (file.size > DISPUTES.MAX_ATTACHMENT_SIZE) {
+        return NextResponse.json(
+          {
+            error: `File too large. Max size: ${DISPUTES.MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const sessionRecord = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { learnerId: true, providerId: true },
+    });
+
+    if (!sessionRecord) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (sessionRecord.learnerId !== userId && sessionRecord.providerId !== userId) {
+      return NextResponse.json(
+        { error: 'You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    const dispute = await prisma.sessionDispute.findFirst({
+      where: { sessionId, status: 'OPEN' },
+      select: {
+        id: true,
+        _count: { select: { evidence: { where: { submittedById: userId } } } },
+      },
+    });
+
+    if (!dispute) {
+      return NextResponse.json(
+        { error: 'This session has no open dispute' },
+        { status: 400 }
+      );
+    }
+
+    if (dispute._count.evidence >= DISPUTES.MAX_EVIDENCE_PER_USER) {
+      return NextResponse.json(
+        {
+          error: `You can add up to ${DISPUTES.MAX_EVIDENCE_PER_USER} pieces of evidence`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let attachmentPath: string | null = null;
+    if (file) {
+      const fileExt = file.name.split('.').pop() || 'bin';
+      const randomId = Math.random().toString(36).substring(2, 15);
+      const filePath = `${dispute.id}/${userId}/${Date.now()}-${randomId}.${fileExt}`;
+
+      attachmentPath = await uploadPrivateFileToStorage(
+        Buffer.from(await file.arrayBuffer()),
+        filePath,
+        file.type,
+        DISPUTE_EVIDENCE_BUCKET
+      );
+
+      if (!attachmentPath) {
+        return NextResponse.json(
+          { error: 'Failed to upload file' },
+          { status: 500 }
+        );
+      }
+    }
+
+    const evidence = await prisma.disputeEvidence.create({
+      data: {
+        disputeId: dispute.id,
+        submittedById: userId,
+        content,
+        attachmentPath,
+        attachmentName: file?.name ?? null,
+        attachmentType: file?.type ?? null,
+        attachmentSize: file?.size ?? null,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Evidence added',
+      evidenceId: evidence.id,
+    });
+  } catch (error) {
+    console.error('Error adding dispute evidence:', error);
+    return NextResponse.json(
+      { error: 'Failed to add evidence' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Session Dispute API Route
+ *
+ * GET - Fetch the session's dispute, with its evidence
+ * POST - Dispute an active or recently completed session. The session is
+ * marked DISPUTED and its credits frozen until an admin resolves it.
+ *
+ * @fileoverview /api/sessions/[sessionId]/dispute
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications';
+import { VALIDATION } from '@/lib/constants';
+import {
+  canDisputeSession,
+  DISPUTE_INCLUDE,
+  openDispute,
+  toDisputeItems,
+} from '@/lib/disputes';
+import { DISPUTE_REASONS, type DisputeReason } from '@/lib/types/disputes';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const userId = session.user.id;
+
+    const sessionRecord = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        learnerId: true,
+        providerId: true,
+        status: true,
+        completedAt: true,
+      },
+    });
+
+    if (!sessionRecord) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (sessionRecord.learnerId !== userId && sessionRecord.providerId !== userId) {
+      return NextResponse.json(
+        { error: 'You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    const dispute = await prisma.sessionDispute.findFirst({
+      where: { sessionId },
+      include: DISPUTE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      dispute: dispute ? (await toDisputeItems([dispute]))[0] : null,
+      canDispute: canDisputeSession(sessionRecord, !!dispute),
+    });
+  } catch (error) {
+    console.error('Error fetching dispute:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dispute' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const userId = session.user.id;
+
+    const body = await request.json();
+    const { reason, description } = body as {
+      reason?: DisputeReason;
+      description?: string;
+    };
+
+    if (!reason || !DISPUTE_REASONS.some((r) => r.value === reason)) {
+      return NextResponse.json({ error: 'Invalid reason' }, { status: 400 });
+    }
+
+    const trimmedDescription =
+      typeof description === 'string' ? description.trim() : '';
+
+    if (
+      trimmedDescription.length < VALIDATION.DISPUTE_DESCRIPTION_MIN_LENGTH ||
+      trimmedDescription.length > VALIDATION.DISPUTE_TEXT_MAX_LENGTH
+    ) {
+      return NextResponse.json(
+        {
+          error: `Describe what happened in ${VALIDATION.DISPUTE_DESCRIPTION_MIN_LENGTH} to ${VALIDATION.DISPUTE_TEXT_MAX_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const sessionRecord = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        disputes: { select: { id: true } },
+      },
+    });
+
+    if (!sessionRecord) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const isLearner = sessionRecord.learnerId === userId;
+    const isProvider = sessionRecord.providerId === userId;
+
+    if (!isLearner && !isProvider) {
+      return NextResponse.json(
+        { error: 'You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    if (!canDisputeSession(sessionRecord, sessionRecord.disputes.length > 0)) {
+      return NextResponse.json(
+        {
+          error:
+            sessionRecord.disputes.length > 0
+              ? 'This session has already been disputed'
+              : 'This session can no longer be disputed',
+        },
+        { status: 400 }
+      );
+    }
+
+    const dispute = await prisma.$transaction((tx) =>
+      openDispute(tx, {
+        session: sessionRecord,
+        raisedById: userId,
+        reason,
+        description: trimmedDescription,
+      })
+    );
+
+    if (!dispute) {
+      return NextResponse.json(
+        { error: 'This session changed while you were disputing it. Please refresh.' },
+        { status: 409 }
+      );
+    }
+
+    await createNotification({
+      userId: isLearner ? sessionRecord.providerId : sessionRecord.learnerId,
+      type: 'SESSION_DISPUTED',
+      title: 'Session disputed',
+      message: `${session.user.name || 'Your partner'} opened a dispute over ${sessionRecord.sessionName}. Add your side of the story before an admin reviews it.`,
+      relatedUserId: userId,
+      relatedEntityId: sessionId,
+      relatedEntityType: 'session',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Dispute opened. The session credits are frozen until an admin resolves it.',
+      disputeId: dispute.id,
+      frozenCredits: dispute.frozenCredits,
+    });
+  } catch (error) {
+    console.error('Error opening dispute:', error);
+    return NextResponse.json(
+      { error: 'Failed to open dispute' },
+      { status: 500 }
+    );
+  }
+}
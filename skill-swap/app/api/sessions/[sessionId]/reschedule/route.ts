@@ -0,0 +1,225 @@
+/**
+ * Session Reschedule API Route
+ *
+ * GET - Fetch the session's reschedule history, newest first
+ * POST - Propose a new `startDate`/`endDate` for an active session
+ * PATCH - Answer the pending proposal: ACCEPT or DECLINE it as the other
+ * party, or WITHDRAW it as its proposer
+ *
+ * REQUIRES MUTUAL CONSENT: the session only moves once the other party
+ * accepts. New times are checked against both users' other sessions.
+ *
+ * @fileoverview /api/sessions/[sessionId]/reschedule
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { VALIDATION } from '@/lib/constants';
+import {
+  proposeReschedule,
+  RescheduleError,
+  respondToReschedule,
+  toRescheduleProposalItem,
+} from '@/lib/session-reschedule';
+import type { RescheduleAction } from '@/lib/types/reschedules';
+
+const ACTIONS: RescheduleAction[] = ['ACCEPT', 'DECLINE', 'WITHDRAW'];
+
+function rescheduleErrorResponse(error: RescheduleError) {
+  return NextResponse.json(
+    {
+      error: error.message,
+      ...(error.conflicts.length > 0 && { conflicts: error.conflicts }),
+    },
+    { status: error.status }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const userId = session.user.id;
+
+    const sessionRecord = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        learner: { select: { id: true, fullName: true, name: true } },
+        provider: { select: { id: true, fullName: true, name: true } },
+        rescheduleProposals: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (!sessionRecord) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (sessionRecord.learnerId !== userId && sessionRecord.providerId !== userId) {
+      return NextResponse.json(
+        { error: 'You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    const { learner, provider } = sessionRecord;
+    const names = {
+      [learner.id]: learner.fullName || learner.name || 'User',
+      [provider.id]: provider.fullName || provider.name || 'User',
+    };
+
+    return NextResponse.json({
+      proposals: sessionRecord.rescheduleProposals.map((p) =>
+        toRescheduleProposalItem(p, userId, names)
+      ),
+    });
+  } catch (error) {
+    console.error('Error fetching reschedule history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reschedule history' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const body = await request.json();
+    const { startDate, endDate, reason } = body as {
+      startDate?: string;
+      endDate?: string;
+      reason?: string;
+    };
+
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      reason != null &&
+      (typeof reason !== 'string' ||
+        reason.length > VALIDATION.RESCHEDULE_REASON_MAX_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Reason must be ${VALIDATION.RESCHEDULE_REASON_MAX_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const proposal = await proposeReschedule({
+      sessionId,
+      userId: session.user.id,
+      userName: session.user.name || 'Your partner',
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'New time proposed. Waiting for the other party to accept.',
+      proposalId: proposal.id,
+    });
+  } catch (error) {
+    if (error instanceof RescheduleError) {
+      return rescheduleErrorResponse(error);
+    }
+
+    console.error('Error proposing reschedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to propose a new time' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const body = await request.json();
+    const { proposalId, action } = body as {
+      proposalId?: string;
+      action?: RescheduleAction;
+    };
+
+    if (!proposalId || !action || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const { status } = await respondToReschedule({
+      sessionId,
+      proposalId,
+      userId: session.user.id,
+      userName: session.user.name || 'Your partner',
+      action,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message:
+        status === 'ACCEPTED'
+          ? 'Session rescheduled to the new time'
+          : status === 'DECLINED'
+          ? 'Proposal declined. The session keeps its current time.'
+          : 'Proposal withdrawn',
+      status,
+    });
+  } catch (error) {
+    if (error instanceof RescheduleError) {
+      return rescheduleErrorResponse(error);
+    }
+
+    console.error('Error responding to reschedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to respond to the proposal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Session Reviews API Route
+ *
+ * GET - Fetch reviews left on a session by either participant
+ * POST - Review the other participant of a completed session
+ *
+ * Each participant can leave exactly one review per session, and only
+ * once the session has been marked COMPLETED.
+ *
+ * @fileoverview /api/sessions/[sessionId]/reviews
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications';
+
+const RATING_FIELDS = [
+  'teachingClarity',
+  'responsiveness',
+  'reliability',
+  'punctuality',
+] as const;
+
+const MAX_COMMENT_LENGTH = 1000;
+
+/**
+ * Validates an optional 1-5 star rating value
+ */
+function isValidRating(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const userId = session.user.id;
+
+    const sessionRecord = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, learnerId: true, providerId: true, status: true },
+    });
+
+    if (!sessionRecord) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (
+      sessionRecord.learnerId !== userId &&
+      sessionRecord.providerId !== userId
+    ) {
+      return NextResponse.json(
+        { error: 'You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    const reviews = await prisma.review.findMany({
+      where: { sessionId },
+      include: {
+        reviewedBy: {
+          select: { id: true, fullName: true, name: true, image: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const myReview = reviews.find((r) => r.reviewedByUserId === userId);
+
+    return NextResponse.json({
+      reviews: reviews.map((review) => ({
+        id: review.id,
+        rating: review.rating,
+        teachingClarity: review.teachingClarity,
+        responsiveness: review.responsiveness,
+        reliability: review.reliability,
+        punctuality: review.punctuality,
+        comments: review.comments,
+        createdAt: review.createdAt,
+        reviewedUserId: review.reviewedUserId,
+        reviewedBy: {
+          id: review.reviewedBy.id,
+          fullName:
+            review.reviewedBy.fullName || review.reviewedBy.name || 'User',
+          profileImage: review.reviewedBy.image,
+        },
+      })),
+      hasReviewed: !!myReview,
+      canReview: sessionRecord.status === 'COMPLETED' && !myReview,
+    });
+  } catch (error) {
+    console.error('Error fetching session reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { sessionId } = await params;
+    const userId = session.user.id;
+    const body = await request.json();
+    const { rating, comments } = body;
+
+    if (!isValidRating(rating)) {
+      return NextResponse.json(
+        { error: 'Rating must be a whole number between 1 and 5' },
+        { status: 400 }
+      );
+    }
+
+    for (const field of RATING_FIELDS) {
+      if (body[field] != null && !isValidRating(body[field])) {
+        return NextResponse.json(
+          { error: `${field} must be a whole number between 1 and 5` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (comments != null && typeof comments !== 'string') {
+      return NextResponse.json(
+        { error: 'Comments must be text' },
+        { status: 400 }
+      );
+    }
+
+    if (comments && comments.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comments must be less than ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const sessionRecord = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        id: true,
+        learnerId: true,
+        providerId: true,
+        skillId: true,
+        status: true,
+      },
+    });
+
+    if (!sessionRecord) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const isLearner = sessionRecord.learnerId === userId;
+    const isProvider = sessionRecord.providerId === userId;
+
+    if (!isLearner && !isProvider) {
+      return NextResponse.json(
+        { error: 'You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    if (sessionRecord.status !== 'COMPLETED') {
+      return NextResponse.json(
+        { error: 'You can only review a completed session' },
+        { status: 400 }
+      );
+    }
+
+    const existingReview = await prisma.review.findUnique({
+      where: {
+        sessionId_reviewedByUserId: { sessionId, reviewedByUserId: userId },
+      },
+    });
+
+    if (existingReview) {
+      return NextResponse.json(
+        { error: 'You have already reviewed this session' },
+        { status: 400 }
+      );
+    }
+
+    const review = await prisma.review.create({
+      data: {
+        sessionId,
+        skillId: sessionRecord.skillId,
+        reviewedByUserId: userId,
+        reviewedUserId: isLearner
+          ? sessionRecord.providerId
+          : sessionRecord.learnerId,
+        rating,
+        teachingClarity: body.teachingClarity ?? null,
+        responsiveness: body.responsiveness ?? null,
+        reliability: body.reliability ?? null,
+        punctuality: body.punctuality ?? null,
+        comments: comments?.trim() || null,
+      },
+    });
+
+    await createNotification({
+      userId: review.reviewedUserId,
+      type: 'REVIEW',
+      title: 'You received a review',
+      message: `${session.user.name || 'Your session partner'} left you a ${review.rating}-star review`,
+      relatedUserId: userId,
+      relatedEntityId: review.id,
+      relatedEntityType: 'review',
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Review submitted successfully',
+        review: {
+          id: review.id,
+          rating: review.rating,
+          reviewedUserId: review.reviewedUserId,
+          createdAt: review.createdAt,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating session review:', error);
+
+    // Handle race on the unique (sessionId, reviewedByUserId) constraint
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return NextResponse.json(
+        { error: 'You have already reviewed this session' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to submit review' },
+      { status: 500 }
+    );
+  }
+}
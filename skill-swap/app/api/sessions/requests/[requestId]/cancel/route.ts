@@ -2,13 +2,15 @@
  * Cancel Session Request API Route
  *
  * DELETE - Cancel a pending session request (sender only)
- * Refunds 5 credits back to sender
+ * Refunds the held request fee back to sender
  *
  * @fileoverview DELETE /api/sessions/requests/[requestId]/cancel
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { ledgerReference, releaseHold } from '@/lib/ledger';
 
 export async function DELETE(
   request: NextRequest,
@@ -21,12 +23,16 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const { requestId } = await params;
     const userId = session.user.id;
 
     // Find the session request
     const sessionRequest = await prisma.sessionRequest.findUnique({
       where: { id: requestId },
+      include: { transaction: true },
     });
 
     if (!sessionRequest) {
@@ -63,22 +69,23 @@ export async function DELETE(
       );
     }
 
+    const creditsToRefund = sessionRequest.creditsHeld;
+
     // Refund credits and delete request
     await prisma.$transaction(async (tx) => {
-      // 1. Refund 5 credits from outgoing to available
-      await tx.wallet.update({
-        where: { userId },
-        data: {
-          outgoingBalance: { decrement: 5 },
-          availableBalance: { increment: 5 },
-        },
-      });
+      // 1. Mark the original hold as refunded
+      if (sessionRequest.transaction) {
+        await tx.transaction.update({
+          where: { id: sessionRequest.transaction.id },
+          data: { status: 'REFUNDED' },
+        });
+      }
 
       // 2. Create transaction record
-      await tx.transaction.create({
+      const refund = await tx.transaction.create({
         data: {
           walletId: senderWallet.id,
-          amount: 5,
+          amount: creditsToRefund,
           type: 'SESSION_REQUEST_CANCELLED',
           status: 'COMPLETED',
           relatedUserId: sessionRequest.receiverId,
@@ -86,7 +93,13 @@ export async function DELETE(
         },
       });
 
-      // 3. Delete the session request
+      // 3. Refund held credits from outgoing to available
+      await releaseHold(tx, senderWallet.id, creditsToRefund, {
+        reference: ledgerReference('session_request', requestId),
+        transactionId: refund.id,
+      });
+
+      // 4. Delete the session request
       await tx.sessionRequest.delete({
         where: { id: requestId },
       });
@@ -94,8 +107,8 @@ export async function DELETE(
 
     return NextResponse.json({
       success: true,
-      message: 'Session request cancelled. 5 credits have been refunded.',
-      creditsRefunded: 5,
+      message: `Session request cancelled. ${creditsToRefund} credits have been refunded.`,
+      creditsRefunded: creditsToRefund,
     });
   } catch (error) {
     console.error('Error cancelling session request:', error);
@@ -2,18 +2,36 @@
  * Accept Session Request API Route
  *
  * When a session request is accepted:
- * 1. Transfer 5 credits from sender's outgoing to receiver's available
- * 2. Reserve 40 credits in sender's outgoing for the session
- * 3. Create a Session record
+ * 1. Claim the request, unless it was answered or expired since it was
+ *    loaded, and create a Session record
+ * 2. Transfer the request fee from sender's outgoing to receiver's available
+ * 3. Reserve the session price quoted at request time in sender's outgoing
  * 4. Delete the session request
  *
+ * A request with a recurrence rule creates a series instead; only its
+ * first session's credits are reserved now (see lib/session-series).
+ *
+ * Credits move through the ledger, and every history row is linked to
+ * the new session.
+ *
  * @fileoverview POST /api/sessions/requests/accept
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { rejectUnverifiedUser } from '@/lib/email-verification';
 import { prisma } from '@/lib/prisma';
-
-const SESSION_CREDITS = 40;
+import { createNotification } from '@/lib/notifications';
+import {
+  holdCredits,
+  InsufficientCreditsError,
+  ledgerReference,
+  settleHold,
+} from '@/lib/ledger';
+import { buildOccurrences, type RecurrenceFrequency } from '@/lib/recurrence';
+import { openSessionRequestFilter } from '@/lib/request-expiry';
+import { createSessionSeries } from '@/lib/session-series';
+import { getUserTimeZone } from '@/lib/user-availability';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,6 +41,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const unverified = await rejectUnverifiedUser(session.user.id);
+    if (unverified) return unverified;
+
     const body = await request.json();
     const { requestId } = body;
 
@@ -74,10 +98,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if sender has enough credits for the session (40 credits)
-    if (senderWallet.availableBalance < SESSION_CREDITS) {
+    // Price locked in when the request was sent
+    const sessionCredits = sessionRequest.sessionCredits;
+
+    // Check if sender has enough credits for the session
+    if (senderWallet.availableBalance < sessionCredits) {
       return NextResponse.json(
-        { error: 'Sender does not have enough credits for the session (40 credits required)' },
+        { error: `Sender does not have enough credits for the session (${sessionCredits} credits required)` },
         { status: 400 }
       );
     }
@@ -126,96 +153,122 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Occurrence times for a recurring request, validated when it was sent
+    let recurrence: {
+      frequency: RecurrenceFrequency;
+      occurrences: { startDate: Date; endDate: Date }[];
+    } | null = null;
+    if (sessionRequest.recurrenceFrequency) {
+      const frequency = sessionRequest.recurrenceFrequency as RecurrenceFrequency;
+      const expanded = buildOccurrences(
+        sessionRequest.startDate,
+        sessionRequest.endDate,
+        {
+          frequency,
+          count: sessionRequest.recurrenceCount,
+          until: sessionRequest.recurrenceUntil,
+        },
+        await getUserTimeZone(prisma, receiverId)
+      );
+
+      if ('error' in expanded) {
+        return NextResponse.json({ error: expanded.error }, { status: 400 });
+      }
+      recurrence = { frequency, occurrences: expanded.occurrences };
+    }
+
     const creditsFromRequest = sessionRequest.creditsHeld;
 
     // Use a transaction to ensure atomicity
     const result = await prisma.$transaction(async (tx) => {
-      // 1. Update sender's wallet: remove request credits from outgoing
-      await tx.wallet.update({
-        where: { userId: senderId },
-        data: {
-          outgoingBalance: { decrement: creditsFromRequest },
-        },
+      // 1. Claim the request so the expiry job can't refund its hold at
+      // the same time, then create the Session record, or the series and
+      // its first session
+      const { count } = await tx.sessionRequest.updateMany({
+        where: { id: sessionRequest.id, ...openSessionRequestFilter() },
+        data: { status: 'ACCEPTED' },
       });
+      if (count === 0) return null;
+
+      const sessionData = {
+        learnerId: senderId,
+        providerId: receiverId,
+        skillId: skillId!,
+        connectionId: connection.id,
+        sessionName: sessionRequest.sessionName,
+        description: sessionRequest.description,
+        mode: sessionRequest.mode,
+        requestCredits: creditsFromRequest,
+        sessionCredits,
+      };
+
+      const newSession = recurrence
+        ? (
+            await createSessionSeries(tx, {
+              frequency: recurrence.frequency,
+              occurrences: recurrence.occurrences,
+              session: sessionData,
+            })
+          ).firstSession
+        : await tx.session.create({
+            data: {
+              ...sessionData,
+              startDate: sessionRequest.startDate,
+              endDate: sessionRequest.endDate,
+              status: 'ACTIVE',
+            },
+          });
 
-      // 2. Update receiver's wallet: add request credits to available
-      await tx.wallet.update({
-        where: { userId: receiverId },
+      // 2. Pay the request fee: sender's outgoing -> receiver's available
+      const receipt = await tx.transaction.create({
         data: {
-          availableBalance: { increment: creditsFromRequest },
+          walletId: receiverWallet.id,
+          amount: creditsFromRequest,
+          type: 'SESSION_REQUEST_RECEIVED',
+          status: 'COMPLETED',
+          relatedUserId: senderId,
+          sessionId: newSession.id,
+          note: `Session request accepted - received ${creditsFromRequest} credits`,
         },
       });
 
-      // 3. Reserve session credits (40) from sender's available to outgoing
-      await tx.wallet.update({
-        where: { userId: senderId },
-        data: {
-          availableBalance: { decrement: SESSION_CREDITS },
-          outgoingBalance: { increment: SESSION_CREDITS },
-        },
+      await settleHold(tx, senderWallet.id, receiverWallet.id, creditsFromRequest, {
+        reference: ledgerReference('session_request', sessionRequest.id),
+        transactionId: receipt.id,
       });
 
-      // 4. Update sender's transaction to COMPLETED
+      // 3. Mark the sender's fee row COMPLETED and move it over to the
+      // session (its sessionRequestId clears when the request is deleted)
       if (sessionRequest.transaction) {
         await tx.transaction.update({
           where: { id: sessionRequest.transaction.id },
           data: {
             status: 'COMPLETED',
-            sessionRequestId: null,
+            sessionId: newSession.id,
             note: `Session request accepted - ${creditsFromRequest} credits transferred`,
           },
         });
       }
 
-      // 5. Create transaction record for receiver (credits received)
-      await tx.transaction.create({
-        data: {
-          walletId: receiverWallet.id,
-          amount: creditsFromRequest,
-          type: 'SESSION_REQUEST_RECEIVED',
-          status: 'COMPLETED',
-          relatedUserId: senderId,
-          note: `Session request accepted - received ${creditsFromRequest} credits`,
-        },
-      });
-
-      // 6. Create transaction for session credits reservation
-      const sessionCreditsTx = await tx.transaction.create({
+      // 4. Reserve session credits: sender's available -> outgoing
+      const reservation = await tx.transaction.create({
         data: {
           walletId: senderWallet.id,
-          amount: -SESSION_CREDITS,
-          type: 'SESSION_REQUEST_SENT',
+          amount: -sessionCredits,
+          type: 'SESSION_CREDITS_RESERVED',
           status: 'PENDING',
           relatedUserId: receiverId,
+          sessionId: newSession.id,
           note: `Session credits reserved: ${sessionRequest.sessionName}`,
         },
       });
 
-      // 7. Create Session record
-      const newSession = await tx.session.create({
-        data: {
-          learnerId: senderId,
-          providerId: receiverId,
-          skillId: skillId!,
-          connectionId: connection.id,
-          sessionName: sessionRequest.sessionName,
-          description: sessionRequest.description,
-          mode: sessionRequest.mode,
-          startDate: sessionRequest.startDate,
-          endDate: sessionRequest.endDate,
-          requestCredits: creditsFromRequest,
-          sessionCredits: SESSION_CREDITS,
-          status: 'ACTIVE',
-        },
-      });
-
-      // 8. Link transaction to session
-      await tx.transaction.update({
-        where: { id: sessionCreditsTx.id },
-        data: { sessionId: newSession.id },
+      await holdCredits(tx, senderWallet.id, sessionCredits, {
+        reference: ledgerReference('session', newSession.id),
+        transactionId: reservation.id,
       });
 
-      // 9. Delete the session request
+      // 5. Delete the session request
       await tx.sessionRequest.delete({
         where: { id: sessionRequest.id },
       });
@@ -223,14 +276,42 @@ export async function POST(request: NextRequest) {
       return newSession;
     });
 
+    if (!result) {
+      return NextResponse.json(
+        { error: 'This session request has expired or was already answered' },
+        { status: 409 }
+      );
+    }
+
+    await createNotification({
+      userId: senderId,
+      type: 'SESSION_ACCEPTED',
+      title: 'Session request accepted',
+      message: `${session.user.name || 'Someone'} accepted your session request: ${sessionRequest.sessionName}`,
+      relatedUserId: receiverId,
+      relatedEntityId: result.id,
+      relatedEntityType: 'session',
+    });
+
     return NextResponse.json({
       success: true,
-      message: 'Session request accepted successfully',
+      message: recurrence
+        ? `Session request accepted. ${recurrence.occurrences.length} sessions scheduled.`
+        : 'Session request accepted successfully',
       sessionId: result.id,
+      seriesId: result.seriesId,
       creditsReceived: creditsFromRequest,
-      creditsReserved: SESSION_CREDITS,
+      creditsReserved: sessionCredits,
     });
   } catch (error) {
+    // Sender spent the credits between the check above and the hold
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: 'Sender does not have enough credits for the session' },
+        { status: 400 }
+      );
+    }
+
     console.error('Error accepting session request:', error);
     return NextResponse.json(
       { error: 'Failed to accept session request' },
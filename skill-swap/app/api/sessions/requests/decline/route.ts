@@ -2,7 +2,7 @@
  * Decline Session Request API Route
  *
  * When a session request is declined:
- * 1. Refund 5 credits from sender's outgoing back to available
+ * 1. Refund the held fee from sender's outgoing back to available
  * 2. Update transaction status
  * 3. Delete the session request
  *
@@ -10,7 +10,10 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications';
+import { ledgerReference, releaseHold } from '@/lib/ledger';
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,6 +23,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const body = await request.json();
     const { requestId } = body;
 
@@ -77,16 +83,7 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // 2. Refund credits to sender: move from outgoing back to available
-      await tx.wallet.update({
-        where: { userId: senderId },
-        data: {
-          outgoingBalance: { decrement: creditsToRefund },
-          availableBalance: { increment: creditsToRefund },
-        },
-      });
-
-      // 3. Update sender's transaction to REFUNDED
+      // 2. Update sender's transaction to REFUNDED
       if (sessionRequest.transaction) {
         await tx.transaction.update({
           where: { id: sessionRequest.transaction.id },
@@ -98,8 +95,8 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      // 4. Create refund transaction record
-      await tx.transaction.create({
+      // 3. Create refund transaction record
+      const refund = await tx.transaction.create({
         data: {
           walletId: senderWallet.id,
           amount: creditsToRefund,
@@ -110,12 +107,27 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // 4. Refund credits to sender: move from outgoing back to available
+      await releaseHold(tx, senderWallet.id, creditsToRefund, {
+        reference: ledgerReference('session_request', sessionRequest.id),
+        transactionId: refund.id,
+      });
+
       // 5. Delete the session request
       await tx.sessionRequest.delete({
         where: { id: sessionRequest.id },
       });
     });
 
+    await createNotification({
+      userId: senderId,
+      type: 'SESSION_DECLINED',
+      title: 'Session request declined',
+      message: `${session.user.name || 'Someone'} declined your session request: ${sessionRequest.sessionName}`,
+      relatedUserId: receiverId,
+      relatedEntityType: 'session_request',
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Session request declined',
@@ -2,15 +2,39 @@
  * Session Requests API Route
  *
  * GET - Fetch session requests (sent and received)
- * POST - Create a new session request
+ * POST - Create a new session request. The requested time must be free for
+ * both users and inside the receiver's availability; the pending request
+ * then holds it (see lib/session-booking).
  *
  * @fileoverview /api/sessions/requests
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { rejectUnverifiedUser } from '@/lib/email-verification';
 import { prisma } from '@/lib/prisma';
-
-const SESSION_REQUEST_COST = 5;
+import { createNotification } from '@/lib/notifications';
+import {
+  quoteSessionPrice,
+  resolveHourlyRate,
+  SESSION_REQUEST_COST,
+} from '@/lib/pricing';
+import {
+  buildOccurrences,
+  type Occurrence,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+import { BookingError, reserveRequestSlot } from '@/lib/session-booking';
+import { getUserTimeZone } from '@/lib/user-availability';
+import {
+  holdCredits,
+  InsufficientCreditsError,
+  ledgerReference,
+} from '@/lib/ledger';
+import {
+  getSessionRequestExpiry,
+  recentlyExpiredFilter,
+} from '@/lib/request-expiry';
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,13 +44,16 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
 
-    // Fetch sent session requests
+    // Fetch sent session requests, pending or recently expired
     const sentRequests = await prisma.sessionRequest.findMany({
       where: {
         senderId: userId,
-        status: 'PENDING',
+        OR: [{ status: 'PENDING' }, recentlyExpiredFilter()],
       },
       include: {
         receiver: {
@@ -41,11 +68,11 @@ export async function GET(request: NextRequest) {
       orderBy: { createdAt: 'desc' },
     });
 
-    // Fetch received session requests
+    // Fetch received session requests, pending or recently expired
     const receivedRequests = await prisma.sessionRequest.findMany({
       where: {
         receiverId: userId,
-        status: 'PENDING',
+        OR: [{ status: 'PENDING' }, recentlyExpiredFilter()],
       },
       include: {
         sender: {
@@ -69,8 +96,20 @@ export async function GET(request: NextRequest) {
         startDate: req.startDate,
         endDate: req.endDate,
         creditsHeld: req.creditsHeld,
+        hourlyRate: req.hourlyRate,
+        sessionCredits: req.sessionCredits,
+        recurrence: req.recurrenceFrequency
+          ? {
+              frequency: req.recurrenceFrequency,
+              count: req.recurrenceCount,
+              until: req.recurrenceUntil,
+            }
+          : null,
         status: req.status,
         createdAt: req.createdAt,
+        expiresAt:
+          req.status === 'PENDING' ? getSessionRequestExpiry(req) : null,
+        expiredAt: req.status === 'EXPIRED' ? req.updatedAt : null,
         receiver: {
           id: req.receiver.id,
           fullName: req.receiver.fullName || req.receiver.name || 'User',
@@ -88,8 +127,20 @@ export async function GET(request: NextRequest) {
         startDate: req.startDate,
         endDate: req.endDate,
         creditsHeld: req.creditsHeld,
+        hourlyRate: req.hourlyRate,
+        sessionCredits: req.sessionCredits,
+        recurrence: req.recurrenceFrequency
+          ? {
+              frequency: req.recurrenceFrequency,
+              count: req.recurrenceCount,
+              until: req.recurrenceUntil,
+            }
+          : null,
         status: req.status,
         createdAt: req.createdAt,
+        expiresAt:
+          req.status === 'PENDING' ? getSessionRequestExpiry(req) : null,
+        expiredAt: req.status === 'EXPIRED' ? req.updatedAt : null,
         sender: {
           id: req.sender.id,
           fullName: req.sender.fullName || req.sender.name || 'User',
@@ -117,8 +168,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const unverified = await rejectUnverifiedUser(session.user.id);
+    if (unverified) return unverified;
+
     const body = await request.json();
-    const { receiverId, sessionName, description, mode, startDate, endDate } = body;
+    const {
+      receiverId,
+      skillId,
+      sessionName,
+      description,
+      mode,
+      startDate,
+      endDate,
+      quotedCredits,
+      recurrence,
+    } = body as {
+      receiverId?: string;
+      skillId?: string;
+      sessionName?: string;
+      description?: string;
+      mode?: string;
+      startDate?: string;
+      endDate?: string;
+      quotedCredits?: number;
+      recurrence?: RecurrenceRule | null;
+    };
 
     // Validate required fields
     if (!receiverId || !sessionName || !startDate || !endDate) {
@@ -173,6 +250,79 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The skill being taught must be one the receiver teaches
+    let skill: { id: string; name: string; hourlyRate: number } | null = null;
+    if (skillId) {
+      skill = await prisma.skill.findFirst({
+        where: { id: skillId, ownerId: receiverId, isTeaching: true },
+        select: { id: true, name: true, hourlyRate: true },
+      });
+
+      if (!skill) {
+        return NextResponse.json(
+          { error: 'This user does not teach the selected skill' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Price the session at the skill's rate and lock the quote into the request
+    const hourlyRate = resolveHourlyRate(skill?.hourlyRate);
+    const pricing = quoteSessionPrice(
+      new Date(startDate),
+      new Date(endDate),
+      hourlyRate
+    );
+
+    if ('error' in pricing) {
+      return NextResponse.json({ error: pricing.error }, { status: 400 });
+    }
+
+    if (new Date(startDate).getTime() <= Date.now()) {
+      return NextResponse.json(
+        { error: 'The start time must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const { quote } = pricing;
+
+    // A recurring request is quoted per session; each one's credits are
+    // reserved shortly before it starts
+    let occurrences: Occurrence[] = [
+      { startDate: new Date(startDate), endDate: new Date(endDate) },
+    ];
+    let occurrenceCount: number | null = null;
+    if (recurrence) {
+      // Sessions repeat at the same local time for the receiver
+      const expanded = buildOccurrences(
+        new Date(startDate),
+        new Date(endDate),
+        recurrence,
+        await getUserTimeZone(prisma, receiverId)
+      );
+
+      if ('error' in expanded) {
+        return NextResponse.json({ error: expanded.error }, { status: 400 });
+      }
+      occurrences = expanded.occurrences;
+      occurrenceCount = occurrences.length;
+    }
+
+    // The sender agreed to a price in the dialog; don't charge a different one
+    if (
+      quotedCredits !== undefined &&
+      Number(quotedCredits) !== quote.sessionCredits
+    ) {
+      return NextResponse.json(
+        {
+          error: `The price for this session has changed to ${quote.sessionCredits} credits. Please review and send again.`,
+          quote,
+        },
+        { status: 409 }
+      );
+    }
+
     // Get sender's wallet
     const senderWallet = await prisma.wallet.findUnique({
       where: { userId: senderId },
@@ -188,20 +338,18 @@ export async function POST(request: NextRequest) {
     // Check if sender has enough credits
     if (senderWallet.availableBalance < SESSION_REQUEST_COST) {
       return NextResponse.json(
-        { error: 'Insufficient credits. You need 5 credits to send a session request.' },
+        { error: `Insufficient credits. You need ${SESSION_REQUEST_COST} credits to send a session request.` },
         { status: 400 }
       );
     }
 
     // Use a transaction to ensure atomicity
     const result = await prisma.$transaction(async (tx) => {
-      // 1. Deduct credits from sender's available balance and add to outgoing
-      await tx.wallet.update({
-        where: { userId: senderId },
-        data: {
-          availableBalance: { decrement: SESSION_REQUEST_COST },
-          outgoingBalance: { increment: SESSION_REQUEST_COST },
-        },
+      // 1. Check the time is bookable; the new request then holds it
+      await reserveRequestSlot(tx, {
+        learnerId: senderId,
+        providerId: receiverId,
+        occurrences,
       });
 
       // 2. Create the session request
@@ -209,17 +357,23 @@ export async function POST(request: NextRequest) {
         data: {
           senderId,
           receiverId,
+          skillId: skill?.id ?? null,
           sessionName,
           description: description || null,
           mode: mode || 'ONLINE',
           startDate: new Date(startDate),
           endDate: new Date(endDate),
           creditsHeld: SESSION_REQUEST_COST,
+          hourlyRate: quote.hourlyRate,
+          sessionCredits: quote.sessionCredits,
+          recurrenceFrequency: recurrence ? recurrence.frequency : null,
+          recurrenceCount: recurrence?.count ?? null,
+          recurrenceUntil: recurrence?.until ? new Date(recurrence.until) : null,
         },
       });
 
       // 3. Create transaction record
-      await tx.transaction.create({
+      const holdTransaction = await tx.transaction.create({
         data: {
           walletId: senderWallet.id,
           amount: -SESSION_REQUEST_COST,
@@ -231,16 +385,52 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // 4. Hold the fee: sender's available -> outgoing
+      await holdCredits(tx, senderWallet.id, SESSION_REQUEST_COST, {
+        reference: ledgerReference('session_request', sessionRequest.id),
+        transactionId: holdTransaction.id,
+      });
+
       return sessionRequest;
     });
 
+    await createNotification({
+      userId: receiverId,
+      type: 'SESSION_REQUEST',
+      title: 'New session request',
+      message: occurrenceCount
+        ? `${session.user.name || 'Someone'} requested a series of ${occurrenceCount} sessions: ${sessionName}`
+        : `${session.user.name || 'Someone'} requested a session: ${sessionName}`,
+      relatedUserId: senderId,
+      relatedEntityId: result.id,
+      relatedEntityType: 'session_request',
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Session request sent successfully',
       requestId: result.id,
       creditsDeducted: SESSION_REQUEST_COST,
+      quote,
     });
   } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          ...(error.conflicts.length > 0 && { conflicts: error.conflicts }),
+        },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: `Insufficient credits. You need ${SESSION_REQUEST_COST} credits to send a session request.` },
+        { status: 400 }
+      );
+    }
+
     console.error('Error creating session request:', error);
     return NextResponse.json(
       { error: 'Failed to create session request' },
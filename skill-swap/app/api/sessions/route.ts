@@ -1,13 +1,18 @@
 /**
  * Sessions API Route
  *
- * GET - Fetch user's sessions (active, completed, cancelled)
+ * GET - Fetch user's sessions (scheduled, active, completed, cancelled,
+ * disputed)
  *
  * @fileoverview /api/sessions
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { getSettlementDate } from '@/lib/session-settlement';
+import { canDisputeSession } from '@/lib/disputes';
+import { toRescheduleProposalItem } from '@/lib/session-reschedule';
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,9 +22,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
     const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status'); // 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | null (all)
+    const status = searchParams.get('status'); // 'SCHEDULED' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'DISPUTED' | null (all)
 
     // Build where clause
     const whereClause: any = {
@@ -59,6 +67,26 @@ export async function GET(request: NextRequest) {
             name: true,
           },
         },
+        reviews: {
+          where: { reviewedByUserId: userId },
+          select: { id: true },
+        },
+        disputes: {
+          select: { id: true },
+        },
+        series: {
+          select: {
+            id: true,
+            frequency: true,
+            occurrenceCount: true,
+            status: true,
+          },
+        },
+        rescheduleProposals: {
+          where: { status: 'PENDING' },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -67,6 +95,11 @@ export async function GET(request: NextRequest) {
     const transformedSessions = sessions.map((s) => {
       const isLearner = s.learnerId === userId;
       const otherUser = isLearner ? s.provider : s.learner;
+      const names = {
+        [s.learner.id]: s.learner.fullName || s.learner.name || 'User',
+        [s.provider.id]: s.provider.fullName || s.provider.name || 'User',
+      };
+      const pendingProposal = s.rescheduleProposals[0];
 
       return {
         id: s.id,
@@ -85,8 +118,27 @@ export async function GET(request: NextRequest) {
         createdAt: s.createdAt,
         completedAt: s.completedAt,
         cancelledAt: s.cancelledAt,
+        settledAt: s.settledAt,
+        settlementOutcome: s.settlementOutcome,
+        // Sessions one party confirmed are settled automatically from this date
+        autoSettlesAt:
+          s.status === 'ACTIVE' &&
+          (s.learnerCompletionConfirmed || s.providerCompletionConfirmed)
+            ? getSettlementDate(s)
+            : null,
+        series: s.series
+          ? { ...s.series, occurrenceIndex: s.occurrenceIndex }
+          : null,
         role: isLearner ? 'learner' : 'provider',
         skill: s.skill,
+        hasReviewed: s.reviews.length > 0,
+        hasDispute: s.disputes.length > 0,
+        canDispute: canDisputeSession(s, s.disputes.length > 0),
+        // Only active sessions can still be moved
+        pendingReschedule:
+          s.status === 'ACTIVE' && pendingProposal
+            ? toRescheduleProposalItem(pendingProposal, userId, names)
+            : null,
         otherUser: {
           id: otherUser.id,
           fullName: otherUser.fullName || otherUser.name || 'User',
@@ -108,20 +160,26 @@ export async function GET(request: NextRequest) {
     });
 
     // Categorize sessions
+    const scheduled = transformedSessions.filter((s) => s.status === 'SCHEDULED');
     const active = transformedSessions.filter((s) => s.status === 'ACTIVE');
     const completed = transformedSessions.filter((s) => s.status === 'COMPLETED');
     const cancelled = transformedSessions.filter((s) => s.status === 'CANCELLED');
+    const disputed = transformedSessions.filter((s) => s.status === 'DISPUTED');
 
     return NextResponse.json({
       sessions: transformedSessions,
       currentUserId: userId,
+      scheduled,
       active,
       completed,
       cancelled,
+      disputed,
       counts: {
+        scheduled: scheduled.length,
         active: active.length,
         completed: completed.length,
         cancelled: cancelled.length,
+        disputed: disputed.length,
         total: transformedSessions.length,
       },
     });
@@ -0,0 +1,61 @@
+/**
+ * Cancel Session Series API Route
+ *
+ * Cancels every remaining SCHEDULED occurrence of a recurring series.
+ * Either participant can do this on their own, since no credits are
+ * reserved for those occurrences yet. Occurrences that are already
+ * active keep their reserved credits and are completed or cancelled
+ * individually.
+ *
+ * @fileoverview POST /api/sessions/series/[seriesId]/cancel
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { cancelSeries, SeriesError } from '@/lib/session-series';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const { seriesId } = await params;
+
+    const { cancelledCount } = await cancelSeries({
+      seriesId,
+      userId: session.user.id,
+      userName: session.user.name || 'Your partner',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message:
+        cancelledCount > 0
+          ? `Series cancelled. ${cancelledCount} upcoming session${cancelledCount === 1 ? '' : 's'} cancelled.`
+          : 'Series cancelled',
+      cancelledCount,
+    });
+  } catch (error) {
+    if (error instanceof SeriesError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error cancelling series:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel series' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Availability Settings API Route
+ *
+ * GET - The current user's weekly slots and date exceptions, with the time
+ * zone they are in
+ * PUT - Replace the schedule. Times are minutes from midnight in the user's
+ * time zone; exceptions are BLACKOUT days or AVAILABLE windows that replace
+ * the weekly slots on their date.
+ *
+ * @fileoverview GET/PUT /api/user/availability
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { validateSchedule } from '@/lib/availability';
+import {
+  loadAvailabilitySchedule,
+  saveAvailabilitySchedule,
+} from '@/lib/user-availability';
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const schedule = await loadAvailabilitySchedule(prisma, session.user.id);
+
+    if (!schedule) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error('Error fetching availability:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch availability' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const body = await request.json().catch(() => ({}));
+    const result = validateSchedule(body);
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await saveAvailabilitySchedule(session.user.id, result);
+    const schedule = await loadAvailabilitySchedule(prisma, session.user.id);
+
+    return NextResponse.json({
+      message: 'Availability updated',
+      ...schedule,
+    });
+  } catch (error) {
+    console.error('Error updating availability:', error);
+    return NextResponse.json(
+      { error: 'Failed to update availability' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Calendar Feed Settings API Route
+ *
+ * GET - Whether the current user has a calendar feed, and since when
+ * POST - Generate a new feed URL. Any previous URL stops working, and the
+ * new one is only returned this once.
+ * DELETE - Turn the feed off
+ *
+ * @fileoverview GET/POST/DELETE /api/user/calendar
+ */
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import {
+  calendarFeedUrl,
+  regenerateCalendarToken,
+  revokeCalendarToken,
+} from '@/lib/calendar';
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { calendarTokenCreatedAt: true },
+    });
+
+    return NextResponse.json({
+      enabled: !!user?.calendarTokenCreatedAt,
+      createdAt: user?.calendarTokenCreatedAt ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching calendar feed settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar feed settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const token = await regenerateCalendarToken(session.user.id);
+
+    return NextResponse.json({
+      message: 'Calendar feed URL generated',
+      url: calendarFeedUrl(token),
+    });
+  } catch (error) {
+    console.error('Error generating calendar feed URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate calendar feed URL' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    await revokeCalendarToken(session.user.id);
+
+    return NextResponse.json({ message: 'Calendar feed turned off' });
+  } catch (error) {
+    console.error('Error turning off calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to turn off calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * User Activity History API Route
+ *
+ * Builds the current user's activity timeline from completed and
+ * cancelled sessions, connections made, posts created and credit
+ * transactions, plus summary stats and monthly taught/learned/earned/spent
+ * buckets for the history charts.
+ *
+ * Query params:
+ * - type: all | sessions | connections | posts | credits (default all)
+ * - from, to: ISO dates bounding the timeline
+ * - page, limit: timeline pagination
+ * - months: number of monthly buckets (default 6)
+ * - format=csv: download the filtered timeline instead of JSON
+ *
+ * @fileoverview GET /api/user/history
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { PAGINATION } from '@/lib/constants';
+import { parseDateParam, toCsv } from '@/lib/utils';
+import {
+  TRANSACTION_LABELS,
+  classifyTransaction,
+} from '@/lib/transactions';
+import type {
+  HistoryFilter,
+  HistoryItem,
+  HistorySummary,
+  MonthlyHistoryBucket,
+} from '@/lib/types/history';
+
+export const dynamic = 'force-dynamic';
+
+const HISTORY_FILTERS: HistoryFilter[] = [
+  'all',
+  'sessions',
+  'connections',
+  'posts',
+  'credits',
+];
+
+const DEFAULT_MONTHS = 6;
+const MAX_MONTHS = 24;
+
+// Upper bound on timeline rows included in a CSV download
+const EXPORT_LIMIT = 1000;
+
+// Refunded or reversed transactions count as neither earned nor spent
+const VOID_STATUSES = ['REFUNDED', 'REVERSED'];
+
+const userSelect = {
+  id: true,
+  fullName: true,
+  name: true,
+  image: true,
+} as const;
+
+type UserRow = {
+  id: string;
+  fullName: string | null;
+  name: string | null;
+  image: string | null;
+};
+
+type DateRange = { gte?: Date; lte?: Date };
+
+function toRelatedUser(user: UserRow) {
+  return {
+    id: user.id,
+    name: user.fullName || user.name || 'User',
+    image: user.image,
+  };
+}
+
+function monthKey(date: Date) {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${date.getUTCFullYear()}-${month}`;
+}
+
+/**
+ * Load the newest `take` items of every requested source, merge them by
+ * date and return the combined list with the total number of items
+ */
+async function loadTimeline(
+  userId: string,
+  walletId: string | null,
+  filter: HistoryFilter,
+  range: DateRange,
+  take: number
+): Promise<{ items: HistoryItem[]; total: number }> {
+  const include = (f: HistoryFilter) => filter === 'all' || filter === f;
+  const participant = { OR: [{ learnerId: userId }, { providerId: userId }] };
+  const sessionInclude = {
+    learner: { select: userSelect },
+    provider: { select: userSelect },
+  };
+
+  const completedWhere = {
+    ...participant,
+    status: 'COMPLETED',
+    completedAt: { not: null, ...range },
+  };
+  const cancelledWhere = {
+    ...participant,
+    status: 'CANCELLED',
+    cancelledAt: { not: null, ...range },
+  };
+  const connectionWhere = {
+    OR: [{ user1Id: userId }, { user2Id: userId }],
+    createdAt: range,
+  };
+  const postWhere = { authorId: userId, createdAt: range };
+  const transactionWhere = { walletId: walletId ?? '', createdAt: range };
+
+  const [
+    completed,
+    completedCount,
+    cancelled,
+    cancelledCount,
+    connections,
+    connectionCount,
+    posts,
+    postCount,
+    transactions,
+    transactionCount,
+  ] = await Promise.all([
+    include('sessions')
+      ? prisma.session.findMany({
+          where: completedWhere,
+          orderBy: { completedAt: 'desc' },
+          take,
+          include: sessionInclude,
+        })
+      : [],
+    include('sessions') ? prisma.session.count({ where: completedWhere }) : 0,
+    include('sessions')
+      ? prisma.session.findMany({
+          where: cancelledWhere,
+          orderBy: { cancelledAt: 'desc' },
+          take,
+          include: sessionInclude,
+        })
+      : [],
+    include('sessions') ? prisma.session.count({ where: cancelledWhere }) : 0,
+    include('connections')
+      ? prisma.connection.findMany({
+          where: connectionWhere,
+          orderBy: { createdAt: 'desc' },
+          take,
+          include: {
+            user1: { select: userSelect },
+            user2: { select: userSelect },
+          },
+        })
+      : [],
+    include('connections')
+      ? prisma.connection.count({ where: connectionWhere })
+      : 0,
+    include('posts')
+      ? prisma.newsfeedPost.findMany({
+          where: postWhere,
+          orderBy: { createdAt: 'desc' },
+          take,
+          select: { id: true, title: true, createdAt: true },
+        })
+      : [],
+    include('posts') ? prisma.newsfeedPost.count({ where: postWhere }) : 0,
+    include('credits') && walletId
+      ? prisma.transaction.findMany({
+          where: transactionWhere,
+          orderBy: { createdAt: 'desc' },
+          take,
+        })
+      : [],
+    include('credits') && walletId
+      ? prisma.transaction.count({ where: transactionWhere })
+      : 0,
+  ]);
+
+  const items: HistoryItem[] = [];
+
+  for (const s of completed) {
+    const isProvider = s.providerId === userId;
+    const other = toRelatedUser(isProvider ? s.learner : s.provider);
+    items.push({
+      id: `session-${s.id}`,
+      type: isProvider ? 'session_taught' : 'session_learned',
+      description: isProvider
+        ? `Taught ${s.sessionName} to ${other.name}`
+        : `Completed ${s.sessionName} session with ${other.name}`,
+      credits: null,
+      date: s.completedAt!,
+      relatedUser: other,
+    });
+  }
+
+  for (const s of cancelled) {
+    const other = toRelatedUser(
+      s.providerId === userId ? s.learner : s.provider
+    );
+    items.push({
+      id: `session-${s.id}`,
+      type: 'session_cancelled',
+      description: `Cancelled ${s.sessionName} session with ${other.name}`,
+      credits: null,
+      date: s.cancelledAt!,
+      relatedUser: other,
+    });
+  }
+
+  for (const c of connections) {
+    const other = toRelatedUser(c.user1Id === userId ? c.user2 : c.user1);
+    items.push({
+      id: `connection-${c.id}`,
+      type: 'connection_made',
+      description: `Connected with ${other.name}`,
+      credits: null,
+      date: c.createdAt,
+      relatedUser: other,
+    });
+  }
+
+  for (const p of posts) {
+    items.push({
+      id: `post-${p.id}`,
+      type: 'post_created',
+      description: `Created post: ${p.title}`,
+      credits: null,
+      date: p.createdAt,
+      relatedUser: null,
+    });
+  }
+
+  for (const tx of transactions) {
+    const direction = classifyTransaction(tx);
+    const amount = Math.abs(tx.amount);
+    items.push({
+      id: `transaction-${tx.id}`,
+      type: 'credit_transaction',
+      description: tx.note || TRANSACTION_LABELS[tx.type] || tx.type,
+      credits:
+        direction === 'spent'
+          ? -amount
+          : direction === 'earned'
+          ? amount
+          : tx.amount,
+      date: tx.createdAt,
+      relatedUser: null,
+    });
+  }
+
+  items.sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+
+  return {
+    items,
+    total:
+      completedCount +
+      cancelledCount +
+      connectionCount +
+      postCount +
+      transactionCount,
+  };
+}
+
+/**
+ * Count sessions taught/learned and credits earned/spent per month
+ */
+async function loadMonthlyBuckets(
+  userId: string,
+  walletId: string | null,
+  months: number
+): Promise<MonthlyHistoryBucket[]> {
+  const now = new Date();
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1)
+  );
+
+  const buckets = new Map<string, MonthlyHistoryBucket>();
+  for (let i = 0; i < months; i++) {
+    const date = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1)
+    );
+    const key = monthKey(date);
+    buckets.set(key, {
+      key,
+      month: date.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' }),
+      skillsTaught: 0,
+      skillsLearned: 0,
+      creditsEarned: 0,
+      creditsSpent: 0,
+    });
+  }
+
+  const [sessions, transactions] = await Promise.all([
+    prisma.session.findMany({
+      where: {
+        OR: [{ learnerId: userId }, { providerId: userId }],
+        status: 'COMPLETED',
+        completedAt: { gte: start },
+      },
+      select: { providerId: true, completedAt: true },
+    }),
+    walletId
+      ? prisma.transaction.findMany({
+          where: {
+            walletId,
+            createdAt: { gte: start },
+            status: { notIn: VOID_STATUSES },
+          },
+          select: { type: true, amount: true, createdAt: true },
+        })
+      : [],
+  ]);
+
+  for (const s of sessions) {
+    const bucket = buckets.get(monthKey(s.completedAt!));
+    if (!bucket) continue;
+    if (s.providerId === userId) bucket.skillsTaught++;
+    else bucket.skillsLearned++;
+  }
+
+  for (const tx of transactions) {
+    const bucket = buckets.get(monthKey(tx.createdAt));
+    const direction = classifyTransaction(tx);
+    if (!bucket || !direction) continue;
+    if (direction === 'earned') bucket.creditsEarned += Math.abs(tx.amount);
+    else bucket.creditsSpent += Math.abs(tx.amount);
+  }
+
+  return [...buckets.values()];
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+    const filter = (searchParams.get('type') || 'all') as HistoryFilter;
+    const isCsv = searchParams.get('format') === 'csv';
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const pageSize = Math.min(
+      PAGINATION.MAX_PAGE_SIZE,
+      Math.max(
+        1,
+        parseInt(
+          searchParams.get('limit') || String(PAGINATION.DEFAULT_PAGE_SIZE)
+        )
+      )
+    );
+    const months = Math.min(
+      MAX_MONTHS,
+      Math.max(
+        1,
+        parseInt(searchParams.get('months') || String(DEFAULT_MONTHS))
+      )
+    );
+
+    if (!HISTORY_FILTERS.includes(filter)) {
+      return NextResponse.json(
+        { error: 'Invalid activity type' },
+        { status: 400 }
+      );
+    }
+
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const from = parseDateParam(fromParam);
+    const to = parseDateParam(toParam, true);
+
+    if ((fromParam && !from) || (toParam && !to)) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+
+    const range: DateRange = {};
+    if (from) range.gte = from;
+    if (to) range.lte = to;
+
+    const wallet = await prisma.wallet.findUnique({
+      where: { userId },
+      select: { id: true, availableBalance: true },
+    });
+    const walletId = wallet?.id ?? null;
+
+    if (isCsv) {
+      const { items } = await loadTimeline(
+        userId,
+        walletId,
+        filter,
+        range,
+        EXPORT_LIMIT
+      );
+
+      const rows = [
+        ['Date', 'Activity', 'Description', 'Credits', 'With'],
+        ...items.map((item) => [
+          new Date(item.date).toISOString(),
+          item.type,
+          item.description,
+          item.credits === null ? '' : String(item.credits),
+          item.relatedUser?.name || '',
+        ]),
+      ];
+      const csv = toCsv(rows);
+      const today = new Date().toISOString().slice(0, 10);
+      const filename = `skillswap-history-${today}.csv`;
+
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const [timeline, monthly, skillsTaught, skillsLearned] = await Promise.all([
+      loadTimeline(userId, walletId, filter, range, page * pageSize),
+      loadMonthlyBuckets(userId, walletId, months),
+      prisma.session.count({
+        where: { providerId: userId, status: 'COMPLETED' },
+      }),
+      prisma.session.count({
+        where: { learnerId: userId, status: 'COMPLETED' },
+      }),
+    ]);
+
+    const summary: HistorySummary = {
+      skillsTaught,
+      skillsLearned,
+      totalSessions: skillsTaught + skillsLearned,
+      creditsBalance: wallet?.availableBalance ?? 0,
+    };
+
+    const totalItems = timeline.total;
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return NextResponse.json({
+      items: timeline.items.slice((page - 1) * pageSize, page * pageSize),
+      summary,
+      monthly,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch history' },
+      { status: 500 }
+    );
+  }
+}
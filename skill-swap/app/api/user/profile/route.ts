@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
 
 export async function GET() {
@@ -10,6 +11,9 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
 
     // Fetch user with all related data
@@ -25,6 +29,7 @@ export async function GET() {
             proficiencyLevel: true,
             yearsOfExperience: true,
             teachingFormat: true,
+            hourlyRate: true,
             createdAt: true,
             // Count students (sessions as provider)
             _count: {
@@ -177,6 +182,7 @@ export async function GET() {
         proficiency: skill.proficiencyLevel,
         yearsExperience: skill.yearsOfExperience,
         teachingFormat: skill.teachingFormat,
+        hourlyRate: skill.hourlyRate,
         studentCount: skill._count.sessions,
       })),
 
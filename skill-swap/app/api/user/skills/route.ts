@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { CREDITS } from '@/lib/constants';
+import { isValidHourlyRate } from '@/lib/pricing';
+
+const INVALID_RATE_ERROR = `Hourly rate must be a whole number of credits between ${CREDITS.MIN_HOURLY_RATE} and ${CREDITS.MAX_HOURLY_RATE}`;
+
 export async function POST(request: NextRequest) {
   try {
     const session = await auth();
@@ -9,6 +15,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
     const body = await request.json();
 
@@ -18,9 +27,9 @@ export async function POST(request: NextRequest) {
       proficiencyLevel,
       yearsOfExperience,
       teachingFormat,
-      availabilityWindow,
       timeZone,
       alternativeNames,
+      hourlyRate,
     } = body;
 
     // Validate required fields
@@ -59,6 +68,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const rate = Number(hourlyRate ?? CREDITS.DEFAULT_HOURLY_RATE);
+    if (!isValidHourlyRate(rate)) {
+      return NextResponse.json({ error: INVALID_RATE_ERROR }, { status: 400 });
+    }
+
     // Create skill
     const skill = await prisma.skill.create({
       data: {
@@ -68,8 +82,8 @@ export async function POST(request: NextRequest) {
         proficiencyLevel,
         yearsOfExperience: parseInt(yearsOfExperience),
         teachingFormat,
-        availabilityWindow: availabilityWindow || '09:00-17:00',
         timeZone: timeZone || 'UTC',
+        hourlyRate: rate,
         alternativeNames: alternativeNames?.trim() || null,
       },
     });
@@ -91,6 +105,9 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
     const { searchParams } = new URL(request.url);
     const skillId = searchParams.get('id');
@@ -133,6 +150,9 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const userId = session.user.id;
     const body = await request.json();
 
@@ -143,9 +163,9 @@ export async function PUT(request: NextRequest) {
       proficiencyLevel,
       yearsOfExperience,
       teachingFormat,
-      availabilityWindow,
       timeZone,
       alternativeNames,
+      hourlyRate,
     } = body;
 
     if (!id) {
@@ -164,6 +184,10 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
     }
 
+    if (hourlyRate !== undefined && !isValidHourlyRate(Number(hourlyRate))) {
+      return NextResponse.json({ error: INVALID_RATE_ERROR }, { status: 400 });
+    }
+
     // Update the skill
     const skill = await prisma.skill.update({
       where: { id },
@@ -176,9 +200,11 @@ export async function PUT(request: NextRequest) {
             ? parseInt(yearsOfExperience)
             : existingSkill.yearsOfExperience,
         teachingFormat: teachingFormat || existingSkill.teachingFormat,
-        availabilityWindow:
-          availabilityWindow || existingSkill.availabilityWindow,
         timeZone: timeZone || existingSkill.timeZone,
+        hourlyRate:
+          hourlyRate !== undefined
+            ? Number(hourlyRate)
+            : existingSkill.hourlyRate,
         alternativeNames:
           alternativeNames !== undefined
             ? alternativeNames?.trim() || null
@@ -0,0 +1,337 @@
+/**
+ * Transaction Export API Route
+ *
+ * Downloads the current user's credit transactions together with a
+ * summary of the sessions they taught and attended, so members can keep
+ * records of credits earned for tutoring.
+ *
+ * Query params:
+ * - format: csv | pdf (default csv)
+ * - from, to: ISO dates bounding the export
+ *
+ * @fileoverview GET /api/user/transactions/export
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
+import { prisma } from '@/lib/prisma';
+import { buildTextPdf, type PdfLine } from '@/lib/pdf';
+import { parseDateParam, toCsv } from '@/lib/utils';
+import {
+  TRANSACTION_INCLUDE,
+  TRANSACTION_LABELS,
+  formatTransaction,
+  type FormattedTransaction,
+  type TransactionWithRelations,
+} from '@/lib/transactions';
+import { loadTransferUsers } from '@/lib/transfers';
+
+export const dynamic = 'force-dynamic';
+
+const EXPORT_FORMATS = ['csv', 'pdf'] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Upper bound on transaction and session rows in a single export
+const EXPORT_LIMIT = 5000;
+
+type DateRange = { gte?: Date; lte?: Date };
+
+interface ExportSession {
+  date: string;
+  name: string;
+  skill: string;
+  role: 'Taught' | 'Learned';
+  partner: string;
+  credits: number;
+}
+
+interface SessionSummary {
+  taught: number;
+  learned: number;
+  creditsEarned: number;
+  creditsSpent: number;
+  cancelled: number;
+  sessions: ExportSession[];
+}
+
+function formatDate(value: Date | string) {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function signedAmount(tx: FormattedTransaction) {
+  return `${tx.isCredit ? '+' : '-'}${tx.amount}`;
+}
+
+function describeRange(range: DateRange) {
+  if (range.gte && range.lte) {
+    return `${formatDate(range.gte)} to ${formatDate(range.lte)}`;
+  }
+  if (range.gte) return `From ${formatDate(range.gte)}`;
+  if (range.lte) return `Up to ${formatDate(range.lte)}`;
+  return 'All time';
+}
+
+/**
+ * Count completed and cancelled sessions in the range and list the
+ * completed ones with the credits each was worth
+ */
+async function loadSessionSummary(
+  userId: string,
+  range: DateRange
+): Promise<SessionSummary> {
+  const hasRange = Boolean(range.gte || range.lte);
+  const participant = [{ providerId: userId }, { learnerId: userId }];
+
+  const [completed, cancelled] = await Promise.all([
+    prisma.session.findMany({
+      where: {
+        OR: participant,
+        status: 'COMPLETED',
+        ...(hasRange ? { completedAt: range } : {}),
+      },
+      orderBy: { completedAt: 'desc' },
+      take: EXPORT_LIMIT,
+      select: {
+        sessionName: true,
+        providerId: true,
+        sessionCredits: true,
+        completedAt: true,
+        updatedAt: true,
+        skill: { select: { name: true } },
+        provider: { select: { fullName: true, name: true } },
+        learner: { select: { fullName: true, name: true } },
+      },
+    }),
+    prisma.session.count({
+      where: {
+        OR: participant,
+        status: 'CANCELLED',
+        ...(hasRange ? { cancelledAt: range } : {}),
+      },
+    }),
+  ]);
+
+  const summary: SessionSummary = {
+    taught: 0,
+    learned: 0,
+    creditsEarned: 0,
+    creditsSpent: 0,
+    cancelled,
+    sessions: [],
+  };
+
+  for (const session of completed) {
+    const isProvider = session.providerId === userId;
+    const partner = isProvider ? session.learner : session.provider;
+
+    if (isProvider) {
+      summary.taught++;
+      summary.creditsEarned += session.sessionCredits;
+    } else {
+      summary.learned++;
+      summary.creditsSpent += session.sessionCredits;
+    }
+
+    summary.sessions.push({
+      date: formatDate(session.completedAt ?? session.updatedAt),
+      name: session.sessionName,
+      skill: session.skill.name,
+      role: isProvider ? 'Taught' : 'Learned',
+      partner: partner.fullName || partner.name || 'User',
+      credits: session.sessionCredits,
+    });
+  }
+
+  return summary;
+}
+
+function buildCsv(
+  transactions: FormattedTransaction[],
+  summary: SessionSummary
+) {
+  return toCsv([
+    ['Date', 'Type', 'Status', 'Amount', 'Related User', 'Session', 'Note'],
+    ...transactions.map((tx) => [
+      tx.createdAt,
+      TRANSACTION_LABELS[tx.type] || tx.type,
+      tx.status,
+      signedAmount(tx),
+      tx.relatedUser?.name || '',
+      tx.context,
+      tx.note || '',
+    ]),
+    [],
+    ['Session Summary'],
+    ['Sessions Taught', String(summary.taught)],
+    ['Sessions Learned', String(summary.learned)],
+    ['Sessions Cancelled', String(summary.cancelled)],
+    ['Credits Earned Teaching', String(summary.creditsEarned)],
+    ['Credits Spent Learning', String(summary.creditsSpent)],
+    [],
+    ['Completed', 'Session', 'Skill', 'Role', 'With', 'Credits'],
+    ...summary.sessions.map((s) => [
+      s.date,
+      s.name,
+      s.skill,
+      s.role,
+      s.partner,
+      String(s.credits),
+    ]),
+  ]);
+}
+
+function buildPdf(
+  userName: string,
+  range: DateRange,
+  transactions: FormattedTransaction[],
+  summary: SessionSummary
+) {
+  const lines: PdfLine[] = [
+    { text: 'SkillSwap Credit Statement', size: 18, bold: true },
+    { text: userName, gapBefore: 4 },
+    { text: `Period: ${describeRange(range)}` },
+    { text: `Generated: ${formatDate(new Date())}` },
+
+    { text: 'Session Summary', size: 13, bold: true, gapBefore: 16 },
+    { text: `Sessions taught: ${summary.taught}` },
+    { text: `Sessions learned: ${summary.learned}` },
+    { text: `Sessions cancelled: ${summary.cancelled}` },
+    { text: `Credits earned teaching: ${summary.creditsEarned}` },
+    { text: `Credits spent learning: ${summary.creditsSpent}` },
+  ];
+
+  if (summary.sessions.length > 0) {
+    lines.push({ text: 'Completed Sessions', size: 13, bold: true, gapBefore: 16 });
+    for (const s of summary.sessions) {
+      lines.push({
+        text: `${s.date}  ${s.role}  ${s.name} (${s.skill}) with ${s.partner}  ${s.credits} credits`,
+      });
+    }
+  }
+
+  lines.push({ text: 'Transactions', size: 13, bold: true, gapBefore: 16 });
+  if (transactions.length === 0) {
+    lines.push({ text: 'No transactions in this period.' });
+  }
+  for (const tx of transactions) {
+    const parts = [
+      formatDate(tx.createdAt),
+      TRANSACTION_LABELS[tx.type] || tx.type,
+      tx.status,
+      signedAmount(tx),
+    ];
+    if (tx.relatedUser?.name) parts.push(`with ${tx.relatedUser.name}`);
+    if (tx.context) parts.push(tx.context);
+    lines.push({ text: parts.join('  ') });
+    if (tx.note) {
+      lines.push({ text: `    Note: ${tx.note}`, size: 9 });
+    }
+  }
+
+  return buildTextPdf(lines);
+}
+
+/**
+ * GET - Download the user's transactions and session summary
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Format must be csv or pdf' },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDateParam(fromParam);
+    const to = parseDateParam(toParam, true);
+
+    if ((fromParam && !from) || (toParam && !to)) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+
+    if (from && to && from > to) {
+      return NextResponse.json(
+        { error: 'Start date must be before end date' },
+        { status: 400 }
+      );
+    }
+
+    const range: DateRange = {};
+    if (from) range.gte = from;
+    if (to) range.lte = to;
+
+    const [user, wallet] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { fullName: true, name: true, email: true },
+      }),
+      prisma.wallet.findUnique({
+        where: { userId },
+        select: { id: true },
+      }),
+    ]);
+
+    const [transactions, summary] = await Promise.all([
+      wallet
+        ? (prisma.transaction.findMany({
+            where: {
+              walletId: wallet.id,
+              ...(from || to ? { createdAt: range } : {}),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: EXPORT_LIMIT,
+            include: TRANSACTION_INCLUDE,
+          }) as Promise<TransactionWithRelations[]>)
+        : Promise.resolve([]),
+      loadSessionSummary(userId, range),
+    ]);
+
+    const transferUsers = await loadTransferUsers(transactions);
+    const formatted = transactions.map((tx) =>
+      formatTransaction(tx, transferUsers)
+    );
+    const today = new Date().toISOString().slice(0, 10);
+    const filename = `skillswap-transactions-${today}.${format}`;
+
+    if (format === 'pdf') {
+      const userName = user?.fullName || user?.name || user?.email || 'User';
+      const pdf = buildPdf(userName, range, formatted, summary);
+
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return new NextResponse(buildCsv(formatted, summary), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting transactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to export transactions' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,37 +7,17 @@
  */
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import {
+  TRANSACTION_INCLUDE,
+  formatTransaction,
+  type TransactionWithRelations,
+} from '@/lib/transactions';
+import { loadTransferUsers } from '@/lib/transfers';
 
 export const dynamic = 'force-dynamic';
 
-interface TransactionWithRelations {
-  id: string;
-  walletId: string;
-  amount: number;
-  type: string;
-  status: string;
-  relatedUserId: string | null;
-  note: string | null;
-  createdAt: Date;
-  connectionRequest: {
-    sender: { id: string; name: string | null; image: string | null };
-    receiver: { id: string; name: string | null; image: string | null };
-  } | null;
-  sessionRequest: {
-    sessionName: string;
-    sender: { id: string; name: string | null; image: string | null };
-    receiver: { id: string; name: string | null; image: string | null };
-  } | null;
-  session: {
-    id: string;
-    sessionName: string;
-    learner: { id: string; name: string | null; image: string | null };
-    provider: { id: string; name: string | null; image: string | null };
-    skill: { name: string } | null;
-  } | null;
-}
-
 /**
  * GET - Fetch user's transaction history
  */
@@ -49,6 +29,9 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
@@ -95,135 +78,14 @@ export async function GET(request: Request) {
       orderBy: { createdAt: 'desc' },
       skip: (page - 1) * limit,
       take: limit,
-      include: {
-        connectionRequest: {
-          select: {
-            sender: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-            receiver: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-          },
-        },
-        sessionRequest: {
-          select: {
-            sessionName: true,
-            sender: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-            receiver: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-          },
-        },
-        session: {
-          select: {
-            id: true,
-            sessionName: true,
-            learner: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-            provider: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-            skill: {
-              select: {
-                name: true,
-              },
-            },
-          },
-        },
-      },
+      include: TRANSACTION_INCLUDE,
     }) as TransactionWithRelations[];
 
     // Format transactions for the frontend
-    const formattedTransactions = transactions.map((tx) => {
-      // Determine the related user and context
-      let relatedUser = null;
-      let context = '';
-      let skillName = '';
-
-      if (tx.connectionRequest) {
-        // Connection-related transaction
-        const isOutgoing =
-          tx.type === 'CONNECTION_REQUEST_SENT' ||
-          tx.type === 'CONNECTION_REQUEST_REFUNDED';
-        relatedUser = isOutgoing
-          ? tx.connectionRequest.receiver
-          : tx.connectionRequest.sender;
-        context = 'Connection Request';
-      } else if (tx.sessionRequest) {
-        // Session request-related transaction
-        const isOutgoing =
-          tx.type === 'SESSION_REQUEST_SENT' ||
-          tx.type === 'SESSION_REQUEST_REFUNDED';
-        relatedUser = isOutgoing
-          ? tx.sessionRequest.receiver
-          : tx.sessionRequest.sender;
-        context = tx.sessionRequest.sessionName
-          ? `Session Request - ${tx.sessionRequest.sessionName}`
-          : 'Session Request';
-      } else if (tx.session) {
-        // Session-related transaction
-        relatedUser =
-          tx.type === 'SESSION_COMPLETED'
-            ? tx.session.learner // Provider receives from learner
-            : tx.session.provider;
-        skillName = tx.session.skill?.name || '';
-        context = tx.session.sessionName
-          ? `Session - ${tx.session.sessionName}`
-          : skillName
-          ? `Session - ${skillName}`
-          : 'Session';
-      }
-
-      // Determine if credit or debit
-      const isCredit = tx.amount > 0;
-
-      return {
-        id: tx.id,
-        amount: Math.abs(tx.amount),
-        isCredit,
-        type: tx.type,
-        status: tx.status,
-        note: tx.note,
-        context,
-        skillName,
-        relatedUser: relatedUser
-          ? {
-              id: relatedUser.id,
-              name: relatedUser.name,
-              image: relatedUser.image,
-            }
-          : null,
-        createdAt: tx.createdAt.toISOString(),
-      };
-    });
+    const transferUsers = await loadTransferUsers(transactions);
+    const formattedTransactions = transactions.map((tx) =>
+      formatTransaction(tx, transferUsers)
+    );
 
     return NextResponse.json({
       transactions: formattedTransactions,
@@ -7,7 +7,9 @@
  */
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { openWallet } from '@/lib/ledger';
 
 export const dynamic = 'force-dynamic';
 
@@ -22,6 +24,9 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const wallet = await prisma.wallet.findUnique({
       where: { userId: session.user.id },
       select: {
@@ -33,21 +38,18 @@ export async function GET() {
 
     if (!wallet) {
       // Create wallet if it doesn't exist (first-time user)
-      const newWallet = await prisma.wallet.create({
-        data: {
-          userId: session.user.id,
-          availableBalance: 100, // Starting balance
-          outgoingBalance: 0,
-          incomingBalance: 0,
-        },
-        select: {
-          availableBalance: true,
-          outgoingBalance: true,
-          incomingBalance: true,
+      const userId = session.user.id;
+      const newWallet = await prisma.$transaction((tx) =>
+        openWallet(tx, userId)
+      );
+
+      return NextResponse.json({
+        wallet: {
+          availableBalance: newWallet.availableBalance,
+          outgoingBalance: newWallet.outgoingBalance,
+          incomingBalance: newWallet.incomingBalance,
         },
       });
-
-      return NextResponse.json({ wallet: newWallet });
     }
 
     return NextResponse.json({ wallet });
@@ -0,0 +1,275 @@
+/**
+ * Credit Transfer API Route
+ *
+ * GET - How many transfers and credits the user can still send today
+ * POST - Gift credits to a connected user, or tip them for a completed
+ * session, with an optional note
+ *
+ * @fileoverview /api/user/wallet/transfer
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { activeUserFilter, rejectSuspendedUser } from '@/lib/account-status';
+import { rejectUnverifiedUser } from '@/lib/email-verification';
+import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications';
+import { VALIDATION } from '@/lib/constants';
+import {
+  InsufficientCreditsError,
+  ledgerReference,
+  transferCredits,
+} from '@/lib/ledger';
+import {
+  checkTransferAllowance,
+  getTransferAllowance,
+  TransferLimitError,
+} from '@/lib/transfers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Remaining daily transfer allowance
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const wallet = await prisma.wallet.findUnique({
+      where: { userId: session.user.id },
+      select: { id: true, availableBalance: true },
+    });
+
+    if (!wallet) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 });
+    }
+
+    const allowance = await getTransferAllowance(wallet.id);
+
+    return NextResponse.json({
+      ...allowance,
+      availableBalance: wallet.availableBalance,
+    });
+  } catch (error) {
+    console.error('Error fetching transfer allowance:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transfer allowance' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Send credits to a connected user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
+    const unverified = await rejectUnverifiedUser(session.user.id);
+    if (unverified) return unverified;
+
+    const body = await request.json();
+    const { recipientId, amount, note, sessionId } = body as {
+      recipientId?: string;
+      amount?: number;
+      note?: string | null;
+      sessionId?: string | null;
+    };
+
+    const senderId = session.user.id;
+
+    if (!recipientId) {
+      return NextResponse.json(
+        { error: 'Recipient ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (recipientId === senderId) {
+      return NextResponse.json(
+        { error: 'You cannot send credits to yourself' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 1) {
+      return NextResponse.json(
+        { error: 'Amount must be a whole number of credits' },
+        { status: 400 }
+      );
+    }
+
+    const trimmedNote = typeof note === 'string' ? note.trim() : '';
+    if (trimmedNote.length > VALIDATION.TRANSFER_NOTE_MAX_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Note must be ${VALIDATION.TRANSFER_NOTE_MAX_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const recipient = await prisma.user.findFirst({
+      where: { id: recipientId, ...activeUserFilter() },
+      select: { id: true, fullName: true, name: true },
+    });
+
+    if (!recipient) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Credits can only go to people you're connected with
+    const [user1Id, user2Id] =
+      senderId < recipientId ? [senderId, recipientId] : [recipientId, senderId];
+
+    const connection = await prisma.connection.findUnique({
+      where: {
+        user1Id_user2Id: { user1Id, user2Id },
+        status: 'ACTIVE',
+      },
+    });
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'You can only send credits to your connections' },
+        { status: 403 }
+      );
+    }
+
+    // A tip must be for a completed session the recipient taught
+    let tippedSession: { id: string; sessionName: string } | null = null;
+    if (sessionId) {
+      tippedSession = await prisma.session.findFirst({
+        where: {
+          id: sessionId,
+          learnerId: senderId,
+          providerId: recipientId,
+          status: 'COMPLETED',
+        },
+        select: { id: true, sessionName: true },
+      });
+
+      if (!tippedSession) {
+        return NextResponse.json(
+          { error: 'You can only tip for a completed session they taught you' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const [senderWallet, recipientWallet] = await Promise.all([
+      prisma.wallet.findUnique({ where: { userId: senderId } }),
+      prisma.wallet.findUnique({ where: { userId: recipientId } }),
+    ]);
+
+    if (!senderWallet || !recipientWallet) {
+      return NextResponse.json(
+        { error: 'Wallet not found for one or both users' },
+        { status: 400 }
+      );
+    }
+
+    if (senderWallet.availableBalance < amount) {
+      return NextResponse.json(
+        { error: 'Insufficient credits' },
+        { status: 400 }
+      );
+    }
+
+    const senderName = session.user.name || 'Someone';
+    const recipientName = recipient.fullName || recipient.name || 'User';
+    const kind = tippedSession ? 'Tip' : 'Gift';
+
+    const sent = await prisma.$transaction(async (tx) => {
+      // 1. Daily limits, with the sender's wallet locked
+      await checkTransferAllowance(tx, senderWallet.id, amount);
+
+      // 2. Sender's record
+      const sentTx = await tx.transaction.create({
+        data: {
+          walletId: senderWallet.id,
+          amount: -amount,
+          type: 'TRANSFER_SENT',
+          status: 'COMPLETED',
+          relatedUserId: recipientId,
+          sessionId: tippedSession?.id ?? null,
+          note: trimmedNote || `${kind} to ${recipientName}`,
+        },
+      });
+
+      // 3. Recipient's record
+      await tx.transaction.create({
+        data: {
+          walletId: recipientWallet.id,
+          amount,
+          type: 'TRANSFER_RECEIVED',
+          status: 'COMPLETED',
+          relatedUserId: senderId,
+          sessionId: tippedSession?.id ?? null,
+          note: trimmedNote || `${kind} from ${senderName}`,
+        },
+      });
+
+      // 4. Move the credits between available balances
+      await transferCredits(tx, senderWallet.id, recipientWallet.id, amount, {
+        reference: ledgerReference('transfer', sentTx.id),
+        transactionId: sentTx.id,
+      });
+
+      return sentTx;
+    });
+
+    await createNotification({
+      userId: recipientId,
+      type: 'CREDITS_RECEIVED',
+      title: tippedSession ? 'You received a tip' : 'You received credits',
+      message: tippedSession
+        ? `${senderName} tipped you ${amount} credits for ${tippedSession.sessionName}`
+        : `${senderName} sent you ${amount} credits${
+            trimmedNote ? `: ${trimmedNote}` : ''
+          }`,
+      relatedUserId: senderId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Sent ${amount} credits to ${recipientName}`,
+      transactionId: sent.id,
+      amount,
+    });
+  } catch (error) {
+    if (error instanceof TransferLimitError) {
+      return NextResponse.json(
+        { error: error.message, ...error.allowance },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: 'Insufficient credits' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error transferring credits:', error);
+    return NextResponse.json(
+      { error: 'Failed to transfer credits' },
+      { status: 500 }
+    );
+  }
+}
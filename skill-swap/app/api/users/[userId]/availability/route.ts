@@ -0,0 +1,99 @@
+/**
+ * User Availability API Route
+ *
+ * Lists when a user is free to be booked: their weekly slots and date
+ * exceptions turned into absolute times, minus the sessions they already
+ * have and the slots held by pending session requests. The range defaults
+ * to the next two weeks and never starts in the past.
+ *
+ * @fileoverview GET /api/users/[userId]/availability?from=&to=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { activeUserFilter } from '@/lib/account-status';
+import { AVAILABILITY } from '@/lib/constants';
+import { computeFreeSlots, hasAvailability } from '@/lib/availability';
+import {
+  findBusyPeriods,
+  loadAvailabilitySchedule,
+} from '@/lib/user-availability';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/users/[userId]/availability
+ * Fetch a user's free slots between `from` and `to` (ISO dates)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId } = await params;
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    const now = new Date();
+    const from = fromParam ? new Date(fromParam) : now;
+    const to = toParam
+      ? new Date(toParam)
+      : new Date(from.getTime() + AVAILABILITY.DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    if (to <= from) {
+      return NextResponse.json(
+        { error: 'End of range must be after its start' },
+        { status: 400 }
+      );
+    }
+
+    if (to.getTime() - from.getTime() > AVAILABILITY.MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `Range can be at most ${AVAILABILITY.MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { id: userId, ...activeUserFilter() },
+      select: { id: true },
+    });
+
+    const schedule = user ? await loadAvailabilitySchedule(prisma, userId) : null;
+
+    if (!schedule) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Nothing in the past can be booked
+    const start = from < now ? now : from;
+    const busy = start < to ? await findBusyPeriods(prisma, userId, start, to) : [];
+    const slots = start < to ? computeFreeSlots(schedule, busy, start, to) : [];
+
+    return NextResponse.json({
+      timeZone: schedule.timeZone,
+      hasSchedule: hasAvailability(schedule),
+      from: start,
+      to,
+      slots,
+    });
+  } catch (error) {
+    console.error('Error fetching user availability:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch availability' },
+      { status: 500 }
+    );
+  }
+}
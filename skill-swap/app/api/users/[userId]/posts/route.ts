@@ -9,6 +9,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
 
 /**
@@ -21,6 +22,12 @@ export async function GET(
 ) {
   try {
     const session = await auth();
+
+    if (session?.user?.id) {
+      const suspended = await rejectSuspendedUser(session.user.id);
+      if (suspended) return suspended;
+    }
+
     const { userId } = await params;
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '10', 10);
@@ -0,0 +1,62 @@
+/**
+ * User Skills API Route
+ *
+ * Lists the skills a user teaches with the hourly rate each is charged
+ * at, so a session request can be priced before it's sent.
+ *
+ * @fileoverview GET /api/users/[userId]/skills
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { activeUserFilter } from '@/lib/account-status';
+import { resolveHourlyRate } from '@/lib/pricing';
+
+/**
+ * GET /api/users/[userId]/skills
+ * Fetch the skills a user is currently teaching
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId } = await params;
+
+    const skills = await prisma.skill.findMany({
+      where: {
+        ownerId: userId,
+        isTeaching: true,
+        owner: activeUserFilter(),
+      },
+      select: {
+        id: true,
+        name: true,
+        proficiencyLevel: true,
+        teachingFormat: true,
+        hourlyRate: true,
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      skills: skills.map((skill) => ({
+        ...skill,
+        hourlyRate: resolveHourlyRate(skill.hourlyRate),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching user skills:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch skills' },
+      { status: 500 }
+    );
+  }
+}
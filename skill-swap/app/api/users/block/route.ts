@@ -12,7 +12,9 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { rejectSuspendedUser } from '@/lib/account-status';
 import { prisma } from '@/lib/prisma';
+import { ledgerReference, releaseHold } from '@/lib/ledger';
 
 /**
  * POST - Block a user
@@ -25,6 +27,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const body = await request.json();
     const { userId, reason } = body;
 
@@ -82,19 +87,19 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // 2. Delete any non-pending (DECLINED/CANCELLED) requests to allow future re-requests after unblock
+      // 2. Delete any non-pending (DECLINED/CANCELLED/EXPIRED) requests to allow future re-requests after unblock
       await tx.connectionRequest.deleteMany({
         where: {
           OR: [
             {
               senderId: blockerId,
               receiverId: userId,
-              status: { in: ['DECLINED', 'CANCELLED'] },
+              status: { in: ['DECLINED', 'CANCELLED', 'EXPIRED'] },
             },
             {
               senderId: userId,
               receiverId: blockerId,
-              status: { in: ['DECLINED', 'CANCELLED'] },
+              status: { in: ['DECLINED', 'CANCELLED', 'EXPIRED'] },
             },
           ],
         },
@@ -109,18 +114,20 @@ export async function POST(request: NextRequest) {
             { senderId: userId, receiverId: blockerId, status: 'PENDING' },
           ],
         },
-        include: { transaction: true },
+        include: {
+          transaction: true,
+          sender: { select: { wallet: { select: { id: true } } } },
+        },
       });
 
       for (const request of pendingRequests) {
         // Refund credits to sender
-        await tx.wallet.update({
-          where: { userId: request.senderId },
-          data: {
-            availableBalance: { increment: request.creditsHeld },
-            outgoingBalance: { decrement: request.creditsHeld },
-          },
-        });
+        if (request.sender.wallet && request.creditsHeld > 0) {
+          await releaseHold(tx, request.sender.wallet.id, request.creditsHeld, {
+            reference: ledgerReference('connection_request', request.id),
+            transactionId: request.transaction?.id,
+          });
+        }
 
         // Update transaction if exists
         if (request.transaction) {
@@ -179,6 +186,9 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const suspended = await rejectSuspendedUser(session.user.id);
+    if (suspended) return suspended;
+
     const body = await request.json();
     const { userId } = body;
 
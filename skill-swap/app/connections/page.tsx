@@ -20,6 +20,10 @@ import { MessageSquare, Clock, Users, UserX, Ban } from 'lucide-react';
 import Link from 'next/link';
 import { ConnectionRequestActions } from '@/components/connection-request-actions';
 import { UnblockButton } from '@/components/unblock-button';
+import {
+  getConnectionRequestExpiry,
+  recentlyExpiredFilter,
+} from '@/lib/request-expiry';
 
 export const dynamic = 'force-dynamic';
 
@@ -109,6 +113,7 @@ export default async function ConnectionsPage() {
     creditsHeld: number;
     createdAt: Date;
     respondedAt: Date | null;
+    updatedAt: Date;
     receiver: UserSelect;
   };
 
@@ -188,11 +193,11 @@ export default async function ConnectionsPage() {
       orderBy: { createdAt: 'desc' },
     });
 
-    // 3. Sent pending requests (where user is the sender)
+    // 3. Sent requests (where user is the sender), pending or recently expired
     sentRequests = await prisma.connectionRequest.findMany({
       where: {
         senderId: userId,
-        status: 'PENDING',
+        OR: [{ status: 'PENDING' }, recentlyExpiredFilter()],
       },
       include: {
         receiver: {
@@ -249,7 +254,7 @@ export default async function ConnectionsPage() {
 
   const activeCount = processedConnections.length;
   const incomingCount = incomingRequests.length;
-  const sentCount = sentRequests.length;
+  const sentCount = sentRequests.filter((r) => r.status === 'PENDING').length;
   const blockedCount = blockedUsers.length;
 
   return (
@@ -539,19 +544,33 @@ export default async function ConnectionsPage() {
                               ))}
                             </div>
                           </div>
-                          <Badge
-                            variant="outline"
-                            className="border-blue-500 text-blue-600"
-                          >
-                            Pending
-                          </Badge>
+                          {request.status === 'EXPIRED' ? (
+                            <Badge variant="secondary">Expired</Badge>
+                          ) : (
+                            <Badge
+                              variant="outline"
+                              className="border-blue-500 text-blue-600"
+                            >
+                              Pending
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-xs text-muted-foreground">
                           Sent {formatRelativeTime(request.createdAt)}
                         </p>
-                        <p className="text-xs text-amber-600 mt-1">
-                          {request.creditsHeld} credits on hold
-                        </p>
+                        {request.status === 'EXPIRED' ? (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Expired {formatRelativeTime(request.updatedAt)} -{' '}
+                            {request.creditsHeld} credits refunded
+                          </p>
+                        ) : (
+                          <p className="text-xs text-amber-600 mt-1">
+                            {request.creditsHeld} credits on hold until{' '}
+                            {getConnectionRequestExpiry(
+                              request
+                            ).toLocaleDateString()}
+                          </p>
+                        )}
                       </div>
                       <div className="flex flex-col gap-2">
                         <Button
@@ -0,0 +1,518 @@
+/**
+ * Create Post Content
+ *
+ * Client side of the create page: the teach/learn post form and the
+ * author's list of existing posts with publish, close, fulfil and
+ * delete actions.
+ *
+ * @fileoverview Learning post form and post management
+ */
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { formatDistanceToNow } from "date-fns"
+import { Loader2, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import {
+  AVAILABILITY_OPTIONS,
+  CREDITS,
+  EXPERIENCE_LEVELS,
+  LEARNING_POSTS,
+  SESSION_FORMATS,
+  VALIDATION,
+} from "@/lib/constants"
+import { cn } from "@/lib/utils"
+import type {
+  ExperienceLevel,
+  LearningPost,
+  PostStatus,
+  PostType,
+} from "@/lib/types"
+
+// Badge styling and actions offered for each post status
+const STATUS_BADGES: Record<PostStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-100 text-green-700" },
+  draft: { label: "Draft", className: "bg-muted text-muted-foreground" },
+  closed: { label: "Closed", className: "bg-gray-100 text-gray-600" },
+  fulfilled: { label: "Fulfilled", className: "bg-primary/10 text-primary" },
+}
+
+const STATUS_ACTIONS: Record<PostStatus, { status: PostStatus; label: string }[]> = {
+  draft: [{ status: "active", label: "Publish" }],
+  active: [
+    { status: "fulfilled", label: "Mark Fulfilled" },
+    { status: "closed", label: "Close" },
+  ],
+  closed: [{ status: "active", label: "Reopen" }],
+  fulfilled: [{ status: "active", label: "Reopen" }],
+}
+
+interface CreatePostContentProps {
+  skills: { id: string; name: string; teachingFormat: string }[]
+  skillWants: { id: string; name: string }[]
+  initialPosts: LearningPost[]
+}
+
+export function CreatePostContent({
+  skills,
+  skillWants,
+  initialPosts,
+}: CreatePostContentProps) {
+  const [posts, setPosts] = useState<LearningPost[]>(initialPosts)
+
+  // Form state
+  const [type, setType] = useState<PostType>("teach")
+  const [title, setTitle] = useState("")
+  const [description, setDescription] = useState("")
+  const [skillId, setSkillId] = useState("")
+  const [requestedSkills, setRequestedSkills] = useState<string[]>([])
+  const [skillInput, setSkillInput] = useState("")
+  const [credits, setCredits] = useState(String(CREDITS.DEFAULT_HOURLY_RATE))
+  const [format, setFormat] = useState("")
+  const [availability, setAvailability] = useState("")
+  const [experienceLevel, setExperienceLevel] = useState<ExperienceLevel | null>(null)
+  const [submitting, setSubmitting] = useState<PostStatus | null>(null)
+  const [updatingPostId, setUpdatingPostId] = useState<string | null>(null)
+
+  const resetForm = () => {
+    setTitle("")
+    setDescription("")
+    setSkillId("")
+    setRequestedSkills([])
+    setSkillInput("")
+    setCredits(String(CREDITS.DEFAULT_HOURLY_RATE))
+    setFormat("")
+    setAvailability("")
+    setExperienceLevel(null)
+  }
+
+  const addRequestedSkill = (name: string) => {
+    const skill = name.trim()
+    if (!skill) return
+    if (requestedSkills.some((s) => s.toLowerCase() === skill.toLowerCase())) return
+    if (requestedSkills.length >= LEARNING_POSTS.MAX_REQUESTED_SKILLS) {
+      toast.error(`You can list up to ${LEARNING_POSTS.MAX_REQUESTED_SKILLS} skills`)
+      return
+    }
+    setRequestedSkills((prev) => [...prev, skill])
+    setSkillInput("")
+  }
+
+  const handleSubmit = async (status: PostStatus) => {
+    setSubmitting(status)
+    try {
+      const res = await fetch("/api/learning-posts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type,
+          title,
+          description,
+          skillId: type === "teach" ? skillId || null : null,
+          skillsRequested: requestedSkills,
+          creditsOffered: Number(credits),
+          format,
+          availability,
+          experienceLevel,
+          status,
+        }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || "Failed to save post")
+        return
+      }
+
+      setPosts((prev) => [data.post, ...prev])
+      resetForm()
+      toast.success(status === "draft" ? "Draft saved" : "Post published")
+    } catch (error) {
+      console.error("Error creating learning post:", error)
+      toast.error("Failed to save post")
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const handleStatusChange = async (postId: string, status: PostStatus) => {
+    setUpdatingPostId(postId)
+    try {
+      const res = await fetch(`/api/learning-posts/${postId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || "Failed to update post")
+        return
+      }
+
+      setPosts((prev) => prev.map((p) => (p.id === postId ? data.post : p)))
+    } catch (error) {
+      console.error("Error updating learning post:", error)
+      toast.error("Failed to update post")
+    } finally {
+      setUpdatingPostId(null)
+    }
+  }
+
+  const handleDelete = async (postId: string) => {
+    if (!confirm("Delete this post? This cannot be undone.")) return
+
+    setUpdatingPostId(postId)
+    try {
+      const res = await fetch(`/api/learning-posts/${postId}`, { method: "DELETE" })
+
+      if (!res.ok) {
+        const data = await res.json()
+        toast.error(data.error || "Failed to delete post")
+        return
+      }
+
+      setPosts((prev) => prev.filter((p) => p.id !== postId))
+    } catch (error) {
+      console.error("Error deleting learning post:", error)
+      toast.error("Failed to delete post")
+    } finally {
+      setUpdatingPostId(null)
+    }
+  }
+
+  // Suggest the user's learning goals that aren't already added
+  const skillSuggestions = skillWants.filter(
+    (want) => !requestedSkills.some((s) => s.toLowerCase() === want.name.toLowerCase())
+  )
+
+  return (
+    <div className="space-y-8">
+      {/* Post Creation Form */}
+      <Card className="p-8">
+        <div className="space-y-6">
+          {/* Post Type Selection */}
+          <div>
+            <label className="text-sm font-semibold block mb-3">
+              What are you creating?
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Card
+                role="button"
+                onClick={() => setType("teach")}
+                className={cn(
+                  "p-4 border-2 cursor-pointer",
+                  type === "teach" ? "border-primary hover:bg-primary/5" : "border-border hover:bg-muted"
+                )}
+              >
+                <h3 className="font-semibold text-foreground mb-1">Teach a Skill</h3>
+                <p className="text-sm text-muted-foreground">
+                  Share your expertise with others
+                </p>
+              </Card>
+              <Card
+                role="button"
+                onClick={() => setType("learn")}
+                className={cn(
+                  "p-4 border-2 cursor-pointer",
+                  type === "learn" ? "border-primary hover:bg-primary/5" : "border-border hover:bg-muted"
+                )}
+              >
+                <h3 className="font-semibold text-foreground mb-1">Learn a Skill</h3>
+                <p className="text-sm text-muted-foreground">
+                  Request to learn something new
+                </p>
+              </Card>
+            </div>
+          </div>
+
+          {/* Post Title */}
+          <div>
+            <label className="text-sm font-semibold block mb-2">Title</label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={VALIDATION.TITLE_MAX_LENGTH}
+              placeholder="e.g., Offering Python programming for design feedback"
+            />
+          </div>
+
+          {/* Post Description */}
+          <div>
+            <label className="text-sm font-semibold block mb-2">Description</label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={VALIDATION.DESCRIPTION_MAX_LENGTH}
+              placeholder="Tell others about what you're offering or looking for. Be specific about your experience level and what you hope to achieve..."
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground mt-2">
+              {description.trim().length}/{VALIDATION.DESCRIPTION_MAX_LENGTH} characters
+              (minimum {VALIDATION.DESCRIPTION_MIN_LENGTH})
+            </p>
+          </div>
+
+          {/* Skill Selection Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {type === "teach" && (
+              <div>
+                <label className="text-sm font-semibold block mb-2">Your Skill</label>
+                {skills.length > 0 ? (
+                  <Select
+                    value={skillId}
+                    onValueChange={(value) => {
+                      setSkillId(value)
+                      // Default the format to the one set on the skill
+                      const skill = skills.find((s) => s.id === value)
+                      if (skill && !format) setFormat(skill.teachingFormat)
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select skill to teach" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {skills.map((skill) => (
+                        <SelectItem key={skill.id} value={skill.id}>
+                          {skill.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Add a skill in{" "}
+                    <Link href="/settings" className="text-primary underline">
+                      Settings
+                    </Link>{" "}
+                    before offering to teach it.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className={cn(type === "learn" && "md:col-span-2")}>
+              <label className="text-sm font-semibold block mb-2">
+                {type === "teach" ? "Skills You Want in Exchange (optional)" : "Skills You Want to Learn"}
+              </label>
+              <Input
+                value={skillInput}
+                onChange={(e) => setSkillInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === ",") {
+                    e.preventDefault()
+                    addRequestedSkill(skillInput)
+                  }
+                }}
+                onBlur={() => addRequestedSkill(skillInput)}
+                placeholder="Type a skill and press Enter"
+              />
+              {requestedSkills.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {requestedSkills.map((skill) => (
+                    <Badge key={skill} variant="secondary" className="gap-1">
+                      {skill}
+                      <button
+                        type="button"
+                        aria-label={`Remove ${skill}`}
+                        onClick={() =>
+                          setRequestedSkills((prev) => prev.filter((s) => s !== skill))
+                        }
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {skillSuggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <span className="text-xs text-muted-foreground">Your learning goals:</span>
+                  {skillSuggestions.map((want) => (
+                    <Badge
+                      key={want.id}
+                      variant="outline"
+                      className="cursor-pointer"
+                      onClick={() => addRequestedSkill(want.name)}
+                    >
+                      + {want.name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Credits Per Hour */}
+          <div>
+            <label className="text-sm font-semibold block mb-2">Credits Per Hour</label>
+            <Input
+              type="number"
+              min={CREDITS.MIN_HOURLY_RATE}
+              max={CREDITS.MAX_HOURLY_RATE}
+              value={credits}
+              onChange={(e) => setCredits(e.target.value)}
+              placeholder="e.g., 50"
+            />
+            <p className="text-xs text-muted-foreground mt-2">
+              Recommended range: 30-100 credits per hour based on skill complexity
+            </p>
+          </div>
+
+          {/* Format and Availability */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="text-sm font-semibold block mb-2">
+                {type === "teach" ? "Teaching Format" : "Preferred Format"}
+              </label>
+              <Select value={format} onValueChange={setFormat}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select format" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SESSION_FORMATS.map((option) => (
+                    <SelectItem key={option.value} value={option.label}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold block mb-2">Availability</label>
+              <Select value={availability} onValueChange={setAvailability}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select availability" />
+                </SelectTrigger>
+                <SelectContent>
+                  {AVAILABILITY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.label}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Experience Level Tags */}
+          <div>
+            <label className="text-sm font-semibold block mb-2">
+              Target Experience Level
+            </label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {EXPERIENCE_LEVELS.map((level) => (
+                <Badge
+                  key={level}
+                  variant={experienceLevel === level ? "secondary" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() =>
+                    setExperienceLevel((current) => (current === level ? null : level))
+                  }
+                >
+                  {level}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          {/* Form Actions */}
+          <div className="flex gap-4 pt-6 border-t border-border">
+            <Button
+              size="lg"
+              className="flex-1"
+              disabled={submitting !== null}
+              onClick={() => handleSubmit("active")}
+            >
+              {submitting === "active" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Publish Post
+            </Button>
+            <Button
+              size="lg"
+              variant="outline"
+              className="flex-1 bg-transparent"
+              disabled={submitting !== null}
+              onClick={() => handleSubmit("draft")}
+            >
+              {submitting === "draft" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Draft
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {/* Author's Existing Posts */}
+      {posts.length > 0 && (
+        <div>
+          <h2 className="text-xl font-semibold text-foreground mb-4">Your Posts</h2>
+          <div className="space-y-3">
+            {posts.map((post) => {
+              const badge = STATUS_BADGES[post.status]
+              const skillsLabel =
+                post.type === "teach"
+                  ? post.skillOffered
+                  : post.skillsRequested.join(", ")
+
+              return (
+                <Card key={post.id} className="p-4">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant="outline">
+                          {post.type === "teach" ? "Teaching" : "Learning"}
+                        </Badge>
+                        <Badge className={badge.className}>{badge.label}</Badge>
+                      </div>
+                      <h3 className="font-semibold text-foreground truncate">{post.title}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {skillsLabel} · {post.creditsOffered} credits/hr ·{" "}
+                        {formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {STATUS_ACTIONS[post.status].map((action) => (
+                        <Button
+                          key={action.status}
+                          size="sm"
+                          variant={action.status === "fulfilled" ? "default" : "outline"}
+                          disabled={updatingPostId === post.id}
+                          onClick={() => handleStatusChange(post.id, action.status)}
+                        >
+                          {action.label}
+                        </Button>
+                      ))}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        aria-label="Delete post"
+                        disabled={updatingPostId === post.id}
+                        onClick={() => handleDelete(post.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
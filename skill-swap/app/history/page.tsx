@@ -3,17 +3,34 @@
  *
  * Displays the user's skill exchange activity history with interactive
  * charts showing monthly activity trends and credit transactions.
- * Includes exportable statistics and a timeline of recent activities.
+ * Data comes from /api/user/history; the timeline can be filtered by
+ * activity type and exported as CSV, and the credit statement can be
+ * downloaded as CSV or PDF from /api/user/transactions/export.
  *
  * @fileoverview Activity history dashboard with Recharts visualizations
  */
 "use client"
 
+import { useCallback, useEffect, useState } from "react"
 import { Header } from "@/components/layout/header"
 import { MobileNav } from "@/components/layout/mobile-nav"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import {
   BarChart,
   Bar,
@@ -26,62 +43,138 @@ import {
   LineChart,
   Line,
 } from "recharts"
-import { Download, TrendingUp } from "lucide-react"
+import { Download, Loader2, TrendingUp } from "lucide-react"
+import { toast } from "sonner"
+import { cn, formatRelativeTime } from "@/lib/utils"
+import type {
+  HistoryFilter,
+  HistoryItem,
+  HistorySummary,
+  MonthlyHistoryBucket,
+} from "@/lib/types/history"
 
-/**
- * Monthly skill exchange statistics for chart visualization
- * In production, this would be aggregated from session data via API
- */
-const MONTHLY_STATS = [
-  { month: "Jan", skillsTaught: 3, skillsLearned: 2, creditsEarned: 150, creditsSpent: 120 },
-  { month: "Feb", skillsTaught: 4, skillsLearned: 3, creditsEarned: 200, creditsSpent: 180 },
-  { month: "Mar", skillsTaught: 2, skillsLearned: 4, creditsEarned: 120, creditsSpent: 200 },
-]
+const PAGE_SIZE = 10
 
-/**
- * Recent activity feed items with credit transactions
- * Displayed in chronological order with contextual badges
- */
-const RECENT_ACTIVITIES = [
-  {
-    id: "activity-python-session",
-    type: "session_completed",
-    description: "Completed Python Programming session with Raj Krishnan",
-    credits: 75,
-    date: "2 days ago",
-  },
-  {
-    id: "activity-ui-taught",
-    type: "session_taught",
-    description: "Taught UI/UX Design fundamentals to Ava Martinez",
-    credits: 60,
-    date: "1 week ago",
-  },
-  {
-    id: "activity-connection-derek",
-    type: "connection_made",
-    description: "Connected with Derek Chang for marketing exchange",
-    credits: 0,
-    date: "2 weeks ago",
-  },
-  {
-    id: "activity-post-js",
-    type: "post_created",
-    description: "Created learning post: JavaScript for Designers",
-    credits: 0,
-    date: "3 weeks ago",
-  },
+const FILTER_OPTIONS: { value: HistoryFilter; label: string }[] = [
+  { value: "all", label: "All activity" },
+  { value: "sessions", label: "Sessions" },
+  { value: "connections", label: "Connections" },
+  { value: "posts", label: "Posts" },
+  { value: "credits", label: "Credits" },
 ]
 
-// Summary statistics for the overview cards
-const HISTORY_STATS = {
-  skillsTaught: 12,
-  skillsLearned: 9,
-  totalSessions: 21,
-  creditsBalance: 250,
-}
-
 export default function HistoryPage() {
+  const [filter, setFilter] = useState<HistoryFilter>("all")
+  const [activities, setActivities] = useState<HistoryItem[]>([])
+  const [summary, setSummary] = useState<HistorySummary | null>(null)
+  const [monthlyStats, setMonthlyStats] = useState<MonthlyHistoryBucket[]>([])
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [exporting, setExporting] = useState(false)
+
+  const fetchHistory = useCallback(
+    async (pageToLoad: number) => {
+      const res = await fetch(
+        `/api/user/history?type=${filter}&page=${pageToLoad}&limit=${PAGE_SIZE}`,
+        { cache: "no-store" }
+      )
+      if (!res.ok) throw new Error("Failed to load history")
+      return res.json()
+    },
+    [filter]
+  )
+
+  useEffect(() => {
+    const loadInitial = async () => {
+      setLoading(true)
+      try {
+        const data = await fetchHistory(1)
+        setActivities(data.items)
+        setSummary(data.summary)
+        setMonthlyStats(data.monthly)
+        setPage(1)
+        setHasMore(data.pagination.hasNextPage)
+      } catch (error) {
+        console.error("Error fetching history:", error)
+        toast.error("Failed to load your history")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadInitial()
+  }, [fetchHistory])
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true)
+    try {
+      const data = await fetchHistory(page + 1)
+      setActivities((prev) => [...prev, ...data.items])
+      setPage(page + 1)
+      setHasMore(data.pagination.hasNextPage)
+    } catch (error) {
+      console.error("Error fetching history:", error)
+      toast.error("Failed to load more activity")
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  // Download an export from the API, keeping the server's filename
+  const downloadExport = async (url: string, fallbackName: string) => {
+    setExporting(true)
+    try {
+      const res = await fetch(url)
+      if (!res.ok) throw new Error("Export failed")
+
+      const blob = await res.blob()
+      const objectUrl = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = objectUrl
+      link.download =
+        res.headers
+          .get("Content-Disposition")
+          ?.match(/filename="(.+)"/)?.[1] || fallbackName
+      link.click()
+      URL.revokeObjectURL(objectUrl)
+    } catch (error) {
+      console.error("Error exporting history:", error)
+      toast.error("Failed to export your history")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  // Summary cards; full class names so Tailwind picks them up
+  const stats = [
+    {
+      label: "Skills Taught",
+      value: summary?.skillsTaught,
+      color: "text-primary",
+      iconColor: "text-primary/50",
+    },
+    {
+      label: "Skills Learned",
+      value: summary?.skillsLearned,
+      color: "text-secondary",
+      iconColor: "text-secondary/50",
+    },
+    {
+      label: "Total Sessions",
+      value: summary?.totalSessions,
+      color: "text-accent",
+      iconColor: "text-accent/50",
+    },
+    {
+      label: "Credits Balance",
+      value: summary?.creditsBalance,
+      color: "text-green-600",
+      iconColor: "text-green-600/50",
+    },
+  ]
+
   return (
     <>
       <Header />
@@ -98,58 +191,71 @@ export default function HistoryPage() {
                 Track your skill exchange activity and progress
               </p>
             </div>
-            <Button variant="outline">
-              <Download className="w-4 h-4 mr-2" />
-              Export
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={exporting}>
+                  {exporting ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem
+                  onClick={() =>
+                    downloadExport(
+                      `/api/user/history?type=${filter}&format=csv`,
+                      "skillswap-history.csv"
+                    )
+                  }
+                >
+                  Activity (CSV)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() =>
+                    downloadExport(
+                      "/api/user/transactions/export?format=csv",
+                      "skillswap-transactions.csv"
+                    )
+                  }
+                >
+                  Credit statement (CSV)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() =>
+                    downloadExport(
+                      "/api/user/transactions/export?format=pdf",
+                      "skillswap-transactions.pdf"
+                    )
+                  }
+                >
+                  Credit statement (PDF)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
 
           {/* Statistics Overview Cards */}
           <div className="grid md:grid-cols-4 gap-4 mb-8">
-            <Card className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm text-muted-foreground">Skills Taught</p>
-                  <p className="text-3xl font-bold text-primary">
-                    {HISTORY_STATS.skillsTaught}
-                  </p>
-                </div>
-                <TrendingUp className="w-8 h-8 text-primary/50" />
-              </div>
-            </Card>
-            <Card className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm text-muted-foreground">Skills Learned</p>
-                  <p className="text-3xl font-bold text-secondary">
-                    {HISTORY_STATS.skillsLearned}
-                  </p>
-                </div>
-                <TrendingUp className="w-8 h-8 text-secondary/50" />
-              </div>
-            </Card>
-            <Card className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm text-muted-foreground">Total Sessions</p>
-                  <p className="text-3xl font-bold text-accent">
-                    {HISTORY_STATS.totalSessions}
-                  </p>
-                </div>
-                <TrendingUp className="w-8 h-8 text-accent/50" />
-              </div>
-            </Card>
-            <Card className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm text-muted-foreground">Credits Balance</p>
-                  <p className="text-3xl font-bold text-green-600">
-                    {HISTORY_STATS.creditsBalance}
-                  </p>
+            {stats.map((stat) => (
+              <Card key={stat.label} className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                    {loading && !summary ? (
+                      <Skeleton className="h-9 w-16 mt-1" />
+                    ) : (
+                      <p className={cn("text-3xl font-bold", stat.color)}>
+                        {stat.value ?? 0}
+                      </p>
+                    )}
+                  </div>
+                  <TrendingUp className={`w-8 h-8 ${stat.iconColor}`} />
                 </div>
-                <TrendingUp className="w-8 h-8 text-green-600/50" />
-              </div>
-            </Card>
+              </Card>
+            ))}
           </div>
 
           {/* Activity Visualization Charts */}
@@ -158,7 +264,7 @@ export default function HistoryPage() {
             <Card className="p-6">
               <h2 className="font-semibold text-foreground mb-4">Monthly Activity</h2>
               <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={MONTHLY_STATS}>
+                <BarChart data={monthlyStats}>
                   <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
                   <XAxis dataKey="month" />
                   <YAxis />
@@ -174,7 +280,7 @@ export default function HistoryPage() {
             <Card className="p-6">
               <h2 className="font-semibold text-foreground mb-4">Credits Trend</h2>
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={MONTHLY_STATS}>
+                <LineChart data={monthlyStats}>
                   <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
                   <XAxis dataKey="month" />
                   <YAxis />
@@ -199,23 +305,63 @@ export default function HistoryPage() {
 
           {/* Recent Activity Timeline */}
           <Card className="p-6">
-            <h2 className="font-semibold text-foreground mb-4">Recent Activity</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-semibold text-foreground">Recent Activity</h2>
+              <Select
+                value={filter}
+                onValueChange={(value) => setFilter(value as HistoryFilter)}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FILTER_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-3">
-              {RECENT_ACTIVITIES.map((activity) => (
-                <div
-                  key={activity.id}
-                  className="flex items-start justify-between p-4 bg-muted rounded-lg"
-                >
-                  <div className="flex-1">
-                    <p className="font-medium text-foreground">{activity.description}</p>
-                    <p className="text-sm text-muted-foreground">{activity.date}</p>
+              {loading ? (
+                [...Array(4)].map((_, i) => (
+                  <Skeleton key={i} className="h-[72px] w-full rounded-lg" />
+                ))
+              ) : activities.length === 0 ? (
+                <p className="py-8 text-center text-muted-foreground">
+                  No activity yet
+                </p>
+              ) : (
+                activities.map((activity) => (
+                  <div
+                    key={activity.id}
+                    className="flex items-start justify-between p-4 bg-muted rounded-lg"
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium text-foreground">{activity.description}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatRelativeTime(activity.date)}
+                      </p>
+                    </div>
+                    {activity.credits !== null && activity.credits !== 0 && (
+                      <Badge variant={activity.credits > 0 ? "secondary" : "outline"}>
+                        {activity.credits > 0 ? "+" : ""}
+                        {activity.credits} credits
+                      </Badge>
+                    )}
                   </div>
-                  {activity.credits > 0 && (
-                    <Badge variant="secondary">+{activity.credits} credits</Badge>
-                  )}
-                </div>
-              ))}
+                ))
+              )}
             </div>
+            {hasMore && !loading && (
+              <div className="flex justify-center mt-4">
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
           </Card>
         </div>
       </main>
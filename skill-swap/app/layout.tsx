@@ -14,6 +14,7 @@ import "./globals.css"
 import { AuthProvider } from "@/components/auth-provider"
 import { WalletProvider } from "@/contexts/wallet-context"
 import { UnreadMessagesProvider } from "@/contexts/unread-messages-context"
+import { NotificationsProvider } from "@/contexts/notifications-context"
 import { CallProvider } from "@/contexts/call-context"
 
 // Configure primary sans-serif font with Latin character support
@@ -79,9 +80,11 @@ export default function RootLayout({
         <AuthProvider>
           <WalletProvider>
             <UnreadMessagesProvider>
-              <CallProvider>
-                {children}
-              </CallProvider>
+              <NotificationsProvider>
+                <CallProvider>
+                  {children}
+                </CallProvider>
+              </NotificationsProvider>
             </UnreadMessagesProvider>
           </WalletProvider>
         </AuthProvider>
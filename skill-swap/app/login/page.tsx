@@ -25,14 +25,6 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { toast } from 'sonner';
 import { Eye, EyeOff, AlertCircle, CheckCircle2 } from 'lucide-react';
@@ -48,6 +40,9 @@ interface FormData {
   password: string;
 }
 
+const SUSPENDED_MESSAGE =
+  'This account has been suspended. Contact support if you think this is a mistake.';
+
 export default function LoginPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -59,9 +54,6 @@ export default function LoginPage() {
     password: '',
   });
   const [errors, setErrors] = useState<FormErrors>({});
-  const [resetEmail, setResetEmail] = useState('');
-  const [resetLoading, setResetLoading] = useState(false);
-  const [resetSuccess, setResetSuccess] = useState(false);
 
   // Check for callbackUrl indicating logout redirect
   useEffect(() => {
@@ -71,6 +63,17 @@ export default function LoginPage() {
       // Clean up the URL
       window.history.replaceState({}, '', '/login');
     }
+
+    // Arrived from the reset password page
+    if (searchParams.get('reset') === 'success') {
+      toast.success('Password updated. Log in with your new password.');
+      window.history.replaceState({}, '', '/login');
+    }
+
+    // OAuth sign-in was rejected because the account is suspended
+    if (searchParams.get('error') === 'AccountSuspended') {
+      setErrors({ general: SUSPENDED_MESSAGE });
+    }
   }, [searchParams]);
 
   /**
@@ -122,6 +125,12 @@ export default function LoginPage() {
         redirect: false,
       });
 
+      if (result?.code === 'account_suspended') {
+        toast.error(SUSPENDED_MESSAGE);
+        setErrors({ general: SUSPENDED_MESSAGE });
+        return;
+      }
+
       if (result?.error) {
         toast.error('Invalid email or password. Please try again.');
         setErrors({
@@ -189,38 +198,6 @@ export default function LoginPage() {
     }
   };
 
-  /**
-   * Handles forgot password form submission
-   */
-  const handleForgotPassword = async () => {
-    if (!resetEmail || !/\S+@\S+\.\S+/.test(resetEmail)) {
-      toast.error('Please enter a valid email address');
-      return;
-    }
-
-    setResetLoading(true);
-    setResetSuccess(false);
-
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      setResetSuccess(true);
-      toast.success('Password reset link sent to your email!');
-
-      // Reset form after 3 seconds
-      setTimeout(() => {
-        setResetEmail('');
-        setResetSuccess(false);
-      }, 3000);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Failed to send reset email.';
-      console.error('Password reset error:', error);
-      toast.error(errorMessage);
-    } finally {
-      setResetLoading(false);
-    }
-  };
-
   /**
    * Handles Enter key press for form submission
    */
@@ -340,55 +317,12 @@ export default function LoginPage() {
                     </Label>
                   </div>
 
-                  <Dialog>
-                    <DialogTrigger asChild>
-                      <button
-                        type="button"
-                        className="text-sm text-blue-600 hover:underline dark:text-blue-400"
-                      >
-                        Forgot Password?
-                      </button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Reset Password</DialogTitle>
-                        <DialogDescription>
-                          Enter your email address and we&apos;ll send you a
-                          link to reset your password.
-                        </DialogDescription>
-                      </DialogHeader>
-
-                      {resetSuccess ? (
-                        <Alert className="bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:border-emerald-800">
-                          <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
-                          <AlertDescription className="text-emerald-800 dark:text-emerald-300">
-                            Password reset link sent! Check your email inbox.
-                          </AlertDescription>
-                        </Alert>
-                      ) : (
-                        <div className="space-y-4 py-4">
-                          <div>
-                            <Label htmlFor="reset-email">Email Address</Label>
-                            <Input
-                              id="reset-email"
-                              type="email"
-                              value={resetEmail}
-                              onChange={(e) => setResetEmail(e.target.value)}
-                              placeholder="you@example.com"
-                              disabled={resetLoading}
-                            />
-                          </div>
-                          <Button
-                            onClick={handleForgotPassword}
-                            disabled={resetLoading}
-                            className="w-full bg-blue-600 hover:bg-blue-700"
-                          >
-                            {resetLoading ? 'Sending...' : 'Send Reset Link'}
-                          </Button>
-                        </div>
-                      )}
-                    </DialogContent>
-                  </Dialog>
+                  <Link
+                    href="/forgot-password"
+                    className="text-sm text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    Forgot Password?
+                  </Link>
                 </div>
 
                 <Button
@@ -17,11 +17,15 @@ import {
   CheckCircle2,
   BookOpen,
   Ban,
+  Coins,
 } from 'lucide-react';
 import { ConnectButton } from '@/components/connect-button';
 import { BackButton } from '@/components/back-button';
 import { BlockUserButton } from '@/components/block-user-button';
+import { SendCreditsDialog } from '@/components/send-credits-dialog';
 import { ProfilePostsSection } from './profile-posts-section';
+import { DAY_LABELS, formatMinutes } from '@/lib/availability';
+import type { WeeklySlot } from '@/lib/types/availability';
 
 // Force dynamic rendering to always get fresh connection status
 export const dynamic = 'force-dynamic';
@@ -43,9 +47,10 @@ interface UserProfile {
     proficiencyLevel: string;
     yearsOfExperience: number;
     teachingFormat: string;
-    availabilityWindow: string;
     alternativeNames: string | null;
+    hourlyRate: number;
   }[];
+  availabilitySlots: WeeklySlot[];
   reviewsReceived: {
     id: string;
     rating: number;
@@ -142,11 +147,15 @@ async function getUserProfile(userId: string): Promise<UserProfile | null> {
             proficiencyLevel: true,
             yearsOfExperience: true,
             teachingFormat: true,
-            availabilityWindow: true,
             alternativeNames: true,
+            hourlyRate: true,
           },
           orderBy: { createdAt: 'desc' },
         },
+        availabilitySlots: {
+          select: { dayOfWeek: true, startMinute: true, endMinute: true },
+          orderBy: [{ dayOfWeek: 'asc' }, { startMinute: 'asc' }],
+        },
         reviewsReceived: {
           select: {
             id: true,
@@ -192,6 +201,7 @@ async function getUserProfile(userId: string): Promise<UserProfile | null> {
       isVerified: user.isVerified,
       createdAt: user.createdAt,
       skills: user.skillsOffered,
+      availabilitySlots: user.availabilitySlots,
       reviewsReceived: user.reviewsReceived,
       _count: user._count,
     };
@@ -334,21 +344,21 @@ function formatDate(date: Date): string {
 }
 
 /**
- * Format availability window for display
+ * Group weekly slots by day for display, e.g. "9:00 AM - 12:00 PM, 2:00 PM - 5:00 PM"
  */
-function formatAvailability(window: string): string {
-  const [start, end] = window.split('-');
-  if (!start || !end) return window;
-
-  const formatTime = (time: string) => {
-    const [hours, minutes] = time.split(':');
-    const hour = parseInt(hours, 10);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    const displayHour = hour % 12 || 12;
-    return `${displayHour}:${minutes} ${ampm}`;
-  };
-
-  return `${formatTime(start)} - ${formatTime(end)}`;
+function formatWeeklyAvailability(
+  slots: WeeklySlot[]
+): { day: string; hours: string }[] {
+  return DAY_LABELS.map((day, dayOfWeek) => ({
+    day,
+    hours: slots
+      .filter((slot) => slot.dayOfWeek === dayOfWeek)
+      .map(
+        (slot) =>
+          `${formatMinutes(slot.startMinute)} - ${formatMinutes(slot.endMinute)}`
+      )
+      .join(', '),
+  })).filter((entry) => entry.hours);
 }
 
 export default async function UserProfilePage({
@@ -496,6 +506,12 @@ export default async function UserProfilePage({
                       hasPendingRequest={hasPendingRequest}
                       isSentByCurrentUser={isSentByCurrentUser}
                     />
+                    {isConnected && (
+                      <SendCreditsDialog
+                        recipientId={profile.id}
+                        recipientName={displayName}
+                      />
+                    )}
                     <BlockUserButton
                       userId={profile.id}
                       userName={displayName}
@@ -550,9 +566,8 @@ export default async function UserProfilePage({
                         experience
                       </div>
                       <div className="flex items-center gap-1">
-                        <Clock className="h-3 w-3" />
-                        Available:{' '}
-                        {formatAvailability(skill.availabilityWindow)}
+                        <Coins className="h-3 w-3" />
+                        {skill.hourlyRate} credits/hr
                       </div>
                     </div>
                   </div>
@@ -565,6 +580,36 @@ export default async function UserProfilePage({
             )}
           </Card>
 
+          {/* Availability Section */}
+          <Card className="p-6 mb-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Clock className="h-5 w-5 text-primary" />
+              <h2 className="text-lg font-semibold">Weekly Availability</h2>
+              <span className="text-sm text-muted-foreground">
+                ({profile.timeZone})
+              </span>
+            </div>
+
+            {profile.availabilitySlots.length > 0 ? (
+              <dl className="grid gap-2 text-sm">
+                {formatWeeklyAvailability(profile.availabilitySlots).map(
+                  ({ day, hours }) => (
+                    <div key={day} className="flex gap-4">
+                      <dt className="w-24 font-medium text-foreground">
+                        {day}
+                      </dt>
+                      <dd className="text-muted-foreground">{hours}</dd>
+                    </div>
+                  )
+                )}
+              </dl>
+            ) : (
+              <p className="text-muted-foreground text-center py-8">
+                No availability set yet
+              </p>
+            )}
+          </Card>
+
           {/* Posts Section */}
           <ProfilePostsSection
             userId={userId}
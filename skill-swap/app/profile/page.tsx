@@ -34,6 +34,7 @@ interface ProfileData {
     proficiency: string;
     yearsExperience: number;
     teachingFormat: string;
+    hourlyRate: number;
     studentCount: number;
   }[];
   skillsLearning: {
@@ -298,7 +299,8 @@ export default function ProfilePage() {
                         </div>
                         <p className="text-sm text-muted-foreground mb-2">
                           {skill.yearsExperience} years experience ·{' '}
-                          {skill.studentCount} students taught
+                          {skill.studentCount} students taught ·{' '}
+                          {skill.hourlyRate} credits/hr
                         </p>
                         <p className="text-sm text-muted-foreground mb-2">
                           {skill.description}
@@ -3,6 +3,13 @@ import { redirect } from 'next/navigation';
 import { cookies } from 'next/headers';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { activeUserFilter } from '@/lib/account-status';
+import {
+  LEARNING_POST_INCLUDE,
+  formatLearningPost,
+  learningPostSearchFilter,
+} from '@/lib/learning-posts';
+import type { LearningPost } from '@/lib/types';
 import { Prisma } from '@prisma/client';
 import { Header } from '@/components/layout/header';
 import { MobileNav } from '@/components/layout/mobile-nav';
@@ -19,6 +26,8 @@ interface SearchParams {
   proficiency?: string;
   minYears?: string;
   maxYears?: string;
+  minRate?: string;
+  maxRate?: string;
   page?: string;
 }
 
@@ -32,6 +41,7 @@ export interface SkillResult {
   teachingFormat: string;
   availabilityWindow: string;
   alternativeNames: string | null;
+  hourlyRate: number;
   owner: {
     id: string;
     fullName: string | null;
@@ -54,6 +64,45 @@ export interface SearchHistoryItem {
 const PROFICIENCY_LEVELS = ['Beginner', 'Intermediate', 'Advanced', 'Expert'];
 const TEACHING_FORMATS = ['Online', 'In-Person', 'Hybrid'];
 const ITEMS_PER_PAGE = 10;
+// Learning posts shown alongside the skill results
+const MAX_LEARNING_POSTS = 5;
+
+/**
+ * Credits-per-hour range from the minRate/maxRate params
+ */
+function rateRangeFilter(
+  searchParams: SearchParams
+): { gte?: number; lte?: number } | undefined {
+  const minRate = parseInt(searchParams.minRate || '');
+  const maxRate = parseInt(searchParams.maxRate || '');
+
+  if (isNaN(minRate) && isNaN(maxRate)) return undefined;
+
+  return {
+    ...(isNaN(minRate) ? {} : { gte: minRate }),
+    ...(isNaN(maxRate) ? {} : { lte: maxRate }),
+  };
+}
+
+/**
+ * Users the current user has blocked or been blocked by
+ * Use sequential queries to avoid exhausting connection pool
+ */
+async function getBlockedUserIds(currentUserId: string): Promise<string[]> {
+  const blockedByMe = await prisma.blockedUser.findMany({
+    where: { blockerId: currentUserId },
+    select: { blockedId: true },
+  });
+  const blockedMe = await prisma.blockedUser.findMany({
+    where: { blockedId: currentUserId },
+    select: { blockerId: true },
+  });
+
+  return [
+    ...blockedByMe.map((b) => b.blockedId),
+    ...blockedMe.map((b) => b.blockerId),
+  ];
+}
 
 /**
  * Server-side search function with optimized queries
@@ -88,20 +137,7 @@ async function searchSkills(
     const page = Math.max(1, parseInt(searchParams.page || '1'));
 
     // Get blocked user IDs (users current user blocked + users who blocked current user)
-    // Use sequential queries to avoid exhausting connection pool
-    const blockedByMe = await prisma.blockedUser.findMany({
-      where: { blockerId: currentUserId },
-      select: { blockedId: true },
-    });
-    const blockedMe = await prisma.blockedUser.findMany({
-      where: { blockedId: currentUserId },
-      select: { blockerId: true },
-    });
-
-    const blockedUserIds = [
-      ...blockedByMe.map((b) => b.blockedId),
-      ...blockedMe.map((b) => b.blockerId),
-    ];
+    const blockedUserIds = await getBlockedUserIds(currentUserId);
 
     // Build where clause for filtering
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -113,6 +149,8 @@ async function searchSkills(
         // Exclude blocked users' skills
         notIn: blockedUserIds.length > 0 ? blockedUserIds : undefined,
       },
+      // Hide skills of suspended users
+      owner: activeUserFilter(),
       // Search query - search in name AND alternativeNames (case-insensitive)
       OR: [
         { name: { contains: query, mode: Prisma.QueryMode.insensitive } },
@@ -153,6 +191,12 @@ async function searchSkills(
       }
     }
 
+    // Hourly rate filter
+    const rateRange = rateRangeFilter(searchParams);
+    if (rateRange) {
+      whereClause.hourlyRate = rateRange;
+    }
+
     // Get total count for pagination
     const totalCount = await prisma.skill.count({ where: whereClause });
     const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
@@ -173,6 +217,7 @@ async function searchSkills(
         reviews: {
           select: {
             rating: true,
+            reviewedUserId: true,
           },
         },
       },
@@ -183,10 +228,15 @@ async function searchSkills(
 
     // Transform results with computed review stats
     const skillResults: SkillResult[] = skills.map((skill) => {
-      const reviewCount = skill.reviews.length;
+      // Reviews of a session carry its skill whoever wrote them; only the
+      // learners' reviews of the owner rate the skill
+      const skillReviews = skill.reviews.filter(
+        (r) => r.reviewedUserId === skill.ownerId
+      );
+      const reviewCount = skillReviews.length;
       const averageRating =
         reviewCount > 0
-          ? skill.reviews.reduce((sum, r) => sum + r.rating, 0) / reviewCount
+          ? skillReviews.reduce((sum, r) => sum + r.rating, 0) / reviewCount
           : null;
 
       return {
@@ -198,6 +248,7 @@ async function searchSkills(
         teachingFormat: skill.teachingFormat,
         availabilityWindow: skill.availabilityWindow,
         alternativeNames: skill.alternativeNames,
+        hourlyRate: skill.hourlyRate,
         owner: skill.owner,
         reviewCount,
         averageRating: averageRating
@@ -218,6 +269,46 @@ async function searchSkills(
   }
 }
 
+/**
+ * Active teach/learn posts matching the search query, format and rate filters
+ */
+async function searchLearningPosts(
+  searchParams: SearchParams,
+  currentUserId: string
+): Promise<LearningPost[]> {
+  try {
+    const query = searchParams.q?.trim() || '';
+    if (!query) return [];
+
+    const format = searchParams.format;
+    const rateRange = rateRangeFilter(searchParams);
+    const blockedUserIds = await getBlockedUserIds(currentUserId);
+
+    const posts = await prisma.learningPost.findMany({
+      where: {
+        status: 'active',
+        authorId: {
+          not: currentUserId,
+          notIn: blockedUserIds.length > 0 ? blockedUserIds : undefined,
+        },
+        // Hide posts of suspended users
+        author: activeUserFilter(),
+        ...(format && TEACHING_FORMATS.includes(format) ? { format } : {}),
+        ...(rateRange ? { creditsOffered: rateRange } : {}),
+        ...learningPostSearchFilter(query),
+      },
+      include: LEARNING_POST_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_LEARNING_POSTS,
+    });
+
+    return posts.map(formatLearningPost);
+  } catch (error) {
+    console.error('Error searching learning posts:', error);
+    return [];
+  }
+}
+
 /**
  * Get user's search history (last 5 searches)
  */
@@ -270,10 +361,13 @@ export default async function SearchPage({
 
   // Only fetch skills if there's a search query
   // Always fetch search history for the empty state
-  const [searchResults, searchHistory] = await Promise.all([
+  const [searchResults, learningPosts, searchHistory] = await Promise.all([
     hasSearchQuery
       ? searchSkills(params, session.user.id)
       : Promise.resolve(null),
+    hasSearchQuery
+      ? searchLearningPosts(params, session.user.id)
+      : Promise.resolve([]),
     getSearchHistory(session.user.id),
   ]);
 
@@ -300,6 +394,7 @@ export default async function SearchPage({
           <Suspense fallback={<SearchLoadingSkeleton />}>
             <SearchContent
               initialResults={searchResults}
+              learningPosts={learningPosts}
               searchHistory={searchHistory}
               proficiencyLevels={PROFICIENCY_LEVELS}
               teachingFormats={TEACHING_FORMATS}
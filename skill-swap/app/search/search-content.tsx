@@ -38,6 +38,7 @@ import {
 } from '@/components/ui/sheet';
 import { Separator } from '@/components/ui/separator';
 import type { SkillResult, SearchHistoryItem } from './page';
+import type { LearningPost } from '@/lib/types';
 
 // Cookie names for last search (must match server-side)
 const LAST_SEARCH_COOKIE = 'skillswap_last_search';
@@ -71,6 +72,7 @@ interface SearchContentProps {
     totalPages: number;
     currentPage: number;
   } | null;
+  learningPosts: LearningPost[];
   searchHistory: SearchHistoryItem[];
   proficiencyLevels: string[];
   teachingFormats: string[];
@@ -79,6 +81,7 @@ interface SearchContentProps {
 
 export function SearchContent({
   initialResults,
+  learningPosts,
   searchHistory: initialSearchHistory,
   proficiencyLevels,
   teachingFormats,
@@ -93,6 +96,8 @@ export function SearchContent({
   const [selectedProficiency, setSelectedProficiency] = useState('');
   const [minYears, setMinYears] = useState('');
   const [maxYears, setMaxYears] = useState('');
+  const [minRate, setMinRate] = useState('');
+  const [maxRate, setMaxRate] = useState('');
   const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false);
   const [searchHistory, setSearchHistory] =
     useState<SearchHistoryItem[]>(initialSearchHistory);
@@ -162,6 +167,8 @@ export function SearchContent({
         proficiency: selectedProficiency,
         minYears,
         maxYears,
+        minRate,
+        maxRate,
         ...overrides,
       };
 
@@ -177,7 +184,15 @@ export function SearchContent({
 
       return `/search?${params.toString()}`;
     },
-    [searchQuery, selectedFormat, selectedProficiency, minYears, maxYears]
+    [
+      searchQuery,
+      selectedFormat,
+      selectedProficiency,
+      minYears,
+      maxYears,
+      minRate,
+      maxRate,
+    ]
   );
 
   // Save search to history
@@ -279,6 +294,8 @@ export function SearchContent({
     setSelectedProficiency('');
     setMinYears('');
     setMaxYears('');
+    setMinRate('');
+    setMaxRate('');
     // Clear the search cookie completely so it won't auto-restore
     deleteCookie(LAST_SEARCH_COOKIE);
     setCookie(SEARCH_CLEARED_COOKIE, 'true', 1);
@@ -302,7 +319,12 @@ export function SearchContent({
 
   // Check if any filters are active
   const hasActiveFilters =
-    selectedFormat || selectedProficiency || minYears || maxYears;
+    selectedFormat ||
+    selectedProficiency ||
+    minYears ||
+    maxYears ||
+    minRate ||
+    maxRate;
 
   // Check if we have search results
   const hasResults = initialResults !== null;
@@ -328,6 +350,8 @@ export function SearchContent({
                   params.set('proficiency', selectedProficiency);
                 if (minYears) params.set('minYears', minYears);
                 if (maxYears) params.set('maxYears', maxYears);
+                if (minRate) params.set('minRate', minRate);
+                if (maxRate) params.set('maxRate', maxRate);
                 router.push(`/search?${params.toString()}`, { scroll: false });
               });
             }
@@ -365,6 +389,8 @@ export function SearchContent({
                 if (value && value !== 'all') params.set('proficiency', value);
                 if (minYears) params.set('minYears', minYears);
                 if (maxYears) params.set('maxYears', maxYears);
+                if (minRate) params.set('minRate', minRate);
+                if (maxRate) params.set('maxRate', maxRate);
                 router.push(`/search?${params.toString()}`, { scroll: false });
               });
             }
@@ -409,6 +435,31 @@ export function SearchContent({
         </div>
       </div>
 
+      {/* Hourly Rate Range */}
+      <div>
+        <Label className="text-sm font-medium mb-2 block">
+          Credits per Hour
+        </Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            placeholder="Min"
+            min="0"
+            value={minRate}
+            onChange={(e) => setMinRate(e.target.value)}
+            onBlur={handleFilterChange}
+          />
+          <Input
+            type="number"
+            placeholder="Max"
+            min="0"
+            value={maxRate}
+            onChange={(e) => setMaxRate(e.target.value)}
+            onBlur={handleFilterChange}
+          />
+        </div>
+      </div>
+
       {/* Reset Filters */}
       {hasActiveFilters && (
         <Button
@@ -583,6 +634,71 @@ export function SearchContent({
           </Button>
         </div>
 
+        {/* Matching Teach/Learn Posts */}
+        {learningPosts.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3">
+              Learning Posts
+            </h2>
+            <div className="space-y-3">
+              {learningPosts.map((post) => (
+                <Card key={post.id} className="p-4">
+                  <div className="flex gap-4">
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage
+                        src={post.author.avatar || undefined}
+                        alt={post.author.name}
+                      />
+                      <AvatarFallback>
+                        {getInitials(post.author.name)}
+                      </AvatarFallback>
+                    </Avatar>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant="secondary">
+                          {post.type === 'teach' ? 'Teaching' : 'Wants to learn'}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          by {post.author.name}
+                        </span>
+                      </div>
+                      <h3 className="font-semibold text-foreground">
+                        {post.title}
+                      </h3>
+                      <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
+                        {post.description}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {post.skillOffered && (
+                          <Badge variant="outline">{post.skillOffered}</Badge>
+                        )}
+                        {post.skillsRequested.map((skill) => (
+                          <Badge key={skill} variant="outline">
+                            {skill}
+                          </Badge>
+                        ))}
+                        <span className="text-xs text-muted-foreground">
+                          {post.creditsOffered} credits/hr · {post.format} ·{' '}
+                          {post.availability}
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="hidden sm:flex flex-col items-end">
+                      <Link href={`/profile/${post.author.id}`}>
+                        <Button size="sm" variant="outline">
+                          View Profile
+                        </Button>
+                      </Link>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Results Grid */}
         {initialResults.skills.length > 0 ? (
           <div className="space-y-4">
@@ -633,6 +749,9 @@ export function SearchContent({
                         {skill.yearsOfExperience}{' '}
                         {skill.yearsOfExperience === 1 ? 'year' : 'years'} exp
                       </span>
+                      <span className="text-xs font-medium text-foreground">
+                        {skill.hourlyRate} credits/hr
+                      </span>
                     </div>
                   </div>
 
@@ -654,7 +773,7 @@ export function SearchContent({
               </Card>
             ))}
           </div>
-        ) : (
+        ) : learningPosts.length === 0 ? (
           <Card className="p-8 text-center">
             <Search className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
             <h3 className="font-semibold mb-2">No results found</h3>
@@ -665,7 +784,7 @@ export function SearchContent({
               Clear Filters
             </Button>
           </Card>
-        )}
+        ) : null}
 
         {/* Pagination */}
         {initialResults.totalPages > 1 && (
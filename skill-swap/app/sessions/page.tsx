@@ -2,10 +2,14 @@
  * Sessions Page
  *
  * Displays the user's learning sessions organized into tabs:
- * - Active Sessions: Currently ongoing sessions
+ * - Active Sessions: Currently ongoing sessions, and disputed ones, with
+ *   any pending proposal to reschedule them, followed by scheduled
+ *   occurrences of recurring series
  * - Session Requests: Incoming and outgoing requests
  * - Completed: Past sessions that have been completed
  * - Cancelled: Sessions that were cancelled
+ * - Group: Group sessions hosted, joined or open to join, when group
+ *   sessions are enabled
  *
  * @fileoverview Session management dashboard with real API integration
  */
@@ -30,11 +34,24 @@ import {
   XCircle, 
   ArrowRightLeft,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Star,
+  CalendarClock,
+  CalendarPlus,
+  Repeat
 } from "lucide-react"
 import { toast } from "sonner"
 import { CreateSessionRequestDialog } from "@/components/create-session-request-dialog"
+import { SessionReviewDialog } from "@/components/session-review-dialog"
+import { SessionDisputeDialog } from "@/components/session-dispute-dialog"
+import { SessionRescheduleDialog } from "@/components/session-reschedule-dialog"
+import { SendCreditsDialog } from "@/components/send-credits-dialog"
+import { GroupSessionsPanel } from "@/components/group-sessions-panel"
+import { ConfirmDialog } from "@/components/confirm-dialog"
 import { useWallet } from "@/contexts/wallet-context"
+import type { RescheduleAction, RescheduleProposalItem } from "@/lib/types/reschedules"
+import { FEATURES, SESSION_SERIES } from "@/lib/constants"
+import { frequencyLabel } from "@/lib/recurrence"
 
 // Types
 interface User {
@@ -51,11 +68,21 @@ interface SessionRequest {
   mode: "ONLINE" | "PHYSICAL"
   startDate: string
   endDate: string | null
-  status: "PENDING" | "ACCEPTED" | "DECLINED"
+  status: "PENDING" | "ACCEPTED" | "DECLINED" | "EXPIRED"
+  creditsHeld: number
+  hourlyRate: number | null
+  sessionCredits: number
+  recurrence: {
+    frequency: string
+    count: number | null
+    until: string | null
+  } | null
   sender: User
   receiver: User
   skill: { name: string } | null
   createdAt: string
+  expiresAt: string | null
+  expiredAt: string | null
 }
 
 interface Session {
@@ -65,8 +92,15 @@ interface Session {
   mode: "ONLINE" | "PHYSICAL"
   startDate: string
   endDate: string | null
-  status: "ACTIVE" | "COMPLETED" | "CANCELLED"
+  status: "SCHEDULED" | "ACTIVE" | "COMPLETED" | "CANCELLED" | "DISPUTED"
   sessionCredits: number
+  series: {
+    id: string
+    frequency: string
+    occurrenceCount: number
+    status: "ACTIVE" | "CANCELLED"
+    occurrenceIndex: number | null
+  } | null
   learner: User
   provider: User
   skill: { name: string } | null
@@ -74,9 +108,15 @@ interface Session {
   providerCompletionConfirmed: boolean
   learnerCancellationRequested: boolean
   providerCancellationRequested: boolean
+  hasReviewed: boolean
+  hasDispute: boolean
+  canDispute: boolean
   createdAt: string
   completedAt: string | null
   cancelledAt: string | null
+  settlementOutcome: "AUTO_COMPLETED" | "DISPUTED" | null
+  autoSettlesAt: string | null
+  pendingReschedule: RescheduleProposalItem | null
 }
 
 export default function SessionsPage() {
@@ -87,6 +127,10 @@ export default function SessionsPage() {
   const [receivedRequests, setReceivedRequests] = useState<SessionRequest[]>([])
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
   const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [reviewSession, setReviewSession] = useState<Session | null>(null)
+  const [disputeSession, setDisputeSession] = useState<Session | null>(null)
+  const [rescheduleSession, setRescheduleSession] = useState<Session | null>(null)
+  const [cancelSeriesSession, setCancelSeriesSession] = useState<Session | null>(null)
   const { refreshWallet } = useWallet()
 
   // Fetch all data
@@ -124,7 +168,10 @@ export default function SessionsPage() {
   }, [fetchData])
 
   // Filter sessions by status
-  const activeSessions = sessions.filter(s => s.status === "ACTIVE")
+  const activeSessions = sessions.filter(s => s.status === "ACTIVE" || s.status === "DISPUTED")
+  const scheduledSessions = sessions
+    .filter(s => s.status === "SCHEDULED")
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
   const completedSessions = sessions.filter(s => s.status === "COMPLETED")
   const cancelledSessions = sessions.filter(s => s.status === "CANCELLED")
 
@@ -188,7 +235,7 @@ export default function SessionsPage() {
 
       const data = await res.json()
       if (res.ok) {
-        toast.success("Session request cancelled. 5 credits refunded.")
+        toast.success(data.message || "Session request cancelled.")
         fetchData()
         refreshWallet()
       } else {
@@ -213,6 +260,9 @@ export default function SessionsPage() {
       if (res.ok) {
         if (data.sessionCompleted) {
           toast.success(`Session completed! ${data.creditsTransferred} credits transferred.`)
+          // Prompt for a review right away while the session is fresh
+          const completed = sessions.find(s => s.id === sessionId)
+          if (completed) setReviewSession(completed)
         } else {
           toast.success(`Completion confirmed. Waiting for the other party.`)
         }
@@ -259,6 +309,54 @@ export default function SessionsPage() {
     }
   }
 
+  // Accept, decline or withdraw a proposed new time
+  const handleRespondReschedule = async (
+    sessionId: string,
+    proposalId: string,
+    action: RescheduleAction
+  ) => {
+    setActionLoading(sessionId)
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/reschedule`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ proposalId, action }),
+      })
+
+      const data = await res.json()
+      if (res.ok) {
+        toast.success(data.message)
+        fetchData()
+      } else {
+        toast.error(data.error || "Failed to respond to the proposal")
+      }
+    } catch (error) {
+      toast.error("Failed to respond to the proposal")
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  // Cancel the remaining scheduled sessions of a series
+  const handleCancelSeries = async (seriesId: string) => {
+    try {
+      const res = await fetch(`/api/sessions/series/${seriesId}/cancel`, {
+        method: "POST",
+      })
+
+      const data = await res.json()
+      if (res.ok) {
+        toast.success(data.message || "Series cancelled")
+        setCancelSeriesSession(null)
+        fetchData()
+      } else {
+        toast.error(data.error || "Failed to cancel series")
+      }
+    } catch (error) {
+      toast.error("Failed to cancel series")
+    }
+  }
+
   // Get user initials
   const getInitials = (name: string) => {
     return name
@@ -279,9 +377,21 @@ export default function SessionsPage() {
     })
   }
 
+  // Format date with time, for proposed session times
+  const formatDateTime = (dateStr: string | Date) => {
+    return new Date(dateStr).toLocaleString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    })
+  }
+
   // Render session request card
   const renderRequestCard = (request: SessionRequest, isSent: boolean) => {
     const otherUser = isSent ? request.receiver : request.sender
+    const isExpired = request.status === "EXPIRED"
 
     return (
       <Card key={request.id} className="p-6 hover:shadow-md transition">
@@ -321,6 +431,17 @@ export default function SessionsPage() {
                   <span>- {formatDate(request.endDate)}</span>
                 )}
               </div>
+              {request.recurrence && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Repeat className="w-4 h-4" />
+                  <span>
+                    {frequencyLabel(request.recurrence.frequency)}
+                    {request.recurrence.count
+                      ? ` · ${request.recurrence.count} sessions`
+                      : request.recurrence.until && ` · until ${formatDate(request.recurrence.until)}`}
+                  </span>
+                </div>
+              )}
               <div className="flex items-center gap-2 text-muted-foreground">
                 {request.mode === "ONLINE" ? (
                   <Video className="w-4 h-4" />
@@ -329,14 +450,29 @@ export default function SessionsPage() {
                 )}
                 <span>{request.mode === "ONLINE" ? "Online" : "In-Person"}</span>
               </div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Clock className="w-4 h-4" />
+                <span>
+                  {request.sessionCredits} credits
+                  {request.hourlyRate !== null && ` (${request.hourlyRate}/hr)`}
+                  {request.recurrence && " per session"}
+                  {isSent
+                    ? " reserved if accepted"
+                    : ` + ${request.creditsHeld} request fee`}
+                </span>
+              </div>
             </div>
           </div>
 
           <div className="flex flex-col justify-between">
             <div className="flex items-center gap-2 mb-4">
-              <Badge variant="outline" className="text-orange-600 border-orange-600">
-                ⏱ Pending
-              </Badge>
+              {isExpired ? (
+                <Badge variant="secondary">Expired</Badge>
+              ) : (
+                <Badge variant="outline" className="text-orange-600 border-orange-600">
+                  ⏱ Pending
+                </Badge>
+              )}
               {isSent && (
                 <Badge variant="outline" className="text-blue-600 border-blue-600">
                   <ArrowRightLeft className="w-3 h-3 mr-1" />
@@ -345,47 +481,59 @@ export default function SessionsPage() {
               )}
             </div>
 
-            <div className="flex flex-col gap-2">
-              {isSent ? (
-                <Button 
-                  variant="outline" 
-                  className="w-full bg-transparent"
-                  onClick={() => handleCancelRequest(request.id)}
-                  disabled={actionLoading === request.id}
-                >
-                  {actionLoading === request.id ? (
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  ) : (
-                    <XCircle className="w-4 h-4 mr-2" />
-                  )}
-                  Cancel Request
-                </Button>
-              ) : (
-                <>
+            {isExpired ? (
+              <p className="text-sm text-muted-foreground">
+                Expired {request.expiredAt && formatDate(request.expiredAt)}
+                {isSent && ` - ${request.creditsHeld} credits refunded`}
+              </p>
+            ) : (
+              <div className="flex flex-col gap-2">
+                {request.expiresAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Expires {formatDate(request.expiresAt)} if not answered
+                  </p>
+                )}
+                {isSent ? (
                   <Button 
-                    className="w-full"
-                    onClick={() => handleAcceptRequest(request.id)}
+                    variant="outline" 
+                    className="w-full bg-transparent"
+                    onClick={() => handleCancelRequest(request.id)}
                     disabled={actionLoading === request.id}
                   >
                     {actionLoading === request.id ? (
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     ) : (
-                      <CheckCircle2 className="w-4 h-4 mr-2" />
+                      <XCircle className="w-4 h-4 mr-2" />
                     )}
-                    Accept
+                    Cancel Request
                   </Button>
-                  <Button 
-                    variant="outline" 
-                    className="w-full bg-transparent"
-                    onClick={() => handleDeclineRequest(request.id)}
-                    disabled={actionLoading === request.id}
-                  >
-                    <XCircle className="w-4 h-4 mr-2" />
-                    Decline
-                  </Button>
-                </>
-              )}
-            </div>
+                ) : (
+                  <>
+                    <Button 
+                      className="w-full"
+                      onClick={() => handleAcceptRequest(request.id)}
+                      disabled={actionLoading === request.id}
+                    >
+                      {actionLoading === request.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <CheckCircle2 className="w-4 h-4 mr-2" />
+                      )}
+                      Accept
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      className="w-full bg-transparent"
+                      onClick={() => handleDeclineRequest(request.id)}
+                      disabled={actionLoading === request.id}
+                    >
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Decline
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </Card>
@@ -408,6 +556,11 @@ export default function SessionsPage() {
     const otherCancellation = isLearner
       ? session.providerCancellationRequested
       : session.learnerCancellationRequested
+    const proposal = session.pendingReschedule
+    const canReschedule = !myConfirmation && !otherConfirmation
+    const canCancelSeries =
+      session.series?.status === "ACTIVE" &&
+      (session.status === "ACTIVE" || session.status === "SCHEDULED")
 
     return (
       <Card 
@@ -415,9 +568,13 @@ export default function SessionsPage() {
         className={`p-6 hover:shadow-md transition border-l-4 ${
           session.status === "ACTIVE" 
             ? "border-l-green-500" 
+            : session.status === "SCHEDULED"
+              ? "border-l-sky-500" 
             : session.status === "COMPLETED" 
               ? "border-l-blue-500"
-              : "border-l-red-500"
+              : session.status === "DISPUTED"
+                ? "border-l-orange-500"
+                : "border-l-red-500"
         }`}
       >
         <div className="grid md:grid-cols-2 gap-6">
@@ -456,6 +613,16 @@ export default function SessionsPage() {
                   <span>- {formatDate(session.endDate)}</span>
                 )}
               </div>
+              {session.series && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Repeat className="w-4 h-4" />
+                  <span>
+                    Session {session.series.occurrenceIndex} of {session.series.occurrenceCount}
+                    {" · "}{frequencyLabel(session.series.frequency)}
+                    {session.series.status === "CANCELLED" && " · Series cancelled"}
+                  </span>
+                </div>
+              )}
               <div className="flex items-center gap-2 text-muted-foreground">
                 {session.mode === "ONLINE" ? (
                   <Video className="w-4 h-4" />
@@ -476,11 +643,42 @@ export default function SessionsPage() {
               <Badge 
                 variant={session.status === "ACTIVE" ? "default" : "secondary"}
               >
+                {session.status === "SCHEDULED" && "📅 Scheduled"}
                 {session.status === "ACTIVE" && "✓ Active"}
                 {session.status === "COMPLETED" && "✓ Completed"}
                 {session.status === "CANCELLED" && "✗ Cancelled"}
+                {session.status === "DISPUTED" && "⚠ Disputed"}
               </Badge>
 
+              {session.settlementOutcome === "AUTO_COMPLETED" && (
+                <p className="text-xs text-muted-foreground">
+                  Completed automatically after only one of you confirmed it
+                </p>
+              )}
+
+              {session.status === "SCHEDULED" && (
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p>
+                    {isLearner ? "Your" : "The learner's"} {session.sessionCredits} credits are
+                    reserved {SESSION_SERIES.RESERVE_AHEAD_DAYS} days before it starts.
+                  </p>
+                  {(myCancellation || otherCancellation) && (
+                    <p className="text-orange-600">
+                      {myCancellation
+                        ? `You asked to skip this session. Waiting for ${otherUser.fullName}.`
+                        : `${otherUser.fullName} asked to skip this session.`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {session.status === "DISPUTED" && (
+                <p className="text-xs text-orange-600">
+                  This session is under dispute. Its credits are frozen until an admin
+                  reviews both sides and resolves it.
+                </p>
+              )}
+
               {session.status === "ACTIVE" && (
                 <div className="text-xs text-muted-foreground space-y-3">
                   <div>
@@ -491,7 +689,55 @@ export default function SessionsPage() {
                     <p className={otherConfirmation ? "text-green-600" : ""}>
                       {otherUser.fullName}: {otherConfirmation ? "✓ Confirmed" : "Not confirmed"}
                     </p>
+                    {session.autoSettlesAt && (
+                      <p className="mt-1">
+                        Completes automatically on {formatDate(session.autoSettlesAt)} unless{" "}
+                        {myConfirmation ? `${otherUser.fullName} asks` : "you ask"} to cancel
+                      </p>
+                    )}
                   </div>
+                  {proposal && (
+                    <div className="rounded-md border border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950/30 p-2">
+                      <p className="font-medium text-blue-700 dark:text-blue-400">
+                        {proposal.isMine ? "You" : proposal.proposedByName} proposed a new time:
+                      </p>
+                      <p className="text-foreground">{formatDateTime(proposal.proposedStartDate)}</p>
+                      {proposal.reason && <p className="mt-1">&quot;{proposal.reason}&quot;</p>}
+                      <div className="flex gap-2 mt-2">
+                        {proposal.isMine ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 bg-transparent"
+                            onClick={() => handleRespondReschedule(session.id, proposal.id, "WITHDRAW")}
+                            disabled={actionLoading === session.id}
+                          >
+                            Withdraw
+                          </Button>
+                        ) : (
+                          <>
+                            <Button
+                              size="sm"
+                              className="h-7"
+                              onClick={() => handleRespondReschedule(session.id, proposal.id, "ACCEPT")}
+                              disabled={actionLoading === session.id}
+                            >
+                              Accept
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-7 bg-transparent"
+                              onClick={() => handleRespondReschedule(session.id, proposal.id, "DECLINE")}
+                              disabled={actionLoading === session.id}
+                            >
+                              Decline
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  )}
                   {(myCancellation || otherCancellation) && (
                     <div>
                       <p className="font-medium text-orange-600">Cancellation requests:</p>
@@ -507,6 +753,39 @@ export default function SessionsPage() {
               )}
             </div>
 
+            {session.status === "COMPLETED" && (
+              <div className="flex gap-2">
+                <Button
+                  variant={session.hasReviewed ? "outline" : "default"}
+                  className="flex-1"
+                  onClick={() => setReviewSession(session)}
+                  disabled={session.hasReviewed}
+                >
+                  <Star className="w-4 h-4 mr-2" />
+                  {session.hasReviewed ? "Reviewed" : "Leave a Review"}
+                </Button>
+                {isLearner && (
+                  <SendCreditsDialog
+                    recipientId={otherUser.id}
+                    recipientName={otherUser.fullName}
+                    session={{ id: session.id, name: session.sessionName }}
+                  />
+                )}
+              </div>
+            )}
+
+            {session.status !== "ACTIVE" && (session.canDispute || session.hasDispute) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-2 text-orange-600 hover:text-orange-700"
+                onClick={() => setDisputeSession(session)}
+              >
+                <AlertCircle className="w-4 h-4 mr-2" />
+                {session.hasDispute ? "View Dispute" : "Report a Problem"}
+              </Button>
+            )}
+
             {session.status === "ACTIVE" && (
               <div className="flex flex-col gap-2">
                 {!myConfirmation ? (
@@ -552,8 +831,76 @@ export default function SessionsPage() {
                     Waiting for Partner to Cancel
                   </Button>
                 )}
+                {canReschedule && (
+                  <Button
+                    variant="outline"
+                    className="w-full bg-transparent"
+                    onClick={() => setRescheduleSession(session)}
+                    disabled={actionLoading === session.id}
+                  >
+                    <CalendarClock className="w-4 h-4 mr-2" />
+                    {proposal ? "Propose Another Time" : "Reschedule"}
+                  </Button>
+                )}
+                {session.canDispute && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full text-orange-600 hover:text-orange-700"
+                    onClick={() => setDisputeSession(session)}
+                  >
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    Report a Problem
+                  </Button>
+                )}
               </div>
             )}
+
+            {session.status === "SCHEDULED" && (
+              <Button
+                variant="outline"
+                className="w-full bg-transparent text-red-600 hover:text-red-700"
+                onClick={() => handleCancelSession(session.id)}
+                disabled={actionLoading === session.id || myCancellation}
+              >
+                {actionLoading === session.id ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <XCircle className="w-4 h-4 mr-2" />
+                )}
+                {myCancellation
+                  ? "Waiting for Partner to Skip"
+                  : otherCancellation
+                    ? "Agree to Skip"
+                    : "Skip This Session"}
+              </Button>
+            )}
+
+            {canCancelSeries && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full mt-2 text-red-600 hover:text-red-700"
+                onClick={() => setCancelSeriesSession(session)}
+              >
+                <Repeat className="w-4 h-4 mr-2" />
+                Cancel Series
+              </Button>
+            )}
+
+            {(session.status === "ACTIVE" || session.status === "SCHEDULED") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full mt-2"
+                asChild
+              >
+                <a href={`/api/sessions/${session.id}/calendar`} download>
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Add to Calendar
+                </a>
+              </Button>
+            )}
           </div>
         </div>
       </Card>
@@ -583,7 +930,11 @@ export default function SessionsPage() {
     )
   }
 
-  const totalRequests = sentRequests.length + receivedRequests.length
+  // Expired requests stay listed for a while but don't count as open
+  const isPendingRequest = (request: SessionRequest) => request.status === "PENDING"
+  const pendingReceivedCount = receivedRequests.filter(isPendingRequest).length
+  const pendingSentCount = sentRequests.filter(isPendingRequest).length
+  const totalRequests = pendingReceivedCount + pendingSentCount
 
   return (
     <>
@@ -609,11 +960,14 @@ export default function SessionsPage() {
 
           {/* Session Tabs */}
           <Tabs defaultValue="active" className="space-y-6">
-            <TabsList className="grid grid-cols-4 w-full">
+            <TabsList className={`grid ${FEATURES.enableGroupSessions ? "grid-cols-5" : "grid-cols-4"} w-full`}>
               <TabsTrigger value="active">Active ({activeSessions.length})</TabsTrigger>
               <TabsTrigger value="requests">Requests ({totalRequests})</TabsTrigger>
               <TabsTrigger value="completed">Completed ({completedSessions.length})</TabsTrigger>
               <TabsTrigger value="cancelled">Cancelled ({cancelledSessions.length})</TabsTrigger>
+              {FEATURES.enableGroupSessions && (
+                <TabsTrigger value="group">Group</TabsTrigger>
+              )}
             </TabsList>
 
             {/* Active Sessions Tab */}
@@ -633,6 +987,16 @@ export default function SessionsPage() {
               ) : (
                 activeSessions.map(session => renderSessionCard(session))
               )}
+
+              {scheduledSessions.length > 0 && (
+                <>
+                  <h3 className="text-lg font-semibold pt-4 flex items-center gap-2">
+                    <Repeat className="w-5 h-5" />
+                    Scheduled ({scheduledSessions.length})
+                  </h3>
+                  {scheduledSessions.map(session => renderSessionCard(session))}
+                </>
+              )}
             </TabsContent>
 
             {/* Session Requests Tab */}
@@ -643,7 +1007,7 @@ export default function SessionsPage() {
                   <span className="bg-orange-100 dark:bg-orange-900/30 p-1 rounded">
                     📥
                   </span>
-                  Received Requests ({receivedRequests.length})
+                  Received Requests ({pendingReceivedCount})
                 </h3>
                 {receivedRequests.length === 0 ? (
                   <Card className="p-6 text-center text-muted-foreground">
@@ -662,7 +1026,7 @@ export default function SessionsPage() {
                   <span className="bg-blue-100 dark:bg-blue-900/30 p-1 rounded">
                     📤
                   </span>
-                  Sent Requests ({sentRequests.length})
+                  Sent Requests ({pendingSentCount})
                 </h3>
                 {sentRequests.length === 0 ? (
                   <Card className="p-6 text-center text-muted-foreground">
@@ -705,6 +1069,13 @@ export default function SessionsPage() {
                 cancelledSessions.map(session => renderSessionCard(session))
               )}
             </TabsContent>
+
+            {/* Group Sessions Tab */}
+            {FEATURES.enableGroupSessions && (
+              <TabsContent value="group">
+                <GroupSessionsPanel currentUserId={currentUserId} />
+              </TabsContent>
+            )}
           </Tabs>
         </div>
       </main>
@@ -717,6 +1088,62 @@ export default function SessionsPage() {
         onOpenChange={setShowCreateDialog}
         onSuccess={fetchData}
       />
+
+      {/* Post-Session Review Dialog */}
+      <SessionReviewDialog
+        open={!!reviewSession}
+        onOpenChange={(open) => {
+          if (!open) setReviewSession(null)
+        }}
+        sessionId={reviewSession?.id ?? null}
+        sessionName={reviewSession?.sessionName}
+        revieweeName={
+          reviewSession
+            ? (reviewSession.learner.id === currentUserId
+                ? reviewSession.provider
+                : reviewSession.learner
+              ).fullName
+            : undefined
+        }
+        onSuccess={fetchData}
+      />
+
+      <SessionDisputeDialog
+        open={!!disputeSession}
+        onOpenChange={(open) => {
+          if (!open) setDisputeSession(null)
+        }}
+        sessionId={disputeSession?.id ?? null}
+        sessionName={disputeSession?.sessionName}
+        onSuccess={() => {
+          fetchData()
+          refreshWallet()
+        }}
+      />
+
+      <SessionRescheduleDialog
+        open={!!rescheduleSession}
+        onOpenChange={(open) => {
+          if (!open) setRescheduleSession(null)
+        }}
+        session={rescheduleSession}
+        onSuccess={fetchData}
+      />
+
+      <ConfirmDialog
+        isOpen={!!cancelSeriesSession}
+        title="Cancel series?"
+        description={`All upcoming scheduled sessions of "${cancelSeriesSession?.sessionName ?? ""}" will be cancelled. Sessions that are already active keep their reserved credits and can be completed or cancelled as usual.`}
+        confirmText="Cancel Series"
+        cancelText="Keep Series"
+        variant="destructive"
+        onConfirm={() => {
+          if (cancelSeriesSession?.series) {
+            return handleCancelSeries(cancelSeriesSession.series.id)
+          }
+        }}
+        onCancel={() => setCancelSeriesSession(null)}
+      />
     </>
   )
 }
@@ -29,8 +29,8 @@ async function getUserSettings(userId: string) {
             proficiencyLevel: true,
             yearsOfExperience: true,
             teachingFormat: true,
-            availabilityWindow: true,
             alternativeNames: true,
+            hourlyRate: true,
           },
           orderBy: {
             createdAt: 'desc',
@@ -24,6 +24,7 @@ import {
   X,
   Edit2,
   Camera,
+  CalendarDays,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -67,7 +68,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { AvailabilityEditor } from '@/components/availability-editor';
+import { CalendarFeedSettings } from '@/components/calendar-feed-settings';
 import { toast } from 'sonner';
+import { CREDITS } from '@/lib/constants';
+import { isValidHourlyRate } from '@/lib/pricing';
 
 // Proficiency levels
 const PROFICIENCY_LEVELS = [
@@ -92,8 +97,8 @@ interface SkillOffered {
   proficiencyLevel: string;
   yearsOfExperience: number;
   teachingFormat: string;
-  availabilityWindow: string;
   alternativeNames: string | null;
+  hourlyRate: number;
 }
 
 interface SkillWanted {
@@ -158,6 +163,9 @@ export function SettingsContent({ user }: SettingsContentProps) {
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
 
+  // Email verification state
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
+
   // Password change state
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -186,9 +194,10 @@ export function SettingsContent({ user }: SettingsContentProps) {
   const [skillProficiency, setSkillProficiency] = useState('');
   const [skillYears, setSkillYears] = useState('');
   const [skillFormat, setSkillFormat] = useState('');
-  const [skillAvailabilityStart, setSkillAvailabilityStart] = useState('09:00');
-  const [skillAvailabilityEnd, setSkillAvailabilityEnd] = useState('17:00');
   const [skillAlternativeNames, setSkillAlternativeNames] = useState('');
+  const [skillHourlyRate, setSkillHourlyRate] = useState(
+    String(CREDITS.DEFAULT_HOURLY_RATE)
+  );
   const [isSavingSkill, setIsSavingSkill] = useState(false);
 
   // Skills I Want to Learn modal state
@@ -213,6 +222,32 @@ export function SettingsContent({ user }: SettingsContentProps) {
       .slice(0, 2);
   };
 
+  // Resend the email verification link
+  const handleResendVerification = async () => {
+    setIsResendingVerification(true);
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send verification email');
+      }
+
+      toast.success(data.message);
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to send verification email'
+      );
+    } finally {
+      setIsResendingVerification(false);
+    }
+  };
+
   // Handle avatar file selection and upload
   const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -406,9 +441,8 @@ export function SettingsContent({ user }: SettingsContentProps) {
     setSkillProficiency('');
     setSkillYears('');
     setSkillFormat('');
-    setSkillAvailabilityStart('09:00');
-    setSkillAvailabilityEnd('17:00');
     setSkillAlternativeNames('');
+    setSkillHourlyRate(String(CREDITS.DEFAULT_HOURLY_RATE));
     setEditingSkill(null);
   };
 
@@ -433,9 +467,10 @@ export function SettingsContent({ user }: SettingsContentProps) {
       return;
     }
 
-    // Validate availability window
-    if (skillAvailabilityStart >= skillAvailabilityEnd) {
-      toast.error('End time must be after start time');
+    if (!isValidHourlyRate(Number(skillHourlyRate))) {
+      toast.error(
+        `Hourly rate must be between ${CREDITS.MIN_HOURLY_RATE} and ${CREDITS.MAX_HOURLY_RATE} credits`
+      );
       return;
     }
 
@@ -451,9 +486,9 @@ export function SettingsContent({ user }: SettingsContentProps) {
           proficiencyLevel: skillProficiency,
           yearsOfExperience: parseInt(skillYears),
           teachingFormat: skillFormat,
-          availabilityWindow: `${skillAvailabilityStart}-${skillAvailabilityEnd}`,
           timeZone: user.timeZone || 'UTC',
           alternativeNames: skillAlternativeNames.trim() || null,
+          hourlyRate: Number(skillHourlyRate),
         }),
       });
 
@@ -490,9 +525,10 @@ export function SettingsContent({ user }: SettingsContentProps) {
       return;
     }
 
-    // Validate availability window
-    if (skillAvailabilityStart >= skillAvailabilityEnd) {
-      toast.error('End time must be after start time');
+    if (!isValidHourlyRate(Number(skillHourlyRate))) {
+      toast.error(
+        `Hourly rate must be between ${CREDITS.MIN_HOURLY_RATE} and ${CREDITS.MAX_HOURLY_RATE} credits`
+      );
       return;
     }
 
@@ -509,8 +545,8 @@ export function SettingsContent({ user }: SettingsContentProps) {
           proficiencyLevel: skillProficiency,
           yearsOfExperience: parseInt(skillYears),
           teachingFormat: skillFormat,
-          availabilityWindow: `${skillAvailabilityStart}-${skillAvailabilityEnd}`,
           alternativeNames: skillAlternativeNames.trim() || null,
+          hourlyRate: Number(skillHourlyRate),
         }),
       });
 
@@ -563,14 +599,8 @@ export function SettingsContent({ user }: SettingsContentProps) {
     setSkillProficiency(skill.proficiencyLevel);
     setSkillYears(skill.yearsOfExperience.toString());
     setSkillFormat(skill.teachingFormat);
-    // Parse availability window (format: "09:00-17:00")
-    const [start, end] = skill.availabilityWindow?.split('-') || [
-      '09:00',
-      '17:00',
-    ];
-    setSkillAvailabilityStart(start || '09:00');
-    setSkillAvailabilityEnd(end || '17:00');
     setSkillAlternativeNames(skill.alternativeNames || '');
+    setSkillHourlyRate(String(skill.hourlyRate));
     setIsEditSkillOpen(true);
   };
 
@@ -693,7 +723,7 @@ export function SettingsContent({ user }: SettingsContentProps) {
 
   return (
     <Tabs defaultValue="account" className="space-y-6">
-      <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
+      <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-grid">
         <TabsTrigger value="account" className="flex items-center gap-2">
           <User className="h-4 w-4" />
           <span className="hidden sm:inline">Account</span>
@@ -702,6 +732,10 @@ export function SettingsContent({ user }: SettingsContentProps) {
           <BookOpen className="h-4 w-4" />
           <span className="hidden sm:inline">Skills</span>
         </TabsTrigger>
+        <TabsTrigger value="availability" className="flex items-center gap-2">
+          <CalendarDays className="h-4 w-4" />
+          <span className="hidden sm:inline">Availability</span>
+        </TabsTrigger>
         <TabsTrigger value="notifications" className="flex items-center gap-2">
           <Bell className="h-4 w-4" />
           <span className="hidden sm:inline">Notifications</span>
@@ -766,11 +800,29 @@ export function SettingsContent({ user }: SettingsContentProps) {
                   {fullName || user.name || 'User'}
                 </h3>
                 <p className="text-sm text-muted-foreground">{user.email}</p>
-                {user.isVerified && (
+                {user.isVerified ? (
                   <Badge variant="secondary" className="mt-1">
                     <CheckCircle className="h-3 w-3 mr-1" />
                     Verified
                   </Badge>
+                ) : (
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant="outline" className="text-amber-600">
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      Email not verified
+                    </Badge>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={handleResendVerification}
+                      disabled={isResendingVerification}
+                    >
+                      {isResendingVerification
+                        ? 'Sending...'
+                        : 'Resend verification email'}
+                    </Button>
+                  </div>
                 )}
               </div>
             </div>
@@ -1063,12 +1115,7 @@ export function SettingsContent({ user }: SettingsContentProps) {
                             {skill.teachingFormat}
                           </span>
                         )}
-                        {skill.availabilityWindow && (
-                          <span className="flex items-center gap-1">
-                            <Clock className="h-3 w-3" />
-                            {skill.availabilityWindow}
-                          </span>
-                        )}
+                        <span>{skill.hourlyRate} credits/hr</span>
                       </div>
                       {skill.alternativeNames && (
                         <div className="flex items-center gap-1 flex-wrap mt-1">
@@ -1307,44 +1354,23 @@ export function SettingsContent({ user }: SettingsContentProps) {
                   </SelectContent>
                 </Select>
               </div>
-              {/* Availability Window */}
+              {/* Hourly Rate */}
               <div className="space-y-2">
-                <Label>Availability Window *</Label>
+                <Label htmlFor="add-skill-hourly-rate">
+                  Hourly Rate (credits) *
+                </Label>
+                <Input
+                  id="add-skill-hourly-rate"
+                  type="number"
+                  min={CREDITS.MIN_HOURLY_RATE}
+                  max={CREDITS.MAX_HOURLY_RATE}
+                  value={skillHourlyRate}
+                  onChange={(e) => setSkillHourlyRate(e.target.value)}
+                />
                 <p className="text-xs text-muted-foreground">
-                  Set your preferred teaching hours (in your local time zone)
+                  What learners pay per hour of a session for this skill (
+                  {CREDITS.MIN_HOURLY_RATE}-{CREDITS.MAX_HOURLY_RATE}).
                 </p>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-1">
-                    <Label
-                      htmlFor="add-skill-availability-start"
-                      className="text-xs text-muted-foreground"
-                    >
-                      Start Time
-                    </Label>
-                    <Input
-                      id="add-skill-availability-start"
-                      type="time"
-                      value={skillAvailabilityStart}
-                      onChange={(e) =>
-                        setSkillAvailabilityStart(e.target.value)
-                      }
-                    />
-                  </div>
-                  <div className="space-y-1">
-                    <Label
-                      htmlFor="add-skill-availability-end"
-                      className="text-xs text-muted-foreground"
-                    >
-                      End Time
-                    </Label>
-                    <Input
-                      id="add-skill-availability-end"
-                      type="time"
-                      value={skillAvailabilityEnd}
-                      onChange={(e) => setSkillAvailabilityEnd(e.target.value)}
-                    />
-                  </div>
-                </div>
               </div>
               {/* Alternative Names */}
               <div className="space-y-2">
@@ -1461,44 +1487,23 @@ export function SettingsContent({ user }: SettingsContentProps) {
                   </SelectContent>
                 </Select>
               </div>
-              {/* Availability Window */}
+              {/* Hourly Rate */}
               <div className="space-y-2">
-                <Label>Availability Window *</Label>
+                <Label htmlFor="edit-skill-hourly-rate">
+                  Hourly Rate (credits) *
+                </Label>
+                <Input
+                  id="edit-skill-hourly-rate"
+                  type="number"
+                  min={CREDITS.MIN_HOURLY_RATE}
+                  max={CREDITS.MAX_HOURLY_RATE}
+                  value={skillHourlyRate}
+                  onChange={(e) => setSkillHourlyRate(e.target.value)}
+                />
                 <p className="text-xs text-muted-foreground">
-                  Set your preferred teaching hours (in your local time zone)
+                  What learners pay per hour of a session for this skill (
+                  {CREDITS.MIN_HOURLY_RATE}-{CREDITS.MAX_HOURLY_RATE}).
                 </p>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-1">
-                    <Label
-                      htmlFor="edit-skill-availability-start"
-                      className="text-xs text-muted-foreground"
-                    >
-                      Start Time
-                    </Label>
-                    <Input
-                      id="edit-skill-availability-start"
-                      type="time"
-                      value={skillAvailabilityStart}
-                      onChange={(e) =>
-                        setSkillAvailabilityStart(e.target.value)
-                      }
-                    />
-                  </div>
-                  <div className="space-y-1">
-                    <Label
-                      htmlFor="edit-skill-availability-end"
-                      className="text-xs text-muted-foreground"
-                    >
-                      End Time
-                    </Label>
-                    <Input
-                      id="edit-skill-availability-end"
-                      type="time"
-                      value={skillAvailabilityEnd}
-                      onChange={(e) => setSkillAvailabilityEnd(e.target.value)}
-                    />
-                  </div>
-                </div>
               </div>
               {/* Alternative Names */}
               <div className="space-y-2">
@@ -1687,6 +1692,34 @@ export function SettingsContent({ user }: SettingsContentProps) {
         </Dialog>
       </TabsContent>
 
+      {/* Availability Tab */}
+      <TabsContent value="availability" className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Weekly Availability</CardTitle>
+            <CardDescription>
+              When learners can book sessions with you, across all the skills
+              you teach
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AvailabilityEditor timeZone={user.timeZone || 'UTC'} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Calendar Feed</CardTitle>
+            <CardDescription>
+              See your sessions in your own calendar app
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CalendarFeedSettings />
+          </CardContent>
+        </Card>
+      </TabsContent>
+
       {/* Notifications Tab */}
       <TabsContent value="notifications" className="space-y-6">
         <Card>
@@ -203,6 +203,10 @@ export default function SignupPage() {
         description: 'You received 100 credits to get started.',
         icon: <CheckCircle2 className="h-4 w-4 text-green-500" />,
       });
+      toast.info('Please verify your email', {
+        description: `We sent a verification link to ${formData.email}. You'll need it before sending requests.`,
+        duration: 8000,
+      });
 
       // Navigate to dashboard
       setTimeout(() => {
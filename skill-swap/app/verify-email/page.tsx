@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * Verify Email Page
+ *
+ * Landing page for the link in the verification email. With a token it
+ * confirms the address straight away; without one it asks the user to
+ * check their inbox and lets a signed-in user resend the link.
+ */
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle2, Loader2, Mail } from 'lucide-react';
+
+function ConfirmEmail({ token }: { token: string }) {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(
+    'verifying'
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  // Tokens are single-use, so don't submit twice in strict mode
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          setStatus('failed');
+          setMessage(data.error || 'Failed to verify your email.');
+          return;
+        }
+
+        setStatus('verified');
+        setMessage(data.message);
+      } catch (err) {
+        console.error('Email verification error:', err);
+        setStatus('failed');
+        setMessage('Failed to verify your email. Please try again.');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  if (status === 'verifying') {
+    return (
+      <div className="flex items-center justify-center gap-2 py-4 text-gray-600 dark:text-gray-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Verifying your email...
+      </div>
+    );
+  }
+
+  if (status === 'verified') {
+    return (
+      <div className="space-y-4">
+        <Alert className="bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:border-emerald-800">
+          <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+          <AlertDescription className="text-emerald-800 dark:text-emerald-300">
+            {message} You can now send connection and session requests.
+          </AlertDescription>
+        </Alert>
+        <Button asChild className="w-full bg-blue-600 hover:bg-blue-700">
+          <Link href="/dashboard">Go to Dashboard</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{message}</AlertDescription>
+      </Alert>
+      <ResendVerification />
+    </div>
+  );
+}
+
+function ResendVerification() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    setLoading(true);
+    setError(null);
+    setSentMessage(null);
+
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (response.status === 401) {
+        setError('Please log in to resend the verification email.');
+        return;
+      }
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to send verification email.');
+        return;
+      }
+
+      setSentMessage(data.message);
+    } catch (err) {
+      console.error('Resend verification error:', err);
+      setError('Failed to send verification email. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {sentMessage && (
+        <Alert className="bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:border-emerald-800">
+          <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+          <AlertDescription className="text-emerald-800 dark:text-emerald-300">
+            {sentMessage} The link expires in 24 hours.
+          </AlertDescription>
+        </Alert>
+      )}
+      <Button
+        onClick={handleResend}
+        variant="outline"
+        className="w-full"
+        disabled={loading}
+      >
+        <Mail className="h-4 w-4 mr-2" />
+        {loading ? 'Sending...' : 'Resend Verification Email'}
+      </Button>
+    </div>
+  );
+}
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  if (token) {
+    return <ConfirmEmail token={token} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+        We sent a verification link to your email address. Open it to
+        confirm your account. Didn&apos;t get it? Check your spam folder or
+        send a new one.
+      </p>
+      <ResendVerification />
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl text-center">
+            Verify Your Email
+          </CardTitle>
+          <CardDescription className="text-center">
+            Verified accounts can send connection and session requests
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* useSearchParams needs a Suspense boundary */}
+          <Suspense fallback={null}>
+            <VerifyEmailContent />
+          </Suspense>
+
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400 mt-4">
+            <Link
+              href="/dashboard"
+              className="text-blue-600 hover:underline font-semibold dark:text-blue-400"
+            >
+              Back to Dashboard
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+/**
+ * Availability Editor Component
+ *
+ * Edits the weekly schedule learners can book sessions in:
+ * - Recurring slots for each day of the week
+ * - Date exceptions: blackout days, or one-off hours that replace the
+ *   weekly slots on that date
+ *
+ * Times are wall-clock times in the user's time zone. The whole schedule is
+ * saved at once.
+ *
+ * @fileoverview Weekly availability and exceptions editor
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarOff, Loader2, Plus, Save, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { AVAILABILITY, VALIDATION } from '@/lib/constants';
+import {
+  DAY_LABELS,
+  minutesToTime,
+  timeToMinutes,
+  validateSchedule,
+} from '@/lib/availability';
+import type {
+  AvailabilityExceptionItem,
+  AvailabilityExceptionType,
+  WeeklySlot,
+} from '@/lib/types/availability';
+
+const DEFAULT_START = 9 * 60;
+const DEFAULT_END = 17 * 60;
+const STEP_SECONDS = AVAILABILITY.STEP_MINUTES * 60;
+
+// A time input can't show 24:00, so the end of the day is picked as 00:00
+const toEndMinute = (time: string) => {
+  const minutes = timeToMinutes(time);
+  return minutes === 0 ? 24 * 60 : minutes;
+};
+
+const endTimeValue = (minutes: number | null) =>
+  minutes === null ? '' : minutesToTime(minutes % (24 * 60));
+
+interface AvailabilityEditorProps {
+  timeZone: string;
+}
+
+export function AvailabilityEditor({ timeZone }: AvailabilityEditorProps) {
+  const [slots, setSlots] = useState<WeeklySlot[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityExceptionItem[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const response = await fetch('/api/user/availability');
+        if (!response.ok) throw new Error('Failed to load availability');
+        const data = await response.json();
+        setSlots(data.slots || []);
+        setExceptions(data.exceptions || []);
+      } catch (error) {
+        console.error('Error fetching availability:', error);
+        toast.error('Failed to load availability');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, []);
+
+  const addSlot = (dayOfWeek: number) => {
+    const daySlots = slots.filter((s) => s.dayOfWeek === dayOfWeek);
+    const lastEnd = Math.max(0, ...daySlots.map((s) => s.endMinute));
+    const startMinute = daySlots.length > 0 ? lastEnd : DEFAULT_START;
+    const endMinute =
+      daySlots.length > 0 ? Math.min(startMinute + 60, 24 * 60) : DEFAULT_END;
+
+    if (startMinute >= 24 * 60) {
+      toast.error(`${DAY_LABELS[dayOfWeek]} is already available until midnight`);
+      return;
+    }
+
+    setSlots([...slots, { dayOfWeek, startMinute, endMinute }]);
+  };
+
+  const updateSlot = (index: number, changes: Partial<WeeklySlot>) => {
+    setSlots(slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const removeSlot = (index: number) => {
+    setSlots(slots.filter((_, i) => i !== index));
+  };
+
+  const addException = () => {
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    setExceptions([
+      ...exceptions,
+      {
+        date: tomorrow.toISOString().slice(0, 10),
+        type: 'BLACKOUT',
+        startMinute: null,
+        endMinute: null,
+        reason: null,
+      },
+    ]);
+  };
+
+  const updateException = (
+    index: number,
+    changes: Partial<AvailabilityExceptionItem>
+  ) => {
+    setExceptions(
+      exceptions.map((exception, i) => {
+        if (i !== index) return exception;
+        const updated = { ...exception, ...changes };
+        if (changes.type === 'AVAILABLE' && updated.startMinute === null) {
+          updated.startMinute = DEFAULT_START;
+          updated.endMinute = DEFAULT_END;
+        }
+        return updated;
+      })
+    );
+  };
+
+  const removeException = (index: number) => {
+    setExceptions(exceptions.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const result = validateSchedule({ slots, exceptions });
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/user/availability', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save availability');
+      }
+
+      setSlots(data.slots);
+      setExceptions(data.exceptions);
+      toast.success('Availability saved');
+    } catch (error) {
+      console.error('Error saving availability:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save availability'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        All times are in your time zone ({timeZone}). You can change it on the
+        Account tab.
+      </p>
+
+      {/* Weekly Slots */}
+      <div className="space-y-4">
+        {DAY_LABELS.map((label, dayOfWeek) => {
+          const daySlots = slots
+            .map((slot, index) => ({ slot, index }))
+            .filter(({ slot }) => slot.dayOfWeek === dayOfWeek);
+
+          return (
+            <div
+              key={label}
+              className="flex flex-col sm:flex-row sm:items-start gap-2"
+            >
+              <Label className="sm:w-28 sm:pt-2.5">{label}</Label>
+              <div className="flex-1 space-y-2">
+                {daySlots.length === 0 && (
+                  <p className="text-sm text-muted-foreground sm:pt-2">
+                    Unavailable
+                  </p>
+                )}
+                {daySlots.map(({ slot, index }) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      step={STEP_SECONDS}
+                      aria-label={`${label} start time`}
+                      value={minutesToTime(slot.startMinute)}
+                      onChange={(e) =>
+                        updateSlot(index, {
+                          startMinute: timeToMinutes(e.target.value) ?? 0,
+                        })
+                      }
+                      className="w-32"
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      step={STEP_SECONDS}
+                      aria-label={`${label} end time`}
+                      value={endTimeValue(slot.endMinute)}
+                      onChange={(e) =>
+                        updateSlot(index, {
+                          endMinute: toEndMinute(e.target.value) ?? 0,
+                        })
+                      }
+                      className="w-32"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove slot"
+                      onClick={() => removeSlot(index)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addSlot(dayOfWeek)}
+                disabled={slots.length >= AVAILABILITY.MAX_WEEKLY_SLOTS}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <Separator />
+
+      {/* Date Exceptions */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Date Exceptions</Label>
+            <p className="text-sm text-muted-foreground">
+              Block out days off, or set different hours for a specific date
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addException}
+            disabled={exceptions.length >= AVAILABILITY.MAX_EXCEPTIONS}
+          >
+            <CalendarOff className="h-4 w-4 mr-1" />
+            Add Date
+          </Button>
+        </div>
+
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No date exceptions</p>
+        ) : (
+          <div className="space-y-3">
+            {exceptions.map((exception, index) => (
+              <div
+                key={index}
+                className="flex flex-wrap items-center gap-2 p-3 border rounded-lg"
+              >
+                <Input
+                  type="date"
+                  aria-label="Exception date"
+                  value={exception.date}
+                  onChange={(e) =>
+                    updateException(index, { date: e.target.value })
+                  }
+                  className="w-40"
+                />
+                <Select
+                  value={exception.type}
+                  onValueChange={(value) =>
+                    updateException(index, {
+                      type: value as AvailabilityExceptionType,
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="BLACKOUT">Unavailable</SelectItem>
+                    <SelectItem value="AVAILABLE">Available</SelectItem>
+                  </SelectContent>
+                </Select>
+                {exception.type === 'AVAILABLE' && (
+                  <>
+                    <Input
+                      type="time"
+                      step={STEP_SECONDS}
+                      aria-label="Exception start time"
+                      value={minutesToTime(exception.startMinute ?? 0)}
+                      onChange={(e) =>
+                        updateException(index, {
+                          startMinute: timeToMinutes(e.target.value) ?? 0,
+                        })
+                      }
+                      className="w-32"
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      step={STEP_SECONDS}
+                      aria-label="Exception end time"
+                      value={endTimeValue(exception.endMinute)}
+                      onChange={(e) =>
+                        updateException(index, {
+                          endMinute: toEndMinute(e.target.value) ?? 0,
+                        })
+                      }
+                      className="w-32"
+                    />
+                  </>
+                )}
+                <Input
+                  placeholder="Reason (optional)"
+                  aria-label="Exception reason"
+                  maxLength={VALIDATION.AVAILABILITY_REASON_MAX_LENGTH}
+                  value={exception.reason || ''}
+                  onChange={(e) =>
+                    updateException(index, { reason: e.target.value || null })
+                  }
+                  className="flex-1 min-w-40"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove date exception"
+                  onClick={() => removeException(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save Availability
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
  * Block User Button Component
  *
  * Client component for blocking/unblocking users with confirmation dialog.
+ * The same menu lets users report a profile to moderators.
  *
  * @fileoverview Block/Unblock button with AlertDialog
  */
@@ -27,7 +28,8 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { MoreHorizontal, Ban, Loader2 } from 'lucide-react';
+import { ReportDialog } from '@/components/report-dialog';
+import { MoreHorizontal, Ban, Flag, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useWallet } from '@/contexts/wallet-context';
 
@@ -46,6 +48,7 @@ export function BlockUserButton({
   const { refreshWallet } = useWallet();
   const [isLoading, setIsLoading] = useState(false);
   const [showBlockDialog, setShowBlockDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
   const [blocked, setBlocked] = useState(isBlocked);
 
   const handleBlock = async () => {
@@ -145,6 +148,13 @@ export function BlockUserButton({
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            className="cursor-pointer"
+            onSelect={() => setShowReportDialog(true)}
+          >
+            <Flag className="h-4 w-4 mr-2" />
+            Report User
+          </DropdownMenuItem>
           <DropdownMenuItem
             className="text-destructive focus:text-destructive cursor-pointer"
             onSelect={() => setShowBlockDialog(true)}
@@ -199,6 +209,14 @@ export function BlockUserButton({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ReportDialog
+        open={showReportDialog}
+        onOpenChange={setShowReportDialog}
+        contentType="user"
+        contentId={userId}
+        targetName={userName}
+      />
     </>
   );
 }
@@ -0,0 +1,213 @@
+/**
+ * Calendar Feed Settings Component
+ *
+ * Generates the secret URL calendar apps subscribe to for the user's
+ * sessions. The URL is only shown right after it's generated; generating
+ * a new one or turning the feed off stops the old URL working.
+ *
+ * @fileoverview Calendar feed URL generation and revocation
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Copy, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { toast } from 'sonner';
+
+export function CalendarFeedSettings() {
+  const [enabled, setEnabled] = useState(false);
+  const [createdAt, setCreatedAt] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<
+    'regenerate' | 'disable' | null
+  >(null);
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const response = await fetch('/api/user/calendar');
+        if (!response.ok) throw new Error('Failed to load calendar feed');
+        const data = await response.json();
+        setEnabled(data.enabled);
+        setCreatedAt(data.createdAt);
+      } catch (error) {
+        console.error('Error fetching calendar feed:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchFeed();
+  }, []);
+
+  const handleGenerate = async () => {
+    setIsWorking(true);
+
+    try {
+      const response = await fetch('/api/user/calendar', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate calendar feed URL');
+      }
+
+      setFeedUrl(data.url);
+      setEnabled(true);
+      setCreatedAt(new Date().toISOString());
+      toast.success(data.message);
+    } catch (error) {
+      console.error('Error generating calendar feed URL:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to generate calendar feed URL'
+      );
+    } finally {
+      setIsWorking(false);
+      setConfirmAction(null);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsWorking(true);
+
+    try {
+      const response = await fetch('/api/user/calendar', { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to turn off calendar feed');
+      }
+
+      setFeedUrl(null);
+      setEnabled(false);
+      setCreatedAt(null);
+      toast.success(data.message);
+    } catch (error) {
+      console.error('Error turning off calendar feed:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to turn off calendar feed'
+      );
+    } finally {
+      setIsWorking(false);
+      setConfirmAction(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {feedUrl ? (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={feedUrl}
+              aria-label="Calendar feed URL"
+              onFocus={(e) => e.target.select()}
+            />
+            <Button variant="outline" onClick={handleCopy}>
+              {copied ? (
+                <Check className="h-4 w-4" />
+              ) : (
+                <Copy className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Copy this URL now and add it to your calendar app as a subscription
+            (&quot;From URL&quot; in Google Calendar, &quot;Subscribe from
+            web&quot; in Outlook). It won&apos;t be shown again. Anyone with
+            the URL can see your sessions.
+          </p>
+        </div>
+      ) : enabled ? (
+        <p className="text-sm text-muted-foreground">
+          Your calendar feed is on
+          {createdAt &&
+            ` (URL generated ${new Date(createdAt).toLocaleDateString()})`}
+          . Generate a new URL if you&apos;ve lost it or think someone else
+          has it.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Subscribe to your sessions from Google Calendar, Outlook or any
+          other calendar app. Rescheduled and cancelled sessions update
+          automatically.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant={enabled ? 'outline' : 'default'}
+          onClick={() =>
+            enabled ? setConfirmAction('regenerate') : handleGenerate()
+          }
+          disabled={isWorking}
+        >
+          {isWorking && !confirmAction ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          {enabled ? 'Generate New URL' : 'Create Feed URL'}
+        </Button>
+        {enabled && (
+          <Button
+            variant="ghost"
+            onClick={() => setConfirmAction('disable')}
+            disabled={isWorking}
+          >
+            Turn Off
+          </Button>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmAction !== null}
+        title={
+          confirmAction === 'disable'
+            ? 'Turn off calendar feed?'
+            : 'Generate a new feed URL?'
+        }
+        description={
+          confirmAction === 'disable'
+            ? 'Calendars subscribed to your current feed URL will stop receiving your sessions.'
+            : 'Your current feed URL will stop working. Calendars subscribed to it will need the new URL.'
+        }
+        confirmText={confirmAction === 'disable' ? 'Turn Off' : 'Generate'}
+        variant="destructive"
+        isLoading={isWorking}
+        onConfirm={
+          confirmAction === 'disable' ? handleDisable : handleGenerate
+        }
+        onCancel={() => setConfirmAction(null)}
+      />
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
 import { toast } from 'sonner';
 import { Users, Loader2, MessageSquare, Clock, X, Wallet } from 'lucide-react';
 import { useWallet } from '@/contexts/wallet-context';
+import { CONNECTION_REQUEST_COST } from '@/lib/pricing';
 
 interface ConnectButtonProps {
   receiverId: string;
@@ -70,7 +71,7 @@ export function ConnectButton({
             show: true,
             message:
               data.message ||
-              'You need at least 5 credits to send a connection request.',
+              `You need at least ${CONNECTION_REQUEST_COST} credits to send a connection request.`,
           });
         } else if (
           data.error ===
@@ -98,7 +99,7 @@ export function ConnectButton({
       setStatus('pending');
       setPendingSentByMe(true);
       toast.success('Connection request sent!', {
-        description: `${receiverName} will be notified. 5 credits have been held from your wallet.`,
+        description: `${receiverName} will be notified. ${CONNECTION_REQUEST_COST} credits have been held from your wallet.`,
       });
 
       // Refresh wallet balance immediately
@@ -205,8 +206,8 @@ export function ConnectButton({
               ?
               <br />
               <br />
-              The 5 credits held for this request will be refunded to your
-              wallet.
+              The {CONNECTION_REQUEST_COST} credits held for this request will be
+              refunded to your wallet.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,396 @@
+/**
+ * Create Group Session Dialog Component
+ *
+ * A dialog for opening a group session with:
+ * - Session name and description
+ * - One of the user's teaching skills, priced at its hourly rate
+ * - Date and start/end time, with the price per seat
+ * - Seat limit
+ * - Mode selection (online/physical)
+ *
+ * @fileoverview Group session creation form
+ */
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Calendar } from "@/components/ui/calendar"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import {
+  Loader2,
+  Calendar as CalendarIcon,
+  Video,
+  MapPin,
+  CreditCard
+} from "lucide-react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { cn } from "@/lib/utils"
+import { formatDuration, quoteSessionPrice } from "@/lib/pricing"
+import { GROUP_SESSIONS } from "@/lib/constants"
+
+interface TeachingSkill {
+  id: string
+  name: string
+  hourlyRate: number
+}
+
+interface CreateGroupSessionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string | null
+  onSuccess?: () => void
+}
+
+export function CreateGroupSessionDialog({
+  open,
+  onOpenChange,
+  currentUserId,
+  onSuccess,
+}: CreateGroupSessionDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [skills, setSkills] = useState<TeachingSkill[]>([])
+  const [skillsLoading, setSkillsLoading] = useState(false)
+
+  // Form state
+  const [sessionName, setSessionName] = useState("")
+  const [description, setDescription] = useState("")
+  const [skillId, setSkillId] = useState("")
+  const [mode, setMode] = useState<"ONLINE" | "PHYSICAL">("ONLINE")
+  const [sessionDate, setSessionDate] = useState<Date | undefined>()
+  const [startTime, setStartTime] = useState("10:00")
+  const [endTime, setEndTime] = useState("11:00")
+  const [seatLimit, setSeatLimit] = useState("5")
+
+  // Load the skills the user teaches when the dialog opens
+  useEffect(() => {
+    if (!open || !currentUserId) return
+
+    const fetchSkills = async () => {
+      setSkillsLoading(true)
+      try {
+        const res = await fetch(`/api/users/${currentUserId}/skills`)
+        if (res.ok) {
+          const data = await res.json()
+          const teachingSkills: TeachingSkill[] = data.skills || []
+          setSkills(teachingSkills)
+          if (teachingSkills.length > 0) {
+            setSkillId((current) => current || teachingSkills[0].id)
+          }
+        }
+      } catch (error) {
+        console.error("Error fetching skills:", error)
+        toast.error("Failed to load skills")
+      } finally {
+        setSkillsLoading(false)
+      }
+    }
+
+    fetchSkills()
+  }, [open, currentUserId])
+
+  // Combine the picked day with a "HH:mm" time
+  const atTime = (day: Date, time: string) => {
+    const [hours, minutes] = time.split(":").map(Number)
+    const date = new Date(day)
+    date.setHours(hours || 0, minutes || 0, 0, 0)
+    return date
+  }
+
+  const selectedSkill = skills.find((skill) => skill.id === skillId)
+
+  const pricing = useMemo(() => {
+    if (!sessionDate || !selectedSkill) return null
+    return quoteSessionPrice(
+      atTime(sessionDate, startTime),
+      atTime(sessionDate, endTime),
+      selectedSkill.hourlyRate
+    )
+  }, [sessionDate, startTime, endTime, selectedSkill])
+
+  const quote = pricing && "quote" in pricing ? pricing.quote : null
+  const seats = parseInt(seatLimit) || 0
+
+  const resetForm = () => {
+    setSessionName("")
+    setDescription("")
+    setSkillId("")
+    setMode("ONLINE")
+    setSessionDate(undefined)
+    setStartTime("10:00")
+    setEndTime("11:00")
+    setSeatLimit("5")
+  }
+
+  const handleSubmit = async () => {
+    if (!sessionName.trim()) {
+      toast.error("Please enter a session name")
+      return
+    }
+    if (!skillId) {
+      toast.error("Please select a skill")
+      return
+    }
+    if (!sessionDate) {
+      toast.error("Please select a date")
+      return
+    }
+    if (seats < GROUP_SESSIONS.MIN_SEATS || seats > GROUP_SESSIONS.MAX_SEATS) {
+      toast.error(`Seat limit must be between ${GROUP_SESSIONS.MIN_SEATS} and ${GROUP_SESSIONS.MAX_SEATS}`)
+      return
+    }
+    if (pricing && "error" in pricing) {
+      toast.error(pricing.error)
+      return
+    }
+    if (!quote) return
+
+    setLoading(true)
+    try {
+      const res = await fetch("/api/group-sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionName: sessionName.trim(),
+          description: description.trim() || null,
+          skillId,
+          mode,
+          startDate: atTime(sessionDate, startTime).toISOString(),
+          endDate: atTime(sessionDate, endTime).toISOString(),
+          seatLimit: seats,
+          quotedCredits: quote.sessionCredits,
+        }),
+      })
+
+      const data = await res.json()
+
+      if (res.ok) {
+        toast.success(data.message || "Group session opened")
+        resetForm()
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        toast.error(data.error || "Failed to open group session")
+      }
+    } catch (error) {
+      console.error("Error creating group session:", error)
+      toast.error("Failed to open group session")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (!isOpen) resetForm()
+      onOpenChange(isOpen)
+    }}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Open Group Session</DialogTitle>
+          <DialogDescription>
+            Teach several of your connections at once. Each learner pays for their own seat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          {/* Session Name */}
+          <div className="grid gap-2">
+            <Label htmlFor="groupSessionName">Session Name *</Label>
+            <Input
+              id="groupSessionName"
+              placeholder="e.g., Intro to Watercolour"
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+            />
+          </div>
+
+          {/* Description */}
+          <div className="grid gap-2">
+            <Label htmlFor="groupDescription">Description</Label>
+            <Textarea
+              id="groupDescription"
+              placeholder="What will learners get out of this session?"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          {/* Skill Selector */}
+          <div className="grid gap-2">
+            <Label htmlFor="groupSkill">Skill *</Label>
+            {skillsLoading ? (
+              <div className="flex items-center gap-2 p-3 border rounded-md">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span className="text-sm text-muted-foreground">Loading skills...</span>
+              </div>
+            ) : skills.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Add a skill you teach to your profile to open a group session.
+              </p>
+            ) : (
+              <Select value={skillId} onValueChange={setSkillId}>
+                <SelectTrigger id="groupSkill">
+                  <SelectValue placeholder="Select a skill" />
+                </SelectTrigger>
+                <SelectContent>
+                  {skills.map((skill) => (
+                    <SelectItem key={skill.id} value={skill.id}>
+                      {skill.name} · {skill.hourlyRate} credits/hr
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {/* Mode Selection */}
+          <div className="grid gap-2">
+            <Label>Session Mode *</Label>
+            <RadioGroup
+              value={mode}
+              onValueChange={(val) => setMode(val as "ONLINE" | "PHYSICAL")}
+              className="flex gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="ONLINE" id="group-online" />
+                <Label htmlFor="group-online" className="flex items-center gap-1 cursor-pointer">
+                  <Video className="w-4 h-4" />
+                  Online
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="PHYSICAL" id="group-physical" />
+                <Label htmlFor="group-physical" className="flex items-center gap-1 cursor-pointer">
+                  <MapPin className="w-4 h-4" />
+                  In-Person
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {/* Date and Time Selection */}
+          <div className="grid gap-2">
+            <Label>Date *</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "justify-start text-left font-normal",
+                    !sessionDate && "text-muted-foreground"
+                  )}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {sessionDate ? format(sessionDate, "PPP") : "Pick a date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={sessionDate}
+                  onSelect={setSessionDate}
+                  disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="groupStartTime">Start Time *</Label>
+              <Input
+                id="groupStartTime"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="groupEndTime">End Time *</Label>
+              <Input
+                id="groupEndTime"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="seatLimit">Seats *</Label>
+              <Input
+                id="seatLimit"
+                type="number"
+                min={GROUP_SESSIONS.MIN_SEATS}
+                max={GROUP_SESSIONS.MAX_SEATS}
+                value={seatLimit}
+                onChange={(e) => setSeatLimit(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Price Quote */}
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800">
+            <CreditCard className="w-5 h-5 text-amber-600 shrink-0" />
+            <div className="text-sm text-amber-700 dark:text-amber-400">
+              {quote ? (
+                <>
+                  <p>
+                    Each learner pays <strong>{quote.sessionCredits} credits</strong> for
+                    a seat ({formatDuration(quote.billedMinutes)} at {quote.hourlyRate} credits/hr).
+                  </p>
+                  {seats > 0 && (
+                    <p className="mt-1">
+                      Up to {quote.sessionCredits * seats} credits if all {seats} seats are filled.
+                    </p>
+                  )}
+                </>
+              ) : pricing && "error" in pricing ? (
+                <p>{pricing.error}</p>
+              ) : (
+                <p>Pick a skill, date and time to see the price per seat.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading || !quote}>
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Open Session
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
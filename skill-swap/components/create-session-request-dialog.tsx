@@ -4,14 +4,18 @@
  * A dialog for creating new session requests with:
  * - Session name and description
  * - Connection dropdown (receiver)
- * - Expected dates
+ * - Skill to learn, priced at the receiver's hourly rate
+ * - One of the receiver's free slots, shown in the sender's time zone, or
+ *   any date and start/end time if the receiver hasn't set availability
+ * - A live price quote
+ * - Optional weekly or biweekly repeat, for a series of sessions
  * - Mode selection (online/physical)
  *
  * @fileoverview Session request creation form with validation
  */
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import {
   Dialog,
   DialogContent,
@@ -51,6 +55,21 @@ import { toast } from "sonner"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
 import { useWallet } from "@/contexts/wallet-context"
+import {
+  formatDuration,
+  quoteSessionPrice,
+  resolveHourlyRate,
+  SESSION_REQUEST_COST,
+} from "@/lib/pricing"
+import {
+  buildOccurrences,
+  RECURRENCE_FREQUENCIES,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/recurrence"
+import { AVAILABILITY, SESSION_SERIES } from "@/lib/constants"
+import { bookableStarts, dateKeyInZone } from "@/lib/availability"
+import type { FreeSlot } from "@/lib/types/availability"
 
 interface Connection {
   id: string
@@ -59,6 +78,18 @@ interface Connection {
   email: string
 }
 
+interface TeachingSkill {
+  id: string
+  name: string
+  hourlyRate: number
+}
+
+interface ReceiverAvailability {
+  timeZone: string
+  hasSchedule: boolean
+  slots: FreeSlot[]
+}
+
 interface CreateSessionRequestDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -80,16 +111,186 @@ export function CreateSessionRequestDialog({
   const [description, setDescription] = useState("")
   const [receiverId, setReceiverId] = useState("")
   const [mode, setMode] = useState<"ONLINE" | "PHYSICAL">("ONLINE")
-  const [startDate, setStartDate] = useState<Date | undefined>()
-  const [endDate, setEndDate] = useState<Date | undefined>()
+  const [skillId, setSkillId] = useState("")
+  const [skills, setSkills] = useState<TeachingSkill[]>([])
+  const [skillsLoading, setSkillsLoading] = useState(false)
+  const [sessionDate, setSessionDate] = useState<Date | undefined>()
+  const [startTime, setStartTime] = useState("10:00")
+  const [endTime, setEndTime] = useState("11:00")
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | "NONE">("NONE")
+  const [repeatEnds, setRepeatEnds] = useState<"COUNT" | "UNTIL">("COUNT")
+  const [repeatCount, setRepeatCount] = useState("4")
+  const [repeatUntil, setRepeatUntil] = useState<Date | undefined>()
+  const [timeZone, setTimeZone] = useState(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone
+  )
+  const [availability, setAvailability] = useState<ReceiverAvailability | null>(null)
+  const [availabilityLoading, setAvailabilityLoading] = useState(false)
+  const [duration, setDuration] = useState("60")
+  const [slotDay, setSlotDay] = useState("")
+  const [slotStart, setSlotStart] = useState("")
 
-  // Fetch connections when dialog opens
+  // Fetch connections and the sender's time zone when dialog opens
   useEffect(() => {
     if (open) {
       fetchConnections()
+      fetchTimeZone()
     }
   }, [open])
 
+  // Load the receiver's skills (and their rates) and free slots when they change
+  useEffect(() => {
+    setSkillId("")
+    setSkills([])
+    setAvailability(null)
+    setSlotDay("")
+    setSlotStart("")
+    if (receiverId) {
+      fetchSkills(receiverId)
+      fetchAvailability(receiverId)
+    }
+  }, [receiverId])
+
+  const fetchTimeZone = async () => {
+    try {
+      const res = await fetch("/api/user/settings")
+      if (res.ok) {
+        const data = await res.json()
+        if (data.timeZone) setTimeZone(data.timeZone)
+      }
+    } catch (error) {
+      console.error("Error fetching time zone:", error)
+    }
+  }
+
+  const fetchAvailability = async (userId: string) => {
+    setAvailabilityLoading(true)
+    try {
+      const res = await fetch(`/api/users/${userId}/availability`)
+      if (res.ok) {
+        const data = await res.json()
+        setAvailability({
+          timeZone: data.timeZone,
+          hasSchedule: data.hasSchedule,
+          slots: data.slots || [],
+        })
+      }
+    } catch (error) {
+      console.error("Error fetching availability:", error)
+      toast.error("Failed to load availability")
+    } finally {
+      setAvailabilityLoading(false)
+    }
+  }
+
+  const fetchSkills = async (userId: string) => {
+    setSkillsLoading(true)
+    try {
+      const res = await fetch(`/api/users/${userId}/skills`)
+      if (res.ok) {
+        const data = await res.json()
+        const teachingSkills: TeachingSkill[] = data.skills || []
+        setSkills(teachingSkills)
+        if (teachingSkills.length > 0) {
+          setSkillId(teachingSkills[0].id)
+        }
+      }
+    } catch (error) {
+      console.error("Error fetching skills:", error)
+      toast.error("Failed to load skills")
+    } finally {
+      setSkillsLoading(false)
+    }
+  }
+
+  // Combine the picked day with a "HH:mm" time
+  const atTime = (day: Date, time: string) => {
+    const [hours, minutes] = time.split(":").map(Number)
+    const date = new Date(day)
+    date.setHours(hours || 0, minutes || 0, 0, 0)
+    return date
+  }
+
+  const selectedSkill = skills.find((skill) => skill.id === skillId)
+
+  // Receivers with availability are booked from their free slots
+  const bookBySlot = !!availability?.hasSchedule
+
+  // Bookable start times for the chosen length, grouped by day in the
+  // sender's time zone
+  const slotDays = useMemo(() => {
+    const days = new Map<string, Date[]>()
+    if (!availability) return days
+    for (const start of bookableStarts(availability.slots, Number(duration))) {
+      const key = dateKeyInZone(start, timeZone)
+      days.set(key, [...(days.get(key) || []), start])
+    }
+    return days
+  }, [availability, duration, timeZone])
+
+  const requested = useMemo(() => {
+    if (bookBySlot) {
+      if (!slotStart) return null
+      const start = new Date(slotStart)
+      return {
+        startDate: start,
+        endDate: new Date(start.getTime() + Number(duration) * 60 * 1000),
+      }
+    }
+    if (!sessionDate) return null
+    return {
+      startDate: atTime(sessionDate, startTime),
+      endDate: atTime(sessionDate, endTime),
+    }
+  }, [bookBySlot, slotStart, duration, sessionDate, startTime, endTime])
+
+  const pricing = useMemo(() => {
+    if (!requested) return null
+    return quoteSessionPrice(
+      requested.startDate,
+      requested.endDate,
+      selectedSkill?.hourlyRate ?? resolveHourlyRate()
+    )
+  }, [requested, selectedSkill])
+
+  const quote = pricing && "quote" in pricing ? pricing.quote : null
+
+  const recurrence: RecurrenceRule | null =
+    repeat === "NONE"
+      ? null
+      : repeatEnds === "COUNT"
+        ? { frequency: repeat, count: parseInt(repeatCount) || 0 }
+        : { frequency: repeat, until: repeatUntil ? atTime(repeatUntil, "23:59").toISOString() : null }
+
+  // Preview the series the same way the server will create it, in the
+  // receiver's time zone
+  const series =
+    recurrence && requested && availability
+      ? buildOccurrences(
+          requested.startDate,
+          requested.endDate,
+          recurrence,
+          availability.timeZone
+        )
+      : null
+
+  const formatDay = (key: string) =>
+    new Date(`${key}T12:00:00Z`).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    })
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+    })
+
+  const seriesCount = series && "occurrences" in series ? series.occurrences.length : null
+
   const fetchConnections = async () => {
     setConnectionsLoading(true)
     try {
@@ -114,9 +315,20 @@ export function CreateSessionRequestDialog({
     setSessionName("")
     setDescription("")
     setReceiverId("")
+    setSkillId("")
+    setSkills([])
     setMode("ONLINE")
-    setStartDate(undefined)
-    setEndDate(undefined)
+    setSessionDate(undefined)
+    setStartTime("10:00")
+    setEndTime("11:00")
+    setRepeat("NONE")
+    setRepeatEnds("COUNT")
+    setRepeatCount("4")
+    setRepeatUntil(undefined)
+    setAvailability(null)
+    setDuration("60")
+    setSlotDay("")
+    setSlotStart("")
   }
 
   const handleSubmit = async () => {
@@ -129,10 +341,19 @@ export function CreateSessionRequestDialog({
       toast.error("Please select a connection")
       return
     }
-    if (!startDate) {
-      toast.error("Please select a start date")
+    if (!requested) {
+      toast.error(bookBySlot ? "Please pick a time slot" : "Please select a date")
       return
     }
+    if (pricing && "error" in pricing) {
+      toast.error(pricing.error)
+      return
+    }
+    if (series && "error" in series) {
+      toast.error(series.error)
+      return
+    }
+    if (!quote) return
 
     setLoading(true)
     try {
@@ -143,22 +364,30 @@ export function CreateSessionRequestDialog({
           sessionName: sessionName.trim(),
           description: description.trim() || null,
           receiverId,
+          skillId: skillId || null,
           mode,
-          startDate: startDate.toISOString(),
-          endDate: endDate?.toISOString() || startDate.toISOString(),
+          startDate: requested.startDate.toISOString(),
+          endDate: requested.endDate.toISOString(),
+          quotedCredits: quote.sessionCredits,
+          recurrence,
         }),
       })
 
       const data = await res.json()
 
       if (res.ok) {
-        toast.success("Session request sent! 5 credits deducted.")
+        toast.success(`Session request sent! ${SESSION_REQUEST_COST} credits deducted.`)
         resetForm()
         onOpenChange(false)
         refreshWallet()
         onSuccess?.()
       } else {
         toast.error(data.error || "Failed to send session request")
+        // The slot may have just been taken; show what's still free
+        if (res.status === 409 && bookBySlot) {
+          setSlotStart("")
+          fetchAvailability(receiverId)
+        }
       }
     } catch (error) {
       console.error("Error creating session request:", error)
@@ -186,20 +415,11 @@ export function CreateSessionRequestDialog({
         <DialogHeader>
           <DialogTitle>Create Session Request</DialogTitle>
           <DialogDescription>
-            Request a learning session with one of your connections. This will cost 5 credits.
+            Request a learning session with one of your connections. This will cost {SESSION_REQUEST_COST} credits.
           </DialogDescription>
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
-          {/* Credit Warning */}
-          <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800">
-            <CreditCard className="w-5 h-5 text-amber-600" />
-            <p className="text-sm text-amber-700 dark:text-amber-400">
-              <strong>5 credits</strong> will be deducted to send this request. 
-              If accepted, <strong>40 credits</strong> will be reserved for the session.
-            </p>
-          </div>
-
           {/* Session Name */}
           <div className="grid gap-2">
             <Label htmlFor="sessionName">Session Name *</Label>
@@ -262,6 +482,36 @@ export function CreateSessionRequestDialog({
             )}
           </div>
 
+          {/* Skill Selector */}
+          {receiverId && (
+            <div className="grid gap-2">
+              <Label htmlFor="skill">Skill</Label>
+              {skillsLoading ? (
+                <div className="flex items-center gap-2 p-3 border rounded-md">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span className="text-sm text-muted-foreground">Loading skills...</span>
+                </div>
+              ) : skills.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  This user hasn&apos;t listed any skills they teach. The session will be priced at the default rate.
+                </p>
+              ) : (
+                <Select value={skillId} onValueChange={setSkillId}>
+                  <SelectTrigger id="skill">
+                    <SelectValue placeholder="Select a skill" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {skills.map((skill) => (
+                      <SelectItem key={skill.id} value={skill.id}>
+                        {skill.name} · {skill.hourlyRate} credits/hr
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
           {/* Mode Selection */}
           <div className="grid gap-2">
             <Label>Session Mode *</Label>
@@ -287,61 +537,253 @@ export function CreateSessionRequestDialog({
             </RadioGroup>
           </div>
 
-          {/* Date Selection */}
-          <div className="grid grid-cols-2 gap-4">
-            <div className="grid gap-2">
-              <Label>Start Date *</Label>
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    className={cn(
-                      "justify-start text-left font-normal",
-                      !startDate && "text-muted-foreground"
-                    )}
+          {/* Date and Time Selection */}
+          {receiverId && availabilityLoading ? (
+            <div className="flex items-center gap-2 p-3 border rounded-md">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span className="text-sm text-muted-foreground">Loading availability...</span>
+            </div>
+          ) : bookBySlot ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="duration">Length *</Label>
+                  <Select
+                    value={duration}
+                    onValueChange={(value) => {
+                      setDuration(value)
+                      setSlotStart("")
+                    }}
+                  >
+                    <SelectTrigger id="duration">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AVAILABILITY.BOOKING_DURATIONS_MINUTES.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {formatDuration(minutes)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="slotDay">Day *</Label>
+                  <Select
+                    value={slotDays.has(slotDay) ? slotDay : ""}
+                    onValueChange={(value) => {
+                      setSlotDay(value)
+                      setSlotStart("")
+                    }}
+                    disabled={slotDays.size === 0}
                   >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {startDate ? format(startDate, "PPP") : "Pick a date"}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <Calendar
-                    mode="single"
-                    selected={startDate}
-                    onSelect={setStartDate}
-                    disabled={(date) => date < new Date()}
-                    initialFocus
+                    <SelectTrigger id="slotDay">
+                      <SelectValue placeholder="Pick a day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(slotDays.keys()).map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {formatDay(key)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {slotDays.size === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No free {formatDuration(Number(duration))} slots in the next {AVAILABILITY.DEFAULT_RANGE_DAYS} days. Try a shorter session.
+                </p>
+              ) : slotDays.has(slotDay) && (
+                <div className="grid gap-2">
+                  <Label>Start Time *</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {slotDays.get(slotDay)!.map((start) => (
+                      <Button
+                        key={start.toISOString()}
+                        type="button"
+                        size="sm"
+                        variant={slotStart === start.toISOString() ? "default" : "outline"}
+                        onClick={() => setSlotStart(start.toISOString())}
+                      >
+                        {formatTime(start)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Times are shown in your time zone ({timeZone}).
+              </p>
+            </>
+          ) : (
+            <>
+              {availability && (
+                <p className="text-sm text-muted-foreground">
+                  This user hasn&apos;t set their availability, so you can suggest any time.
+                </p>
+              )}
+              <div className="grid gap-2">
+                <Label>Date *</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "justify-start text-left font-normal",
+                        !sessionDate && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {sessionDate ? format(sessionDate, "PPP") : "Pick a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={sessionDate}
+                      onSelect={setSessionDate}
+                      disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="startTime">Start Time *</Label>
+                  <Input
+                    id="startTime"
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
                   />
-                </PopoverContent>
-              </Popover>
-            </div>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="endTime">End Time *</Label>
+                  <Input
+                    id="endTime"
+                    type="time"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Repeat */}
+          <div className="grid gap-2">
+            <Label>Repeat</Label>
+            <Select
+              value={repeat}
+              onValueChange={(value) => setRepeat(value as RecurrenceFrequency | "NONE")}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NONE">Does not repeat</SelectItem>
+                {RECURRENCE_FREQUENCIES.map((frequency) => (
+                  <SelectItem key={frequency.value} value={frequency.value}>
+                    {frequency.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {repeat !== "NONE" && (
             <div className="grid gap-2">
-              <Label>End Date (optional)</Label>
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    className={cn(
-                      "justify-start text-left font-normal",
-                      !endDate && "text-muted-foreground"
-                    )}
-                  >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {endDate ? format(endDate, "PPP") : "Pick a date"}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <Calendar
-                    mode="single"
-                    selected={endDate}
-                    onSelect={setEndDate}
-                    disabled={(date) => 
-                      date < new Date() || (startDate ? date < startDate : false)
-                    }
-                    initialFocus
+              <Label>Ends</Label>
+              <RadioGroup
+                value={repeatEnds}
+                onValueChange={(value) => setRepeatEnds(value as "COUNT" | "UNTIL")}
+                className="grid gap-3"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="COUNT" id="repeat-count" />
+                  <Label htmlFor="repeat-count" className="font-normal cursor-pointer">After</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={SESSION_SERIES.MAX_OCCURRENCES}
+                    className="w-20 h-8"
+                    value={repeatCount}
+                    onChange={(e) => setRepeatCount(e.target.value)}
+                    disabled={repeatEnds !== "COUNT"}
                   />
-                </PopoverContent>
-              </Popover>
+                  <span className="text-sm text-muted-foreground">sessions</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="UNTIL" id="repeat-until" />
+                  <Label htmlFor="repeat-until" className="font-normal cursor-pointer">On</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={cn(
+                          "justify-start text-left font-normal",
+                          !repeatUntil && "text-muted-foreground"
+                        )}
+                        disabled={repeatEnds !== "UNTIL"}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {repeatUntil ? format(repeatUntil, "PPP") : "Pick an end date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={repeatUntil}
+                        onSelect={setRepeatUntil}
+                        disabled={(date) => !sessionDate || date <= sessionDate}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              </RadioGroup>
+              {series && "error" in series && (
+                <p className="text-sm text-destructive">{series.error}</p>
+              )}
+            </div>
+          )}
+
+          {/* Price Quote */}
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800">
+            <CreditCard className="w-5 h-5 text-amber-600 shrink-0" />
+            <div className="text-sm text-amber-700 dark:text-amber-400">
+              {quote ? (
+                <>
+                  {seriesCount ? (
+                    <p>
+                      <strong>{quote.requestFee} credits</strong> will be deducted to send this request.
+                      If accepted, {seriesCount} sessions are scheduled and <strong>{quote.sessionCredits} credits</strong> are
+                      reserved for each one {SESSION_SERIES.RESERVE_AHEAD_DAYS} days before it starts.
+                    </p>
+                  ) : (
+                    <p>
+                      <strong>{quote.requestFee} credits</strong> will be deducted to send this request.
+                      If accepted, <strong>{quote.sessionCredits} credits</strong> will be reserved for the session.
+                    </p>
+                  )}
+                  <p className="mt-1 text-xs">
+                    {formatDuration(quote.billedMinutes)} at {quote.hourlyRate} credits/hr
+                    {quote.billedMinutes !== quote.durationMinutes && " (rounded up to the next 15 minutes)"}
+                    {" "}· {seriesCount
+                      ? `${quote.requestFee + quote.sessionCredits * seriesCount} credits for the whole series`
+                      : `${quote.totalCredits} credits in total`}
+                  </p>
+                </>
+              ) : pricing && "error" in pricing ? (
+                <p>{pricing.error}</p>
+              ) : (
+                <p>
+                  <strong>{SESSION_REQUEST_COST} credits</strong> will be deducted to send this request.
+                  Pick a date and time to see the session price.
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -356,7 +798,14 @@ export function CreateSessionRequestDialog({
           </Button>
           <Button 
             onClick={handleSubmit}
-            disabled={loading || !sessionName || !receiverId || !startDate || connections.length === 0}
+            disabled={
+              loading ||
+              !sessionName ||
+              !receiverId ||
+              !quote ||
+              (!!series && "error" in series) ||
+              connections.length === 0
+            }
           >
             {loading ? (
               <>
@@ -364,7 +813,7 @@ export function CreateSessionRequestDialog({
                 Sending...
               </>
             ) : (
-              "Send Request (5 credits)"
+              `Send Request (${SESSION_REQUEST_COST} credits)`
             )}
           </Button>
         </DialogFooter>
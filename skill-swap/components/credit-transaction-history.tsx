@@ -31,6 +31,8 @@ import {
   ChevronRight,
   History,
   Coins,
+  Download,
+  Gift,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -91,6 +93,11 @@ const transactionTypeConfig: Record<
     icon: RefreshCcw,
     color: 'text-blue-500',
   },
+  SESSION_CREDITS_RESERVED: {
+    label: 'Session Credits Reserved',
+    icon: ArrowUpRight,
+    color: 'text-orange-500',
+  },
   SESSION_COMPLETED: {
     label: 'Session Completed',
     icon: Calendar,
@@ -106,6 +113,36 @@ const transactionTypeConfig: Record<
     icon: Coins,
     color: 'text-purple-500',
   },
+  TRANSFER_SENT: {
+    label: 'Credits Sent',
+    icon: Gift,
+    color: 'text-orange-500',
+  },
+  TRANSFER_RECEIVED: {
+    label: 'Credits Received',
+    icon: Gift,
+    color: 'text-green-500',
+  },
+  ADMIN_ADJUSTMENT: {
+    label: 'Admin Adjustment',
+    icon: RefreshCcw,
+    color: 'text-blue-500',
+  },
+  DISPUTE_HOLD: {
+    label: 'Dispute Hold',
+    icon: ArrowUpRight,
+    color: 'text-orange-500',
+  },
+  DISPUTE_REFUND: {
+    label: 'Dispute Refund',
+    icon: RefreshCcw,
+    color: 'text-blue-500',
+  },
+  GROUP_SEAT_RESERVED: {
+    label: 'Group Session Seat Reserved',
+    icon: ArrowUpRight,
+    color: 'text-orange-500',
+  },
 };
 
 // Get initials from name
@@ -235,15 +272,34 @@ export function CreditTransactionHistoryDialog({
               <SelectItem value="SESSION_COMPLETED">
                 Sessions Completed
               </SelectItem>
+              <SelectItem value="TRANSFER_SENT">Credits Sent</SelectItem>
+              <SelectItem value="TRANSFER_RECEIVED">
+                Credits Received
+              </SelectItem>
               <SelectItem value="INITIAL_ALLOCATION">
                 Initial Allocation
               </SelectItem>
             </SelectContent>
           </Select>
 
-          <p className="text-sm text-muted-foreground">
-            {total} transaction{total !== 1 ? 's' : ''}
-          </p>
+          <div className="flex items-center gap-2">
+            <p className="text-sm text-muted-foreground">
+              {total} transaction{total !== 1 ? 's' : ''}
+            </p>
+            {/* Full statement downloads, independent of the type filter */}
+            <Button variant="ghost" size="sm" className="gap-1" asChild>
+              <a href="/api/user/transactions/export?format=csv" download>
+                <Download className="w-4 h-4" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="ghost" size="sm" className="gap-1" asChild>
+              <a href="/api/user/transactions/export?format=pdf" download>
+                <Download className="w-4 h-4" />
+                PDF
+              </a>
+            </Button>
+          </div>
         </div>
 
         {/* Transactions List */}
@@ -47,9 +47,12 @@ import {
   RefreshCw,
   Video,
   MapPin,
+  Sparkles,
+  ArrowLeftRight,
 } from 'lucide-react';
 
 import type { DashboardData, DashboardStats, UpcomingSession, ChartData } from '@/lib/dashboard';
+import type { SkillMatch } from '@/lib/types/matching';
 
 // Lazy load chart components for code splitting
 const SessionActivityChart = lazy(() =>
@@ -81,6 +84,7 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
   const [isLoading, setIsLoading] = useState(!initialData);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [matchesRefreshKey, setMatchesRefreshKey] = useState(0);
 
   // Fetch dashboard data (client-side refresh)
   const fetchDashboardData = useCallback(async (isRefresh = false) => {
@@ -159,7 +163,10 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
           <WelcomeSection
             userName={session?.user?.name}
             isRefreshing={isRefreshing}
-            onRefresh={() => fetchDashboardData(true)}
+            onRefresh={() => {
+              fetchDashboardData(true);
+              setMatchesRefreshKey((key) => key + 1);
+            }}
           />
 
           {/* Error State */}
@@ -177,6 +184,9 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
           {/* Quick Stats Grid */}
           <StatsGrid stats={stats} isLoading={showSkeletons} />
 
+          {/* Suggested Skill Swap Partners */}
+          <SuggestedMatchesCard refreshKey={matchesRefreshKey} />
+
           {/* Sessions & Activity Overview */}
           <section className="grid gap-4 lg:grid-cols-3">
             <SessionsOverviewCard stats={stats} isLoading={showSkeletons} />
@@ -681,6 +691,114 @@ const UpcomingSessionsCard = memo(function UpcomingSessionsCard({
   );
 });
 
+const SuggestedMatchesCard = memo(function SuggestedMatchesCard({
+  refreshKey,
+}: {
+  refreshKey: number;
+}) {
+  const [matches, setMatches] = useState<SkillMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Matches are fetched separately so the dashboard isn't held up scoring them
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMatches = async () => {
+      try {
+        const response = await fetch('/api/matches?limit=6', { cache: 'no-store' });
+        if (!response.ok) throw new Error('Failed to fetch matches');
+        const data = await response.json();
+        if (!cancelled) setMatches(data.matches);
+      } catch (err) {
+        console.error('Matches fetch error:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchMatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Sparkles className="h-5 w-5" />
+          Suggested Matches
+        </CardTitle>
+        <CardDescription>
+          People who teach what you want to learn, mutual swaps first
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+        ) : matches.length > 0 ? (
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {matches.map((match) => (
+              <Link
+                key={match.user.id}
+                href={`/profile/${match.user.id}`}
+                className="flex gap-3 rounded-lg border p-3 transition-colors hover:bg-muted/50"
+              >
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={match.user.image || undefined} />
+                  <AvatarFallback>
+                    {match.user.name.charAt(0).toUpperCase() || 'U'}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="truncate font-medium">{match.user.name}</p>
+                    <Badge variant="outline">{match.score}% match</Badge>
+                  </div>
+                  {match.isMutual && (
+                    <Badge variant="secondary" className="gap-1">
+                      <ArrowLeftRight className="h-3 w-3" />
+                      Mutual swap
+                    </Badge>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Teaches {match.theyOffer.map((offer) => offer.name).join(', ')}
+                  </p>
+                  {match.isMutual && (
+                    <p className="text-sm text-muted-foreground">
+                      Wants to learn your {match.theyWant.map((want) => want.matchedSkill).join(', ')}
+                    </p>
+                  )}
+                  {match.timeZoneDifferenceHours !== null && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {match.timeZoneDifferenceHours === 0
+                        ? 'Same time zone'
+                        : `${match.timeZoneDifferenceHours}h time difference`}
+                    </p>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <Target className="mb-2 h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">No matches yet</p>
+            <Button asChild variant="link" className="mt-2">
+              <Link href="/settings">Add skills you want to learn</Link>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
 const QuickActionsCard = memo(function QuickActionsCard({ stats }: { stats?: DashboardStats }) {
   return (
     <Card>
@@ -0,0 +1,609 @@
+/**
+ * Group Sessions Panel Component
+ *
+ * The Group tab of the sessions page:
+ * - Hosting: group sessions the user teaches, with every seat and
+ *   per-seat completion
+ * - Joined: sessions the user holds a seat in
+ * - Available: open sessions from connected providers, with a seat free
+ *
+ * Attendees of an online session join one shared LiveKit call. A learner
+ * whose session didn't happen can report it, to be refunded when the
+ * session is settled.
+ *
+ * @fileoverview Group session listing, seats and group calls
+ */
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Calendar,
+  Clock,
+  MapPin,
+  Video,
+  Plus,
+  CheckCircle2,
+  Loader2,
+  Users,
+  LogOut,
+  XCircle,
+  AlertTriangle
+} from "lucide-react"
+import { toast } from "sonner"
+import { CreateGroupSessionDialog } from "@/components/create-group-session-dialog"
+import { ConfirmDialog } from "@/components/confirm-dialog"
+import { LiveKitCallInterface } from "@/components/livekit-call-interface"
+import { useWallet } from "@/contexts/wallet-context"
+import { VALIDATION } from "@/lib/constants"
+import type { GroupSeatStatus, GroupSessionItem } from "@/lib/types/group-sessions"
+
+interface GroupSessionsPanelProps {
+  currentUserId: string | null
+}
+
+const SEAT_STATUS_LABELS: Record<GroupSeatStatus, string> = {
+  JOINED: "Seated",
+  COMPLETED: "Completed",
+  LEFT: "Left",
+  CANCELLED: "Refunded",
+}
+
+const getInitials = (name: string) => {
+  return name
+    .split(" ")
+    .map(n => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2)
+}
+
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })
+}
+
+const formatTime = (date: string | Date) => {
+  return new Date(date).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
+
+export function GroupSessionsPanel({ currentUserId }: GroupSessionsPanelProps) {
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [hosting, setHosting] = useState<GroupSessionItem[]>([])
+  const [joined, setJoined] = useState<GroupSessionItem[]>([])
+  const [available, setAvailable] = useState<GroupSessionItem[]>([])
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [cancelTarget, setCancelTarget] = useState<GroupSessionItem | null>(null)
+  const [reportTarget, setReportTarget] = useState<GroupSessionItem | null>(null)
+  const [reportReason, setReportReason] = useState("")
+  const [call, setCall] = useState<{ token: string; roomName: string; sessionName: string } | null>(null)
+  const { refreshWallet } = useWallet()
+
+  const fetchGroupSessions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/group-sessions", { cache: "no-store" })
+      if (res.ok) {
+        const data = await res.json()
+        setHosting(data.hosting || [])
+        setJoined(data.joined || [])
+        setAvailable(data.available || [])
+      }
+    } catch (error) {
+      console.error("Error fetching group sessions:", error)
+      toast.error("Failed to load group sessions")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchGroupSessions()
+  }, [fetchGroupSessions])
+
+  // Run a seat or session action and refresh the lists
+  const runAction = async (
+    key: string,
+    url: string,
+    body: Record<string, unknown> = {},
+    fallbackError: string
+  ) => {
+    setActionLoading(key)
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || fallbackError)
+
+      toast.success(data.message)
+      refreshWallet()
+      await fetchGroupSessions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallbackError)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleJoinCall = async (groupSession: GroupSessionItem) => {
+    setActionLoading(`call-${groupSession.id}`)
+    try {
+      const res = await fetch(`/api/group-sessions/${groupSession.id}/call`, {
+        method: "POST",
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to join the call")
+
+      setCall({
+        token: data.token,
+        roomName: data.roomName,
+        sessionName: groupSession.sessionName,
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to join the call")
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const renderGroupSessionCard = (groupSession: GroupSessionItem) => {
+    const hasStarted = new Date(groupSession.startDate).getTime() <= Date.now()
+    const isOpen = groupSession.status === "OPEN"
+    const seat = groupSession.mySeat
+    const isSeated = seat?.status === "JOINED"
+    const isFull = groupSession.seatsTaken >= groupSession.seatLimit
+    const seatsAwaitingMe = groupSession.seats.filter(
+      (s) => s.status === "JOINED" && !s.providerCompletionConfirmed
+    )
+    const canCall =
+      isOpen &&
+      groupSession.mode === "ONLINE" &&
+      (groupSession.isProvider || isSeated)
+
+    return (
+      <Card key={groupSession.id} className="p-6 hover:shadow-md transition">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div className="space-y-3">
+            <div>
+              <div className="flex items-center gap-2 flex-wrap">
+                <h3 className="text-lg font-semibold">{groupSession.sessionName}</h3>
+                {groupSession.status === "COMPLETED" && (
+                  <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                    Completed
+                  </Badge>
+                )}
+                {groupSession.status === "CANCELLED" && (
+                  <Badge variant="destructive">Cancelled</Badge>
+                )}
+                {seat && !groupSession.isProvider && seat.status !== "JOINED" && (
+                  <Badge variant="outline">{SEAT_STATUS_LABELS[seat.status]}</Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">{groupSession.skill.name}</p>
+            </div>
+
+            {!groupSession.isProvider && (
+              <div className="flex items-center gap-2">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={groupSession.provider.profileImage || undefined} />
+                  <AvatarFallback className="text-xs">
+                    {getInitials(groupSession.provider.fullName)}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm">Taught by {groupSession.provider.fullName}</span>
+              </div>
+            )}
+
+            {groupSession.description && (
+              <p className="text-sm text-muted-foreground">{groupSession.description}</p>
+            )}
+
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Calendar className="w-4 h-4" />
+                {formatDate(groupSession.startDate)}
+              </span>
+              <span className="flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                {formatTime(groupSession.startDate)} - {formatTime(groupSession.endDate)}
+              </span>
+              <span className="flex items-center gap-1">
+                {groupSession.mode === "ONLINE" ? (
+                  <Video className="w-4 h-4" />
+                ) : (
+                  <MapPin className="w-4 h-4" />
+                )}
+                {groupSession.mode === "ONLINE" ? "Online" : "In-Person"}
+              </span>
+              <span className="flex items-center gap-1">
+                <Users className="w-4 h-4" />
+                {groupSession.seatsTaken}/{groupSession.seatLimit} seats
+              </span>
+            </div>
+
+            <p className="text-sm">
+              <strong>{groupSession.creditsPerSeat} credits</strong> per seat
+            </p>
+
+            {groupSession.cancelReason && (
+              <p className="text-sm text-muted-foreground">
+                Reason: {groupSession.cancelReason}
+              </p>
+            )}
+
+            {isSeated && seat.learnerCompletionConfirmed && (
+              <p className="text-sm text-muted-foreground">
+                You confirmed completion. Waiting for the provider to confirm.
+              </p>
+            )}
+
+            {isSeated && seat.learnerRefundRequested && (
+              <p className="text-sm text-muted-foreground">
+                You reported a problem. Your {seat.creditsHeld} credits will be
+                refunded when the session is settled, unless you mark it complete.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2 md:w-48">
+            {canCall && (
+              <Button
+                onClick={() => handleJoinCall(groupSession)}
+                disabled={actionLoading === `call-${groupSession.id}`}
+              >
+                {actionLoading === `call-${groupSession.id}` ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Video className="w-4 h-4 mr-2" />
+                )}
+                Join Call
+              </Button>
+            )}
+
+            {/* Available sessions */}
+            {!groupSession.isProvider && !isSeated && isOpen && !hasStarted && seat?.status !== "COMPLETED" && (
+              <Button
+                onClick={() =>
+                  runAction(
+                    `join-${groupSession.id}`,
+                    `/api/group-sessions/${groupSession.id}/join`,
+                    {},
+                    "Failed to join group session"
+                  )
+                }
+                disabled={isFull || actionLoading === `join-${groupSession.id}`}
+              >
+                {actionLoading === `join-${groupSession.id}` && (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                )}
+                {isFull ? "Full" : `Take a Seat (${groupSession.creditsPerSeat} credits)`}
+              </Button>
+            )}
+
+            {/* Learner with a seat */}
+            {isSeated && isOpen && hasStarted && !seat.learnerCompletionConfirmed && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  runAction(
+                    `complete-${groupSession.id}`,
+                    `/api/group-sessions/${groupSession.id}/complete`,
+                    {},
+                    "Failed to confirm completion"
+                  )
+                }
+                disabled={actionLoading === `complete-${groupSession.id}`}
+              >
+                {actionLoading === `complete-${groupSession.id}` ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                )}
+                Mark Complete
+              </Button>
+            )}
+            {isSeated && isOpen && hasStarted && !seat.learnerCompletionConfirmed && !seat.learnerRefundRequested && (
+              <Button
+                variant="outline"
+                className="text-destructive"
+                onClick={() => setReportTarget(groupSession)}
+                disabled={actionLoading === `report-${groupSession.id}`}
+              >
+                {actionLoading === `report-${groupSession.id}` ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                )}
+                Report a Problem
+              </Button>
+            )}
+            {isSeated && isOpen && !hasStarted && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  runAction(
+                    `leave-${groupSession.id}`,
+                    `/api/group-sessions/${groupSession.id}/leave`,
+                    {},
+                    "Failed to leave group session"
+                  )
+                }
+                disabled={actionLoading === `leave-${groupSession.id}`}
+              >
+                {actionLoading === `leave-${groupSession.id}` ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <LogOut className="w-4 h-4 mr-2" />
+                )}
+                Leave Session
+              </Button>
+            )}
+
+            {/* Provider */}
+            {groupSession.isProvider && isOpen && hasStarted && seatsAwaitingMe.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  runAction(
+                    `complete-${groupSession.id}`,
+                    `/api/group-sessions/${groupSession.id}/complete`,
+                    {},
+                    "Failed to confirm completion"
+                  )
+                }
+                disabled={actionLoading === `complete-${groupSession.id}`}
+              >
+                {actionLoading === `complete-${groupSession.id}` ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                )}
+                Mark All Complete
+              </Button>
+            )}
+            {groupSession.isProvider && isOpen && !groupSession.seats.some((s) => s.status === "COMPLETED") && (
+              <Button
+                variant="outline"
+                className="text-destructive"
+                onClick={() => setCancelTarget(groupSession)}
+                disabled={actionLoading === `cancel-${groupSession.id}`}
+              >
+                <XCircle className="w-4 h-4 mr-2" />
+                Cancel Session
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Seats, for the provider */}
+        {groupSession.isProvider && groupSession.seats.length > 0 && (
+          <div className="mt-4 border-t pt-4 space-y-2">
+            <p className="text-sm font-medium">Attendees</p>
+            {groupSession.seats.map((s) => (
+              <div key={s.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={s.learner.profileImage || undefined} />
+                    <AvatarFallback className="text-xs">
+                      {getInitials(s.learner.fullName)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span>{s.learner.fullName}</span>
+                  {s.status === "JOINED" && s.learnerCompletionConfirmed && (
+                    <span className="text-xs text-muted-foreground">confirmed</span>
+                  )}
+                  {s.status === "JOINED" && s.learnerRefundRequested && (
+                    <span className="text-xs text-destructive">
+                      reported a problem{s.refundReason ? `: ${s.refundReason}` : ""}
+                    </span>
+                  )}
+                </div>
+                {s.status === "JOINED" && isOpen && hasStarted && !s.providerCompletionConfirmed ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      runAction(
+                        `seat-${s.id}`,
+                        `/api/group-sessions/${groupSession.id}/complete`,
+                        { seatId: s.id },
+                        "Failed to confirm completion"
+                      )
+                    }
+                    disabled={actionLoading === `seat-${s.id}`}
+                  >
+                    {actionLoading === `seat-${s.id}` && (
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    )}
+                    Confirm
+                  </Button>
+                ) : (
+                  <Badge variant="outline">
+                    {s.status === "JOINED" && s.providerCompletionConfirmed
+                      ? "Awaiting learner"
+                      : SEAT_STATUS_LABELS[s.status]}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    )
+  }
+
+  const renderSection = (
+    title: string,
+    items: GroupSessionItem[],
+    emptyText: string
+  ) => (
+    <div>
+      <h3 className="text-lg font-semibold mb-4">
+        {title} ({items.length})
+      </h3>
+      {items.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">{emptyText}</Card>
+      ) : (
+        <div className="space-y-4">{items.map(renderGroupSessionCard)}</div>
+      )}
+    </div>
+  )
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map(i => (
+          <Skeleton key={i} className="h-40 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Open Group Session
+        </Button>
+      </div>
+
+      {renderSection("Hosting", hosting, "You aren't hosting any group sessions")}
+      {renderSection("Joined", joined, "You haven't joined any group sessions")}
+      {renderSection(
+        "Available",
+        available,
+        "No open group sessions from your connections right now"
+      )}
+
+      <CreateGroupSessionDialog
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        currentUserId={currentUserId}
+        onSuccess={fetchGroupSessions}
+      />
+
+      <ConfirmDialog
+        isOpen={!!cancelTarget}
+        title="Cancel group session?"
+        description={
+          cancelTarget
+            ? `${cancelTarget.sessionName} will be cancelled and every attendee refunded.`
+            : ""
+        }
+        confirmText="Cancel Session"
+        cancelText="Keep Session"
+        variant="destructive"
+        onConfirm={() => {
+          if (cancelTarget) {
+            runAction(
+              `cancel-${cancelTarget.id}`,
+              `/api/group-sessions/${cancelTarget.id}/cancel`,
+              {},
+              "Failed to cancel group session"
+            )
+          }
+          setCancelTarget(null)
+        }}
+        onCancel={() => setCancelTarget(null)}
+      />
+
+      <Dialog
+        open={!!reportTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReportTarget(null)
+            setReportReason("")
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report a problem</DialogTitle>
+            <DialogDescription>
+              Let the provider know {reportTarget?.sessionName} didn&apos;t happen as
+              agreed. Instead of going to the provider, your{" "}
+              {reportTarget?.creditsPerSeat} credits will be refunded when the session
+              is settled.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-2">
+            <Label htmlFor="group-report-reason">What went wrong? (optional)</Label>
+            <Textarea
+              id="group-report-reason"
+              value={reportReason}
+              onChange={(e) => setReportReason(e.target.value)}
+              maxLength={VALIDATION.GROUP_REPORT_REASON_MAX_LENGTH}
+              rows={3}
+              placeholder="e.g. The provider never joined the call"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setReportTarget(null)
+                setReportReason("")
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (reportTarget) {
+                  runAction(
+                    `report-${reportTarget.id}`,
+                    `/api/group-sessions/${reportTarget.id}/report`,
+                    { reason: reportReason.trim() || null },
+                    "Failed to report problem"
+                  )
+                }
+                setReportTarget(null)
+                setReportReason("")
+              }}
+            >
+              Report Problem
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {call && (
+        <LiveKitCallInterface
+          token={call.token}
+          roomName={call.roomName}
+          userName={call.sessionName}
+          onClose={() => setCall(null)}
+          isGroupCall
+        />
+      )}
+    </div>
+  )
+}
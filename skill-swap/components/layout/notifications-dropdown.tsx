@@ -0,0 +1,140 @@
+/**
+ * Notifications Dropdown Component
+ *
+ * Bell icon with an unread badge that opens the user's most recent
+ * notifications. Supports marking single notifications or all of
+ * them as read. State lives in NotificationsProvider.
+ *
+ * @fileoverview Header notification center
+ */
+'use client';
+
+import { useRouter } from 'next/navigation';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { useNotifications } from '@/contexts/notifications-context';
+import { cn, formatRelativeTime, getInitials } from '@/lib/utils';
+import type { NotificationItem } from '@/lib/types/notifications';
+
+export function NotificationsDropdown() {
+  const router = useRouter();
+  const {
+    notifications,
+    unreadCount,
+    isLoading,
+    refreshNotifications,
+    markAsRead,
+  } = useNotifications();
+
+  const handleSelect = (notification: NotificationItem) => {
+    if (!notification.isRead) {
+      markAsRead([notification.id]);
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) refreshNotifications();
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label="Notifications"
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 w-5 h-5 p-0 flex items-center justify-center text-xs"
+            >
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <p className="text-sm font-semibold">Notifications</p>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={(e) => {
+                e.preventDefault();
+                markAsRead();
+              }}
+            >
+              <CheckCheck className="w-3.5 h-3.5 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="my-0" />
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading && notifications.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              You&apos;re all caught up
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className={cn(
+                  'flex items-start gap-3 px-3 py-3 rounded-none cursor-pointer',
+                  !notification.isRead && 'bg-primary/5'
+                )}
+                onSelect={() => handleSelect(notification)}
+              >
+                <Avatar className="w-8 h-8 shrink-0">
+                  <AvatarImage
+                    src={notification.relatedUser?.image || undefined}
+                  />
+                  <AvatarFallback className="text-xs">
+                    {getInitials(notification.relatedUser?.name || '')}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium leading-snug">
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {notification.message}
+                  </p>
+                  <p className="text-[11px] text-muted-foreground mt-1">
+                    {formatRelativeTime(notification.createdAt)}
+                  </p>
+                </div>
+                {!notification.isRead && (
+                  <span className="mt-1.5 w-2 h-2 rounded-full bg-primary shrink-0" />
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
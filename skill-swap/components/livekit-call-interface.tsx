@@ -5,6 +5,7 @@ import {
   LiveKitRoom,
   VideoConference,
   useLocalParticipant,
+  useParticipants,
 } from '@livekit/components-react';
 import { Button } from '@/components/ui/button';
 import { X, Mic, MicOff, Video, VideoOff, PhoneOff } from 'lucide-react';
@@ -16,6 +17,8 @@ interface LiveKitCallInterfaceProps {
   userName: string;
   onClose: () => void;
   callType?: 'audio' | 'video';
+  // Group session calls show how many attendees are in the room
+  isGroupCall?: boolean;
 }
 
 /**
@@ -56,6 +59,7 @@ function RoomContent({
   callType,
   onClose,
   userName,
+  isGroupCall,
 }: {
   isMuted: boolean;
   setIsMuted: (val: boolean) => void;
@@ -64,8 +68,10 @@ function RoomContent({
   callType?: 'audio' | 'video';
   onClose: () => void;
   userName: string;
+  isGroupCall?: boolean;
 }) {
   const { localParticipant } = useLocalParticipant();
+  const participants = useParticipants();
 
   return (
     <>
@@ -84,7 +90,10 @@ function RoomContent({
               {userName}
             </h2>
             <p className="text-white/80 text-xs drop-shadow-md flex items-center gap-1">
+              {isGroupCall ? 'Group ' : ''}
               {callType === 'video' ? 'Video Call' : 'Audio Call'}
+              {isGroupCall &&
+                ` · ${participants.length} ${participants.length === 1 ? 'participant' : 'participants'}`}
               <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse inline-block ml-1"></span>
             </p>
           </div>
@@ -167,6 +176,7 @@ export function LiveKitCallInterface({
   userName,
   onClose,
   callType = 'video',
+  isGroupCall = false,
 }: LiveKitCallInterfaceProps) {
   const [isMuted, setIsMuted] = useState(false);
   const [isVideoOff, setIsVideoOff] = useState(callType === 'audio');
@@ -203,6 +213,7 @@ export function LiveKitCallInterface({
           callType={callType}
           onClose={onClose}
           userName={userName}
+          isGroupCall={isGroupCall}
         />
       </LiveKitRoom>
     </div>
@@ -206,7 +206,6 @@ export function MessagesClient() {
             body: JSON.stringify({
               roomName: autoAnswerRoomName,
               userName: session.user.name || 'User',
-              userId: session.user.id || 'unknown',
             }),
           });
 
@@ -1081,7 +1080,6 @@ export function MessagesClient() {
           body: JSON.stringify({
             roomName,
             userName: session?.user?.name || 'User',
-            userId: session?.user?.id || 'unknown',
           }),
         });
 
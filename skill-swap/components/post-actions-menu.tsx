@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { ReportDialog } from '@/components/report-dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,6 +16,7 @@ import {
   Bookmark,
   BookmarkCheck,
   MoreHorizontal,
+  Flag,
 } from 'lucide-react';
 
 interface PostActionsMenuProps {
@@ -35,6 +37,7 @@ export function PostActionsMenu({
   onSaveToggle,
 }: PostActionsMenuProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
 
   const handleSaveToggle = async () => {
     setIsLoading(true);
@@ -55,54 +58,72 @@ export function PostActionsMenu({
   };
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="ghost" size="icon" className="h-8 w-8">
-          <MoreHorizontal className="h-4 w-4" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-48">
-        {/* Save/Unsave option (for all users except author) */}
-        {!isAuthor && (
-          <>
-            <DropdownMenuItem
-              onClick={handleSaveToggle}
-              disabled={isLoading}
-              className="cursor-pointer gap-2"
-            >
-              {isSaved ? (
-                <>
-                  <BookmarkCheck className="w-4 h-4" />
-                  <span>Unsave</span>
-                </>
-              ) : (
-                <>
-                  <Bookmark className="w-4 h-4" />
-                  <span>Save Post</span>
-                </>
-              )}
-            </DropdownMenuItem>
-            <DropdownMenuSeparator />
-          </>
-        )}
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          {/* Save/Unsave option (for all users except author) */}
+          {!isAuthor && (
+            <>
+              <DropdownMenuItem
+                onClick={handleSaveToggle}
+                disabled={isLoading}
+                className="cursor-pointer gap-2"
+              >
+                {isSaved ? (
+                  <>
+                    <BookmarkCheck className="w-4 h-4" />
+                    <span>Unsave</span>
+                  </>
+                ) : (
+                  <>
+                    <Bookmark className="w-4 h-4" />
+                    <span>Save Post</span>
+                  </>
+                )}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => setShowReportDialog(true)}
+                className="cursor-pointer gap-2 text-red-600 dark:text-red-400"
+              >
+                <Flag className="w-4 h-4" />
+                <span>Report Post</span>
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
 
-        {/* Edit and Delete options (only for author) */}
-        {isAuthor && (
-          <>
-            <DropdownMenuItem onClick={onEdit} className="cursor-pointer gap-2">
-              <Edit className="w-4 h-4" />
-              <span>Edit Post</span>
-            </DropdownMenuItem>
-            <DropdownMenuItem
-              onClick={onDelete}
-              className="cursor-pointer gap-2 text-red-600 dark:text-red-400"
-            >
-              <Trash2 className="w-4 h-4" />
-              <span>Delete Post</span>
-            </DropdownMenuItem>
-          </>
-        )}
-      </DropdownMenuContent>
-    </DropdownMenu>
+          {/* Edit and Delete options (only for author) */}
+          {isAuthor && (
+            <>
+              <DropdownMenuItem onClick={onEdit} className="cursor-pointer gap-2">
+                <Edit className="w-4 h-4" />
+                <span>Edit Post</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={onDelete}
+                className="cursor-pointer gap-2 text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Delete Post</span>
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {!isAuthor && (
+        <ReportDialog
+          open={showReportDialog}
+          onOpenChange={setShowReportDialog}
+          contentType="post"
+          contentId={postId}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,178 @@
+/**
+ * Report Dialog Component
+ *
+ * Lets users flag a post, comment, profile, review or message for
+ * moderators. Submits to the reports API with a reason and optional
+ * details.
+ *
+ * @fileoverview Content report form
+ */
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  REPORT_REASONS,
+  type ReportContentType,
+  type ReportReason,
+} from '@/lib/types/moderation';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentType: ReportContentType;
+  contentId: string;
+  // Optional name shown in the title, e.g. the reported user's name
+  targetName?: string;
+}
+
+export function ReportDialog({
+  open,
+  onOpenChange,
+  contentType,
+  contentId,
+  targetName,
+}: ReportDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [description, setDescription] = useState('');
+
+  const resetForm = () => {
+    setReason('');
+    setDescription('');
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      toast.error('Please choose a reason');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contentType,
+          contentId,
+          reason,
+          description: description.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit report');
+      }
+
+      toast.success('Report submitted', { description: data.message });
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Error', {
+        description:
+          error instanceof Error ? error.message : 'Failed to submit report',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) resetForm();
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {targetName ? `Report ${targetName}` : `Report ${contentType}`}
+          </DialogTitle>
+          <DialogDescription>
+            Tell us what&apos;s wrong with this {contentType}. Reports are reviewed
+            by moderators and the other person won&apos;t know it was you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <RadioGroup
+            value={reason}
+            onValueChange={(value) => setReason(value as ReportReason)}
+            className="gap-3"
+          >
+            {REPORT_REASONS.map((option) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem
+                  value={option.value}
+                  id={`report-reason-${option.value}`}
+                />
+                <Label
+                  htmlFor={`report-reason-${option.value}`}
+                  className="cursor-pointer font-normal"
+                >
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-description">
+              Additional details (optional)
+            </Label>
+            <Textarea
+              id="report-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              placeholder="Anything that helps us understand the problem"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isLoading || !reason}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              'Submit Report'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * Send Credits Dialog Component
+ *
+ * Lets a user gift credits to a connection, or tip them for a completed
+ * session, with an optional note. Shows a confirmation step before the
+ * credits are sent.
+ *
+ * @fileoverview Gift/tip credits dialog
+ */
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Gift, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/wallet-context';
+import { VALIDATION } from '@/lib/constants';
+
+interface SendCreditsDialogProps {
+  recipientId: string;
+  recipientName: string;
+  /** Completed session the credits are a tip for */
+  session?: { id: string; name: string };
+  trigger?: React.ReactNode;
+}
+
+interface TransferAllowance {
+  transfersLeft: number;
+  creditsLeft: number;
+  availableBalance: number;
+}
+
+export function SendCreditsDialog({
+  recipientId,
+  recipientName,
+  session,
+  trigger,
+}: SendCreditsDialogProps) {
+  const { refreshWallet } = useWallet();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<'form' | 'confirm'>('form');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [allowance, setAllowance] = useState<TransferAllowance | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const kind = session ? 'tip' : 'gift';
+  const credits = parseInt(amount);
+  const maxCredits = allowance
+    ? Math.min(allowance.creditsLeft, allowance.availableBalance)
+    : null;
+
+  const amountError = !amount
+    ? null
+    : !Number.isInteger(credits) || credits < 1 || String(credits) !== amount
+    ? 'Enter a whole number of credits'
+    : maxCredits !== null && credits > maxCredits
+    ? allowance && allowance.availableBalance < allowance.creditsLeft
+      ? `You only have ${allowance.availableBalance} credits available`
+      : `You can send up to ${maxCredits} more credits today`
+    : null;
+
+  const canContinue =
+    !!amount && !amountError && (allowance?.transfersLeft ?? 1) > 0;
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    if (isSending) return;
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setStep('form');
+    setAmount('');
+    setNote('');
+    setAllowance(null);
+
+    try {
+      const response = await fetch('/api/user/wallet/transfer', {
+        cache: 'no-store',
+      });
+      if (response.ok) {
+        setAllowance(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching transfer allowance:', error);
+    }
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    try {
+      const response = await fetch('/api/user/wallet/transfer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          recipientId,
+          amount: credits,
+          note: note.trim() || null,
+          sessionId: session?.id ?? null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send credits');
+      }
+
+      toast.success(session ? 'Tip sent' : 'Credits sent', {
+        description: data.message,
+      });
+      refreshWallet();
+      setOpen(false);
+    } catch (error) {
+      toast.error('Error', {
+        description:
+          error instanceof Error ? error.message : 'Failed to send credits',
+      });
+      setStep('form');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline">
+            <Gift className="w-4 h-4 mr-2" />
+            {session ? 'Tip' : 'Send Credits'}
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {step === 'confirm'
+              ? `Confirm ${kind}`
+              : session
+              ? `Tip ${recipientName}`
+              : `Send credits to ${recipientName}`}
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'confirm'
+              ? 'Credits sent to another user cannot be refunded.'
+              : session
+              ? `Thank ${recipientName} for ${session.name} with a few credits.`
+              : `Gift some of your credits to ${recipientName}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'form' ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-amount">Credits</Label>
+              <Input
+                id="transfer-amount"
+                type="number"
+                min={1}
+                max={maxCredits ?? undefined}
+                step={1}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="e.g. 10"
+              />
+              {amountError ? (
+                <p className="text-sm text-destructive">{amountError}</p>
+              ) : (
+                allowance && (
+                  <p className="text-xs text-muted-foreground">
+                    {allowance.transfersLeft > 0
+                      ? `You can send ${allowance.creditsLeft} more credits in ${allowance.transfersLeft} more transfer${
+                          allowance.transfersLeft === 1 ? '' : 's'
+                        } today.`
+                      : "You've reached today's transfer limit."}
+                  </p>
+                )
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transfer-note">Note (optional)</Label>
+              <Textarea
+                id="transfer-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={VALIDATION.TRANSFER_NOTE_MAX_LENGTH}
+                rows={3}
+                placeholder={
+                  session ? 'Thanks for a great session!' : 'Add a message'
+                }
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-md border bg-muted/40 p-4 text-sm space-y-1">
+            <p>
+              Send <span className="font-semibold">{credits} credits</span> to{' '}
+              <span className="font-semibold">{recipientName}</span>
+              {session && ` as a tip for ${session.name}`}?
+            </p>
+            {note.trim() && (
+              <p className="text-muted-foreground">&ldquo;{note.trim()}&rdquo;</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'form' ? (
+            <>
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => setStep('confirm')} disabled={!canContinue}>
+                Continue
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setStep('form')}
+                disabled={isSending}
+              >
+                Back
+              </Button>
+              <Button onClick={handleSend} disabled={isSending}>
+                {isSending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Send {credits} credits
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,369 @@
+/**
+ * Session Dispute Dialog Component
+ *
+ * Lets a participant dispute an active or recently completed session with
+ * a reason, a description and an optional file. Once a dispute is open it
+ * shows both sides' evidence, lets either participant add more, and shows
+ * the admin's decision when it is resolved.
+ *
+ * @fileoverview Raise and follow a session dispute
+ */
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Loader2, Paperclip } from "lucide-react"
+import { toast } from "sonner"
+import { DISPUTES, VALIDATION } from "@/lib/constants"
+import {
+  DISPUTE_ATTACHMENT_TYPES,
+  DISPUTE_REASONS,
+  DISPUTE_RESOLUTIONS,
+  type DisputeItem,
+  type DisputeReason,
+} from "@/lib/types/disputes"
+
+interface SessionDisputeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sessionId: string | null
+  sessionName?: string
+  onSuccess?: () => void
+}
+
+// Client-side checks mirroring the evidence API
+function validateFile(file: File | null): string | null {
+  if (!file) return null
+  if (!DISPUTE_ATTACHMENT_TYPES.includes(file.type)) {
+    return "Attach an image, PDF or text file"
+  }
+  if (file.size > DISPUTES.MAX_ATTACHMENT_SIZE) {
+    return `Files can be up to ${DISPUTES.MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`
+  }
+  return null
+}
+
+async function uploadEvidence(sessionId: string, content: string, file: File | null) {
+  const formData = new FormData()
+  formData.append("content", content)
+  if (file) formData.append("file", file)
+
+  const res = await fetch(`/api/sessions/${sessionId}/dispute/evidence`, {
+    method: "POST",
+    body: formData,
+  })
+  const data = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to add evidence")
+  }
+}
+
+export function SessionDisputeDialog({
+  open,
+  onOpenChange,
+  sessionId,
+  sessionName,
+  onSuccess,
+}: SessionDisputeDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [dispute, setDispute] = useState<DisputeItem | null>(null)
+  const [canDispute, setCanDispute] = useState(false)
+
+  // Form state, shared by the raise and add-evidence forms
+  const [reason, setReason] = useState<DisputeReason>("NO_SHOW")
+  const [text, setText] = useState("")
+  const [file, setFile] = useState<File | null>(null)
+
+  const fileError = validateFile(file)
+
+  const fetchDispute = useCallback(async () => {
+    if (!sessionId) return
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/dispute`, {
+        cache: "no-store",
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setDispute(data.dispute)
+        setCanDispute(data.canDispute)
+      } else {
+        toast.error(data.error || "Failed to load dispute")
+      }
+    } catch (error) {
+      console.error("Error fetching dispute:", error)
+      toast.error("Failed to load dispute")
+    } finally {
+      setLoading(false)
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    if (open) {
+      setReason("NO_SHOW")
+      setText("")
+      setFile(null)
+      fetchDispute()
+    }
+  }, [open, fetchDispute])
+
+  const handleRaise = async () => {
+    if (!sessionId) return
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/dispute`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, description: text.trim() }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to open dispute")
+      }
+
+      if (file) {
+        try {
+          await uploadEvidence(sessionId, "", file)
+        } catch (error) {
+          toast.error("Dispute opened, but the file couldn't be attached", {
+            description: error instanceof Error ? error.message : undefined,
+          })
+        }
+      }
+
+      toast.success(data.message || "Dispute opened")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to open dispute")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleAddEvidence = async () => {
+    if (!sessionId) return
+    setSubmitting(true)
+    try {
+      await uploadEvidence(sessionId, text.trim(), file)
+      toast.success("Evidence added")
+      setText("")
+      setFile(null)
+      await fetchDispute()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add evidence")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const isRaising = !dispute && canDispute
+  const canAddEvidence = dispute?.status === "OPEN"
+  const descriptionTooShort =
+    text.trim().length < VALIDATION.DISPUTE_DESCRIPTION_MIN_LENGTH
+
+  const reasonLabel = (value: string) =>
+    DISPUTE_REASONS.find((r) => r.value === value)?.label || value
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (!submitting) onOpenChange(isOpen)
+    }}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isRaising ? "Dispute session" : "Session dispute"}
+          </DialogTitle>
+          <DialogDescription>
+            {isRaising
+              ? `Tell us what went wrong with ${sessionName ? `"${sessionName}"` : "this session"}. The session credits are frozen until an admin reviews both sides.`
+              : sessionName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !dispute ? (
+          <div className="space-y-3 py-2">
+            <Skeleton className="h-4 w-1/2" />
+            <Skeleton className="h-20 w-full" />
+          </div>
+        ) : isRaising ? (
+          <div className="space-y-4 py-2">
+            <RadioGroup
+              value={reason}
+              onValueChange={(value) => setReason(value as DisputeReason)}
+              className="gap-3"
+            >
+              {DISPUTE_REASONS.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value={option.value}
+                    id={`dispute-reason-${option.value}`}
+                  />
+                  <Label
+                    htmlFor={`dispute-reason-${option.value}`}
+                    className="cursor-pointer font-normal"
+                  >
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="space-y-2">
+              <Label htmlFor="dispute-description">What happened? *</Label>
+              <Textarea
+                id="dispute-description"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                maxLength={VALIDATION.DISPUTE_TEXT_MAX_LENGTH}
+                rows={4}
+                placeholder="Include dates, times and anything the admin should know"
+              />
+              <p className="text-xs text-muted-foreground">
+                At least {VALIDATION.DISPUTE_DESCRIPTION_MIN_LENGTH} characters
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dispute-file">Attachment (optional)</Label>
+              <Input
+                id="dispute-file"
+                type="file"
+                accept={DISPUTE_ATTACHMENT_TYPES.join(",")}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            </div>
+          </div>
+        ) : dispute ? (
+          <div className="space-y-4 py-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={dispute.status === "OPEN" ? "destructive" : "secondary"}>
+                {dispute.status === "OPEN" ? "Open" : "Resolved"}
+              </Badge>
+              <Badge variant="outline">{reasonLabel(dispute.reason)}</Badge>
+              <span className="text-muted-foreground">
+                {dispute.frozenCredits} credits frozen
+              </span>
+            </div>
+
+            <div>
+              <p className="font-medium">Raised by {dispute.raisedBy.name}</p>
+              <p className="text-muted-foreground whitespace-pre-wrap">{dispute.description}</p>
+            </div>
+
+            {dispute.status === "RESOLVED" && (
+              <div className="rounded-md border bg-muted/40 p-3 space-y-1">
+                <p className="font-medium">
+                  {DISPUTE_RESOLUTIONS.find((r) => r.value === dispute.resolution)?.label}
+                </p>
+                <p className="text-muted-foreground">
+                  {dispute.refundedCredits ?? 0} credits to {dispute.learner.name},{" "}
+                  {dispute.frozenCredits - (dispute.refundedCredits ?? 0)} to {dispute.provider.name}
+                </p>
+                {dispute.resolutionNote && (
+                  <p className="text-muted-foreground">{dispute.resolutionNote}</p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="font-medium">Evidence ({dispute.evidence.length})</p>
+              {dispute.evidence.length === 0 ? (
+                <p className="text-muted-foreground">No evidence yet</p>
+              ) : (
+                dispute.evidence.map((item) => (
+                  <div key={item.id} className="rounded-md border p-3 space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {item.submittedBy.name} · {new Date(item.createdAt).toLocaleString()}
+                    </p>
+                    {item.content && <p className="whitespace-pre-wrap">{item.content}</p>}
+                    {item.attachment && (
+                      <a
+                        href={item.attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-primary hover:underline"
+                      >
+                        <Paperclip className="w-3 h-3" />
+                        {item.attachment.name}
+                      </a>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {canAddEvidence && (
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="evidence-text">Add evidence</Label>
+                <Textarea
+                  id="evidence-text"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  maxLength={VALIDATION.DISPUTE_TEXT_MAX_LENGTH}
+                  rows={3}
+                  placeholder="Your side of the story"
+                />
+                <Input
+                  type="file"
+                  accept={DISPUTE_ATTACHMENT_TYPES.join(",")}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+                {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="py-2 text-sm text-muted-foreground">
+            This session can no longer be disputed.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={submitting}
+          >
+            Close
+          </Button>
+          {isRaising && (
+            <Button
+              variant="destructive"
+              onClick={handleRaise}
+              disabled={submitting || descriptionTooShort || !!fileError}
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Open Dispute
+            </Button>
+          )}
+          {canAddEvidence && (
+            <Button
+              onClick={handleAddEvidence}
+              disabled={submitting || (!text.trim() && !file) || !!fileError}
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Evidence
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,279 @@
+/**
+ * Session Reschedule Dialog Component
+ *
+ * Lets a participant propose a new time for an active session. The
+ * session keeps its length, so only a new date and start time are
+ * picked. Also lists the session's earlier proposals and, when the new
+ * time clashes with another session, which sessions it overlaps.
+ *
+ * @fileoverview Propose a new session time and view reschedule history
+ */
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Calendar } from "@/components/ui/calendar"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import { AlertCircle, Calendar as CalendarIcon, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { cn } from "@/lib/utils"
+import { VALIDATION } from "@/lib/constants"
+import { formatDuration } from "@/lib/pricing"
+import type {
+  RescheduleProposalItem,
+  RescheduleStatus,
+  ScheduleConflict,
+} from "@/lib/types/reschedules"
+
+interface SessionRescheduleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  session: {
+    id: string
+    sessionName: string
+    startDate: string
+    endDate: string | null
+  } | null
+  onSuccess?: () => void
+}
+
+const STATUS_LABELS: Record<RescheduleStatus, string> = {
+  PENDING: "Pending",
+  ACCEPTED: "Accepted",
+  DECLINED: "Declined",
+  WITHDRAWN: "Withdrawn",
+  SUPERSEDED: "Replaced",
+}
+
+const formatDateTime = (date: Date | string) => format(new Date(date), "EEE, MMM d 'at' p")
+
+export function SessionRescheduleDialog({
+  open,
+  onOpenChange,
+  session,
+  onSuccess,
+}: SessionRescheduleDialogProps) {
+  const [submitting, setSubmitting] = useState(false)
+  const [history, setHistory] = useState<RescheduleProposalItem[]>([])
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([])
+  const [sessionDate, setSessionDate] = useState<Date | undefined>()
+  const [startTime, setStartTime] = useState("10:00")
+  const [reason, setReason] = useState("")
+
+  const lengthMs = session?.endDate
+    ? new Date(session.endDate).getTime() - new Date(session.startDate).getTime()
+    : 0
+
+  const fetchHistory = useCallback(async () => {
+    if (!session) return
+    try {
+      const res = await fetch(`/api/sessions/${session.id}/reschedule`, {
+        cache: "no-store",
+      })
+      if (res.ok) {
+        const data = await res.json()
+        setHistory(data.proposals || [])
+      }
+    } catch (error) {
+      console.error("Error fetching reschedule history:", error)
+    }
+  }, [session])
+
+  useEffect(() => {
+    if (open && session) {
+      const current = new Date(session.startDate)
+      setSessionDate(undefined)
+      setStartTime(format(current, "HH:mm"))
+      setReason("")
+      setConflicts([])
+      setHistory([])
+      fetchHistory()
+    }
+  }, [open, session, fetchHistory])
+
+  const proposedStart = (() => {
+    if (!sessionDate) return null
+    const [hours, minutes] = startTime.split(":").map(Number)
+    const date = new Date(sessionDate)
+    date.setHours(hours || 0, minutes || 0, 0, 0)
+    return date
+  })()
+  const proposedEnd = proposedStart ? new Date(proposedStart.getTime() + lengthMs) : null
+
+  const handleSubmit = async () => {
+    if (!session || !proposedStart || !proposedEnd) return
+    setSubmitting(true)
+    setConflicts([])
+    try {
+      const res = await fetch(`/api/sessions/${session.id}/reschedule`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startDate: proposedStart.toISOString(),
+          endDate: proposedEnd.toISOString(),
+          reason: reason.trim() || null,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setConflicts(data.conflicts || [])
+        throw new Error(data.error || "Failed to propose a new time")
+      }
+
+      toast.success(data.message || "New time proposed")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to propose a new time")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (!submitting) onOpenChange(isOpen)
+    }}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reschedule session</DialogTitle>
+          <DialogDescription>
+            Propose a new time for {session ? `"${session.sessionName}"` : "this session"}.
+            It only moves once the other party accepts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {session && (
+            <p className="text-sm text-muted-foreground">
+              Currently {formatDateTime(session.startDate)}
+              {lengthMs > 0 && ` (${formatDuration(Math.round(lengthMs / 60000))})`}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>New date *</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      "justify-start text-left font-normal",
+                      !sessionDate && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {sessionDate ? format(sessionDate, "PP") : "Pick a date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={sessionDate}
+                    onSelect={setSessionDate}
+                    disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="rescheduleStartTime">Start time *</Label>
+              <Input
+                id="rescheduleStartTime"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {proposedStart && proposedEnd && (
+            <p className="text-sm">
+              New time: {formatDateTime(proposedStart)} - {format(proposedEnd, "p")}
+            </p>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="rescheduleReason">Reason (optional)</Label>
+            <Textarea
+              id="rescheduleReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={VALIDATION.RESCHEDULE_REASON_MAX_LENGTH}
+              rows={2}
+              placeholder="Let them know why you need to move it"
+            />
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">Overlaps with:</p>
+                {conflicts.map((conflict) => (
+                  <p key={conflict.sessionId}>
+                    {conflict.sessionName} - {formatDateTime(conflict.startDate)}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {history.length > 0 && (
+            <div className="space-y-2 border-t pt-4 text-sm">
+              <p className="font-medium">Earlier proposals</p>
+              {history.map((proposal) => (
+                <div key={proposal.id} className="flex items-start justify-between gap-2">
+                  <div>
+                    <p>{formatDateTime(proposal.proposedStartDate)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      By {proposal.isMine ? "you" : proposal.proposedByName}
+                      {proposal.reason && ` - ${proposal.reason}`}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{STATUS_LABELS[proposal.status]}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={submitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !proposedStart || lengthMs <= 0}
+          >
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Propose New Time
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
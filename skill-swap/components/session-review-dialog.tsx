@@ -0,0 +1,237 @@
+/**
+ * Session Review Dialog Component
+ *
+ * Shown once a session is completed so each participant can rate
+ * the other. Collects an overall rating, optional per-category
+ * ratings and free-text comments.
+ *
+ * @fileoverview Post-session review form
+ */
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader2, Star } from "lucide-react"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+
+type CategoryKey = "teachingClarity" | "responsiveness" | "reliability" | "punctuality"
+
+const CATEGORIES: { key: CategoryKey; label: string }[] = [
+  { key: "teachingClarity", label: "Teaching clarity" },
+  { key: "responsiveness", label: "Responsiveness" },
+  { key: "reliability", label: "Reliability" },
+  { key: "punctuality", label: "Punctuality" },
+]
+
+interface SessionReviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sessionId: string | null
+  sessionName?: string
+  revieweeName?: string
+  onSuccess?: () => void
+}
+
+interface StarRatingProps {
+  value: number
+  onChange: (value: number) => void
+  size?: "sm" | "lg"
+  label: string
+}
+
+function StarRating({ value, onChange, size = "sm", label }: StarRatingProps) {
+  const [hovered, setHovered] = useState(0)
+  const active = hovered || value
+
+  return (
+    <div
+      className="flex items-center gap-1"
+      role="radiogroup"
+      aria-label={label}
+      onMouseLeave={() => setHovered(0)}
+    >
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star === 1 ? "" : "s"}`}
+          onMouseEnter={() => setHovered(star)}
+          onClick={() => onChange(star === value ? 0 : star)}
+          className="p-0.5"
+        >
+          <Star
+            className={cn(
+              size === "lg" ? "w-7 h-7" : "w-4 h-4",
+              star <= active
+                ? "fill-amber-400 text-amber-400"
+                : "text-muted-foreground"
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function SessionReviewDialog({
+  open,
+  onOpenChange,
+  sessionId,
+  sessionName,
+  revieweeName,
+  onSuccess,
+}: SessionReviewDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [rating, setRating] = useState(0)
+  const [categories, setCategories] = useState<Record<CategoryKey, number>>({
+    teachingClarity: 0,
+    responsiveness: 0,
+    reliability: 0,
+    punctuality: 0,
+  })
+  const [comments, setComments] = useState("")
+
+  const resetForm = () => {
+    setRating(0)
+    setCategories({
+      teachingClarity: 0,
+      responsiveness: 0,
+      reliability: 0,
+      punctuality: 0,
+    })
+    setComments("")
+  }
+
+  const handleSubmit = async () => {
+    if (!sessionId) return
+    if (rating === 0) {
+      toast.error("Please choose an overall rating")
+      return
+    }
+
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rating,
+          teachingClarity: categories.teachingClarity || null,
+          responsiveness: categories.responsiveness || null,
+          reliability: categories.reliability || null,
+          punctuality: categories.punctuality || null,
+          comments: comments.trim() || null,
+        }),
+      })
+
+      const data = await res.json()
+
+      if (res.ok) {
+        toast.success("Thanks for your review!")
+        resetForm()
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        toast.error(data.error || "Failed to submit review")
+      }
+    } catch (error) {
+      console.error("Error submitting review:", error)
+      toast.error("Failed to submit review")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (!isOpen) resetForm()
+      onOpenChange(isOpen)
+    }}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Review your session</DialogTitle>
+          <DialogDescription>
+            {revieweeName
+              ? `How was ${sessionName ? `"${sessionName}"` : "your session"} with ${revieweeName}?`
+              : "Share how your session went."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-5 py-2">
+          {/* Overall Rating */}
+          <div className="grid gap-2 justify-items-center">
+            <Label>Overall rating *</Label>
+            <StarRating
+              value={rating}
+              onChange={setRating}
+              size="lg"
+              label="Overall rating"
+            />
+          </div>
+
+          {/* Category Ratings */}
+          <div className="grid gap-3">
+            {CATEGORIES.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label className="font-normal text-muted-foreground">{label}</Label>
+                <StarRating
+                  value={categories[key]}
+                  onChange={(value) =>
+                    setCategories((prev) => ({ ...prev, [key]: value }))
+                  }
+                  label={label}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Comments */}
+          <div className="grid gap-2">
+            <Label htmlFor="reviewComments">Comments</Label>
+            <Textarea
+              id="reviewComments"
+              placeholder="What went well? What could be better?"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Maybe Later
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading || rating === 0}>
+            {loading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              "Submit Review"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,158 @@
+/**
+ * Notifications Context
+ *
+ * Provides global state for the in-app notification center. Loads the
+ * latest notifications from the API and prepends new ones as they are
+ * pushed over the socket, so the header badge updates instantly.
+ *
+ * @fileoverview Context for notifications and their unread count
+ */
+'use client';
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+} from 'react';
+import { useSession } from 'next-auth/react';
+import { useChatSocket } from '@/hooks/useChatSocket';
+import { useWallet } from '@/contexts/wallet-context';
+import type { NotificationItem } from '@/lib/types/notifications';
+
+// Number of recent notifications kept in memory for the dropdown
+const NOTIFICATIONS_LIMIT = 10;
+
+// Notification types that mean the user's wallet balance just changed
+const CREDIT_NOTIFICATION_TYPES = new Set([
+  'CONNECTION_ACCEPTED',
+  'SESSION_ACCEPTED',
+  'SESSION_DECLINED',
+  'SESSION_COMPLETED',
+  'SESSION_CANCELLED',
+  'DISPUTE_RESOLVED',
+]);
+
+interface NotificationsContextType {
+  notifications: NotificationItem[];
+  unreadCount: number;
+  isLoading: boolean;
+  refreshNotifications: () => Promise<void>;
+  markAsRead: (notificationIds?: string[]) => Promise<void>;
+}
+
+const NotificationsContext = createContext<
+  NotificationsContextType | undefined
+>(undefined);
+
+export function NotificationsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { status } = useSession();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { onNotificationReceived } = useChatSocket();
+  const { refreshWallet } = useWallet();
+
+  // Fetch the latest notifications and unread count from API
+  const refreshNotifications = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(
+        `/api/notifications?limit=${NOTIFICATIONS_LIMIT}`,
+        { cache: 'no-store' }
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      refreshNotifications();
+    } else if (status === 'unauthenticated') {
+      setNotifications([]);
+      setUnreadCount(0);
+    }
+  }, [status, refreshNotifications]);
+
+  // Listen for pushed notifications and update the list instantly
+  useEffect(() => {
+    const unsubscribe = onNotificationReceived((notification) => {
+      setNotifications((prev) => {
+        if (prev.some((n) => n.id === notification.id)) return prev;
+        return [notification, ...prev].slice(0, NOTIFICATIONS_LIMIT);
+      });
+      if (!notification.isRead) {
+        setUnreadCount((prev) => prev + 1);
+      }
+      if (CREDIT_NOTIFICATION_TYPES.has(notification.type)) {
+        refreshWallet();
+      }
+    });
+
+    return unsubscribe;
+  }, [onNotificationReceived, refreshWallet]);
+
+  // Mark notifications as read (all of them when no IDs are given)
+  const markAsRead = useCallback(async (notificationIds?: string[]) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          notificationIds ? { notificationIds } : { markAll: true }
+        ),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setUnreadCount(data.unreadCount);
+        setNotifications((prev) =>
+          prev.map((n) =>
+            !notificationIds || notificationIds.includes(n.id)
+              ? { ...n, isRead: true }
+              : n
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  }, []);
+
+  return (
+    <NotificationsContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        isLoading,
+        refreshNotifications,
+        markAsRead,
+      }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error(
+      'useNotifications must be used within NotificationsProvider'
+    );
+  }
+  return context;
+}
@@ -1,11 +1,17 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { signOut } from 'next-auth/react';
 import {
   SocketMessage,
   SendMessagePayload,
   MessageSentPayload,
   SocketErrorPayload,
 } from '@/lib/types/messages';
+import {
+  NOTIFICATION_EVENT,
+  SocketNotificationPayload,
+} from '@/lib/types/notifications';
+import { ACCOUNT_SUSPENDED_EVENT } from '@/lib/types/moderation';
 
 const SOCKET_URL =
   process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:4000';
@@ -105,6 +111,11 @@ export const useChatSocket = () => {
     Set<(data: { connectionId: string; clearedBy: string }) => void>
   >(new Set());
 
+  // Notification callbacks
+  const notificationCallbacks = useRef<
+    Set<(notification: SocketNotificationPayload) => void>
+  >(new Set());
+
   // ==================== HEARTBEAT MANAGEMENT ====================
   // Send periodic heartbeat to server (keeps connection alive)
   const startHeartbeat = useCallback(() => {
@@ -367,6 +378,19 @@ export const useChatSocket = () => {
           conversationClearedCallbacks.current.forEach((cb) => cb(data));
         }
       );
+
+      // Notification events (published by API routes via the socket server)
+      socketRef.current.on(
+        NOTIFICATION_EVENT,
+        (notification: SocketNotificationPayload) => {
+          notificationCallbacks.current.forEach((cb) => cb(notification));
+        }
+      );
+
+      // Account suspended by a moderator - the server drops the socket next
+      socketRef.current.on(ACCOUNT_SUSPENDED_EVENT, () => {
+        signOut({ callbackUrl: '/login?error=AccountSuspended' });
+      });
     } catch (err) {
       console.error('Socket Init Error', err);
     }
@@ -625,6 +649,17 @@ export const useChatSocket = () => {
     []
   );
 
+  // Subscribe to pushed notifications
+  const onNotificationReceived = useCallback(
+    (callback: (notification: SocketNotificationPayload) => void) => {
+      notificationCallbacks.current.add(callback);
+      return () => {
+        notificationCallbacks.current.delete(callback);
+      };
+    },
+    []
+  );
+
   // Reconnect manually
   const reconnect = useCallback(() => {
     if (!socketRef.current?.connected) {
@@ -659,5 +694,7 @@ export const useChatSocket = () => {
     notifyConversationCleared,
     onMessagesDeleted,
     onConversationCleared,
+    // Notifications
+    onNotificationReceived,
   };
 };
@@ -0,0 +1,125 @@
+/**
+ * Account Status
+ *
+ * Suspension checks shared by sign-in, API routes and the queries that
+ * hide suspended users' content. A suspension is either temporary
+ * (suspendedUntil set) or permanent (suspendedUntil null). Temporary
+ * suspensions lift themselves once they expire.
+ *
+ * @fileoverview Suspension lookup and API guard
+ */
+import { NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export const ACCOUNT_SUSPENDED_CODE = 'ACCOUNT_SUSPENDED';
+
+export interface Suspension {
+  until: Date | null;
+  reason: string | null;
+}
+
+interface SuspendableUser {
+  status: string;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
+}
+
+/**
+ * Return the suspension currently in force for a user row, if any
+ */
+export function getActiveSuspension(
+  user: SuspendableUser,
+  now: Date = new Date()
+): Suspension | null {
+  if (user.status !== 'SUSPENDED') return null;
+  if (user.suspendedUntil && user.suspendedUntil <= now) return null;
+
+  return { until: user.suspendedUntil, reason: user.suspensionReason };
+}
+
+/**
+ * Load a user's suspension, clearing it first if it has expired
+ */
+export async function getUserSuspension(
+  userId: string
+): Promise<Suspension | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { status: true, suspendedUntil: true, suspensionReason: true },
+  });
+
+  if (!user || user.status !== 'SUSPENDED') return null;
+
+  const suspension = getActiveSuspension(user);
+  if (!suspension) {
+    await liftSuspension(userId);
+  }
+
+  return suspension;
+}
+
+/**
+ * Reactivate an account whose temporary suspension has run out
+ */
+async function liftSuspension(userId: string): Promise<void> {
+  try {
+    await prisma.user.updateMany({
+      where: {
+        id: userId,
+        status: 'SUSPENDED',
+        suspendedUntil: { lte: new Date() },
+      },
+      data: { status: 'ACTIVE', suspendedUntil: null, suspensionReason: null },
+    });
+  } catch (error) {
+    console.error('Error lifting expired suspension:', error);
+  }
+}
+
+/**
+ * Human-readable explanation shown on the login page and in API errors
+ */
+export function getSuspensionMessage(suspension: Suspension): string {
+  if (!suspension.until) {
+    return 'Your account has been permanently suspended.';
+  }
+
+  const until = suspension.until.toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  });
+  return `Your account is suspended until ${until} UTC.`;
+}
+
+/**
+ * API guard: returns a 403 response for suspended users, or null to
+ * let the request through. Call it right after the session check.
+ */
+export async function rejectSuspendedUser(
+  userId: string
+): Promise<NextResponse | null> {
+  const suspension = await getUserSuspension(userId);
+
+  if (!suspension) return null;
+
+  return NextResponse.json(
+    {
+      error: getSuspensionMessage(suspension),
+      code: ACCOUNT_SUSPENDED_CODE,
+      suspendedUntil: suspension.until,
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Prisma filter matching users who are not currently suspended.
+ * Use it on relations (e.g. skill owner, post author) to hide content.
+ */
+export function activeUserFilter(): Prisma.UserWhereInput {
+  return {
+    OR: [{ status: 'ACTIVE' }, { suspendedUntil: { lte: new Date() } }],
+  };
+}
@@ -20,7 +20,14 @@ export const authConfig: NextAuthConfig = {
       const pathname = nextUrl.pathname;
 
       // Public routes that don't require authentication
-      const publicRoutes = ['/', '/login', '/signup'];
+      const publicRoutes = [
+        '/',
+        '/login',
+        '/signup',
+        '/forgot-password',
+        '/reset-password',
+        '/verify-email',
+      ];
       const isPublicRoute = publicRoutes.includes(pathname);
 
       // Auth routes (login/signup) - redirect to dashboard if already logged in
@@ -1,4 +1,4 @@
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
 import Google from 'next-auth/providers/google';
 import Facebook from 'next-auth/providers/facebook';
 import Credentials from 'next-auth/providers/credentials';
@@ -7,6 +7,16 @@ import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
 import type { NextAuthConfig } from 'next-auth';
 import { authConfig } from './auth.config';
+import { getUserSuspension } from '@/lib/account-status';
+import { openWallet } from '@/lib/ledger';
+
+/**
+ * Thrown from authorize so the login page can tell a suspended
+ * account apart from a wrong password
+ */
+class AccountSuspendedError extends CredentialsSignin {
+  code = 'account_suspended';
+}
 
 /**
  * Full NextAuth configuration with Prisma adapter
@@ -55,6 +65,10 @@ const fullAuthConfig: NextAuthConfig = {
             return null;
           }
 
+          if (await getUserSuspension(user.id)) {
+            throw new AccountSuspendedError();
+          }
+
           return {
             id: user.id,
             email: user.email,
@@ -62,6 +76,9 @@ const fullAuthConfig: NextAuthConfig = {
             image: user.image,
           };
         } catch (error) {
+          if (error instanceof AccountSuspendedError) {
+            throw error;
+          }
           console.error('Authorize error:', error);
           return null;
         }
@@ -80,15 +97,9 @@ const fullAuthConfig: NextAuthConfig = {
     async createUser({ user }) {
       if (user.id) {
         try {
-          // Create wallet with initial 100 credits for new users
-          await prisma.wallet.create({
-            data: {
-              userId: user.id,
-              availableBalance: 100,
-              outgoingBalance: 0,
-              incomingBalance: 0,
-            },
-          });
+          // Create wallet with the welcome bonus for new users
+          const userId = user.id;
+          await prisma.$transaction((tx) => openWallet(tx, userId));
 
           // Mark user as verified if they signed up via OAuth
           // OAuth providers (Google, Facebook) have already verified the email
@@ -159,8 +170,17 @@ const fullAuthConfig: NextAuthConfig = {
      * SignIn callback - called when user signs in
      */
     async signIn({ user, account }) {
-      // Allow all sign ins
       if (account?.provider === 'google' || account?.provider === 'facebook') {
+        // Block suspended accounts; new OAuth users have no record yet
+        if (user.email) {
+          const existingUser = await prisma.user.findUnique({
+            where: { email: user.email },
+            select: { id: true },
+          });
+          if (existingUser && (await getUserSuspension(existingUser.id))) {
+            return '/login?error=AccountSuspended';
+          }
+        }
         return true;
       }
       if (account?.provider === 'credentials') {
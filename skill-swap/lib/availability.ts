@@ -0,0 +1,426 @@
+/**
+ * Availability
+ *
+ * A user's teaching hours are weekly recurring slots plus date exceptions,
+ * all as wall-clock times in the user's time zone. For any date:
+ * - a BLACKOUT exception means no availability at all
+ * - otherwise AVAILABLE exceptions, if there are any, replace the weekly
+ *   slots for that date
+ * - otherwise the weekly slots for that day of the week apply
+ *
+ * Free slots are those windows converted to absolute instants, minus the
+ * user's existing sessions. Time zone conversion uses Intl, so daylight
+ * saving changes are respected.
+ *
+ * No database access here so client components can import it.
+ *
+ * @fileoverview Availability validation and free slot calculation
+ */
+import { AVAILABILITY, VALIDATION } from '@/lib/constants';
+import type {
+  AvailabilityExceptionItem,
+  AvailabilitySchedule,
+  FreeSlot,
+  WeeklySlot,
+} from '@/lib/types/availability';
+
+const MINUTES_PER_DAY = 24 * 60;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+] as const;
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * "HH:mm" for a number of minutes from midnight; 1440 is "24:00"
+ */
+export function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(rest).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes from midnight for an "HH:mm" time, or null if it isn't one
+ */
+export function timeToMinutes(time: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+/**
+ * "9:00 AM" style label for a number of minutes from midnight
+ */
+export function formatMinutes(minutes: number): string {
+  if (minutes === MINUTES_PER_DAY) return 'Midnight';
+  const hours = Math.floor(minutes / 60);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zoneParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// How far the time zone is ahead of UTC at an instant, in milliseconds
+function zoneOffset(instant: Date, timeZone: string): number {
+  const p = zoneParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The "YYYY-MM-DD" date an instant falls on in a time zone
+ */
+export function dateKeyInZone(instant: Date, timeZone: string): string {
+  const p = zoneParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes from midnight of an instant's wall-clock time in a time zone
+ */
+export function minutesInZone(instant: Date, timeZone: string): number {
+  const p = zoneParts(instant, timeZone);
+  return p.hour * 60 + p.minute;
+}
+
+/**
+ * The instant of a wall-clock time on a date in a time zone. Times that
+ * don't exist, skipped when the clocks go forward, are moved forward by
+ * the size of the gap.
+ */
+export function zonedTimeToUtc(
+  dateKey: string,
+  minutes: number,
+  timeZone: string
+): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  const firstGuess = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  const offset = zoneOffset(new Date(firstGuess), timeZone);
+  const instant = new Date(wallClock - offset);
+
+  // In a gap the corrected instant reads as an earlier wall-clock time;
+  // the first guess is the same time after the clocks went forward
+  const local = zoneParts(instant, timeZone);
+  return local.hour * 60 + local.minute === minutes % MINUTES_PER_DAY
+    ? instant
+    : new Date(firstGuess);
+}
+
+/**
+ * The "YYYY-MM-DD" date a number of calendar days after another
+ */
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function dayOfWeek(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function isValidWindow(start: unknown, end: unknown): boolean {
+  return (
+    Number.isInteger(start) &&
+    Number.isInteger(end) &&
+    (start as number) >= 0 &&
+    (end as number) <= MINUTES_PER_DAY &&
+    (start as number) < (end as number) &&
+    (start as number) % AVAILABILITY.STEP_MINUTES === 0 &&
+    (end as number) % AVAILABILITY.STEP_MINUTES === 0
+  );
+}
+
+function overlaps(windows: Interval[]): boolean {
+  const sorted = [...windows].sort((a, b) => a.start - b.start);
+  return sorted.some((w, i) => i > 0 && w.start < sorted[i - 1].end);
+}
+
+/**
+ * Check a schedule sent by the settings editor, returning it sorted
+ */
+export function validateSchedule(input: {
+  slots?: unknown;
+  exceptions?: unknown;
+}):
+  | { slots: WeeklySlot[]; exceptions: AvailabilityExceptionItem[] }
+  | { error: string } {
+  const rawSlots = Array.isArray(input.slots) ? input.slots : [];
+  const rawExceptions = Array.isArray(input.exceptions) ? input.exceptions : [];
+
+  if (rawSlots.length > AVAILABILITY.MAX_WEEKLY_SLOTS) {
+    return { error: `You can add at most ${AVAILABILITY.MAX_WEEKLY_SLOTS} weekly slots` };
+  }
+
+  if (rawExceptions.length > AVAILABILITY.MAX_EXCEPTIONS) {
+    return { error: `You can add at most ${AVAILABILITY.MAX_EXCEPTIONS} date exceptions` };
+  }
+
+  const slots: WeeklySlot[] = [];
+  for (const raw of rawSlots as Partial<WeeklySlot>[]) {
+    const day = raw?.dayOfWeek;
+    if (!Number.isInteger(day) || (day as number) < 0 || (day as number) > 6) {
+      return { error: 'Invalid day of the week' };
+    }
+    if (!isValidWindow(raw.startMinute, raw.endMinute)) {
+      return {
+        error: `${DAY_LABELS[day as number]}: end time must be after start time, in ${AVAILABILITY.STEP_MINUTES} minute steps`,
+      };
+    }
+    slots.push({
+      dayOfWeek: day as number,
+      startMinute: raw.startMinute as number,
+      endMinute: raw.endMinute as number,
+    });
+  }
+
+  for (let day = 0; day < 7; day++) {
+    const windows = slots
+      .filter((s) => s.dayOfWeek === day)
+      .map((s) => ({ start: s.startMinute, end: s.endMinute }));
+    if (overlaps(windows)) {
+      return { error: `${DAY_LABELS[day]} has overlapping slots` };
+    }
+  }
+
+  const exceptions: AvailabilityExceptionItem[] = [];
+  for (const raw of rawExceptions as Partial<AvailabilityExceptionItem>[]) {
+    if (typeof raw?.date !== 'string' || !DATE_KEY_PATTERN.test(raw.date)) {
+      return { error: 'Invalid exception date' };
+    }
+    if (raw.type !== 'AVAILABLE' && raw.type !== 'BLACKOUT') {
+      return { error: 'Invalid exception type' };
+    }
+    if (raw.type === 'AVAILABLE' && !isValidWindow(raw.startMinute, raw.endMinute)) {
+      return {
+        error: `${raw.date}: end time must be after start time, in ${AVAILABILITY.STEP_MINUTES} minute steps`,
+      };
+    }
+    if (
+      raw.reason != null &&
+      (typeof raw.reason !== 'string' ||
+        raw.reason.length > VALIDATION.AVAILABILITY_REASON_MAX_LENGTH)
+    ) {
+      return {
+        error: `Reason must be ${VALIDATION.AVAILABILITY_REASON_MAX_LENGTH} characters or less`,
+      };
+    }
+    exceptions.push({
+      date: raw.date,
+      type: raw.type,
+      startMinute: raw.type === 'AVAILABLE' ? (raw.startMinute as number) : null,
+      endMinute: raw.type === 'AVAILABLE' ? (raw.endMinute as number) : null,
+      reason: raw.reason?.trim() || null,
+    });
+  }
+
+  const dates = new Set(exceptions.map((e) => e.date));
+  for (const date of dates) {
+    const windows = exceptions
+      .filter((e) => e.date === date && e.type === 'AVAILABLE')
+      .map((e) => ({ start: e.startMinute as number, end: e.endMinute as number }));
+    if (overlaps(windows)) {
+      return { error: `${date} has overlapping windows` };
+    }
+  }
+
+  return {
+    slots: slots.sort(
+      (a, b) => a.dayOfWeek - b.dayOfWeek || a.startMinute - b.startMinute
+    ),
+    exceptions: exceptions.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || (a.startMinute ?? 0) - (b.startMinute ?? 0)
+    ),
+  };
+}
+
+/**
+ * Whether the user has set any availability. Users who haven't can be
+ * booked at any time.
+ */
+export function hasAvailability(schedule: AvailabilitySchedule): boolean {
+  return schedule.slots.length > 0 || schedule.exceptions.length > 0;
+}
+
+/**
+ * The windows, in minutes from midnight, a user is available on a date
+ */
+export function windowsForDate(
+  schedule: AvailabilitySchedule,
+  dateKey: string
+): Interval[] {
+  const exceptions = schedule.exceptions.filter((e) => e.date === dateKey);
+
+  if (exceptions.some((e) => e.type === 'BLACKOUT')) return [];
+
+  if (exceptions.length > 0) {
+    return exceptions.map((e) => ({
+      start: e.startMinute as number,
+      end: e.endMinute as number,
+    }));
+  }
+
+  const day = dayOfWeek(dateKey);
+  return schedule.slots
+    .filter((s) => s.dayOfWeek === day)
+    .map((s) => ({ start: s.startMinute, end: s.endMinute }));
+}
+
+/**
+ * Free time between `from` and `to`: the schedule's windows minus busy
+ * periods, merged and in order
+ */
+export function computeFreeSlots(
+  schedule: AvailabilitySchedule,
+  busy: { startDate: Date; endDate: Date }[],
+  from: Date,
+  to: Date
+): FreeSlot[] {
+  const { timeZone } = schedule;
+  const rangeStart = from.getTime();
+  const rangeEnd = to.getTime();
+
+  // Availability windows as instants, clipped to the range
+  const open: Interval[] = [];
+  const lastDate = dateKeyInZone(to, timeZone);
+  for (
+    let date = dateKeyInZone(from, timeZone);
+    date <= lastDate;
+    date = addDays(date, 1)
+  ) {
+    for (const window of windowsForDate(schedule, date)) {
+      const start = Math.max(
+        zonedTimeToUtc(date, window.start, timeZone).getTime(),
+        rangeStart
+      );
+      const end = Math.min(
+        zonedTimeToUtc(date, window.end, timeZone).getTime(),
+        rangeEnd
+      );
+      if (start < end) open.push({ start, end });
+    }
+  }
+
+  // Merge windows that touch, e.g. a slot ending at midnight and the next
+  // day's slot starting at midnight
+  open.sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const window of open) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  const blocked = busy
+    .map((b) => ({ start: b.startDate.getTime(), end: b.endDate.getTime() }))
+    .sort((a, b) => a.start - b.start);
+
+  const free: FreeSlot[] = [];
+  for (const window of merged) {
+    let cursor = window.start;
+    for (const b of blocked) {
+      if (b.end <= cursor || b.start >= window.end) continue;
+      if (b.start > cursor) {
+        free.push({ startDate: new Date(cursor), endDate: new Date(b.start) });
+      }
+      cursor = Math.max(cursor, b.end);
+      if (cursor >= window.end) break;
+    }
+    if (cursor < window.end) {
+      free.push({ startDate: new Date(cursor), endDate: new Date(window.end) });
+    }
+  }
+
+  return free;
+}
+
+/**
+ * Whether the whole of `start`-`end` falls inside the schedule's windows
+ */
+export function isWithinSchedule(
+  schedule: AvailabilitySchedule,
+  start: Date,
+  end: Date
+): boolean {
+  const [window, ...rest] = computeFreeSlots(schedule, [], start, end);
+  return (
+    !!window &&
+    rest.length === 0 &&
+    new Date(window.startDate).getTime() === start.getTime() &&
+    new Date(window.endDate).getTime() === end.getTime()
+  );
+}
+
+/**
+ * Start times, on STEP_MINUTES boundaries, at which a session of
+ * `durationMinutes` fits inside one of the free slots
+ */
+export function bookableStarts(
+  slots: FreeSlot[],
+  durationMinutes: number
+): Date[] {
+  const step = AVAILABILITY.STEP_MINUTES * 60 * 1000;
+  const duration = durationMinutes * 60 * 1000;
+  const starts: Date[] = [];
+
+  for (const slot of slots) {
+    const end = new Date(slot.endDate).getTime();
+    let start = Math.ceil(new Date(slot.startDate).getTime() / step) * step;
+    for (; start + duration <= end; start += step) {
+      starts.push(new Date(start));
+    }
+  }
+
+  return starts;
+}
@@ -0,0 +1,239 @@
+/**
+ * Calendar Feed
+ *
+ * Sessions as iCalendar (RFC 5545) events, for a per-user feed that
+ * Google Calendar, Outlook and others can subscribe to, and for a single
+ * session's "Add to calendar" download.
+ *
+ * The feed URL carries a secret token. Only its SHA-256 hash is stored,
+ * so the URL is shown once when it's generated; generating a new one
+ * stops the old URL working.
+ *
+ * Times are written in UTC, which every client shows in its own time
+ * zone. Each event's SEQUENCE counts accepted reschedules, plus one once
+ * the session is cancelled, so clients replace their copy when it moves
+ * or is cancelled.
+ *
+ * @fileoverview iCalendar events for sessions and the feed token
+ */
+import { randomBytes } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { APP_NAME, CALENDAR_FEED } from '@/lib/constants';
+import { getAppUrl } from '@/lib/mail';
+import { hashToken } from '@/lib/verification-tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const USER_SELECT = { id: true, fullName: true, name: true } as const;
+
+const CALENDAR_SESSION_SELECT = {
+  id: true,
+  sessionName: true,
+  description: true,
+  mode: true,
+  status: true,
+  startDate: true,
+  endDate: true,
+  updatedAt: true,
+  learnerId: true,
+  learner: { select: USER_SELECT },
+  provider: { select: USER_SELECT },
+  skill: { select: { name: true } },
+  _count: {
+    select: { rescheduleProposals: { where: { status: 'ACCEPTED' } } },
+  },
+} as const;
+
+type CalendarSession = Prisma.SessionGetPayload<{
+  select: typeof CALENDAR_SESSION_SELECT;
+}>;
+
+// ==================== iCalendar formatting ====================
+
+// 20260131T090000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function displayName(user: { fullName: string | null; name: string | null }) {
+  return user.fullName || user.name || 'User';
+}
+
+function sessionEvent(session: CalendarSession, userId: string, now: Date) {
+  const isLearner = session.learnerId === userId;
+  const otherUser = isLearner ? session.provider : session.learner;
+  const cancelled = session.status === 'CANCELLED';
+
+  const description = [
+    `${isLearner ? 'Learning' : 'Teaching'} ${session.skill.name} with ${displayName(otherUser)}`,
+    session.description,
+    getAppUrl('/sessions'),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:session-${session.id}@skill-swap`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `LAST-MODIFIED:${formatUtc(session.updatedAt)}`,
+    `SEQUENCE:${session._count.rescheduleProposals + (cancelled ? 1 : 0)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `DTSTART:${formatUtc(session.startDate)}`,
+    `DTEND:${formatUtc(session.endDate)}`,
+    `SUMMARY:${escapeText(`${session.sessionName} (${APP_NAME})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${session.mode === 'PHYSICAL' ? 'In person' : 'Online'}`,
+    `URL:${getAppUrl('/sessions')}`,
+    'END:VEVENT',
+  ];
+}
+
+function buildCalendar(
+  name: string,
+  timeZone: string,
+  sessions: CalendarSession[],
+  userId: string
+): string {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${APP_NAME}//Sessions//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...sessions.flatMap((session) => sessionEvent(session, userId, now)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ==================== Feed token ====================
+
+/**
+ * Generate a new feed token for a user, replacing any previous one.
+ * Returns the raw token; only its hash is stored.
+ */
+export async function regenerateCalendarToken(userId: string): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      calendarTokenHash: hashToken(token),
+      calendarTokenCreatedAt: new Date(),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Stop a user's feed URL working
+ */
+export async function revokeCalendarToken(userId: string) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { calendarTokenHash: null, calendarTokenCreatedAt: null },
+  });
+}
+
+export function calendarFeedUrl(token: string): string {
+  return getAppUrl(`/api/calendar/${token}.ics`);
+}
+
+// ==================== Calendars ====================
+
+/**
+ * The feed for the user a token belongs to, or null if it belongs to no
+ * one: their upcoming sessions, plus those that ended or were cancelled
+ * in the last PAST_DAYS days
+ */
+export async function getCalendarFeed(token: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { calendarTokenHash: hashToken(token) },
+    select: { id: true, timeZone: true },
+  });
+
+  if (!user) return null;
+
+  const sessions = await prisma.session.findMany({
+    where: {
+      OR: [{ learnerId: user.id }, { providerId: user.id }],
+      endDate: {
+        gt: new Date(Date.now() - CALENDAR_FEED.PAST_DAYS * DAY_MS),
+      },
+    },
+    select: CALENDAR_SESSION_SELECT,
+    orderBy: { startDate: 'asc' },
+  });
+
+  return buildCalendar(`${APP_NAME} Sessions`, user.timeZone, sessions, user.id);
+}
+
+/**
+ * A single session as a calendar file, or null if the user isn't part of
+ * it
+ */
+export async function getSessionCalendar(
+  sessionId: string,
+  userId: string
+): Promise<string | null> {
+  const session = await prisma.session.findFirst({
+    where: {
+      id: sessionId,
+      OR: [{ learnerId: userId }, { providerId: userId }],
+    },
+    select: CALENDAR_SESSION_SELECT,
+  });
+
+  if (!session) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timeZone: true },
+  });
+
+  return buildCalendar(
+    session.sessionName,
+    user?.timeZone || 'UTC',
+    [session],
+    userId
+  );
+}
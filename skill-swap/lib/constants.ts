@@ -31,6 +31,87 @@ export const CREDITS = {
   MAX_HOURLY_RATE: 200,
   DEFAULT_HOURLY_RATE: 50,
   NEW_USER_BONUS: 100,
+  // Flat fees paid to the receiver when a request is accepted
+  CONNECTION_REQUEST_FEE: 5,
+  SESSION_REQUEST_FEE: 5,
+  // Session time is billed in 15 minute blocks, rounded up
+  BILLING_INCREMENT_MINUTES: 15,
+  MIN_SESSION_MINUTES: 30,
+  MAX_SESSION_MINUTES: 8 * 60,
+  // Gifts and tips between connected users, per rolling 24 hours
+  MAX_TRANSFERS_PER_DAY: 10,
+  MAX_TRANSFER_CREDITS_PER_DAY: 100,
+} as const
+
+/**
+ * How long connection and session requests stay pending before they
+ * expire and their held credits are refunded. The TTLs can be overridden
+ * with the CONNECTION_REQUEST_TTL_DAYS and SESSION_REQUEST_TTL_DAYS env vars.
+ */
+export const REQUEST_EXPIRY = {
+  CONNECTION_REQUEST_TTL_DAYS: 14,
+  SESSION_REQUEST_TTL_DAYS: 7,
+  // Expired requests stay listed on /connections and /sessions this long
+  EXPIRED_VISIBLE_DAYS: 14,
+} as const
+
+/**
+ * Days after a session's end date before the settlement job resolves a
+ * session only one party confirmed. Can be overridden with the
+ * SESSION_AUTO_SETTLE_DAYS env var.
+ */
+export const SESSION_SETTLEMENT = {
+  AUTO_SETTLE_AFTER_DAYS: 3,
+} as const
+
+/**
+ * Recurring session series. Each occurrence's credits are reserved this
+ * many days before it starts rather than all up front.
+ */
+export const SESSION_SERIES = {
+  MAX_OCCURRENCES: 26,
+  RESERVE_AHEAD_DAYS: 3,
+} as const
+
+/**
+ * Group sessions: one provider, several learners who each reserve a seat
+ */
+export const GROUP_SESSIONS = {
+  MIN_SEATS: 2,
+  MAX_SEATS: 20,
+} as const
+
+/**
+ * Weekly availability. Slot times are picked in STEP_MINUTES steps, and
+ * free slots can be looked up at most MAX_RANGE_DAYS at a time. Learners
+ * book one of BOOKING_DURATIONS_MINUTES inside a free slot.
+ */
+export const AVAILABILITY = {
+  STEP_MINUTES: 15,
+  MAX_WEEKLY_SLOTS: 50,
+  MAX_EXCEPTIONS: 100,
+  DEFAULT_RANGE_DAYS: 14,
+  MAX_RANGE_DAYS: 62,
+  BOOKING_DURATIONS_MINUTES: [30, 45, 60, 90, 120],
+} as const
+
+/**
+ * Calendar feed: cancelled and finished sessions stay in the feed for
+ * PAST_DAYS so subscribed calendars pick up the change
+ */
+export const CALENDAR_FEED = {
+  PAST_DAYS: 30,
+} as const
+
+/**
+ * Session disputes: active sessions can be disputed at any time, completed
+ * ones for a limited window after completion
+ */
+export const DISPUTES = {
+  WINDOW_DAYS: 7,
+  MAX_EVIDENCE_PER_USER: 10,
+  MAX_ATTACHMENT_SIZE: 10 * 1024 * 1024, // 10MB
+  ATTACHMENT_URL_TTL_SECONDS: 60 * 60, // signed evidence links last 1 hour
 } as const
 
 // =============================================================================
@@ -101,6 +182,19 @@ export const AVAILABILITY_OPTIONS = [
   { value: "flexible", label: "Flexible" },
 ] as const
 
+/**
+ * Experience levels a learning post can target
+ */
+export const EXPERIENCE_LEVELS = ["Beginner", "Intermediate", "Advanced"] as const
+
+/**
+ * Learning post limits
+ */
+export const LEARNING_POSTS = {
+  MAX_REQUESTED_SKILLS: 5,
+  MAX_SKILL_NAME_LENGTH: 50,
+} as const
+
 /**
  * Skill categories for filtering
  */
@@ -136,6 +230,22 @@ export const VALIDATION = {
   
   // Messages
   MESSAGE_MAX_LENGTH: 2000,
+
+  // Credit transfers
+  TRANSFER_NOTE_MAX_LENGTH: 200,
+
+  // Session disputes
+  DISPUTE_DESCRIPTION_MIN_LENGTH: 20,
+  DISPUTE_TEXT_MAX_LENGTH: 2000,
+
+  // Session rescheduling
+  RESCHEDULE_REASON_MAX_LENGTH: 500,
+
+  // Availability exceptions
+  AVAILABILITY_REASON_MAX_LENGTH: 200,
+
+  // Group session problem reports
+  GROUP_REPORT_REASON_MAX_LENGTH: 500,
 } as const
 
 // =============================================================================
@@ -159,7 +269,7 @@ export const EXTERNAL_LINKS = {
  */
 export const FEATURES = {
   enableVideoSessions: true,
-  enableGroupSessions: false,
+  enableGroupSessions: true,
   enableAIRecommendations: false,
   enableDarkMode: true,
 } as const
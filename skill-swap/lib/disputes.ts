@@ -0,0 +1,531 @@
+/**
+ * Session Disputes
+ *
+ * Either participant can dispute an ACTIVE session, or a COMPLETED one
+ * within DISPUTES.WINDOW_DAYS of completion, with a reason and evidence.
+ * While the dispute is open the session is DISPUTED and its credits are
+ * frozen:
+ *
+ * - Active sessions: the learner's reserved session credits stay in their
+ *   outgoing balance, since the session can no longer be completed or
+ *   cancelled.
+ * - Completed sessions: the credits the provider earned are moved back
+ *   into the provider's outgoing balance with a DISPUTE_HOLD, up to what
+ *   they still have available.
+ *
+ * An admin resolves the dispute by refunding all, part or none of the
+ * frozen credits to the learner; the rest goes to (or back to) the
+ * provider. Every movement is recorded as a Transaction and the decision
+ * in the AdminLog.
+ *
+ * @fileoverview Dispute creation and admin resolution
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DISPUTES } from '@/lib/constants';
+import {
+  holdCredits,
+  ledgerReference,
+  releaseHold,
+  settleHold,
+} from '@/lib/ledger';
+import { logAdminAction } from '@/lib/moderation';
+import {
+  createSignedStorageUrls,
+  DISPUTE_EVIDENCE_BUCKET,
+} from '@/lib/supabase';
+import {
+  createNotifications,
+  type CreateNotificationInput,
+} from '@/lib/notifications';
+import type {
+  DisputeItem,
+  DisputeReason,
+  DisputeResolution,
+  DisputeUser,
+} from '@/lib/types/disputes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const USER_SELECT = {
+  id: true,
+  fullName: true,
+  name: true,
+  image: true,
+} as const;
+
+export const DISPUTE_INCLUDE = {
+  session: {
+    select: {
+      sessionName: true,
+      sessionCredits: true,
+      learner: { select: USER_SELECT },
+      provider: { select: USER_SELECT },
+    },
+  },
+  raisedBy: { select: USER_SELECT },
+  evidence: {
+    include: { submittedBy: { select: USER_SELECT } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.SessionDisputeInclude;
+
+type DisputeWithRelations = Prisma.SessionDisputeGetPayload<{
+  include: typeof DISPUTE_INCLUDE;
+}>;
+
+/**
+ * A dispute action that can't be applied, with the HTTP status the API
+ * should answer with
+ */
+export class DisputeError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
+
+function toDisputeUser(user: {
+  id: string;
+  fullName: string | null;
+  name: string | null;
+  image: string | null;
+}): DisputeUser {
+  return {
+    id: user.id,
+    name: user.fullName || user.name || 'User',
+    image: user.image,
+  };
+}
+
+function toDisputeItem(
+  dispute: DisputeWithRelations,
+  attachmentUrls: Map<string, string>
+): DisputeItem {
+  return {
+    id: dispute.id,
+    sessionId: dispute.sessionId,
+    sessionName: dispute.session.sessionName,
+    sessionCredits: dispute.session.sessionCredits,
+    reason: dispute.reason as DisputeReason,
+    description: dispute.description,
+    status: dispute.status as DisputeItem['status'],
+    sessionStatus: dispute.sessionStatus as DisputeItem['sessionStatus'],
+    frozenCredits: dispute.frozenCredits,
+    resolution: dispute.resolution as DisputeResolution | null,
+    refundedCredits: dispute.refundedCredits,
+    resolutionNote: dispute.resolutionNote,
+    createdAt: dispute.createdAt,
+    resolvedAt: dispute.resolvedAt,
+    raisedBy: toDisputeUser(dispute.raisedBy),
+    learner: toDisputeUser(dispute.session.learner),
+    provider: toDisputeUser(dispute.session.provider),
+    evidence: dispute.evidence.map((item) => ({
+      id: item.id,
+      content: item.content,
+      submittedBy: toDisputeUser(item.submittedBy),
+      attachment:
+        item.attachmentPath && attachmentUrls.has(item.attachmentPath)
+          ? {
+              url: attachmentUrls.get(item.attachmentPath)!,
+              name: item.attachmentName || 'Attachment',
+              type: item.attachmentType || 'application/octet-stream',
+              size: item.attachmentSize ?? 0,
+            }
+          : null,
+      createdAt: item.createdAt,
+    })),
+  };
+}
+
+/**
+ * Map disputes for the API. Evidence files live in a private bucket, so
+ * each attachment gets a short-lived signed URL; only call this once the
+ * caller is known to be a participant or an admin.
+ */
+export async function toDisputeItems(
+  disputes: DisputeWithRelations[]
+): Promise<DisputeItem[]> {
+  const paths = disputes.flatMap((dispute) =>
+    dispute.evidence.flatMap((item) =>
+      item.attachmentPath ? [item.attachmentPath] : []
+    )
+  );
+  const attachmentUrls = await createSignedStorageUrls(
+    DISPUTE_EVIDENCE_BUCKET,
+    paths,
+    DISPUTES.ATTACHMENT_URL_TTL_SECONDS
+  );
+
+  return disputes.map((dispute) => toDisputeItem(dispute, attachmentUrls));
+}
+
+/**
+ * Whether a session can still be disputed. Each session can only be
+ * disputed once.
+ */
+export function canDisputeSession(
+  session: { status: string; completedAt: Date | null },
+  hasDispute: boolean,
+  now = new Date()
+): boolean {
+  if (hasDispute) return false;
+  if (session.status === 'ACTIVE') return true;
+  return (
+    session.status === 'COMPLETED' &&
+    !!session.completedAt &&
+    now.getTime() - session.completedAt.getTime() <=
+      DISPUTES.WINDOW_DAYS * DAY_MS
+  );
+}
+
+/**
+ * Mark a session DISPUTED and freeze its credits. Must be called inside
+ * prisma.$transaction. Returns null if the session changed status since
+ * it was loaded.
+ */
+export async function openDispute(
+  tx: Prisma.TransactionClient,
+  input: {
+    session: {
+      id: string;
+      status: string;
+      sessionName: string;
+      sessionCredits: number;
+      learnerId: string;
+      providerId: string;
+    };
+    raisedById: string;
+    reason: DisputeReason;
+    description: string;
+  }
+) {
+  const { session } = input;
+
+  const { count } = await tx.session.updateMany({
+    where: { id: session.id, status: session.status },
+    data: { status: 'DISPUTED' },
+  });
+  if (count === 0) return null;
+
+  // Active sessions' credits are already held in the learner's outgoing
+  // balance; completed sessions' are pulled back from the provider
+  let frozenCredits = session.sessionCredits;
+  let providerWalletId: string | null = null;
+
+  if (session.status === 'COMPLETED') {
+    const providerWallet = await tx.wallet.findUnique({
+      where: { userId: session.providerId },
+      select: { id: true, availableBalance: true },
+    });
+    providerWalletId = providerWallet?.id ?? null;
+    frozenCredits = Math.min(
+      session.sessionCredits,
+      Math.max(0, providerWallet?.availableBalance ?? 0)
+    );
+  }
+
+  const dispute = await tx.sessionDispute.create({
+    data: {
+      sessionId: session.id,
+      raisedById: input.raisedById,
+      reason: input.reason,
+      description: input.description,
+      sessionStatus: session.status,
+      frozenCredits,
+    },
+  });
+
+  if (providerWalletId && frozenCredits > 0) {
+    const hold = await tx.transaction.create({
+      data: {
+        walletId: providerWalletId,
+        amount: -frozenCredits,
+        type: 'DISPUTE_HOLD',
+        status: 'PENDING',
+        relatedUserId: session.learnerId,
+        sessionId: session.id,
+        note: `Credits frozen while ${session.sessionName} is disputed`,
+      },
+    });
+
+    await holdCredits(tx, providerWalletId, frozenCredits, {
+      reference: ledgerReference('dispute', dispute.id),
+      transactionId: hold.id,
+    });
+  }
+
+  return dispute;
+}
+
+/**
+ * Resolve an open dispute by refunding all, `partialRefund` or none of
+ * the frozen credits to the learner and settling the rest with the provider
+ */
+export async function resolveDispute(
+  adminId: string,
+  disputeId: string,
+  resolution: DisputeResolution,
+  partialRefund: number | null,
+  note?: string | null
+) {
+  const dispute = await prisma.sessionDispute.findUnique({
+    where: { id: disputeId },
+    include: {
+      session: {
+        select: {
+          id: true,
+          sessionName: true,
+          learnerId: true,
+          providerId: true,
+          learner: { select: { wallet: { select: { id: true } } } },
+          provider: { select: { wallet: { select: { id: true } } } },
+        },
+      },
+    },
+  });
+
+  if (!dispute) {
+    throw new DisputeError('Dispute not found', 404);
+  }
+
+  if (dispute.status !== 'OPEN') {
+    throw new DisputeError('This dispute has already been resolved', 409);
+  }
+
+  const frozen = dispute.frozenCredits;
+  const refund =
+    resolution === 'FULL_REFUND'
+      ? frozen
+      : resolution === 'NO_REFUND'
+      ? 0
+      : partialRefund ?? -1;
+
+  if (
+    resolution === 'PARTIAL_REFUND' &&
+    (!Number.isInteger(refund) || refund < 1 || refund >= frozen)
+  ) {
+    throw new DisputeError(
+      frozen > 1
+        ? `A partial refund must be between 1 and ${frozen - 1} credits`
+        : 'These credits are too few to split; choose a full or no refund',
+      400
+    );
+  }
+
+  const { session } = dispute;
+  const learnerWalletId = session.learner.wallet?.id;
+  const providerWalletId = session.provider.wallet?.id;
+
+  if (!learnerWalletId || !providerWalletId) {
+    throw new DisputeError('Wallet not found for one or both users', 400);
+  }
+
+  const providerCredits = frozen - refund;
+  const now = new Date();
+  const trimmedNote = note?.trim() || null;
+  const reference = ledgerReference('dispute', dispute.id);
+
+  await prisma.$transaction(async (tx) => {
+    // Skip disputes resolved since they were loaded
+    const { count } = await tx.sessionDispute.updateMany({
+      where: { id: dispute.id, status: 'OPEN' },
+      data: {
+        status: 'RESOLVED',
+        resolution,
+        refundedCredits: refund,
+        resolutionNote: trimmedNote,
+        resolvedByAdminId: adminId,
+        resolvedAt: now,
+      },
+    });
+    if (count === 0) {
+      throw new DisputeError('This dispute has already been resolved', 409);
+    }
+
+    if (dispute.sessionStatus === 'ACTIVE') {
+      // The credits are still reserved in the learner's outgoing balance
+      await tx.transaction.updateMany({
+        where: {
+          walletId: learnerWalletId,
+          sessionId: session.id,
+          status: 'PENDING',
+          type: { in: ['SESSION_CREDITS_RESERVED', 'SESSION_REQUEST_SENT'] },
+        },
+        data:
+          providerCredits > 0
+            ? {
+                type: 'SESSION_COMPLETED',
+                status: 'COMPLETED',
+                note: `Dispute resolved: ${session.sessionName}`,
+              }
+            : { status: 'REFUNDED' },
+      });
+
+      if (providerCredits > 0) {
+        const earnings = await tx.transaction.create({
+          data: {
+            walletId: providerWalletId,
+            amount: providerCredits,
+            type: 'SESSION_COMPLETED',
+            status: 'COMPLETED',
+            relatedUserId: session.learnerId,
+            sessionId: session.id,
+            note: `Dispute resolved: ${session.sessionName} - earned ${providerCredits} credits`,
+          },
+        });
+
+        await settleHold(tx, learnerWalletId, providerWalletId, providerCredits, {
+          reference,
+          transactionId: earnings.id,
+        });
+      }
+
+      if (refund > 0) {
+        const refundTx = await tx.transaction.create({
+          data: {
+            walletId: learnerWalletId,
+            amount: refund,
+            type: 'DISPUTE_REFUND',
+            status: 'COMPLETED',
+            relatedUserId: session.providerId,
+            sessionId: session.id,
+            note: `Dispute resolved: ${session.sessionName} - ${refund} credits refunded`,
+          },
+        });
+
+        await releaseHold(tx, learnerWalletId, refund, {
+          reference,
+          transactionId: refundTx.id,
+        });
+      }
+
+      await tx.session.update({
+        where: { id: session.id },
+        data:
+          providerCredits > 0
+            ? {
+                status: 'COMPLETED',
+                learnerCompletionConfirmed: true,
+                providerCompletionConfirmed: true,
+                completedAt: now,
+              }
+            : {
+                status: 'CANCELLED',
+                cancelReason: 'Dispute resolved with a full refund',
+                cancelledAt: now,
+              },
+      });
+    } else {
+      // The frozen credits are held in the provider's outgoing balance
+      const hold = await tx.transaction.findFirst({
+        where: {
+          walletId: providerWalletId,
+          sessionId: session.id,
+          status: 'PENDING',
+          type: 'DISPUTE_HOLD',
+        },
+        select: { id: true },
+      });
+
+      if (hold) {
+        await tx.transaction.update({
+          where: { id: hold.id },
+          data: {
+            status: 'REFUNDED',
+            note: `Dispute resolved: ${session.sessionName} - ${providerCredits} of ${frozen} frozen credits released`,
+          },
+        });
+      }
+
+      if (refund > 0) {
+        await tx.transaction.create({
+          data: {
+            walletId: providerWalletId,
+            amount: -refund,
+            type: 'DISPUTE_REFUND',
+            status: 'COMPLETED',
+            relatedUserId: session.learnerId,
+            sessionId: session.id,
+            note: `Dispute resolved: ${session.sessionName} - ${refund} credits refunded to the learner`,
+          },
+        });
+
+        const refundTx = await tx.transaction.create({
+          data: {
+            walletId: learnerWalletId,
+            amount: refund,
+            type: 'DISPUTE_REFUND',
+            status: 'COMPLETED',
+            relatedUserId: session.providerId,
+            sessionId: session.id,
+            note: `Dispute resolved: ${session.sessionName} - ${refund} credits refunded`,
+          },
+        });
+
+        await settleHold(tx, providerWalletId, learnerWalletId, refund, {
+          reference,
+          transactionId: refundTx.id,
+        });
+      }
+
+      if (providerCredits > 0) {
+        await releaseHold(tx, providerWalletId, providerCredits, {
+          reference,
+          transactionId: hold?.id,
+        });
+      }
+
+      await tx.session.update({
+        where: { id: session.id },
+        data: { status: 'COMPLETED' },
+      });
+    }
+
+    await logAdminAction(tx, {
+      adminId,
+      action: 'DISPUTE_RESOLVED',
+      targetUserId: dispute.raisedById,
+      targetEntityType: 'session',
+      targetEntityId: session.id,
+      reason: trimmedNote,
+      details: {
+        disputeId: dispute.id,
+        resolution,
+        frozenCredits: frozen,
+        refundedCredits: refund,
+        providerCredits,
+      },
+    });
+  });
+
+  const outcome =
+    refund === 0
+      ? `${providerCredits} credits went to the provider`
+      : providerCredits === 0
+      ? `${refund} credits were refunded to the learner`
+      : `${refund} credits were refunded to the learner and ${providerCredits} went to the provider`;
+
+  const notifications: CreateNotificationInput[] = [
+    session.learnerId,
+    session.providerId,
+  ].map((userId) => ({
+    userId,
+    type: 'DISPUTE_RESOLVED',
+    title: 'Dispute resolved',
+    message: `The dispute over ${session.sessionName} was resolved: ${outcome}${
+      trimmedNote ? `. ${trimmedNote}` : ''
+    }`,
+    relatedUserId:
+      userId === session.learnerId ? session.providerId : session.learnerId,
+    relatedEntityId: session.id,
+    relatedEntityType: 'session',
+  }));
+
+  await createNotifications(notifications);
+
+  return { refundedCredits: refund, providerCredits };
+}
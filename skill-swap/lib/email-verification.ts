@@ -0,0 +1,102 @@
+/**
+ * Email Verification
+ *
+ * Credentials sign-ups start unverified and get an emailed link; OAuth
+ * users are verified by their provider. Unverified users can browse but
+ * can't send or accept connection and session requests until they
+ * confirm their address.
+ *
+ * @fileoverview Verification emails and the verified-email API guard
+ */
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { emailVerificationEmail, getAppUrl, sendMail } from '@/lib/mail';
+import {
+  consumeToken,
+  getLastTokenIssuedAt,
+  issueToken,
+} from '@/lib/verification-tokens';
+
+export const EMAIL_NOT_VERIFIED_CODE = 'EMAIL_NOT_VERIFIED';
+
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Minimum gap between verification emails to the same address
+export const VERIFICATION_RESEND_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Issue a verification token and email the link to the user
+ */
+export async function sendVerificationEmail(email: string): Promise<void> {
+  const token = await issueToken(
+    'email-verification',
+    email,
+    EMAIL_VERIFICATION_TTL_MS
+  );
+  const verifyUrl = getAppUrl(
+    `/verify-email?token=${encodeURIComponent(token)}`
+  );
+
+  await sendMail(
+    emailVerificationEmail(
+      email,
+      verifyUrl,
+      EMAIL_VERIFICATION_TTL_MS / (60 * 60 * 1000)
+    )
+  );
+}
+
+/**
+ * Milliseconds until another verification email may be sent, or 0
+ */
+export async function getResendCooldownMs(email: string): Promise<number> {
+  const lastIssuedAt = await getLastTokenIssuedAt(
+    'email-verification',
+    email,
+    EMAIL_VERIFICATION_TTL_MS
+  );
+  if (!lastIssuedAt) return 0;
+
+  const elapsed = Date.now() - lastIssuedAt.getTime();
+  return Math.max(0, VERIFICATION_RESEND_INTERVAL_MS - elapsed);
+}
+
+/**
+ * Redeem a verification token and mark the account verified.
+ * Returns false if the token is invalid or expired.
+ */
+export async function verifyEmailToken(token: string): Promise<boolean> {
+  const email = await consumeToken('email-verification', token);
+  if (!email) return false;
+
+  const { count } = await prisma.user.updateMany({
+    where: { email },
+    data: { isVerified: true, emailVerified: new Date() },
+  });
+
+  return count > 0;
+}
+
+/**
+ * API guard: returns a 403 response for users who haven't verified
+ * their email, or null to let the request through
+ */
+export async function rejectUnverifiedUser(
+  userId: string
+): Promise<NextResponse | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { isVerified: true },
+  });
+
+  if (!user || user.isVerified) return null;
+
+  return NextResponse.json(
+    {
+      error:
+        'Please verify your email address first. Check your inbox or resend the link from Settings.',
+      code: EMAIL_NOT_VERIFIED_CODE,
+    },
+    { status: 403 }
+  );
+}
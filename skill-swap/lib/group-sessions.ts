@@ -0,0 +1,1094 @@
+/**
+ * Group Sessions
+ *
+ * A provider opens a group session for one of the skills they teach, with
+ * a seat limit and a price per seat. Learners connected with the provider
+ * take a seat before it starts; each seat holds its learner's credits
+ * separately, like a 1:1 session's reservation. A learner can leave before
+ * the session starts and gets their credits back.
+ *
+ * Completion is confirmed per seat: once both the learner and the
+ * provider have confirmed a seat, its credits go to the provider. The
+ * provider can confirm every seat at once. The group session is COMPLETED
+ * when no seats are left waiting.
+ *
+ * The provider can cancel the session until a seat has been completed,
+ * which refunds every seat.
+ *
+ * A learner whose session didn't happen can report it instead of
+ * confirming. Some days after the session's end date, the settlement job
+ * resolves every seat still waiting: reported seats and seats neither side
+ * confirmed are refunded, and seats one side confirmed are paid out. The
+ * group session is then COMPLETED, or CANCELLED if no seat was paid out.
+ *
+ * @fileoverview Group session creation, seats, completion and cancellation
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { GROUP_SESSIONS } from '@/lib/constants';
+import {
+  holdCredits,
+  InsufficientCreditsError,
+  ledgerReference,
+  releaseHold,
+  settleHold,
+} from '@/lib/ledger';
+import {
+  createNotification,
+  createNotifications,
+  type CreateNotificationInput,
+} from '@/lib/notifications';
+import { quoteSessionPrice, resolveHourlyRate } from '@/lib/pricing';
+import { getSettlementDelayMs } from '@/lib/session-settlement';
+import { findBusyPeriods } from '@/lib/user-availability';
+import type {
+  GroupSeatItem,
+  GroupSeatSettlementOutcome,
+  GroupSeatStatus,
+  GroupSessionItem,
+  GroupSessionStatus,
+  GroupSessionUser,
+} from '@/lib/types/group-sessions';
+
+const USER_SELECT = {
+  id: true,
+  fullName: true,
+  name: true,
+  image: true,
+} as const;
+
+export const GROUP_SESSION_INCLUDE = {
+  provider: { select: USER_SELECT },
+  skill: { select: { id: true, name: true } },
+  seats: {
+    include: { learner: { select: USER_SELECT } },
+    orderBy: { joinedAt: 'asc' },
+  },
+} satisfies Prisma.GroupSessionInclude;
+
+type GroupSessionWithSeats = Prisma.GroupSessionGetPayload<{
+  include: typeof GROUP_SESSION_INCLUDE;
+}>;
+
+type GroupSeatWithLearner = GroupSessionWithSeats['seats'][number];
+
+/**
+ * A group session action that can't be applied, with the HTTP status the
+ * API should answer with
+ */
+export class GroupSessionError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'GroupSessionError';
+  }
+}
+
+const GROUP_ROOM_PREFIX = 'group-session-';
+
+/**
+ * LiveKit room shared by the provider and every seated learner
+ */
+export function groupSessionRoomName(groupSessionId: string) {
+  return `${GROUP_ROOM_PREFIX}${groupSessionId}`;
+}
+
+/**
+ * Whether a LiveKit room belongs to a group session. Tokens for these
+ * rooms are only issued by the group call route, after checking the
+ * caller is an attendee.
+ */
+export function isGroupSessionRoom(roomName: string) {
+  return roomName.startsWith(GROUP_ROOM_PREFIX);
+}
+
+function toUser(user: GroupSessionWithSeats['provider']): GroupSessionUser {
+  return {
+    id: user.id,
+    fullName: user.fullName || user.name || 'User',
+    profileImage: user.image,
+  };
+}
+
+function toSeatItem(seat: GroupSeatWithLearner): GroupSeatItem {
+  return {
+    id: seat.id,
+    learner: toUser(seat.learner),
+    status: seat.status as GroupSeatStatus,
+    creditsHeld: seat.creditsHeld,
+    learnerCompletionConfirmed: seat.learnerCompletionConfirmed,
+    providerCompletionConfirmed: seat.providerCompletionConfirmed,
+    learnerRefundRequested: seat.learnerRefundRequested,
+    refundReason: seat.refundReason,
+    settlementOutcome:
+      seat.settlementOutcome as GroupSeatSettlementOutcome | null,
+    joinedAt: seat.joinedAt,
+  };
+}
+
+// Seats that still count against the seat limit
+function isSeated(seat: { status: string }) {
+  return seat.status === 'JOINED' || seat.status === 'COMPLETED';
+}
+
+export function toGroupSessionItem(
+  groupSession: GroupSessionWithSeats,
+  userId: string
+): GroupSessionItem {
+  const isProvider = groupSession.providerId === userId;
+  const mySeat = groupSession.seats.find((s) => s.learnerId === userId);
+
+  return {
+    id: groupSession.id,
+    sessionName: groupSession.sessionName,
+    description: groupSession.description,
+    mode: groupSession.mode,
+    status: groupSession.status as GroupSessionStatus,
+    startDate: groupSession.startDate,
+    endDate: groupSession.endDate,
+    seatLimit: groupSession.seatLimit,
+    seatsTaken: groupSession.seats.filter(isSeated).length,
+    hourlyRate: groupSession.hourlyRate,
+    creditsPerSeat: groupSession.creditsPerSeat,
+    cancelReason: groupSession.cancelReason,
+    skill: groupSession.skill,
+    provider: toUser(groupSession.provider),
+    isProvider,
+    mySeat: mySeat ? toSeatItem(mySeat) : null,
+    seats: isProvider ? groupSession.seats.map(toSeatItem) : [],
+  };
+}
+
+async function loadGroupSession(groupSessionId: string) {
+  const groupSession = await prisma.groupSession.findUnique({
+    where: { id: groupSessionId },
+    include: GROUP_SESSION_INCLUDE,
+  });
+
+  if (!groupSession) {
+    throw new GroupSessionError('Group session not found', 404);
+  }
+
+  return groupSession;
+}
+
+async function getWalletId(userId: string) {
+  const wallet = await prisma.wallet.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (!wallet) {
+    throw new GroupSessionError('Wallet not found', 400);
+  }
+
+  return wallet.id;
+}
+
+/**
+ * Open a group session for one of the provider's teaching skills, priced
+ * per seat at the skill's hourly rate
+ */
+export async function createGroupSession(input: {
+  providerId: string;
+  skillId: string;
+  sessionName: string;
+  description?: string | null;
+  mode?: string;
+  startDate: Date;
+  endDate: Date;
+  seatLimit: number;
+  quotedCredits?: number;
+}) {
+  const { providerId, startDate, endDate, seatLimit } = input;
+
+  if (
+    !Number.isInteger(seatLimit) ||
+    seatLimit < GROUP_SESSIONS.MIN_SEATS ||
+    seatLimit > GROUP_SESSIONS.MAX_SEATS
+  ) {
+    throw new GroupSessionError(
+      `Seat limit must be between ${GROUP_SESSIONS.MIN_SEATS} and ${GROUP_SESSIONS.MAX_SEATS}`,
+      400
+    );
+  }
+
+  const skill = await prisma.skill.findFirst({
+    where: { id: input.skillId, ownerId: providerId, isTeaching: true },
+    select: { id: true, hourlyRate: true },
+  });
+
+  if (!skill) {
+    throw new GroupSessionError('You do not teach the selected skill', 400);
+  }
+
+  const hourlyRate = resolveHourlyRate(skill.hourlyRate);
+  const pricing = quoteSessionPrice(startDate, endDate, hourlyRate);
+
+  if ('error' in pricing) {
+    throw new GroupSessionError(pricing.error, 400);
+  }
+
+  if (startDate.getTime() <= Date.now()) {
+    throw new GroupSessionError('The start time must be in the future', 400);
+  }
+
+  const creditsPerSeat = pricing.quote.sessionCredits;
+
+  // The provider agreed to a price in the dialog; don't open at a different one
+  if (input.quotedCredits !== undefined && input.quotedCredits !== creditsPerSeat) {
+    throw new GroupSessionError(
+      `The price per seat has changed to ${creditsPerSeat} credits. Please review and try again.`,
+      409
+    );
+  }
+
+  const busy = await findBusyPeriods(prisma, providerId, startDate, endDate);
+
+  if (busy.length > 0) {
+    throw new GroupSessionError(
+      'This time overlaps another of your sessions or a pending request',
+      409
+    );
+  }
+
+  return prisma.groupSession.create({
+    data: {
+      providerId,
+      skillId: skill.id,
+      sessionName: input.sessionName.trim(),
+      description: input.description?.trim() || null,
+      mode: input.mode === 'PHYSICAL' ? 'PHYSICAL' : 'ONLINE',
+      startDate,
+      endDate,
+      seatLimit,
+      hourlyRate,
+      creditsPerSeat,
+    },
+  });
+}
+
+/**
+ * Take a seat in an open group session, holding the seat's credits
+ */
+export async function joinGroupSession(input: {
+  groupSessionId: string;
+  userId: string;
+  userName: string;
+}) {
+  const { userId } = input;
+  const groupSession = await loadGroupSession(input.groupSessionId);
+
+  if (groupSession.providerId === userId) {
+    throw new GroupSessionError('You cannot join your own group session', 400);
+  }
+
+  if (groupSession.status !== 'OPEN') {
+    throw new GroupSessionError('This group session is no longer open', 400);
+  }
+
+  if (groupSession.startDate.getTime() <= Date.now()) {
+    throw new GroupSessionError('This group session has already started', 400);
+  }
+
+  const existingSeat = groupSession.seats.find((s) => s.learnerId === userId);
+  if (existingSeat && isSeated(existingSeat)) {
+    throw new GroupSessionError('You already have a seat in this session', 409);
+  }
+
+  const [user1Id, user2Id] =
+    userId < groupSession.providerId
+      ? [userId, groupSession.providerId]
+      : [groupSession.providerId, userId];
+
+  const connection = await prisma.connection.findUnique({
+    where: { user1Id_user2Id: { user1Id, user2Id }, status: 'ACTIVE' },
+  });
+
+  if (!connection) {
+    throw new GroupSessionError(
+      'You must be connected with the provider to join this session',
+      400
+    );
+  }
+
+  const busy = await findBusyPeriods(
+    prisma,
+    userId,
+    groupSession.startDate,
+    groupSession.endDate
+  );
+
+  if (busy.length > 0) {
+    throw new GroupSessionError(
+      'This session overlaps another of your sessions or a pending request',
+      409
+    );
+  }
+
+  const walletId = await getWalletId(userId);
+  const credits = groupSession.creditsPerSeat;
+
+  try {
+    const seat = await prisma.$transaction(async (tx) => {
+      // Lock the session row so concurrent joins can't overbook it
+      const { count } = await tx.groupSession.updateMany({
+        where: { id: groupSession.id, status: 'OPEN' },
+        data: { updatedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new GroupSessionError('This group session is no longer open', 400);
+      }
+
+      const seatsTaken = await tx.groupSessionSeat.count({
+        where: {
+          groupSessionId: groupSession.id,
+          status: { in: ['JOINED', 'COMPLETED'] },
+        },
+      });
+      if (seatsTaken >= groupSession.seatLimit) {
+        throw new GroupSessionError('This group session is full', 409);
+      }
+
+      // Learners who left can take a seat again
+      const seatData = {
+        status: 'JOINED',
+        creditsHeld: credits,
+        learnerCompletionConfirmed: false,
+        providerCompletionConfirmed: false,
+        joinedAt: new Date(),
+        leftAt: null,
+      };
+      const seat = existingSeat
+        ? await tx.groupSessionSeat.update({
+            where: { id: existingSeat.id },
+            data: seatData,
+          })
+        : await tx.groupSessionSeat.create({
+            data: {
+              ...seatData,
+              groupSessionId: groupSession.id,
+              learnerId: userId,
+            },
+          });
+
+      const reservation = await tx.transaction.create({
+        data: {
+          walletId,
+          amount: -credits,
+          type: 'GROUP_SEAT_RESERVED',
+          status: 'PENDING',
+          relatedUserId: groupSession.providerId,
+          groupSeatId: seat.id,
+          note: `Group session seat reserved: ${groupSession.sessionName}`,
+        },
+      });
+
+      await holdCredits(tx, walletId, credits, {
+        reference: ledgerReference('group_seat', seat.id),
+        transactionId: reservation.id,
+      });
+
+      return seat;
+    });
+
+    await createNotification({
+      userId: groupSession.providerId,
+      type: 'GROUP_SESSION_JOINED',
+      title: 'New group session attendee',
+      message: `${input.userName} took a seat in ${groupSession.sessionName}`,
+      relatedUserId: userId,
+      relatedEntityId: groupSession.id,
+      relatedEntityType: 'group_session',
+    });
+
+    return { seat, creditsHeld: credits };
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      throw new GroupSessionError(
+        `Insufficient credits. You need ${credits} credits to join this session.`,
+        400
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give up a seat before the session starts, refunding its credits
+ */
+export async function leaveGroupSession(input: {
+  groupSessionId: string;
+  userId: string;
+  userName: string;
+}) {
+  const { userId } = input;
+  const groupSession = await loadGroupSession(input.groupSessionId);
+  const seat = groupSession.seats.find((s) => s.learnerId === userId);
+
+  if (!seat || seat.status !== 'JOINED') {
+    throw new GroupSessionError('You do not have a seat in this session', 400);
+  }
+
+  if (groupSession.startDate.getTime() <= Date.now()) {
+    throw new GroupSessionError(
+      'You can only leave a group session before it starts',
+      400
+    );
+  }
+
+  const walletId = await getWalletId(userId);
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.groupSessionSeat.updateMany({
+      where: { id: seat.id, status: 'JOINED' },
+      data: { status: 'LEFT', leftAt: new Date() },
+    });
+    if (count === 0) {
+      throw new GroupSessionError('You do not have a seat in this session', 409);
+    }
+
+    await refundSeat(tx, walletId, seat, groupSession, 'You left the session');
+  });
+
+  await createNotification({
+    userId: groupSession.providerId,
+    type: 'GROUP_SESSION_LEFT',
+    title: 'Attendee left',
+    message: `${input.userName} gave up their seat in ${groupSession.sessionName}`,
+    relatedUserId: userId,
+    relatedEntityId: groupSession.id,
+    relatedEntityType: 'group_session',
+  });
+
+  return { creditsRefunded: seat.creditsHeld };
+}
+
+/**
+ * Close out a seat's hold and return its credits to the learner. Must be
+ * called inside prisma.$transaction.
+ */
+async function refundSeat(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  seat: GroupSeatWithLearner,
+  groupSession: GroupSessionWithSeats,
+  reason: string
+) {
+  await tx.transaction.updateMany({
+    where: {
+      walletId,
+      groupSeatId: seat.id,
+      status: 'PENDING',
+      type: 'GROUP_SEAT_RESERVED',
+    },
+    data: { status: 'REFUNDED' },
+  });
+
+  const refund = await tx.transaction.create({
+    data: {
+      walletId,
+      amount: seat.creditsHeld,
+      type: 'SESSION_CANCELLED',
+      status: 'COMPLETED',
+      relatedUserId: groupSession.providerId,
+      groupSeatId: seat.id,
+      note: `${reason}: ${groupSession.sessionName} - ${seat.creditsHeld} credits refunded`,
+    },
+  });
+
+  await releaseHold(tx, walletId, seat.creditsHeld, {
+    reference: ledgerReference('group_seat', seat.id),
+    transactionId: refund.id,
+  });
+}
+
+/**
+ * Complete a seat and pay its credits to the provider. Returns false if
+ * the seat was left or settled since it was loaded. Must be called inside
+ * prisma.$transaction.
+ */
+async function paySeat(
+  tx: Prisma.TransactionClient,
+  seat: GroupSeatWithLearner,
+  groupSession: GroupSessionWithSeats,
+  walletIds: { learner: string; provider: string },
+  now: Date,
+  autoCompleted = false
+): Promise<boolean> {
+  const label = autoCompleted
+    ? 'Group session auto-completed'
+    : 'Group session completed';
+
+  const { count } = await tx.groupSessionSeat.updateMany({
+    where: { id: seat.id, status: 'JOINED' },
+    data: {
+      status: 'COMPLETED',
+      learnerCompletionConfirmed: true,
+      providerCompletionConfirmed: true,
+      completedAt: now,
+      ...(autoCompleted && {
+        settledAt: now,
+        settlementOutcome: 'AUTO_COMPLETED',
+      }),
+    },
+  });
+  if (count === 0) return false;
+
+  // Close out the learner's reservation row rather than writing a second
+  // learner record for the same credits
+  await tx.transaction.updateMany({
+    where: {
+      walletId: walletIds.learner,
+      groupSeatId: seat.id,
+      status: 'PENDING',
+      type: 'GROUP_SEAT_RESERVED',
+    },
+    data: {
+      type: 'SESSION_COMPLETED',
+      status: 'COMPLETED',
+      note: `${label}: ${groupSession.sessionName}`,
+    },
+  });
+
+  const earnings = await tx.transaction.create({
+    data: {
+      walletId: walletIds.provider,
+      amount: seat.creditsHeld,
+      type: 'SESSION_COMPLETED',
+      status: 'COMPLETED',
+      relatedUserId: seat.learnerId,
+      groupSeatId: seat.id,
+      note: `${label}: ${groupSession.sessionName} - earned ${seat.creditsHeld} credits`,
+    },
+  });
+
+  await settleHold(tx, walletIds.learner, walletIds.provider, seat.creditsHeld, {
+    reference: ledgerReference('group_seat', seat.id),
+    transactionId: earnings.id,
+  });
+
+  return true;
+}
+
+/**
+ * Confirm completion of seats in a group session that has started. A
+ * learner confirms their own seat; the provider confirms one seat, or
+ * every seat when `seatId` is omitted. Seats both sides have confirmed
+ * are paid out to the provider.
+ */
+export async function confirmGroupCompletion(input: {
+  groupSessionId: string;
+  userId: string;
+  userName: string;
+  seatId?: string;
+}) {
+  const { userId } = input;
+  const groupSession = await loadGroupSession(input.groupSessionId);
+  const isProvider = groupSession.providerId === userId;
+
+  if (groupSession.status !== 'OPEN') {
+    throw new GroupSessionError('This group session is no longer open', 400);
+  }
+
+  if (groupSession.startDate.getTime() > Date.now()) {
+    throw new GroupSessionError(
+      'Completion can be confirmed once the session has started',
+      400
+    );
+  }
+
+  let seats: GroupSeatWithLearner[];
+  if (isProvider) {
+    seats = groupSession.seats.filter(
+      (s) =>
+        s.status === 'JOINED' &&
+        !s.providerCompletionConfirmed &&
+        (!input.seatId || s.id === input.seatId)
+    );
+    if (input.seatId && seats.length === 0) {
+      throw new GroupSessionError('This seat is not waiting for your confirmation', 400);
+    }
+  } else {
+    const mySeat = groupSession.seats.find((s) => s.learnerId === userId);
+    if (!mySeat || mySeat.status !== 'JOINED') {
+      throw new GroupSessionError('You do not have a seat in this session', 403);
+    }
+    if (mySeat.learnerCompletionConfirmed) {
+      throw new GroupSessionError('You have already confirmed completion', 400);
+    }
+    seats = [mySeat];
+  }
+
+  if (seats.length === 0) {
+    throw new GroupSessionError('There are no seats waiting for your confirmation', 400);
+  }
+
+  // Seats the other side has already confirmed are settled now
+  const settling = seats.filter((s) =>
+    isProvider ? s.learnerCompletionConfirmed : s.providerCompletionConfirmed
+  );
+  const waiting = seats.filter((s) => !settling.includes(s));
+
+  const wallets = await prisma.wallet.findMany({
+    where: {
+      userId: {
+        in: [groupSession.providerId, ...settling.map((s) => s.learnerId)],
+      },
+    },
+    select: { id: true, userId: true },
+  });
+  const walletIds = new Map(wallets.map((w) => [w.userId, w.id]));
+  const providerWalletId = walletIds.get(groupSession.providerId);
+
+  if (settling.length > 0 && !providerWalletId) {
+    throw new GroupSessionError('Wallet not found', 400);
+  }
+
+  const now = new Date();
+
+  const { completed, sessionCompleted } = await prisma.$transaction(async (tx) => {
+    await tx.groupSessionSeat.updateMany({
+      where: { id: { in: waiting.map((s) => s.id) }, status: 'JOINED' },
+      // Confirming withdraws a problem the learner reported
+      data: isProvider
+        ? { providerCompletionConfirmed: true }
+        : { learnerCompletionConfirmed: true, learnerRefundRequested: false },
+    });
+
+    const completed: GroupSeatWithLearner[] = [];
+    for (const seat of settling) {
+      const learnerWalletId = walletIds.get(seat.learnerId);
+      if (!learnerWalletId || !providerWalletId) {
+        console.error(`Cannot settle group seat ${seat.id}: wallet not found`);
+        continue;
+      }
+
+      const paid = await paySeat(
+        tx,
+        seat,
+        groupSession,
+        { learner: learnerWalletId, provider: providerWalletId },
+        now
+      );
+      if (paid) completed.push(seat);
+    }
+
+    // The session is done once every remaining seat has been paid out
+    const stillJoined = await tx.groupSessionSeat.count({
+      where: { groupSessionId: groupSession.id, status: 'JOINED' },
+    });
+    let sessionCompleted = false;
+    if (stillJoined === 0 && completed.length > 0) {
+      const { count } = await tx.groupSession.updateMany({
+        where: { id: groupSession.id, status: 'OPEN' },
+        data: { status: 'COMPLETED', completedAt: now },
+      });
+      sessionCompleted = count > 0;
+    }
+
+    return { completed, sessionCompleted };
+  });
+
+  const creditsTransferred = completed.reduce((sum, s) => sum + s.creditsHeld, 0);
+  const notifications: CreateNotificationInput[] = completed.map((seat) => ({
+    userId: seat.learnerId,
+    type: 'GROUP_SESSION_COMPLETED',
+    title: 'Group session completed',
+    message: `${groupSession.sessionName} is complete. Leave a review!`,
+    relatedUserId: groupSession.providerId,
+    relatedEntityId: groupSession.id,
+    relatedEntityType: 'group_session',
+  }));
+
+  if (completed.length > 0 && !isProvider) {
+    notifications.push({
+      userId: groupSession.providerId,
+      type: 'GROUP_SESSION_COMPLETED',
+      title: 'Group session seat completed',
+      message: `${input.userName} confirmed ${groupSession.sessionName} - you earned ${creditsTransferred} credits`,
+      relatedUserId: userId,
+      relatedEntityId: groupSession.id,
+      relatedEntityType: 'group_session',
+    });
+  }
+
+  notifications.push(
+    ...waiting.map((seat) => ({
+      userId: isProvider ? seat.learnerId : groupSession.providerId,
+      type: 'GROUP_SESSION_COMPLETED' as const,
+      title: 'Confirm session completion',
+      message: `${input.userName} marked ${groupSession.sessionName} as complete`,
+      relatedUserId: userId,
+      relatedEntityId: groupSession.id,
+      relatedEntityType: 'group_session' as const,
+    }))
+  );
+
+  if (notifications.length > 0) {
+    await createNotifications(notifications);
+  }
+
+  return {
+    seatsCompleted: completed.length,
+    seatsWaiting: waiting.length,
+    creditsTransferred,
+    sessionCompleted,
+  };
+}
+
+/**
+ * Report, as a seated learner, that a group session which has started
+ * didn't happen as agreed. The seat is refunded when the session is
+ * settled rather than paid out, unless the learner confirms it after all.
+ */
+export async function reportGroupSessionProblem(input: {
+  groupSessionId: string;
+  userId: string;
+  userName: string;
+  reason?: string | null;
+}) {
+  const { userId } = input;
+  const groupSession = await loadGroupSession(input.groupSessionId);
+  const seat = groupSession.seats.find((s) => s.learnerId === userId);
+
+  if (!seat || seat.status !== 'JOINED') {
+    throw new GroupSessionError('You do not have a seat in this session', 403);
+  }
+
+  if (groupSession.status !== 'OPEN') {
+    throw new GroupSessionError('This group session is no longer open', 400);
+  }
+
+  if (groupSession.startDate.getTime() > Date.now()) {
+    throw new GroupSessionError(
+      'You can leave the session instead until it starts',
+      400
+    );
+  }
+
+  if (seat.learnerCompletionConfirmed) {
+    throw new GroupSessionError('You have already confirmed completion', 400);
+  }
+
+  if (seat.learnerRefundRequested) {
+    throw new GroupSessionError('You have already reported a problem', 400);
+  }
+
+  const reason = input.reason?.trim() || null;
+
+  const { count } = await prisma.groupSessionSeat.updateMany({
+    where: { id: seat.id, status: 'JOINED', learnerCompletionConfirmed: false },
+    data: { learnerRefundRequested: true, refundReason: reason },
+  });
+  if (count === 0) {
+    throw new GroupSessionError('This seat can no longer be reported', 409);
+  }
+
+  const settlementDate = new Date(
+    groupSession.endDate.getTime() + getSettlementDelayMs()
+  );
+
+  await createNotification({
+    userId: groupSession.providerId,
+    type: 'GROUP_SESSION_REPORTED',
+    title: 'Problem reported',
+    message: `${input.userName} reported that ${groupSession.sessionName} didn't happen as agreed${
+      reason ? `: ${reason}` : ''
+    }. Their ${seat.creditsHeld} credits will be refunded unless they confirm it.`,
+    relatedUserId: userId,
+    relatedEntityId: groupSession.id,
+    relatedEntityType: 'group_session',
+  });
+
+  return { creditsHeld: seat.creditsHeld, settlementDate };
+}
+
+/**
+ * Cancel a group session as its provider, refunding every seat. Not
+ * possible once a seat has been paid out.
+ */
+export async function cancelGroupSession(input: {
+  groupSessionId: string;
+  userId: string;
+  reason?: string | null;
+}) {
+  const groupSession = await loadGroupSession(input.groupSessionId);
+
+  if (groupSession.providerId !== input.userId) {
+    throw new GroupSessionError('Only the provider can cancel a group session', 403);
+  }
+
+  if (groupSession.status !== 'OPEN') {
+    throw new GroupSessionError('This group session is no longer open', 400);
+  }
+
+  if (groupSession.seats.some((s) => s.status === 'COMPLETED')) {
+    throw new GroupSessionError(
+      'Some seats have already been completed. Confirm the remaining seats instead.',
+      400
+    );
+  }
+
+  const reason = input.reason?.trim() || null;
+  const now = new Date();
+
+  const seats = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.groupSession.updateMany({
+      where: { id: groupSession.id, status: 'OPEN' },
+      data: { status: 'CANCELLED', cancelReason: reason, cancelledAt: now },
+    });
+    if (count === 0) {
+      throw new GroupSessionError('This group session is no longer open', 409);
+    }
+
+    // Loaded after the lock, so seats taken since the session was loaded
+    // are refunded too
+    const seats = await tx.groupSessionSeat.findMany({
+      where: { groupSessionId: groupSession.id, status: 'JOINED' },
+      include: { learner: { select: USER_SELECT } },
+    });
+    const wallets = await tx.wallet.findMany({
+      where: { userId: { in: seats.map((s) => s.learnerId) } },
+      select: { id: true, userId: true },
+    });
+    const walletIds = new Map(wallets.map((w) => [w.userId, w.id]));
+
+    for (const seat of seats) {
+      const walletId = walletIds.get(seat.learnerId);
+      if (!walletId) {
+        throw new GroupSessionError('Wallet not found', 400);
+      }
+
+      const cancelled = await tx.groupSessionSeat.updateMany({
+        where: { id: seat.id, status: 'JOINED' },
+        data: { status: 'CANCELLED' },
+      });
+      if (cancelled.count === 0) continue;
+
+      await refundSeat(tx, walletId, seat, groupSession, 'Group session cancelled');
+    }
+
+    return seats;
+  });
+
+  if (seats.length > 0) {
+    await createNotifications(
+      seats.map((seat) => ({
+        userId: seat.learnerId,
+        type: 'GROUP_SESSION_CANCELLED',
+        title: 'Group session cancelled',
+        message: `${groupSession.sessionName} was cancelled${reason ? `: ${reason}` : ''}. Your ${seat.creditsHeld} credits have been refunded.`,
+        relatedUserId: groupSession.providerId,
+        relatedEntityId: groupSession.id,
+        relatedEntityType: 'group_session',
+      }))
+    );
+  }
+
+  return { seatsRefunded: seats.length };
+}
+
+export interface GroupSettlementResult {
+  seatsCompleted: number;
+  seatsRefunded: number;
+  creditsTransferred: number;
+  creditsRefunded: number;
+}
+
+// Group sessions settled per run, so one run can't hold the database for long
+const SETTLEMENT_BATCH_SIZE = 50;
+
+/**
+ * Settle every open group session past its end date by the settlement
+ * delay. Each seat still waiting is paid out if either side confirmed it
+ * and the learner didn't report a problem, and refunded otherwise. The
+ * session is then COMPLETED if any seat was paid out, or CANCELLED. Each
+ * group session is settled in its own transaction, so one failure doesn't
+ * stop the rest of the run.
+ *
+ * Run on a schedule by /api/cron/settle-sessions.
+ */
+export async function settleOverdueGroupSessions(
+  now = new Date()
+): Promise<GroupSettlementResult> {
+  const result: GroupSettlementResult = {
+    seatsCompleted: 0,
+    seatsRefunded: 0,
+    creditsTransferred: 0,
+    creditsRefunded: 0,
+  };
+  const notifications: CreateNotificationInput[] = [];
+
+  const overdueSessions = await prisma.groupSession.findMany({
+    where: {
+      status: 'OPEN',
+      endDate: { lt: new Date(now.getTime() - getSettlementDelayMs()) },
+    },
+    include: GROUP_SESSION_INCLUDE,
+    orderBy: { endDate: 'asc' },
+    take: SETTLEMENT_BATCH_SIZE,
+  });
+
+  const wallets = await prisma.wallet.findMany({
+    where: {
+      userId: {
+        in: overdueSessions.flatMap((g) => [
+          g.providerId,
+          ...g.seats.map((s) => s.learnerId),
+        ]),
+      },
+    },
+    select: { id: true, userId: true },
+  });
+  const walletIds = new Map(wallets.map((w) => [w.userId, w.id]));
+
+  for (const groupSession of overdueSessions) {
+    const seats = groupSession.seats.filter((s) => s.status === 'JOINED');
+    const providerWalletId = walletIds.get(groupSession.providerId);
+
+    try {
+      const { paid, refunded } = await prisma.$transaction(async (tx) => {
+        const paid: GroupSeatWithLearner[] = [];
+        const refunded: GroupSeatWithLearner[] = [];
+
+        for (const seat of seats) {
+          const learnerWalletId = walletIds.get(seat.learnerId);
+          if (!learnerWalletId || !providerWalletId) {
+            throw new GroupSessionError('Wallet not found', 400);
+          }
+
+          const confirmed =
+            !seat.learnerRefundRequested &&
+            (seat.learnerCompletionConfirmed ||
+              seat.providerCompletionConfirmed);
+
+          if (confirmed) {
+            const completed = await paySeat(
+              tx,
+              seat,
+              groupSession,
+              { learner: learnerWalletId, provider: providerWalletId },
+              now,
+              true
+            );
+            if (completed) paid.push(seat);
+            continue;
+          }
+
+          const { count } = await tx.groupSessionSeat.updateMany({
+            where: { id: seat.id, status: 'JOINED' },
+            data: {
+              status: 'CANCELLED',
+              settledAt: now,
+              settlementOutcome: 'REFUNDED',
+            },
+          });
+          if (count === 0) continue;
+
+          await refundSeat(
+            tx,
+            learnerWalletId,
+            seat,
+            groupSession,
+            seat.learnerRefundRequested
+              ? 'Problem reported'
+              : 'Group session not confirmed'
+          );
+          refunded.push(seat);
+        }
+
+        const anyCompleted =
+          paid.length > 0 ||
+          groupSession.seats.some((s) => s.status === 'COMPLETED');
+
+        await tx.groupSession.updateMany({
+          where: { id: groupSession.id, status: 'OPEN' },
+          data: anyCompleted
+            ? { status: 'COMPLETED', completedAt: now }
+            : { status: 'CANCELLED', cancelledAt: now },
+        });
+
+        return { paid, refunded };
+      });
+
+      const creditsTransferred = paid.reduce((sum, s) => sum + s.creditsHeld, 0);
+      const creditsRefunded = refunded.reduce((sum, s) => sum + s.creditsHeld, 0);
+      result.seatsCompleted += paid.length;
+      result.seatsRefunded += refunded.length;
+      result.creditsTransferred += creditsTransferred;
+      result.creditsRefunded += creditsRefunded;
+
+      const providerName = toUser(groupSession.provider).fullName;
+      const entity = {
+        relatedEntityId: groupSession.id,
+        relatedEntityType: 'group_session' as const,
+      };
+
+      notifications.push(
+        ...paid.map((seat) => ({
+          userId: seat.learnerId,
+          type: 'GROUP_SESSION_COMPLETED' as const,
+          title: 'Group session auto-completed',
+          message: `${groupSession.sessionName} was completed automatically. ${seat.creditsHeld} credits were transferred to ${providerName}.`,
+          relatedUserId: groupSession.providerId,
+          ...entity,
+        })),
+        ...refunded.map((seat) => ({
+          userId: seat.learnerId,
+          type: 'GROUP_SESSION_CANCELLED' as const,
+          title: 'Group session refunded',
+          message: seat.learnerRefundRequested
+            ? `You reported a problem with ${groupSession.sessionName}, so your ${seat.creditsHeld} credits have been refunded.`
+            : `${groupSession.sessionName} was never confirmed as completed, so your ${seat.creditsHeld} credits have been refunded.`,
+          relatedUserId: groupSession.providerId,
+          ...entity,
+        }))
+      );
+
+      if (paid.length > 0 || refunded.length > 0) {
+        notifications.push({
+          userId: groupSession.providerId,
+          type: paid.length > 0 ? 'GROUP_SESSION_COMPLETED' : 'GROUP_SESSION_CANCELLED',
+          title: 'Group session settled',
+          message: `${groupSession.sessionName} was settled automatically: ${paid.length} seat${
+            paid.length === 1 ? '' : 's'
+          } paid out (${creditsTransferred} credits) and ${refunded.length} refunded to learners who didn't confirm or reported a problem.`,
+          ...entity,
+        });
+      }
+    } catch (error) {
+      console.error(`Error settling group session ${groupSession.id}:`, error);
+    }
+  }
+
+  if (notifications.length > 0) {
+    await createNotifications(notifications);
+  }
+
+  return result;
+}
+
+/**
+ * The group session a user may join the call for: the provider and
+ * learners holding a seat, while the session is open
+ */
+export async function getGroupCallSession(groupSessionId: string, userId: string) {
+  const groupSession = await loadGroupSession(groupSessionId);
+
+  const isAttendee =
+    groupSession.providerId === userId ||
+    groupSession.seats.some((s) => s.learnerId === userId && isSeated(s));
+
+  if (!isAttendee) {
+    throw new GroupSessionError('You are not part of this group session', 403);
+  }
+
+  if (groupSession.status !== 'OPEN') {
+    throw new GroupSessionError('This group session is no longer open', 400);
+  }
+
+  return groupSession;
+}
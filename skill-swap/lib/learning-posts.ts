@@ -0,0 +1,319 @@
+/**
+ * Learning Posts
+ *
+ * Validation and formatting shared by the learning post API routes and
+ * search. A post is either an offer to teach a skill or a request to
+ * learn one; it starts as a draft or goes live immediately, and the
+ * author closes it (or marks it fulfilled) once they've found a match.
+ *
+ * @fileoverview Learning post validation and response shaping
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  AVAILABILITY_OPTIONS,
+  CREDITS,
+  EXPERIENCE_LEVELS,
+  LEARNING_POSTS,
+  SESSION_FORMATS,
+  VALIDATION,
+} from '@/lib/constants';
+import type {
+  Availability,
+  ExperienceLevel,
+  LearningPost,
+  PostStatus,
+  PostType,
+  SessionFormat,
+} from '@/lib/types';
+
+export const POST_TYPES: PostType[] = ['teach', 'learn'];
+export const POST_STATUSES: PostStatus[] = [
+  'active',
+  'draft',
+  'closed',
+  'fulfilled',
+];
+
+const FORMAT_LABELS = SESSION_FORMATS.map((f) => f.label) as SessionFormat[];
+const AVAILABILITY_LABELS = AVAILABILITY_OPTIONS.map(
+  (a) => a.label
+) as Availability[];
+
+// Statuses an author can publish a new post with
+const CREATE_STATUSES: PostStatus[] = ['active', 'draft'];
+
+// Allowed status changes; closed and fulfilled posts can be reopened
+const STATUS_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  draft: ['active'],
+  active: ['closed', 'fulfilled'],
+  closed: ['active'],
+  fulfilled: ['active'],
+};
+
+export const LEARNING_POST_INCLUDE = {
+  author: {
+    select: {
+      id: true,
+      fullName: true,
+      name: true,
+      image: true,
+    },
+  },
+} as const;
+
+type LearningPostRow = Prisma.LearningPostGetPayload<{
+  include: typeof LEARNING_POST_INCLUDE;
+}>;
+
+export type LearningPostInput = {
+  type: PostType;
+  title: string;
+  description: string;
+  skillId: string | null;
+  skillOffered: string | null;
+  skillsRequested: string | null;
+  creditsOffered: number;
+  format: SessionFormat;
+  availability: Availability;
+  experienceLevel: ExperienceLevel | null;
+};
+
+type ValidationResult<T> =
+  | { data: T; error?: never }
+  | { data?: never; error: string };
+
+function parseSkillList(value: unknown): string[] | null {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+    ? value.split(',')
+    : [];
+  if (list.some((item) => typeof item !== 'string')) return null;
+
+  const names = (list as string[]).map((s) => s.trim()).filter(Boolean);
+  // Case-insensitive de-duplication, keeping the first spelling
+  return names.filter(
+    (name, i) =>
+      names.findIndex((n) => n.toLowerCase() === name.toLowerCase()) === i
+  );
+}
+
+/**
+ * Validate a create payload, or a partial update when the existing post
+ * is passed in (only the fields present in the body are checked)
+ */
+export async function validateLearningPostInput(
+  body: Record<string, unknown>,
+  userId: string,
+  existing?: {
+    type: string;
+    skillOffered: string | null;
+    skillsRequested: string | null;
+  }
+): Promise<ValidationResult<Partial<LearningPostInput>>> {
+  const partial = Boolean(existing);
+  const has = (key: string) => !partial || body[key] !== undefined;
+  const data: Partial<LearningPostInput> = {};
+
+  if (!partial) {
+    if (!POST_TYPES.includes(body.type as PostType)) {
+      return { error: 'Post type must be teach or learn' };
+    }
+    data.type = body.type as PostType;
+  } else if (body.type !== undefined && body.type !== existing!.type) {
+    return { error: 'Post type cannot be changed' };
+  }
+  const type = (data.type ?? existing!.type) as PostType;
+
+  if (has('title')) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (
+      title.length < VALIDATION.TITLE_MIN_LENGTH ||
+      title.length > VALIDATION.TITLE_MAX_LENGTH
+    ) {
+      return {
+        error: `Title must be between ${VALIDATION.TITLE_MIN_LENGTH} and ${VALIDATION.TITLE_MAX_LENGTH} characters`,
+      };
+    }
+    data.title = title;
+  }
+
+  if (has('description')) {
+    const description =
+      typeof body.description === 'string' ? body.description.trim() : '';
+    if (
+      description.length < VALIDATION.DESCRIPTION_MIN_LENGTH ||
+      description.length > VALIDATION.DESCRIPTION_MAX_LENGTH
+    ) {
+      return {
+        error: `Description must be between ${VALIDATION.DESCRIPTION_MIN_LENGTH} and ${VALIDATION.DESCRIPTION_MAX_LENGTH} characters`,
+      };
+    }
+    data.description = description;
+  }
+
+  // Teach posts point at one of the author's own skills
+  if (has('skillId')) {
+    if (body.skillId) {
+      const skill = await prisma.skill.findFirst({
+        where: { id: String(body.skillId), ownerId: userId },
+        select: { id: true, name: true },
+      });
+      if (!skill) {
+        return { error: 'Skill not found in your profile' };
+      }
+      data.skillId = skill.id;
+      data.skillOffered = skill.name;
+    } else {
+      data.skillId = null;
+    }
+  }
+
+  if (data.skillOffered === undefined && has('skillOffered')) {
+    const skillOffered =
+      typeof body.skillOffered === 'string' ? body.skillOffered.trim() : '';
+    if (skillOffered.length > LEARNING_POSTS.MAX_SKILL_NAME_LENGTH) {
+      return { error: 'Skill name is too long' };
+    }
+    data.skillOffered = skillOffered || null;
+  }
+
+  if (has('skillsRequested')) {
+    const skills = parseSkillList(body.skillsRequested);
+    if (!skills) {
+      return { error: 'Skills requested must be a list of skill names' };
+    }
+    if (skills.length > LEARNING_POSTS.MAX_REQUESTED_SKILLS) {
+      return {
+        error: `You can list up to ${LEARNING_POSTS.MAX_REQUESTED_SKILLS} skills`,
+      };
+    }
+    if (skills.some((s) => s.length > LEARNING_POSTS.MAX_SKILL_NAME_LENGTH)) {
+      return { error: 'Skill name is too long' };
+    }
+    data.skillsRequested = skills.length > 0 ? skills.join(',') : null;
+  }
+
+  const skillOffered =
+    data.skillOffered !== undefined ? data.skillOffered : existing?.skillOffered;
+  const skillsRequested =
+    data.skillsRequested !== undefined
+      ? data.skillsRequested
+      : existing?.skillsRequested;
+
+  if (type === 'teach' && !skillOffered) {
+    return { error: 'Choose the skill you want to teach' };
+  }
+  if (type === 'learn' && !skillsRequested) {
+    return { error: 'Add at least one skill you want to learn' };
+  }
+
+  if (has('creditsOffered')) {
+    const credits = Number(body.creditsOffered ?? CREDITS.DEFAULT_HOURLY_RATE);
+    if (
+      !Number.isInteger(credits) ||
+      credits < CREDITS.MIN_HOURLY_RATE ||
+      credits > CREDITS.MAX_HOURLY_RATE
+    ) {
+      return {
+        error: `Credits per hour must be a whole number between ${CREDITS.MIN_HOURLY_RATE} and ${CREDITS.MAX_HOURLY_RATE}`,
+      };
+    }
+    data.creditsOffered = credits;
+  }
+
+  if (has('format')) {
+    if (!FORMAT_LABELS.includes(body.format as SessionFormat)) {
+      return { error: 'Please choose a valid format' };
+    }
+    data.format = body.format as SessionFormat;
+  }
+
+  if (has('availability')) {
+    if (!AVAILABILITY_LABELS.includes(body.availability as Availability)) {
+      return { error: 'Please choose a valid availability' };
+    }
+    data.availability = body.availability as Availability;
+  }
+
+  if (has('experienceLevel')) {
+    if (
+      body.experienceLevel != null &&
+      !EXPERIENCE_LEVELS.includes(body.experienceLevel as ExperienceLevel)
+    ) {
+      return { error: 'Please choose a valid experience level' };
+    }
+    data.experienceLevel = (body.experienceLevel as ExperienceLevel) ?? null;
+  }
+
+  return { data };
+}
+
+/**
+ * Status the author may create a post with
+ */
+export function isCreatableStatus(status: unknown): status is PostStatus {
+  return CREATE_STATUSES.includes(status as PostStatus);
+}
+
+/**
+ * Whether a post may move from one status to another
+ */
+export function canTransitionStatus(from: string, to: string): boolean {
+  return (
+    STATUS_TRANSITIONS[from as PostStatus]?.includes(to as PostStatus) ??
+    false
+  );
+}
+
+/**
+ * Shape a learning post row for API responses
+ */
+export function formatLearningPost(post: LearningPostRow): LearningPost {
+  return {
+    id: post.id,
+    authorId: post.authorId,
+    author: {
+      id: post.author.id,
+      name: post.author.fullName || post.author.name || 'User',
+      avatar: post.author.image || '',
+    },
+    type: post.type as PostType,
+    title: post.title,
+    description: post.description,
+    skillId: post.skillId,
+    skillOffered: post.skillOffered,
+    skillsRequested:
+      post.skillsRequested
+        ?.split(',')
+        .map((s) => s.trim())
+        .filter(Boolean) || [],
+    creditsOffered: post.creditsOffered,
+    format: post.format as SessionFormat,
+    availability: post.availability as Availability,
+    experienceLevel: post.experienceLevel as ExperienceLevel | null,
+    status: post.status as PostStatus,
+    closedAt: post.closedAt,
+    createdAt: post.createdAt,
+    updatedAt: post.updatedAt,
+  };
+}
+
+/**
+ * Text match on a post's title, description and skills, used by the
+ * learning posts API and the search page
+ */
+export function learningPostSearchFilter(
+  query: string
+): Prisma.LearningPostWhereInput {
+  const contains = { contains: query, mode: 'insensitive' as const };
+  return {
+    OR: [
+      { title: contains },
+      { description: contains },
+      { skillOffered: contains },
+      { skillsRequested: contains },
+    ],
+  };
+}
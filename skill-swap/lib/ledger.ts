@@ -0,0 +1,377 @@
+/**
+ * Credit Ledger
+ *
+ * Every credit movement is recorded as a transfer: two LedgerEntry rows
+ * with the same transferId whose amounts sum to zero, one taken from an
+ * account and one added to another. Each wallet has three accounts
+ * (AVAILABLE, OUTGOING, INCOMING) and new credits come from the ISSUANCE
+ * system account, so the ledger as a whole always sums to zero.
+ *
+ * Wallet balance columns are a cache of the ledger kept in step inside
+ * the same database transaction. Routes must move credits through the
+ * helpers here rather than updating Wallet directly; reconcileWallets()
+ * recomputes the balances from the ledger and reports any drift.
+ *
+ * @fileoverview Double-entry credit ledger
+ */
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CREDITS } from '@/lib/constants';
+
+export type WalletAccount = 'AVAILABLE' | 'OUTGOING' | 'INCOMING';
+export type SystemAccount = 'ISSUANCE';
+
+export type LedgerAccount =
+  | { walletId: string; account: WalletAccount }
+  | { system: SystemAccount };
+
+export type LedgerKind =
+  | 'ISSUE' // New credits from the system
+  | 'HOLD' // Available -> outgoing while a request is pending
+  | 'RELEASE' // Outgoing -> available when a hold is refunded
+  | 'SETTLE' // Payer's outgoing -> payee's available
+  | 'TRANSFER'; // Available -> another wallet's available
+
+export interface TransferOptions {
+  // What the movement is for, e.g. "session_request:<id>"
+  reference?: string;
+  // Transaction history row the movement belongs to
+  transactionId?: string;
+}
+
+type Tx = Prisma.TransactionClient;
+
+const BALANCE_FIELDS = {
+  AVAILABLE: 'availableBalance',
+  OUTGOING: 'outgoingBalance',
+  INCOMING: 'incomingBalance',
+} as const;
+
+const WALLET_ACCOUNTS = Object.keys(BALANCE_FIELDS) as WalletAccount[];
+
+/**
+ * A movement the ledger refused, e.g. a non-integer amount or one that
+ * would take an account below zero
+ */
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+/**
+ * The paying wallet's available balance doesn't cover the movement
+ */
+export class InsufficientCreditsError extends LedgerError {
+  constructor(message = 'Insufficient credits') {
+    super(message);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/**
+ * Reference string for the entity a movement belongs to
+ */
+export function ledgerReference(type: string, id: string) {
+  return `${type}:${id}`;
+}
+
+async function applyToWallet(
+  tx: Tx,
+  walletId: string,
+  account: WalletAccount,
+  delta: number
+) {
+  const field = BALANCE_FIELDS[account];
+
+  if (delta >= 0) {
+    await tx.wallet.update({
+      where: { id: walletId },
+      data: { [field]: { increment: delta } },
+    });
+    return;
+  }
+
+  // Only debit if the account can cover it, so balances never go negative
+  const { count } = await tx.wallet.updateMany({
+    where: { id: walletId, [field]: { gte: -delta } },
+    data: { [field]: { decrement: -delta } },
+  });
+
+  if (count === 0) {
+    if (account === 'AVAILABLE') throw new InsufficientCreditsError();
+    throw new LedgerError(
+      `Wallet ${walletId} ${account.toLowerCase()} balance is lower than ${-delta}`
+    );
+  }
+}
+
+function toEntry(
+  ref: LedgerAccount,
+  amount: number
+): { walletId: string | null; account: string; amount: number } {
+  return 'system' in ref
+    ? { walletId: null, account: ref.system, amount }
+    : { walletId: ref.walletId, account: ref.account, amount };
+}
+
+/**
+ * Move `amount` credits from one account to another. Must be called
+ * inside prisma.$transaction so both entries and the cached wallet
+ * balances commit together. Returns the transfer id.
+ */
+export async function postTransfer(
+  tx: Tx,
+  from: LedgerAccount,
+  to: LedgerAccount,
+  amount: number,
+  kind: LedgerKind,
+  options: TransferOptions = {}
+): Promise<string> {
+  if (!Number.isSafeInteger(amount) || amount <= 0) {
+    throw new LedgerError(`Invalid ledger amount: ${amount}`);
+  }
+
+  const transferId = randomUUID();
+  const shared = {
+    transferId,
+    kind,
+    reference: options.reference ?? null,
+    transactionId: options.transactionId ?? null,
+  };
+
+  // Debit first so an overdraft fails before anything is credited
+  if (!('system' in from)) {
+    await applyToWallet(tx, from.walletId, from.account, -amount);
+  }
+  if (!('system' in to)) {
+    await applyToWallet(tx, to.walletId, to.account, amount);
+  }
+
+  await tx.ledgerEntry.createMany({
+    data: [
+      { ...shared, ...toEntry(from, -amount) },
+      { ...shared, ...toEntry(to, amount) },
+    ],
+  });
+
+  return transferId;
+}
+
+// ==================== Movements ====================
+
+/**
+ * New credits into a wallet's available balance
+ */
+export function issueCredits(
+  tx: Tx,
+  walletId: string,
+  amount: number,
+  options?: TransferOptions
+) {
+  return postTransfer(
+    tx,
+    { system: 'ISSUANCE' },
+    { walletId, account: 'AVAILABLE' },
+    amount,
+    'ISSUE',
+    options
+  );
+}
+
+/**
+ * Reserve credits while a request is pending (available -> outgoing).
+ * Throws InsufficientCreditsError if the wallet can't cover it.
+ */
+export function holdCredits(
+  tx: Tx,
+  walletId: string,
+  amount: number,
+  options?: TransferOptions
+) {
+  return postTransfer(
+    tx,
+    { walletId, account: 'AVAILABLE' },
+    { walletId, account: 'OUTGOING' },
+    amount,
+    'HOLD',
+    options
+  );
+}
+
+/**
+ * Refund held credits (outgoing -> available)
+ */
+export function releaseHold(
+  tx: Tx,
+  walletId: string,
+  amount: number,
+  options?: TransferOptions
+) {
+  return postTransfer(
+    tx,
+    { walletId, account: 'OUTGOING' },
+    { walletId, account: 'AVAILABLE' },
+    amount,
+    'RELEASE',
+    options
+  );
+}
+
+/**
+ * Pay held credits to another wallet (payer outgoing -> payee available)
+ */
+export function settleHold(
+  tx: Tx,
+  fromWalletId: string,
+  toWalletId: string,
+  amount: number,
+  options?: TransferOptions
+) {
+  return postTransfer(
+    tx,
+    { walletId: fromWalletId, account: 'OUTGOING' },
+    { walletId: toWalletId, account: 'AVAILABLE' },
+    amount,
+    'SETTLE',
+    options
+  );
+}
+
+/**
+ * Move credits straight between two wallets (payer available -> payee
+ * available), e.g. a gift or tip. Throws InsufficientCreditsError if the
+ * payer can't cover it.
+ */
+export function transferCredits(
+  tx: Tx,
+  fromWalletId: string,
+  toWalletId: string,
+  amount: number,
+  options?: TransferOptions
+) {
+  return postTransfer(
+    tx,
+    { walletId: fromWalletId, account: 'AVAILABLE' },
+    { walletId: toWalletId, account: 'AVAILABLE' },
+    amount,
+    'TRANSFER',
+    options
+  );
+}
+
+/**
+ * Create a user's wallet and credit the new user bonus, with its
+ * INITIAL_ALLOCATION history row
+ */
+export async function openWallet(tx: Tx, userId: string) {
+  const wallet = await tx.wallet.create({ data: { userId } });
+
+  const allocation = await tx.transaction.create({
+    data: {
+      walletId: wallet.id,
+      amount: CREDITS.NEW_USER_BONUS,
+      type: 'INITIAL_ALLOCATION',
+      status: 'COMPLETED',
+      note: 'Welcome bonus credits',
+    },
+  });
+
+  await issueCredits(tx, wallet.id, CREDITS.NEW_USER_BONUS, {
+    reference: ledgerReference('user', userId),
+    transactionId: allocation.id,
+  });
+
+  return tx.wallet.findUniqueOrThrow({ where: { id: wallet.id } });
+}
+
+// ==================== Reconciliation ====================
+
+export interface WalletDrift {
+  walletId: string;
+  userId: string;
+  account: WalletAccount;
+  recorded: number; // Balance stored on the wallet
+  ledger: number; // Balance according to the ledger
+}
+
+export interface ReconcileResult {
+  walletsChecked: number;
+  drift: WalletDrift[];
+  // Sum of every entry; anything but zero means an unbalanced transfer
+  ledgerTotal: number;
+  fixed: boolean;
+}
+
+/**
+ * Recompute every wallet's balances from the ledger and report where
+ * the stored balances differ. With `fix`, overwrite the stored balances
+ * with the ledger's.
+ */
+export async function reconcileWallets(
+  options: { fix?: boolean } = {}
+): Promise<ReconcileResult> {
+  const [wallets, sums, total] = await Promise.all([
+    prisma.wallet.findMany({
+      select: {
+        id: true,
+        userId: true,
+        availableBalance: true,
+        outgoingBalance: true,
+        incomingBalance: true,
+      },
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ['walletId', 'account'],
+      where: { walletId: { not: null } },
+      _sum: { amount: true },
+    }),
+    prisma.ledgerEntry.aggregate({ _sum: { amount: true } }),
+  ]);
+
+  const ledgerBalances = new Map<string, number>();
+  for (const row of sums) {
+    ledgerBalances.set(`${row.walletId}:${row.account}`, row._sum.amount ?? 0);
+  }
+
+  const drift: WalletDrift[] = [];
+  for (const wallet of wallets) {
+    for (const account of WALLET_ACCOUNTS) {
+      const recorded = wallet[BALANCE_FIELDS[account]];
+      const ledger = ledgerBalances.get(`${wallet.id}:${account}`) ?? 0;
+      if (recorded !== ledger) {
+        drift.push({
+          walletId: wallet.id,
+          userId: wallet.userId,
+          account,
+          recorded,
+          ledger,
+        });
+      }
+    }
+  }
+
+  if (options.fix && drift.length > 0) {
+    const byWallet = new Map<string, Partial<Record<string, number>>>();
+    for (const row of drift) {
+      const data = byWallet.get(row.walletId) ?? {};
+      data[BALANCE_FIELDS[row.account]] = row.ledger;
+      byWallet.set(row.walletId, data);
+    }
+
+    await prisma.$transaction(
+      [...byWallet.entries()].map(([walletId, data]) =>
+        prisma.wallet.update({ where: { id: walletId }, data })
+      )
+    );
+  }
+
+  return {
+    walletsChecked: wallets.length,
+    drift,
+    ledgerTotal: total._sum.amount ?? 0,
+    fixed: Boolean(options.fix) && drift.length > 0,
+  };
+}
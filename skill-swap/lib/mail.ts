@@ -0,0 +1,128 @@
+/**
+ * Mail
+ *
+ * Outgoing email goes through a pluggable transport so the app doesn't
+ * depend on a particular provider. MAIL_TRANSPORT picks a built-in one:
+ * - console (default): prints the message to the server log
+ * - file: writes each message as JSON to MAIL_FILE_DIR (default .mail/),
+ *   handy for local development and tests
+ * A real provider can be plugged in with setMailTransport() at startup.
+ *
+ * @fileoverview Mail transports and templates
+ */
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { APP_NAME } from '@/lib/constants';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || `${APP_NAME} <no-reply@skillswap.local>`;
+
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`
+    );
+  },
+};
+
+/**
+ * Write each message to `dir` as a timestamped JSON file
+ */
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const filename = `${Date.now()}-${safeRecipient}.json`;
+      await writeFile(
+        path.join(dir, filename),
+        JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date() }, null, 2)
+      );
+    },
+  };
+}
+
+function createDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return createFileTransport(
+      process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail')
+    );
+  }
+  return consoleTransport;
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+/**
+ * Replace the active transport (e.g. with a provider SDK, or a
+ * recording transport in tests)
+ */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+/**
+ * Send an email through the active transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
+
+/**
+ * Absolute URL for a path in the app, for links in emails
+ */
+export function getAppUrl(pathname: string): string {
+  return new URL(
+    pathname,
+    process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  ).toString();
+}
+
+// ==================== Templates ====================
+
+export function passwordResetEmail(
+  to: string,
+  resetUrl: string,
+  expiresInMinutes: number
+): MailMessage {
+  return {
+    to,
+    subject: `Reset your ${APP_NAME} password`,
+    text: [
+      'We received a request to reset the password for your account.',
+      '',
+      `Reset your password: ${resetUrl}`,
+      '',
+      `This link expires in ${expiresInMinutes} minutes and can only be used once.`,
+      "If you didn't ask to reset your password, you can ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function emailVerificationEmail(
+  to: string,
+  verifyUrl: string,
+  expiresInHours: number
+): MailMessage {
+  return {
+    to,
+    subject: `Verify your ${APP_NAME} email address`,
+    text: [
+      `Welcome to ${APP_NAME}! Please confirm this is your email address.`,
+      '',
+      `Verify your email: ${verifyUrl}`,
+      '',
+      `This link expires in ${expiresInHours} hours. Until your email is verified you can't send or accept connection and session requests.`,
+    ].join('\n'),
+  };
+}
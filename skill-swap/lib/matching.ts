@@ -0,0 +1,324 @@
+/**
+ * Skill Matching
+ *
+ * Suggests people to swap skills with. Other users are scored by how
+ * well the skills they teach cover my SkillWant entries (by name or
+ * alternative names, and against my proficiency target), how well their
+ * teaching format and time zone fit, and whether the match is mutual,
+ * i.e. they also want something I teach.
+ *
+ * @fileoverview Skill matching engine
+ */
+import { prisma } from '@/lib/prisma';
+import { activeUserFilter } from '@/lib/account-status';
+import type {
+  MatchStrength,
+  OfferedSkillMatch,
+  SkillMatch,
+  WantedSkillMatch,
+} from '@/lib/types/matching';
+
+// Most candidate skills considered per request
+const CANDIDATE_LIMIT = 300;
+
+// Shortest name used for substring matching ("go" shouldn't match "Google")
+const MIN_PARTIAL_LENGTH = 3;
+
+const PROFICIENCY_RANK: Record<string, number> = {
+  Beginner: 1,
+  Intermediate: 2,
+  Advanced: 3,
+  Expert: 4,
+};
+
+// Points for each part of the score; totals are capped at 100
+const SCORE = {
+  offer: { exact: 30, alias: 25, partial: 15 } as Record<MatchStrength, number>,
+  maxOffers: 2, // Only the best two covered wants count
+  proficiencyMet: 10,
+  proficiencyShort: -5,
+  formatFit: 5,
+  timeZoneClose: 10, // Within 3 hours
+  timeZoneNear: 5, // Within 6 hours
+  mutual: 20,
+  mutualExtra: 5, // Each further skill they want from me
+};
+
+interface SkillNames {
+  name: string;
+  alternativeNames: string | null;
+}
+
+function normalize(value: string) {
+  return value.trim().toLowerCase();
+}
+
+function splitAliases(aliases: string | null) {
+  return (aliases || '').split(',').map(normalize).filter(Boolean);
+}
+
+/**
+ * How a wanted skill name matches a skill (name first, then aliases,
+ * then substring either way), or null if it doesn't
+ */
+export function matchSkillName(
+  want: string,
+  skill: SkillNames
+): MatchStrength | null {
+  const target = normalize(want);
+  const name = normalize(skill.name);
+  const aliases = splitAliases(skill.alternativeNames);
+
+  if (!target) return null;
+  if (name === target) return 'exact';
+  if (aliases.includes(target)) return 'alias';
+
+  const partial = (a: string, b: string) =>
+    Math.min(a.length, b.length) >= MIN_PARTIAL_LENGTH &&
+    (a.includes(b) || b.includes(a));
+
+  if ([name, ...aliases].some((n) => partial(n, target))) return 'partial';
+  return null;
+}
+
+const STRENGTH_ORDER: MatchStrength[] = ['exact', 'alias', 'partial'];
+
+function strongerMatch(a: MatchStrength, b: MatchStrength) {
+  return STRENGTH_ORDER.indexOf(a) <= STRENGTH_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Current UTC offset of an IANA time zone in minutes, or null if the
+ * zone isn't recognised
+ */
+export function getUtcOffsetMinutes(
+  timeZone: string,
+  date: Date = new Date()
+): number | null {
+  try {
+    const label = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      timeZoneName: 'shortOffset',
+    })
+      .formatToParts(date)
+      .find((part) => part.type === 'timeZoneName')?.value;
+
+    // "GMT", "GMT+5", "GMT-3:30"
+    const match = label?.match(/^GMT(?:([+-])(\d{1,2})(?::(\d{2}))?)?$/);
+    if (!match) return null;
+    if (!match[1]) return 0;
+
+    const minutes = Number(match[2]) * 60 + Number(match[3] || 0);
+    return match[1] === '-' ? -minutes : minutes;
+  } catch {
+    return null;
+  }
+}
+
+function timeZoneDifferenceHours(a: string, b: string): number | null {
+  const offsetA = getUtcOffsetMinutes(a);
+  const offsetB = getUtcOffsetMinutes(b);
+  if (offsetA === null || offsetB === null) return null;
+  return Math.abs(offsetA - offsetB) / 60;
+}
+
+function formatFits(skillFormat: string, preferredFormats: Set<string>) {
+  return (
+    preferredFormats.size === 0 ||
+    skillFormat === 'Hybrid' ||
+    preferredFormats.has(skillFormat) ||
+    preferredFormats.has('Hybrid')
+  );
+}
+
+/**
+ * Score and rank other users as skill swap partners for `userId`.
+ * `format` overrides the preferred teaching format, which otherwise
+ * defaults to the formats the user teaches in themselves.
+ */
+export async function findSkillMatches(
+  userId: string,
+  options: { limit: number; format?: string; mutualOnly?: boolean }
+): Promise<SkillMatch[]> {
+  const me = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      timeZone: true,
+      skillsWanted: { select: { name: true, proficiencyTarget: true } },
+      skillsOffered: {
+        where: { isTeaching: true },
+        select: { name: true, alternativeNames: true, teachingFormat: true },
+      },
+    },
+  });
+
+  const wants = me?.skillsWanted.filter((want) => want.name.trim()) ?? [];
+  if (!me || wants.length === 0) return [];
+
+  const [blockedByMe, blockedMe] = await Promise.all([
+    prisma.blockedUser.findMany({
+      where: { blockerId: userId },
+      select: { blockedId: true },
+    }),
+    prisma.blockedUser.findMany({
+      where: { blockedId: userId },
+      select: { blockerId: true },
+    }),
+  ]);
+
+  const excludedIds = [
+    userId,
+    ...blockedByMe.map((b) => b.blockedId),
+    ...blockedMe.map((b) => b.blockerId),
+  ];
+
+  // Narrow candidates in the database, then score precisely below
+  const candidateSkills = await prisma.skill.findMany({
+    where: {
+      isTeaching: true,
+      ownerId: { notIn: excludedIds },
+      owner: activeUserFilter(),
+      OR: wants.flatMap((want) => [
+        { name: { contains: want.name.trim(), mode: 'insensitive' as const } },
+        {
+          alternativeNames: {
+            contains: want.name.trim(),
+            mode: 'insensitive' as const,
+          },
+        },
+      ]),
+    },
+    select: {
+      id: true,
+      name: true,
+      alternativeNames: true,
+      proficiencyLevel: true,
+      teachingFormat: true,
+      owner: {
+        select: {
+          id: true,
+          fullName: true,
+          name: true,
+          image: true,
+          bio: true,
+          timeZone: true,
+          skillsWanted: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: CANDIDATE_LIMIT,
+  });
+
+  const preferredFormats = new Set(
+    options.format
+      ? [options.format]
+      : me.skillsOffered.map((s) => s.teachingFormat)
+  );
+
+  // Group candidate skills by owner
+  const byOwner = new Map<string, typeof candidateSkills>();
+  for (const skill of candidateSkills) {
+    const list = byOwner.get(skill.owner.id) ?? [];
+    list.push(skill);
+    byOwner.set(skill.owner.id, list);
+  }
+
+  const matches: SkillMatch[] = [];
+
+  for (const skills of byOwner.values()) {
+    const owner = skills[0].owner;
+
+    // Best skill of theirs for each of my wants
+    const theyOffer: OfferedSkillMatch[] = [];
+    for (const want of wants) {
+      let best: OfferedSkillMatch | null = null;
+      for (const skill of skills) {
+        const strength = matchSkillName(want.name, skill);
+        if (!strength) continue;
+        if (best && strongerMatch(best.strength, strength) === best.strength) {
+          continue;
+        }
+
+        const targetRank = want.proficiencyTarget
+          ? PROFICIENCY_RANK[want.proficiencyTarget]
+          : undefined;
+        const skillRank = PROFICIENCY_RANK[skill.proficiencyLevel] ?? 0;
+
+        best = {
+          skillId: skill.id,
+          name: skill.name,
+          proficiencyLevel: skill.proficiencyLevel,
+          teachingFormat: skill.teachingFormat,
+          matchedWant: want.name,
+          strength,
+          meetsProficiencyTarget:
+            targetRank === undefined ? null : skillRank >= targetRank,
+        };
+      }
+      if (best) theyOffer.push(best);
+    }
+
+    if (theyOffer.length === 0) continue;
+
+    // What they want that I can teach
+    const theyWant: WantedSkillMatch[] = [];
+    for (const want of owner.skillsWanted) {
+      for (const mySkill of me.skillsOffered) {
+        const strength = matchSkillName(want.name, mySkill);
+        if (strength) {
+          theyWant.push({ name: want.name, matchedSkill: mySkill.name, strength });
+          break;
+        }
+      }
+    }
+
+    const isMutual = theyWant.length > 0;
+    if (options.mutualOnly && !isMutual) continue;
+
+    let score = theyOffer
+      .map((offer) => SCORE.offer[offer.strength])
+      .sort((a, b) => b - a)
+      .slice(0, SCORE.maxOffers)
+      .reduce((sum, points) => sum + points, 0);
+
+    for (const offer of theyOffer) {
+      if (offer.meetsProficiencyTarget === true) score += SCORE.proficiencyMet;
+      if (offer.meetsProficiencyTarget === false) score += SCORE.proficiencyShort;
+    }
+
+    if (theyOffer.some((o) => formatFits(o.teachingFormat, preferredFormats))) {
+      score += SCORE.formatFit;
+    }
+
+    const hoursApart = timeZoneDifferenceHours(me.timeZone, owner.timeZone);
+    if (hoursApart !== null && hoursApart <= 3) score += SCORE.timeZoneClose;
+    else if (hoursApart !== null && hoursApart <= 6) score += SCORE.timeZoneNear;
+
+    if (isMutual) {
+      score += SCORE.mutual + (theyWant.length - 1) * SCORE.mutualExtra;
+    }
+
+    matches.push({
+      user: {
+        id: owner.id,
+        name: owner.fullName || owner.name || 'User',
+        image: owner.image,
+        bio: owner.bio,
+        timeZone: owner.timeZone,
+      },
+      score: Math.max(0, Math.min(100, score)),
+      isMutual,
+      theyOffer,
+      theyWant,
+      timeZoneDifferenceHours: hoursApart,
+    });
+  }
+
+  // Highest score first; mutual matches win ties
+  matches.sort(
+    (a, b) => b.score - a.score || Number(b.isMutual) - Number(a.isMutual)
+  );
+
+  return matches.slice(0, options.limit);
+}
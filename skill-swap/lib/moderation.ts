@@ -0,0 +1,228 @@
+/**
+ * Moderation Service
+ *
+ * Server-side helpers shared by the reports API and the admin moderation
+ * routes: admin checks, resolving who owns a piece of reported content,
+ * removing it, and writing the AdminLog audit trail.
+ *
+ * @fileoverview Content reporting and admin moderation helpers
+ */
+import type { Prisma } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import type { ReportContentType } from '@/lib/types/moderation';
+
+// Length of the content snippet shown in the admin queue
+const PREVIEW_LENGTH = 200;
+
+export type AdminLogAction =
+  | 'REPORT_DISMISSED'
+  | 'USER_WARNED'
+  | 'CONTENT_REMOVED'
+  | 'USER_SUSPENDED'
+  | 'HOLD_RELEASED'
+  | 'HOLD_REVERSED'
+  | 'WALLET_OUTGOING_RELEASED'
+  | 'DISPUTE_RESOLVED';
+
+export interface AdminLogInput {
+  adminId: string;
+  action: AdminLogAction;
+  targetUserId?: string | null;
+  targetEntityType?: string | null;
+  targetEntityId?: string | null;
+  reason?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Return the signed-in user's ID if they are an admin, otherwise null
+ */
+export async function getAdminUserId(): Promise<string | null> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { isAdmin: true },
+  });
+
+  return user?.isAdmin ? session.user.id : null;
+}
+
+/**
+ * Look up reported content and return the ID of the user responsible for it.
+ * Returns null when the content does not exist.
+ */
+export async function getContentOwner(
+  contentType: ReportContentType,
+  contentId: string
+): Promise<{ ownerId: string; participantIds: string[] } | null> {
+  switch (contentType) {
+    case 'post': {
+      const post = await prisma.newsfeedPost.findUnique({
+        where: { id: contentId },
+        select: { authorId: true },
+      });
+      return post ? { ownerId: post.authorId, participantIds: [] } : null;
+    }
+    case 'comment': {
+      const comment = await prisma.postComment.findUnique({
+        where: { id: contentId },
+        select: { commenterId: true },
+      });
+      return comment
+        ? { ownerId: comment.commenterId, participantIds: [] }
+        : null;
+    }
+    case 'user': {
+      const user = await prisma.user.findUnique({
+        where: { id: contentId },
+        select: { id: true },
+      });
+      return user ? { ownerId: user.id, participantIds: [] } : null;
+    }
+    case 'review': {
+      const review = await prisma.review.findUnique({
+        where: { id: contentId },
+        select: { reviewedByUserId: true },
+      });
+      return review
+        ? { ownerId: review.reviewedByUserId, participantIds: [] }
+        : null;
+    }
+    case 'message': {
+      // Messages are private, so only the two participants may report them
+      const message = await prisma.message.findUnique({
+        where: { id: contentId },
+        select: { senderId: true, receiverId: true },
+      });
+      return message
+        ? {
+            ownerId: message.senderId,
+            participantIds: [message.senderId, message.receiverId],
+          }
+        : null;
+    }
+  }
+}
+
+/**
+ * Build short previews of reported content for the admin queue,
+ * keyed by `${contentType}:${contentId}`
+ */
+export async function getContentPreviews(
+  reports: { contentType: string; contentId: string }[]
+): Promise<Map<string, string>> {
+  const idsByType = new Map<string, string[]>();
+  for (const report of reports) {
+    const ids = idsByType.get(report.contentType) || [];
+    ids.push(report.contentId);
+    idsByType.set(report.contentType, ids);
+  }
+
+  const idsFor = (type: ReportContentType) => idsByType.get(type) || [];
+
+  const [posts, comments, users, reviews, messages] = await Promise.all([
+    prisma.newsfeedPost.findMany({
+      where: { id: { in: idsFor('post') } },
+      select: { id: true, title: true, content: true },
+    }),
+    prisma.postComment.findMany({
+      where: { id: { in: idsFor('comment') } },
+      select: { id: true, content: true },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: idsFor('user') } },
+      select: { id: true, fullName: true, name: true, bio: true },
+    }),
+    prisma.review.findMany({
+      where: { id: { in: idsFor('review') } },
+      select: { id: true, rating: true, comments: true },
+    }),
+    prisma.message.findMany({
+      where: { id: { in: idsFor('message') } },
+      select: { id: true, content: true, mediaName: true },
+    }),
+  ]);
+
+  const previews = new Map<string, string>();
+  const add = (type: ReportContentType, id: string, text: string) => {
+    previews.set(`${type}:${id}`, text.slice(0, PREVIEW_LENGTH));
+  };
+
+  posts.forEach((p) => add('post', p.id, `${p.title} — ${p.content}`));
+  comments.forEach((c) => add('comment', c.id, c.content));
+  users.forEach((u) =>
+    add(
+      'user',
+      u.id,
+      [u.fullName || u.name || 'User', u.bio].filter(Boolean).join(' — ')
+    )
+  );
+  reviews.forEach((r) =>
+    add(
+      'review',
+      r.id,
+      r.comments ? `${r.rating}/5 — ${r.comments}` : `${r.rating}/5`
+    )
+  );
+  messages.forEach((m) =>
+    add('message', m.id, m.content || m.mediaName || '')
+  );
+
+  return previews;
+}
+
+/**
+ * Delete reported content. Users cannot be removed this way.
+ * Returns false when the content no longer exists.
+ */
+export async function removeContent(
+  tx: Prisma.TransactionClient,
+  contentType: Exclude<ReportContentType, 'user'>,
+  contentId: string
+): Promise<boolean> {
+  const where = { where: { id: contentId } };
+  let result: { count: number };
+
+  switch (contentType) {
+    case 'post':
+      result = await tx.newsfeedPost.deleteMany(where);
+      break;
+    case 'comment':
+      result = await tx.postComment.deleteMany(where);
+      break;
+    case 'review':
+      result = await tx.review.deleteMany(where);
+      break;
+    case 'message':
+      result = await tx.message.deleteMany(where);
+      break;
+  }
+
+  return result.count > 0;
+}
+
+/**
+ * Record an admin action in the audit log
+ */
+export async function logAdminAction(
+  tx: Prisma.TransactionClient,
+  input: AdminLogInput
+): Promise<void> {
+  await tx.adminLog.create({
+    data: {
+      adminId: input.adminId,
+      action: input.action,
+      targetUserId: input.targetUserId ?? null,
+      targetEntityType: input.targetEntityType ?? null,
+      targetEntityId: input.targetEntityId ?? null,
+      reason: input.reason ?? null,
+      details: input.details ? JSON.stringify(input.details) : null,
+    },
+  });
+}
@@ -0,0 +1,186 @@
+/**
+ * Notification Service
+ *
+ * Server-side helpers for writing in-app notifications. API routes call
+ * these after their primary action succeeds; failures are logged and
+ * swallowed so a notification problem never breaks the action itself.
+ * New notifications are also pushed to the recipient's open tabs.
+ *
+ * @fileoverview Notification creation, serialization and link resolution
+ */
+import type { Notification } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { publishToUsers } from '@/lib/realtime';
+import {
+  NOTIFICATION_EVENT,
+  type NotificationItem,
+} from '@/lib/types/notifications';
+
+export type NotificationType =
+  | 'CONNECTION_REQUEST'
+  | 'CONNECTION_ACCEPTED'
+  | 'SESSION_REQUEST'
+  | 'SESSION_ACCEPTED'
+  | 'SESSION_DECLINED'
+  | 'SESSION_COMPLETED'
+  | 'SESSION_CANCELLED'
+  | 'MESSAGE'
+  | 'REVIEW'
+  | 'POST_LIKE'
+  | 'POST_COMMENT'
+  | 'ADMIN_WARNING'
+  | 'CONTENT_REMOVED'
+  | 'CREDITS_RECEIVED'
+  | 'CONNECTION_REQUEST_EXPIRED'
+  | 'SESSION_REQUEST_EXPIRED'
+  | 'SESSION_DISPUTED'
+  | 'DISPUTE_RESOLVED'
+  | 'SESSION_RESCHEDULE_REQUESTED'
+  | 'SESSION_RESCHEDULED'
+  | 'SESSION_RESCHEDULE_DECLINED'
+  | 'GROUP_SESSION_JOINED'
+  | 'GROUP_SESSION_LEFT'
+  | 'GROUP_SESSION_REPORTED'
+  | 'GROUP_SESSION_COMPLETED'
+  | 'GROUP_SESSION_CANCELLED';
+
+export type NotificationEntityType =
+  | 'connection_request'
+  | 'connection'
+  | 'session_request'
+  | 'session'
+  | 'session_series'
+  | 'group_session'
+  | 'review'
+  | 'post';
+
+export interface CreateNotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  relatedUserId?: string | null;
+  relatedEntityId?: string | null;
+  relatedEntityType?: NotificationEntityType | null;
+}
+
+/**
+ * Create a single notification for a user.
+ * Skips notifications a user would send to themselves (e.g. liking own post).
+ */
+export async function createNotification(
+  input: CreateNotificationInput
+): Promise<void> {
+  await createNotifications([input]);
+}
+
+/**
+ * Create several notifications at once (e.g. both session participants)
+ */
+export async function createNotifications(
+  inputs: CreateNotificationInput[]
+): Promise<void> {
+  const data = inputs
+    .filter((input) => input.userId !== input.relatedUserId)
+    .map((input) => ({
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      relatedUserId: input.relatedUserId ?? null,
+      relatedEntityId: input.relatedEntityId ?? null,
+      relatedEntityType: input.relatedEntityType ?? null,
+    }));
+
+  if (data.length === 0) return;
+
+  try {
+    const created = await prisma.notification.createManyAndReturn({ data });
+    const items = await serializeNotifications(created);
+
+    await publishToUsers(
+      created.map((notification, index) => ({
+        userId: notification.userId,
+        event: NOTIFICATION_EVENT,
+        payload: items[index],
+      }))
+    );
+  } catch (error) {
+    console.error('Error creating notifications:', error);
+  }
+}
+
+/**
+ * Shape notification rows for the client, attaching the actor's
+ * name and avatar and the page each notification links to
+ */
+export async function serializeNotifications(
+  notifications: Notification[]
+): Promise<NotificationItem[]> {
+  const relatedUserIds = [
+    ...new Set(
+      notifications
+        .map((n) => n.relatedUserId)
+        .filter((id): id is string => !!id)
+    ),
+  ];
+  const relatedUsers =
+    relatedUserIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: relatedUserIds } },
+          select: { id: true, fullName: true, name: true, image: true },
+        })
+      : [];
+  const usersById = new Map(relatedUsers.map((u) => [u.id, u]));
+
+  return notifications.map((n) => {
+    const relatedUser = n.relatedUserId
+      ? usersById.get(n.relatedUserId)
+      : undefined;
+
+    return {
+      id: n.id,
+      type: n.type,
+      title: n.title,
+      message: n.message,
+      isRead: n.isRead,
+      createdAt: n.createdAt,
+      relatedEntityId: n.relatedEntityId,
+      relatedEntityType: n.relatedEntityType,
+      link: getNotificationLink(n),
+      relatedUser: relatedUser
+        ? {
+            id: relatedUser.id,
+            name: relatedUser.fullName || relatedUser.name || 'User',
+            image: relatedUser.image,
+          }
+        : null,
+    };
+  });
+}
+
+/**
+ * Resolve the in-app page a notification should open
+ */
+export function getNotificationLink(notification: {
+  relatedEntityType: string | null;
+  relatedUserId: string | null;
+}): string | undefined {
+  switch (notification.relatedEntityType) {
+    case 'connection_request':
+    case 'connection':
+      return '/connections';
+    case 'session_request':
+    case 'session':
+    case 'session_series':
+    case 'group_session':
+    case 'review':
+      return '/sessions';
+    case 'post':
+      return '/newsfeed';
+    default:
+      return notification.relatedUserId
+        ? `/profile/${notification.relatedUserId}`
+        : undefined;
+  }
+}
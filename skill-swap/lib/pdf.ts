@@ -0,0 +1,122 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Produces simple text-only A4 documents (reports, statements) without
+ * pulling in a PDF library. Uses the built-in Helvetica fonts, wraps
+ * long lines and paginates automatically. Characters outside Latin-1
+ * are replaced with "?".
+ *
+ * @fileoverview Text PDF generation
+ */
+
+export interface PdfLine {
+  text: string;
+  size?: number; // Font size in points (default 10)
+  bold?: boolean;
+  gapBefore?: number; // Extra space above the line in points
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_SPACING = 1.4;
+// Helvetica averages roughly half an em per character
+const AVG_CHAR_WIDTH = 0.5;
+
+function escapePdfText(text: string) {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function wrapLine(text: string, size: number): string[] {
+  const maxChars = Math.floor(
+    (PAGE_WIDTH - MARGIN * 2) / (size * AVG_CHAR_WIDTH)
+  );
+  if (text.length <= maxChars) return [text];
+
+  const wrapped: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxChars && current) {
+      wrapped.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) wrapped.push(current);
+  return wrapped;
+}
+
+/**
+ * Render lines of text into a PDF document
+ */
+export function buildTextPdf(lines: PdfLine[]): Buffer {
+  // Lay the lines out into page content streams
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const font = line.bold ? 'F2' : 'F1';
+    const height = size * LINE_SPACING;
+    y -= line.gapBefore ?? 0;
+
+    for (const part of wrapLine(line.text, size)) {
+      if (y - height < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= height;
+      pages[pages.length - 1].push(
+        `BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapePdfText(part)}) Tj ET`
+      );
+    }
+  }
+
+  // Objects 1-4 are fixed; each page adds a page object and a content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '', // Pages tree, filled in once page object numbers are known
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  const pageRefs: string[] = [];
+
+  for (const commands of pages) {
+    const content = commands.join('\n');
+    const pageNumber = objects.length + 1;
+    const contentNumber = pageNumber + 1;
+    pageRefs.push(`${pageNumber} 0 R`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentNumber} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  }
+
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`;
+
+  // Serialize with a cross-reference table of byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
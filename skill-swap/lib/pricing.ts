@@ -0,0 +1,107 @@
+/**
+ * Credit Pricing
+ *
+ * One place for what things cost. Connection and session requests carry
+ * a flat fee; a session is priced from its length and the provider's
+ * hourly rate for the skill being taught. Quotes are computed the same
+ * way in the request dialog and on the server, and the server's quote is
+ * stored on the request so the price can't change after it's sent.
+ *
+ * No database access here so client components can import it.
+ *
+ * @fileoverview Credit pricing policy and session price quotes
+ */
+import { CREDITS } from '@/lib/constants';
+
+export interface SessionPriceQuote {
+  durationMinutes: number;
+  billedMinutes: number; // Duration rounded up to the billing increment
+  hourlyRate: number;
+  requestFee: number;
+  sessionCredits: number; // Reserved when the request is accepted
+  totalCredits: number; // requestFee + sessionCredits
+}
+
+export const CONNECTION_REQUEST_COST = CREDITS.CONNECTION_REQUEST_FEE;
+export const SESSION_REQUEST_COST = CREDITS.SESSION_REQUEST_FEE;
+
+/**
+ * The hourly rate a skill is charged at, falling back to the default
+ * when none is set and clamped to the allowed range
+ */
+export function resolveHourlyRate(hourlyRate?: number | null): number {
+  const rate = hourlyRate ?? CREDITS.DEFAULT_HOURLY_RATE;
+  return Math.min(
+    Math.max(Math.round(rate), CREDITS.MIN_HOURLY_RATE),
+    CREDITS.MAX_HOURLY_RATE
+  );
+}
+
+/**
+ * Whether a teacher-set hourly rate is a whole number in the allowed range
+ */
+export function isValidHourlyRate(rate: number): boolean {
+  return (
+    Number.isInteger(rate) &&
+    rate >= CREDITS.MIN_HOURLY_RATE &&
+    rate <= CREDITS.MAX_HOURLY_RATE
+  );
+}
+
+/**
+ * Price a session from its start and end times and the hourly rate
+ */
+export function quoteSessionPrice(
+  startDate: Date,
+  endDate: Date,
+  hourlyRate: number
+): { quote: SessionPriceQuote } | { error: string } {
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    return { error: 'Invalid session start or end time' };
+  }
+
+  const durationMinutes = Math.round(
+    (endDate.getTime() - startDate.getTime()) / 60000
+  );
+
+  if (durationMinutes <= 0) {
+    return { error: 'Session end time must be after the start time' };
+  }
+
+  if (durationMinutes < CREDITS.MIN_SESSION_MINUTES) {
+    return {
+      error: `Sessions must be at least ${CREDITS.MIN_SESSION_MINUTES} minutes long`,
+    };
+  }
+
+  if (durationMinutes > CREDITS.MAX_SESSION_MINUTES) {
+    return {
+      error: `Sessions can be at most ${CREDITS.MAX_SESSION_MINUTES / 60} hours long`,
+    };
+  }
+
+  const increment = CREDITS.BILLING_INCREMENT_MINUTES;
+  const billedMinutes = Math.ceil(durationMinutes / increment) * increment;
+  const sessionCredits = Math.ceil((billedMinutes / 60) * hourlyRate);
+
+  return {
+    quote: {
+      durationMinutes,
+      billedMinutes,
+      hourlyRate,
+      requestFee: SESSION_REQUEST_COST,
+      sessionCredits,
+      totalCredits: SESSION_REQUEST_COST + sessionCredits,
+    },
+  };
+}
+
+/**
+ * "1h 30m" style label for a number of minutes
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
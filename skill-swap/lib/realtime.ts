@@ -0,0 +1,71 @@
+/**
+ * Realtime Publisher
+ *
+ * Lets API routes push events to connected clients through the socket
+ * server's internal HTTP endpoint. Requests are signed with a short-lived
+ * JWT using the shared SOCKET_SECRET, the same secret that authenticates
+ * browser sockets. Delivery is best-effort: failures are logged and never
+ * thrown, since the data is already persisted by the caller.
+ *
+ * @fileoverview Server-to-socket event publishing
+ */
+import jwt from 'jsonwebtoken';
+
+const SOCKET_SERVER_URL =
+  process.env.SOCKET_SERVER_URL ||
+  process.env.NEXT_PUBLIC_SOCKET_URL ||
+  'http://localhost:4000';
+
+// Don't hold up the API response if the socket server is slow or down
+const PUBLISH_TIMEOUT_MS = 3000;
+
+export interface RealtimeEvent {
+  userId: string;
+  event: string;
+  payload: unknown;
+}
+
+/**
+ * Emit events to the personal rooms of the given users
+ */
+export async function publishToUsers(events: RealtimeEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  await postToSocketServer('/internal/emit', { events });
+}
+
+/**
+ * Drop every live socket of the given users (e.g. after a suspension).
+ * Clients receive ACCOUNT_SUSPENDED_EVENT first so they can sign out.
+ */
+export async function disconnectUsers(userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return;
+  await postToSocketServer('/internal/disconnect', { userIds });
+}
+
+async function postToSocketServer(path: string, body: unknown): Promise<void> {
+  const secret = process.env.SOCKET_SECRET;
+  if (!secret) {
+    console.warn('[Realtime] SOCKET_SECRET is not set; skipping publish');
+    return;
+  }
+
+  try {
+    const token = jwt.sign({ scope: 'internal' }, secret, { expiresIn: '1m' });
+
+    const response = await fetch(`${SOCKET_SERVER_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error('[Realtime] Publish failed with status', response.status);
+    }
+  } catch (error) {
+    console.error('[Realtime] Publish error:', error);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Session Recurrence
+ *
+ * A session request can repeat weekly or every two weeks, either a fixed
+ * number of times or until a date. The rule is expanded into occurrence
+ * times the same way in the request dialog (to preview the series) and
+ * on the server (to create it). Occurrences are spaced a whole number
+ * of weeks apart in the provider's time zone, so they keep the same
+ * wall-clock time across daylight saving changes, and keep the first
+ * one's length.
+ *
+ * No database access here so client components can import it.
+ *
+ * @fileoverview Recurrence rules and occurrence expansion
+ */
+import { SESSION_SERIES } from '@/lib/constants';
+import {
+  addDays,
+  dateKeyInZone,
+  minutesInZone,
+  zonedTimeToUtc,
+} from '@/lib/availability';
+
+export const RECURRENCE_FREQUENCIES = [
+  { value: 'WEEKLY', label: 'Every week', intervalDays: 7 },
+  { value: 'BIWEEKLY', label: 'Every 2 weeks', intervalDays: 14 },
+] as const;
+
+export type RecurrenceFrequency =
+  (typeof RECURRENCE_FREQUENCIES)[number]['value'];
+
+// Exactly one of `count` and `until` is set
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count?: number | null;
+  until?: Date | string | null;
+}
+
+export interface Occurrence {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Expand a recurrence rule from the first occurrence's times, stepping
+ * calendar days in `timeZone`, or explain why the rule is invalid
+ */
+export function buildOccurrences(
+  startDate: Date,
+  endDate: Date,
+  rule: RecurrenceRule,
+  timeZone: string
+): { occurrences: Occurrence[] } | { error: string } {
+  const frequency = RECURRENCE_FREQUENCIES.find(
+    (f) => f.value === rule.frequency
+  );
+  if (!frequency) {
+    return { error: 'Invalid repeat frequency' };
+  }
+
+  const startKey = dateKeyInZone(startDate, timeZone);
+  const startMinutes = minutesInZone(startDate, timeZone);
+  const lengthMs = endDate.getTime() - startDate.getTime();
+
+  const occurrenceAt = (index: number): Occurrence => {
+    const start =
+      index === 0
+        ? startDate
+        : zonedTimeToUtc(
+            addDays(startKey, index * frequency.intervalDays),
+            startMinutes,
+            timeZone
+          );
+    return { startDate: start, endDate: new Date(start.getTime() + lengthMs) };
+  };
+
+  const hasCount = rule.count != null;
+  const hasUntil = rule.until != null && rule.until !== '';
+  if (hasCount === hasUntil) {
+    return { error: 'Choose a number of sessions or an end date for the series' };
+  }
+
+  let count: number;
+  if (hasCount) {
+    count = Number(rule.count);
+    if (!Number.isInteger(count) || count < 2) {
+      return { error: 'A series needs at least 2 sessions' };
+    }
+  } else {
+    const until = new Date(rule.until!);
+    if (isNaN(until.getTime()) || until < startDate) {
+      return { error: 'The series must end after its first session' };
+    }
+    // Occurrences starting on or before the end date, counting one past
+    // the limit so a series that is too long is reported below
+    count = 0;
+    while (
+      count <= SESSION_SERIES.MAX_OCCURRENCES &&
+      occurrenceAt(count).startDate <= until
+    ) {
+      count++;
+    }
+    if (count < 2) {
+      return { error: 'A series needs at least 2 sessions before its end date' };
+    }
+  }
+
+  if (count > SESSION_SERIES.MAX_OCCURRENCES) {
+    return {
+      error: `A series can have at most ${SESSION_SERIES.MAX_OCCURRENCES} sessions`,
+    };
+  }
+
+  const occurrences: Occurrence[] = [];
+  for (let i = 0; i < count; i++) {
+    occurrences.push(occurrenceAt(i));
+  }
+
+  return { occurrences };
+}
+
+export function frequencyLabel(frequency: string): string {
+  return (
+    RECURRENCE_FREQUENCIES.find((f) => f.value === frequency)?.label ||
+    frequency
+  );
+}
@@ -0,0 +1,311 @@
+/**
+ * Request Expiry
+ *
+ * Pending connection and session requests hold the sender's credits in
+ * their outgoing balance until the receiver responds. Requests that go
+ * unanswered past their TTL, and session requests whose start time has
+ * passed, are marked EXPIRED: the held credits are refunded with a
+ * *_REFUNDED transaction and both parties are notified.
+ *
+ * Run on a schedule by /api/cron/expire-requests.
+ *
+ * @fileoverview Expiry of stale pending requests
+ */
+import { prisma } from '@/lib/prisma';
+import { REQUEST_EXPIRY } from '@/lib/constants';
+import { ledgerReference, releaseHold } from '@/lib/ledger';
+import {
+  createNotifications,
+  type CreateNotificationInput,
+} from '@/lib/notifications';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Requests expired per run, so one run can't hold the database for long
+const EXPIRY_BATCH_SIZE = 200;
+
+const USER_SELECT = {
+  fullName: true,
+  name: true,
+  wallet: { select: { id: true } },
+} as const;
+
+export interface ExpiryResult {
+  connectionRequestsExpired: number;
+  sessionRequestsExpired: number;
+  creditsRefunded: number;
+}
+
+function ttlDays(envValue: string | undefined, fallback: number): number {
+  const days = Number(envValue);
+  return Number.isFinite(days) && days > 0 ? days : fallback;
+}
+
+/**
+ * How long a request of each kind may stay pending, in milliseconds
+ */
+export function getRequestTtlMs(kind: 'connection' | 'session'): number {
+  return kind === 'connection'
+    ? ttlDays(
+        process.env.CONNECTION_REQUEST_TTL_DAYS,
+        REQUEST_EXPIRY.CONNECTION_REQUEST_TTL_DAYS
+      ) * DAY_MS
+    : ttlDays(
+        process.env.SESSION_REQUEST_TTL_DAYS,
+        REQUEST_EXPIRY.SESSION_REQUEST_TTL_DAYS
+      ) * DAY_MS;
+}
+
+/**
+ * When a pending session request will expire: its TTL or its start
+ * time, whichever comes first
+ */
+export function getSessionRequestExpiry(request: {
+  createdAt: Date;
+  startDate: Date;
+}): Date {
+  const ttlExpiry = request.createdAt.getTime() + getRequestTtlMs('session');
+  return new Date(Math.min(ttlExpiry, request.startDate.getTime()));
+}
+
+/**
+ * When a pending connection request will expire
+ */
+export function getConnectionRequestExpiry(request: { createdAt: Date }): Date {
+  return new Date(request.createdAt.getTime() + getRequestTtlMs('connection'));
+}
+
+/**
+ * Filter for expired requests recent enough to still be listed
+ */
+export function recentlyExpiredFilter() {
+  return {
+    status: 'EXPIRED',
+    updatedAt: {
+      gte: new Date(Date.now() - REQUEST_EXPIRY.EXPIRED_VISIBLE_DAYS * DAY_MS),
+    },
+  };
+}
+
+/**
+ * Filter for session requests still awaiting an answer: pending, within
+ * their TTL and not yet started. Stale ones stay PENDING until the next
+ * expiry run.
+ */
+export function openSessionRequestFilter(now = new Date()) {
+  return {
+    status: 'PENDING',
+    createdAt: { gt: new Date(now.getTime() - getRequestTtlMs('session')) },
+    startDate: { gt: now },
+  };
+}
+
+function displayName(user: { fullName: string | null; name: string | null }) {
+  return user.fullName || user.name || 'User';
+}
+
+/**
+ * Expire every stale pending request and refund its held credits.
+ * Each request is expired in its own transaction, so one failure doesn't
+ * stop the rest of the run.
+ */
+export async function expireStaleRequests(
+  now = new Date()
+): Promise<ExpiryResult> {
+  const result: ExpiryResult = {
+    connectionRequestsExpired: 0,
+    sessionRequestsExpired: 0,
+    creditsRefunded: 0,
+  };
+  const notifications: CreateNotificationInput[] = [];
+
+  // ==================== Connection requests ====================
+
+  const staleConnectionRequests = await prisma.connectionRequest.findMany({
+    where: {
+      status: 'PENDING',
+      createdAt: { lt: new Date(now.getTime() - getRequestTtlMs('connection')) },
+    },
+    include: {
+      transaction: { select: { id: true } },
+      sender: { select: USER_SELECT },
+      receiver: { select: USER_SELECT },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: EXPIRY_BATCH_SIZE,
+  });
+
+  for (const request of staleConnectionRequests) {
+    const senderWalletId = request.sender.wallet?.id;
+    const refund = senderWalletId ? request.creditsHeld : 0;
+
+    try {
+      const expired = await prisma.$transaction(async (tx) => {
+        // Skip requests answered since they were loaded
+        const { count } = await tx.connectionRequest.updateMany({
+          where: { id: request.id, status: 'PENDING' },
+          data: { status: 'EXPIRED' },
+        });
+        if (count === 0) return false;
+
+        if (request.transaction) {
+          await tx.transaction.update({
+            where: { id: request.transaction.id },
+            data: {
+              status: 'REFUNDED',
+              note: `Connection request expired - ${refund} credits refunded`,
+            },
+          });
+        }
+
+        if (senderWalletId && refund > 0) {
+          const refundTx = await tx.transaction.create({
+            data: {
+              walletId: senderWalletId,
+              amount: refund,
+              type: 'CONNECTION_REQUEST_REFUNDED',
+              status: 'COMPLETED',
+              relatedUserId: request.receiverId,
+              note: `Connection request to ${displayName(request.receiver)} expired - ${refund} credits refunded`,
+            },
+          });
+
+          await releaseHold(tx, senderWalletId, refund, {
+            reference: ledgerReference('connection_request', request.id),
+            transactionId: refundTx.id,
+          });
+        }
+
+        return true;
+      });
+
+      if (!expired) continue;
+
+      result.connectionRequestsExpired++;
+      result.creditsRefunded += refund;
+      notifications.push(
+        {
+          userId: request.senderId,
+          type: 'CONNECTION_REQUEST_EXPIRED',
+          title: 'Connection request expired',
+          message: `Your connection request to ${displayName(request.receiver)} expired. ${refund} credits were refunded.`,
+          relatedUserId: request.receiverId,
+          relatedEntityId: request.id,
+          relatedEntityType: 'connection_request',
+        },
+        {
+          userId: request.receiverId,
+          type: 'CONNECTION_REQUEST_EXPIRED',
+          title: 'Connection request expired',
+          message: `The connection request from ${displayName(request.sender)} expired`,
+          relatedUserId: request.senderId,
+          relatedEntityId: request.id,
+          relatedEntityType: 'connection_request',
+        }
+      );
+    } catch (error) {
+      console.error(`Error expiring connection request ${request.id}:`, error);
+    }
+  }
+
+  // ==================== Session requests ====================
+
+  const staleSessionRequests = await prisma.sessionRequest.findMany({
+    where: {
+      status: 'PENDING',
+      OR: [
+        { createdAt: { lt: new Date(now.getTime() - getRequestTtlMs('session')) } },
+        { startDate: { lte: now } },
+      ],
+    },
+    include: {
+      transaction: { select: { id: true } },
+      sender: { select: USER_SELECT },
+      receiver: { select: USER_SELECT },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: EXPIRY_BATCH_SIZE,
+  });
+
+  for (const request of staleSessionRequests) {
+    const senderWalletId = request.sender.wallet?.id;
+    const refund = senderWalletId ? request.creditsHeld : 0;
+    const reason =
+      request.startDate <= now
+        ? 'its start time passed before it was accepted'
+        : 'it was not answered in time';
+
+    try {
+      const expired = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.sessionRequest.updateMany({
+          where: { id: request.id, status: 'PENDING' },
+          data: { status: 'EXPIRED' },
+        });
+        if (count === 0) return false;
+
+        if (request.transaction) {
+          await tx.transaction.update({
+            where: { id: request.transaction.id },
+            data: {
+              status: 'REFUNDED',
+              note: `Session request expired - ${refund} credits refunded`,
+            },
+          });
+        }
+
+        if (senderWalletId && refund > 0) {
+          const refundTx = await tx.transaction.create({
+            data: {
+              walletId: senderWalletId,
+              amount: refund,
+              type: 'SESSION_REQUEST_REFUNDED',
+              status: 'COMPLETED',
+              relatedUserId: request.receiverId,
+              note: `Session request expired: ${request.sessionName} - ${refund} credits refunded`,
+            },
+          });
+
+          await releaseHold(tx, senderWalletId, refund, {
+            reference: ledgerReference('session_request', request.id),
+            transactionId: refundTx.id,
+          });
+        }
+
+        return true;
+      });
+
+      if (!expired) continue;
+
+      result.sessionRequestsExpired++;
+      result.creditsRefunded += refund;
+      notifications.push(
+        {
+          userId: request.senderId,
+          type: 'SESSION_REQUEST_EXPIRED',
+          title: 'Session request expired',
+          message: `Your session request "${request.sessionName}" expired because ${reason}. ${refund} credits were refunded.`,
+          relatedUserId: request.receiverId,
+          relatedEntityId: request.id,
+          relatedEntityType: 'session_request',
+        },
+        {
+          userId: request.receiverId,
+          type: 'SESSION_REQUEST_EXPIRED',
+          title: 'Session request expired',
+          message: `The session request "${request.sessionName}" from ${displayName(request.sender)} expired because ${reason}`,
+          relatedUserId: request.senderId,
+          relatedEntityId: request.id,
+          relatedEntityType: 'session_request',
+        }
+      );
+    } catch (error) {
+      console.error(`Error expiring session request ${request.id}:`, error);
+    }
+  }
+
+  if (notifications.length > 0) {
+    await createNotifications(notifications);
+  }
+
+  return result;
+}
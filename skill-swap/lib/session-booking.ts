@@ -0,0 +1,160 @@
+/**
+ * Session Booking
+ *
+ * A session request books time with its receiver, who will teach it. The
+ * requested time must fall inside the receiver's availability, if they
+ * have set any, and must not overlap either user's sessions, the open
+ * group sessions either user hosts or holds a seat in, or the slot of
+ * another open request. While a request is PENDING its slot is held, so a
+ * second learner can't request the same hour; the hold lapses once the
+ * request is answered or expires.
+ *
+ * Every session of a recurring request is checked, but only the first
+ * one's slot is held.
+ *
+ * @fileoverview Slot checks and tentative holds for session requests
+ */
+import type { Prisma } from '@prisma/client';
+import { hasAvailability, isWithinSchedule } from '@/lib/availability';
+import { openSessionRequestFilter } from '@/lib/request-expiry';
+import { findScheduleConflicts } from '@/lib/session-reschedule';
+import { loadAvailabilitySchedule } from '@/lib/user-availability';
+import type { Occurrence } from '@/lib/recurrence';
+import type { ScheduleConflict } from '@/lib/types/reschedules';
+
+/**
+ * A requested time that can't be booked, with the HTTP status the API
+ * should answer with. Overlaps carry the conflicting sessions.
+ */
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public conflicts: ScheduleConflict[] = []
+  ) {
+    super(message);
+    this.name = 'BookingError';
+  }
+}
+
+function overlapsAny(
+  period: { startDate: Date | string; endDate: Date | string },
+  occurrences: Occurrence[]
+): boolean {
+  const start = new Date(period.startDate);
+  const end = new Date(period.endDate);
+  return occurrences.some((o) => start < o.endDate && end > o.startDate);
+}
+
+/**
+ * Check the requested sessions can be booked, before the request holding
+ * them is created. Call inside that request's transaction: both users'
+ * rows are locked first, so concurrent requests for the same time are
+ * checked one after the other.
+ */
+export async function reserveRequestSlot(
+  tx: Prisma.TransactionClient,
+  input: { learnerId: string; providerId: string; occurrences: Occurrence[] }
+) {
+  const { learnerId, providerId, occurrences } = input;
+  const first = occurrences[0];
+  const last = occurrences[occurrences.length - 1];
+
+  // Lock in a fixed order so two requests can't wait on each other
+  for (const userId of [learnerId, providerId].sort()) {
+    await tx.user.updateMany({
+      where: { id: userId },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  const schedule = await loadAvailabilitySchedule(tx, providerId);
+  if (schedule && hasAvailability(schedule)) {
+    const outside = occurrences.find(
+      (o) => !isWithinSchedule(schedule, o.startDate, o.endDate)
+    );
+    if (outside) {
+      const date = outside.startDate.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        timeZone: schedule.timeZone,
+      });
+      throw new BookingError(
+        occurrences.length > 1
+          ? `The session on ${date} is outside their available hours`
+          : 'This time is outside their available hours',
+        400
+      );
+    }
+  }
+
+  const conflicts = (
+    await findScheduleConflicts(tx, {
+      userIds: [learnerId, providerId],
+      startDate: first.startDate,
+      endDate: last.endDate,
+    })
+  ).filter((c) => overlapsAny(c, occurrences));
+
+  if (conflicts.length > 0) {
+    throw new BookingError(
+      'This time overlaps another session for one of you',
+      409,
+      conflicts
+    );
+  }
+
+  const groupSession = (
+    await tx.groupSession.findMany({
+      where: {
+        startDate: { lt: last.endDate },
+        endDate: { gt: first.startDate },
+        status: 'OPEN',
+        OR: [
+          { providerId: { in: [learnerId, providerId] } },
+          {
+            seats: {
+              some: {
+                learnerId: { in: [learnerId, providerId] },
+                status: 'JOINED',
+              },
+            },
+          },
+        ],
+      },
+      select: { sessionName: true, startDate: true, endDate: true },
+    })
+  ).find((g) => overlapsAny(g, occurrences));
+
+  if (groupSession) {
+    throw new BookingError(
+      `This time overlaps the group session ${groupSession.sessionName} for one of you`,
+      409
+    );
+  }
+
+  const held = (
+    await tx.sessionRequest.findMany({
+      where: {
+        AND: [
+          { startDate: { lt: last.endDate }, endDate: { gt: first.startDate } },
+          openSessionRequestFilter(),
+        ],
+        OR: [
+          { senderId: { in: [learnerId, providerId] } },
+          { receiverId: { in: [learnerId, providerId] } },
+        ],
+      },
+      select: { senderId: true, startDate: true, endDate: true },
+    })
+  ).find((request) => overlapsAny(request, occurrences));
+
+  if (held) {
+    throw new BookingError(
+      held.senderId === learnerId
+        ? 'You already have a pending request for this time'
+        : 'This time is held by another pending request. Please pick another slot.',
+      409
+    );
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Session Rescheduling
+ *
+ * Either participant can propose moving an ACTIVE session to a new time.
+ * The session only moves once the other party accepts; until then the
+ * proposal is PENDING and can be declined, or withdrawn by its proposer.
+ * Proposing again while one is pending supersedes it, so a session has at
+ * most one pending proposal. Every proposal is kept as the session's
+ * reschedule history.
+ *
+ * A proposal keeps the session's length, so the credits already reserved
+ * for it still cover it. Like a new booking, it must fall inside the
+ * provider's availability, if they have set any, and must not overlap
+ * either user's other sessions, open group sessions or slots held by
+ * pending requests. The new time is checked when proposing and again on
+ * acceptance.
+ *
+ * @fileoverview Reschedule proposals and responses
+ */
+import type { Prisma, SessionReschedule } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { hasAvailability, isWithinSchedule } from '@/lib/availability';
+import { createNotification } from '@/lib/notifications';
+import {
+  findBusyPeriods,
+  loadAvailabilitySchedule,
+} from '@/lib/user-availability';
+import type {
+  RescheduleAction,
+  RescheduleProposalItem,
+  RescheduleStatus,
+  ScheduleConflict,
+} from '@/lib/types/reschedules';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const SESSION_SELECT = {
+  id: true,
+  sessionName: true,
+  status: true,
+  startDate: true,
+  endDate: true,
+  learnerId: true,
+  providerId: true,
+  learnerCompletionConfirmed: true,
+  providerCompletionConfirmed: true,
+} as const;
+
+type RescheduleSession = Prisma.SessionGetPayload<{
+  select: typeof SESSION_SELECT;
+}>;
+
+/**
+ * A reschedule action that can't be applied, with the HTTP status the API
+ * should answer with. Overlaps carry the conflicting sessions.
+ */
+export class RescheduleError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public conflicts: ScheduleConflict[] = []
+  ) {
+    super(message);
+    this.name = 'RescheduleError';
+  }
+}
+
+export function toRescheduleProposalItem(
+  proposal: SessionReschedule,
+  userId: string,
+  names: Record<string, string>
+): RescheduleProposalItem {
+  return {
+    id: proposal.id,
+    proposedBy: proposal.proposedBy,
+    proposedByName: names[proposal.proposedBy] || 'User',
+    isMine: proposal.proposedBy === userId,
+    previousStartDate: proposal.previousStartDate,
+    previousEndDate: proposal.previousEndDate,
+    proposedStartDate: proposal.proposedStartDate,
+    proposedEndDate: proposal.proposedEndDate,
+    reason: proposal.reason,
+    status: proposal.status as RescheduleStatus,
+    createdAt: proposal.createdAt,
+    respondedAt: proposal.respondedAt,
+  };
+}
+
+/**
+ * Active, disputed or scheduled sessions of any of `userIds` that overlap
+ * the given time, other than `excludeSessionId`
+ */
+export async function findScheduleConflicts(
+  db: Db,
+  input: {
+    userIds: string[];
+    startDate: Date;
+    endDate: Date;
+    excludeSessionId?: string;
+  }
+): Promise<ScheduleConflict[]> {
+  const { userIds } = input;
+
+  const sessions = await db.session.findMany({
+    where: {
+      id: input.excludeSessionId ? { not: input.excludeSessionId } : undefined,
+      status: { in: ['SCHEDULED', 'ACTIVE', 'DISPUTED'] },
+      startDate: { lt: input.endDate },
+      endDate: { gt: input.startDate },
+      OR: [{ learnerId: { in: userIds } }, { providerId: { in: userIds } }],
+    },
+    select: {
+      id: true,
+      sessionName: true,
+      startDate: true,
+      endDate: true,
+      learnerId: true,
+      providerId: true,
+    },
+    orderBy: { startDate: 'asc' },
+  });
+
+  return sessions.map((s) => ({
+    sessionId: s.id,
+    sessionName: s.sessionName,
+    startDate: s.startDate,
+    endDate: s.endDate,
+    userId: userIds.includes(s.learnerId) ? s.learnerId : s.providerId,
+  }));
+}
+
+function assertReschedulable(session: RescheduleSession) {
+  if (session.status !== 'ACTIVE') {
+    throw new RescheduleError('Only active sessions can be rescheduled', 400);
+  }
+
+  if (session.learnerCompletionConfirmed || session.providerCompletionConfirmed) {
+    throw new RescheduleError(
+      'Completion has already been confirmed for this session',
+      400
+    );
+  }
+}
+
+async function assertNoConflicts(
+  db: Db,
+  session: RescheduleSession,
+  startDate: Date,
+  endDate: Date
+) {
+  const schedule = await loadAvailabilitySchedule(db, session.providerId);
+  if (
+    schedule &&
+    hasAvailability(schedule) &&
+    !isWithinSchedule(schedule, startDate, endDate)
+  ) {
+    throw new RescheduleError(
+      "The new time is outside the provider's available hours",
+      400
+    );
+  }
+
+  const conflicts = await findScheduleConflicts(db, {
+    userIds: [session.learnerId, session.providerId],
+    startDate,
+    endDate,
+    excludeSessionId: session.id,
+  });
+
+  if (conflicts.length > 0) {
+    throw new RescheduleError(
+      'The new time overlaps another session for one of you',
+      409,
+      conflicts
+    );
+  }
+
+  // Open group sessions and slots held by pending requests
+  for (const userId of [session.learnerId, session.providerId]) {
+    const busy = await findBusyPeriods(db, userId, startDate, endDate, session.id);
+    if (busy.length > 0) {
+      throw new RescheduleError(
+        'The new time overlaps a group session or pending request for one of you',
+        409
+      );
+    }
+  }
+}
+
+async function loadParticipantSession(sessionId: string, userId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: SESSION_SELECT,
+  });
+
+  if (!session) {
+    throw new RescheduleError('Session not found', 404);
+  }
+
+  if (session.learnerId !== userId && session.providerId !== userId) {
+    throw new RescheduleError('You are not part of this session', 403);
+  }
+
+  return session;
+}
+
+/**
+ * Propose moving a session to a new time, superseding any pending proposal
+ */
+export async function proposeReschedule(input: {
+  sessionId: string;
+  userId: string;
+  userName: string;
+  startDate: Date;
+  endDate: Date;
+  reason?: string | null;
+}) {
+  const { startDate, endDate, userId } = input;
+  const session = await loadParticipantSession(input.sessionId, userId);
+  assertReschedulable(session);
+
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    throw new RescheduleError('Invalid session start or end time', 400);
+  }
+
+  if (startDate.getTime() <= Date.now()) {
+    throw new RescheduleError('The new start time must be in the future', 400);
+  }
+
+  const currentLength =
+    session.endDate.getTime() - session.startDate.getTime();
+  if (endDate.getTime() - startDate.getTime() !== currentLength) {
+    throw new RescheduleError(
+      'A rescheduled session must keep its original length',
+      400
+    );
+  }
+
+  if (startDate.getTime() === session.startDate.getTime()) {
+    throw new RescheduleError('The session is already at this time', 400);
+  }
+
+  await assertNoConflicts(prisma, session, startDate, endDate);
+
+  const proposal = await prisma.$transaction(async (tx) => {
+    await tx.sessionReschedule.updateMany({
+      where: { sessionId: session.id, status: 'PENDING' },
+      data: { status: 'SUPERSEDED', respondedAt: new Date() },
+    });
+
+    return tx.sessionReschedule.create({
+      data: {
+        sessionId: session.id,
+        proposedBy: userId,
+        previousStartDate: session.startDate,
+        previousEndDate: session.endDate,
+        proposedStartDate: startDate,
+        proposedEndDate: endDate,
+        reason: input.reason?.trim() || null,
+      },
+    });
+  });
+
+  await createNotification({
+    userId: userId === session.learnerId ? session.providerId : session.learnerId,
+    type: 'SESSION_RESCHEDULE_REQUESTED',
+    title: 'Reschedule requested',
+    message: `${input.userName} proposed a new time for ${session.sessionName}`,
+    relatedUserId: userId,
+    relatedEntityId: session.id,
+    relatedEntityType: 'session',
+  });
+
+  return proposal;
+}
+
+/**
+ * Accept, decline or withdraw a session's pending proposal. Accepting
+ * moves the session to the proposed time.
+ */
+export async function respondToReschedule(input: {
+  sessionId: string;
+  proposalId: string;
+  userId: string;
+  userName: string;
+  action: RescheduleAction;
+}) {
+  const { userId, action } = input;
+  const session = await loadParticipantSession(input.sessionId, userId);
+
+  const proposal = await prisma.sessionReschedule.findFirst({
+    where: { id: input.proposalId, sessionId: session.id },
+  });
+
+  if (!proposal) {
+    throw new RescheduleError('Proposal not found', 404);
+  }
+
+  if (proposal.status !== 'PENDING') {
+    throw new RescheduleError('This proposal is no longer pending', 409);
+  }
+
+  const isProposer = proposal.proposedBy === userId;
+  if (action === 'WITHDRAW' ? !isProposer : isProposer) {
+    throw new RescheduleError(
+      action === 'WITHDRAW'
+        ? 'Only the proposer can withdraw a proposal'
+        : 'You cannot respond to your own proposal',
+      403
+    );
+  }
+
+  const now = new Date();
+
+  if (action === 'ACCEPT') {
+    assertReschedulable(session);
+
+    if (session.startDate.getTime() !== proposal.previousStartDate.getTime()) {
+      throw new RescheduleError(
+        'The session has moved since this was proposed',
+        409
+      );
+    }
+
+    if (proposal.proposedStartDate.getTime() <= now.getTime()) {
+      throw new RescheduleError('The proposed time has already passed', 400);
+    }
+  }
+
+  const status: RescheduleStatus =
+    action === 'ACCEPT' ? 'ACCEPTED' : action === 'DECLINE' ? 'DECLINED' : 'WITHDRAWN';
+
+  await prisma.$transaction(async (tx) => {
+    // Skip proposals answered since they were loaded
+    const { count } = await tx.sessionReschedule.updateMany({
+      where: { id: proposal.id, status: 'PENDING' },
+      data: { status, respondedAt: now },
+    });
+    if (count === 0) {
+      throw new RescheduleError('This proposal is no longer pending', 409);
+    }
+
+    if (action !== 'ACCEPT') return;
+
+    // Lock both users in a fixed order, as bookings do, so a request
+    // can't take the new time while it's being checked
+    for (const participantId of [session.learnerId, session.providerId].sort()) {
+      await tx.user.updateMany({
+        where: { id: participantId },
+        data: { updatedAt: new Date() },
+      });
+    }
+
+    await assertNoConflicts(
+      tx,
+      session,
+      proposal.proposedStartDate,
+      proposal.proposedEndDate
+    );
+
+    const moved = await tx.session.updateMany({
+      where: {
+        id: session.id,
+        status: 'ACTIVE',
+        startDate: proposal.previousStartDate,
+      },
+      data: {
+        startDate: proposal.proposedStartDate,
+        endDate: proposal.proposedEndDate,
+      },
+    });
+    if (moved.count === 0) {
+      throw new RescheduleError(
+        'The session has changed since this was proposed',
+        409
+      );
+    }
+  });
+
+  if (action !== 'WITHDRAW') {
+    await createNotification({
+      userId: proposal.proposedBy,
+      type: action === 'ACCEPT' ? 'SESSION_RESCHEDULED' : 'SESSION_RESCHEDULE_DECLINED',
+      title: action === 'ACCEPT' ? 'Session rescheduled' : 'Reschedule declined',
+      message:
+        action === 'ACCEPT'
+          ? `${input.userName} accepted the new time for ${session.sessionName}`
+          : `${input.userName} declined the new time for ${session.sessionName}`,
+      relatedUserId: userId,
+      relatedEntityId: session.id,
+      relatedEntityType: 'session',
+    });
+  }
+
+  return { status, proposal };
+}
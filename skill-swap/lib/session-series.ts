@@ -0,0 +1,302 @@
+/**
+ * Recurring Session Series
+ *
+ * Accepting a session request with a recurrence rule creates a series and
+ * all of its occurrences at once. The first occurrence is ACTIVE and has
+ * its credits reserved like any other session; the rest are SCHEDULED,
+ * with nothing reserved, so the learner doesn't tie up a whole series'
+ * credits up front.
+ *
+ * The activation job reserves each SCHEDULED occurrence's credits
+ * SESSION_SERIES.RESERVE_AHEAD_DAYS before it starts and makes it ACTIVE.
+ * If the learner can't cover it by then, that occurrence is cancelled and
+ * the rest of the series carries on.
+ *
+ * Once ACTIVE, an occurrence is completed, cancelled or disputed like any
+ * other session. Cancelling the series cancels its SCHEDULED occurrences;
+ * ACTIVE ones already have credits reserved and are left to finish or be
+ * cancelled individually.
+ *
+ * Run on a schedule by /api/cron/activate-series.
+ *
+ * @fileoverview Series creation, occurrence activation and cancellation
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SESSION_SERIES } from '@/lib/constants';
+import {
+  holdCredits,
+  InsufficientCreditsError,
+  ledgerReference,
+} from '@/lib/ledger';
+import {
+  createNotification,
+  createNotifications,
+  type CreateNotificationInput,
+} from '@/lib/notifications';
+import type { Occurrence, RecurrenceFrequency } from '@/lib/recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrences activated per run, so one run can't hold the database for long
+const ACTIVATION_BATCH_SIZE = 200;
+
+export interface ActivationResult {
+  occurrencesActivated: number;
+  occurrencesCancelled: number;
+  creditsReserved: number;
+}
+
+/**
+ * A series action that can't be applied, with the HTTP status the API
+ * should answer with
+ */
+export class SeriesError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'SeriesError';
+  }
+}
+
+/**
+ * Create a series and its sessions. Must be called inside
+ * prisma.$transaction. Returns the first, ACTIVE, occurrence; the caller
+ * reserves its credits.
+ */
+export async function createSessionSeries(
+  tx: Prisma.TransactionClient,
+  input: {
+    frequency: RecurrenceFrequency;
+    occurrences: Occurrence[];
+    session: Omit<
+      Prisma.SessionUncheckedCreateInput,
+      'startDate' | 'endDate' | 'status' | 'seriesId' | 'occurrenceIndex'
+    > & { sessionCredits: number };
+  }
+) {
+  const { session, occurrences } = input;
+
+  const series = await tx.sessionSeries.create({
+    data: {
+      learnerId: session.learnerId,
+      providerId: session.providerId,
+      sessionName: session.sessionName,
+      frequency: input.frequency,
+      occurrenceCount: occurrences.length,
+      sessionCredits: session.sessionCredits,
+    },
+  });
+
+  const [first, ...rest] = occurrences;
+
+  const firstSession = await tx.session.create({
+    data: {
+      ...session,
+      ...first,
+      status: 'ACTIVE',
+      seriesId: series.id,
+      occurrenceIndex: 1,
+    },
+  });
+
+  await tx.session.createMany({
+    data: rest.map((occurrence, i) => ({
+      ...session,
+      ...occurrence,
+      // The request fee was paid once, with the first occurrence
+      requestCredits: 0,
+      status: 'SCHEDULED',
+      seriesId: series.id,
+      occurrenceIndex: i + 2,
+    })),
+  });
+
+  return { series, firstSession };
+}
+
+/**
+ * Reserve credits for, and activate, every SCHEDULED occurrence starting
+ * within the reservation window. Each occurrence is handled in its own
+ * transaction, so one failure doesn't stop the rest of the run.
+ */
+export async function activateUpcomingOccurrences(
+  now = new Date()
+): Promise<ActivationResult> {
+  const result: ActivationResult = {
+    occurrencesActivated: 0,
+    occurrencesCancelled: 0,
+    creditsReserved: 0,
+  };
+  const notifications: CreateNotificationInput[] = [];
+
+  const upcoming = await prisma.session.findMany({
+    where: {
+      status: 'SCHEDULED',
+      startDate: {
+        lt: new Date(
+          now.getTime() + SESSION_SERIES.RESERVE_AHEAD_DAYS * DAY_MS
+        ),
+      },
+    },
+    include: {
+      learner: { select: { wallet: { select: { id: true } } } },
+    },
+    orderBy: { startDate: 'asc' },
+    take: ACTIVATION_BATCH_SIZE,
+  });
+
+  for (const occurrence of upcoming) {
+    const walletId = occurrence.learner.wallet?.id;
+
+    if (!walletId) {
+      console.error(`Cannot activate session ${occurrence.id}: wallet not found`);
+      continue;
+    }
+
+    try {
+      const activated = await prisma.$transaction(async (tx) => {
+        // Skip occurrences cancelled since they were loaded
+        const { count } = await tx.session.updateMany({
+          where: { id: occurrence.id, status: 'SCHEDULED' },
+          data: { status: 'ACTIVE' },
+        });
+        if (count === 0) return false;
+
+        const reservation = await tx.transaction.create({
+          data: {
+            walletId,
+            amount: -occurrence.sessionCredits,
+            type: 'SESSION_CREDITS_RESERVED',
+            status: 'PENDING',
+            relatedUserId: occurrence.providerId,
+            sessionId: occurrence.id,
+            note: `Session credits reserved: ${occurrence.sessionName} (session ${occurrence.occurrenceIndex})`,
+          },
+        });
+
+        await holdCredits(tx, walletId, occurrence.sessionCredits, {
+          reference: ledgerReference('session', occurrence.id),
+          transactionId: reservation.id,
+        });
+
+        return true;
+      });
+
+      if (!activated) continue;
+
+      result.occurrencesActivated++;
+      result.creditsReserved += occurrence.sessionCredits;
+    } catch (error) {
+      if (!(error instanceof InsufficientCreditsError)) {
+        console.error(`Error activating session ${occurrence.id}:`, error);
+        continue;
+      }
+
+      // The learner can't cover this occurrence; skip it
+      const { count } = await prisma.session.updateMany({
+        where: { id: occurrence.id, status: 'SCHEDULED' },
+        data: {
+          status: 'CANCELLED',
+          cancelReason: 'Not enough credits to reserve this session',
+          cancelledAt: now,
+        },
+      });
+      if (count === 0) continue;
+
+      result.occurrencesCancelled++;
+      notifications.push(
+        {
+          userId: occurrence.learnerId,
+          type: 'SESSION_CANCELLED',
+          title: 'Session cancelled',
+          message: `You didn't have the ${occurrence.sessionCredits} credits needed for the next ${occurrence.sessionName} session, so it was cancelled. The rest of the series is unchanged.`,
+          relatedUserId: occurrence.providerId,
+          relatedEntityId: occurrence.id,
+          relatedEntityType: 'session',
+        },
+        {
+          userId: occurrence.providerId,
+          type: 'SESSION_CANCELLED',
+          title: 'Session cancelled',
+          message: `The next ${occurrence.sessionName} session was cancelled because the learner didn't have enough credits. The rest of the series is unchanged.`,
+          relatedUserId: occurrence.learnerId,
+          relatedEntityId: occurrence.id,
+          relatedEntityType: 'session',
+        }
+      );
+    }
+  }
+
+  if (notifications.length > 0) {
+    await createNotifications(notifications);
+  }
+
+  return result;
+}
+
+/**
+ * Cancel a series' remaining SCHEDULED occurrences. Either participant
+ * can do this on their own, since no credits are reserved for them yet.
+ */
+export async function cancelSeries(input: {
+  seriesId: string;
+  userId: string;
+  userName: string;
+}) {
+  const { userId } = input;
+
+  const series = await prisma.sessionSeries.findUnique({
+    where: { id: input.seriesId },
+  });
+
+  if (!series) {
+    throw new SeriesError('Series not found', 404);
+  }
+
+  if (series.learnerId !== userId && series.providerId !== userId) {
+    throw new SeriesError('You are not part of this series', 403);
+  }
+
+  if (series.status !== 'ACTIVE') {
+    throw new SeriesError('This series has already been cancelled', 409);
+  }
+
+  const now = new Date();
+
+  const cancelledCount = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.sessionSeries.updateMany({
+      where: { id: series.id, status: 'ACTIVE' },
+      data: { status: 'CANCELLED', cancelledBy: userId, cancelledAt: now },
+    });
+    if (count === 0) {
+      throw new SeriesError('This series has already been cancelled', 409);
+    }
+
+    const cancelled = await tx.session.updateMany({
+      where: { seriesId: series.id, status: 'SCHEDULED' },
+      data: {
+        status: 'CANCELLED',
+        cancelledBy: userId,
+        cancelReason: 'Series cancelled',
+        cancelledAt: now,
+      },
+    });
+
+    return cancelled.count;
+  });
+
+  await createNotification({
+    userId: userId === series.learnerId ? series.providerId : series.learnerId,
+    type: 'SESSION_CANCELLED',
+    title: 'Series cancelled',
+    message: `${input.userName} cancelled the remaining ${series.sessionName} sessions`,
+    relatedUserId: userId,
+    relatedEntityId: series.id,
+    relatedEntityType: 'session_series',
+  });
+
+  return { cancelledCount };
+}
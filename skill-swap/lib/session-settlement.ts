@@ -0,0 +1,264 @@
+/**
+ * Session Settlement
+ *
+ * An ACTIVE session only completes once both users confirm it, so if one
+ * party disappears the learner's session credits stay in their outgoing
+ * balance. Some days after a session's end date, the settlement job
+ * resolves sessions only one party confirmed:
+ *
+ * - If the other party never objected, the session is auto-completed and
+ *   the credits transfer to the provider, as if both had confirmed.
+ * - If the other party requested cancellation instead, a dispute is
+ *   opened on their behalf and the credits stay held until an admin
+ *   resolves it.
+ *
+ * The outcome is recorded on the session as settlementOutcome. Group
+ * session seats are settled after the same delay by
+ * settleOverdueGroupSessions in lib/group-sessions.
+ *
+ * Run on a schedule by /api/cron/settle-sessions.
+ *
+ * @fileoverview Automatic settlement of sessions past their end date
+ */
+import { prisma } from '@/lib/prisma';
+import { SESSION_SETTLEMENT } from '@/lib/constants';
+import { ledgerReference, settleHold } from '@/lib/ledger';
+import { openDispute } from '@/lib/disputes';
+import {
+  createNotifications,
+  type CreateNotificationInput,
+} from '@/lib/notifications';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions settled per run, so one run can't hold the database for long
+const SETTLEMENT_BATCH_SIZE = 200;
+
+const USER_SELECT = {
+  fullName: true,
+  name: true,
+  wallet: { select: { id: true } },
+} as const;
+
+export interface SettlementResult {
+  sessionsCompleted: number;
+  sessionsDisputed: number;
+  creditsTransferred: number;
+}
+
+/**
+ * How long after a session's end date it may be settled, in milliseconds
+ */
+export function getSettlementDelayMs(): number {
+  const days = Number(process.env.SESSION_AUTO_SETTLE_DAYS);
+  return (
+    (Number.isFinite(days) && days >= 0
+      ? days
+      : SESSION_SETTLEMENT.AUTO_SETTLE_AFTER_DAYS) * DAY_MS
+  );
+}
+
+/**
+ * When an ACTIVE session becomes eligible for settlement
+ */
+export function getSettlementDate(session: { endDate: Date }): Date {
+  return new Date(session.endDate.getTime() + getSettlementDelayMs());
+}
+
+function displayName(user: { fullName: string | null; name: string | null }) {
+  return user.fullName || user.name || 'User';
+}
+
+/**
+ * Settle every overdue session confirmed by only one party. Each session
+ * is settled in its own transaction, so one failure doesn't stop the rest
+ * of the run.
+ */
+export async function settleOverdueSessions(
+  now = new Date()
+): Promise<SettlementResult> {
+  const result: SettlementResult = {
+    sessionsCompleted: 0,
+    sessionsDisputed: 0,
+    creditsTransferred: 0,
+  };
+  const notifications: CreateNotificationInput[] = [];
+
+  const overdueSessions = await prisma.session.findMany({
+    where: {
+      status: 'ACTIVE',
+      endDate: { lt: new Date(now.getTime() - getSettlementDelayMs()) },
+      OR: [
+        { learnerCompletionConfirmed: true },
+        { providerCompletionConfirmed: true },
+      ],
+    },
+    include: {
+      learner: { select: USER_SELECT },
+      provider: { select: USER_SELECT },
+    },
+    orderBy: { endDate: 'asc' },
+    take: SETTLEMENT_BATCH_SIZE,
+  });
+
+  for (const session of overdueSessions) {
+    // The party that didn't confirm objected if they asked to cancel
+    const objected = session.learnerCompletionConfirmed
+      ? session.providerCancellationRequested
+      : session.learnerCancellationRequested;
+
+    try {
+      if (objected) {
+        const objectorId = session.learnerCompletionConfirmed
+          ? session.providerId
+          : session.learnerId;
+
+        const disputed = await prisma.$transaction(async (tx) => {
+          // Skips sessions resolved since they were loaded
+          const dispute = await openDispute(tx, {
+            session,
+            raisedById: objectorId,
+            reason: 'INCOMPLETE',
+            description: `Asked to cancel instead of confirming completion${
+              session.cancelReason ? `: ${session.cancelReason}` : ''
+            }`,
+          });
+          if (!dispute) return false;
+
+          await tx.session.update({
+            where: { id: session.id },
+            data: { settledAt: now, settlementOutcome: 'DISPUTED' },
+          });
+          return true;
+        });
+        if (!disputed) continue;
+
+        result.sessionsDisputed++;
+        const message = `${session.sessionName} was confirmed by one of you and cancelled by the other, so a dispute has been opened. The ${session.sessionCredits} session credits are on hold until an admin resolves it - add any evidence from the sessions page.`;
+        notifications.push(
+          {
+            userId: session.learnerId,
+            type: 'SESSION_DISPUTED',
+            title: 'Session disputed',
+            message,
+            relatedUserId: session.providerId,
+            relatedEntityId: session.id,
+            relatedEntityType: 'session',
+          },
+          {
+            userId: session.providerId,
+            type: 'SESSION_DISPUTED',
+            title: 'Session disputed',
+            message,
+            relatedUserId: session.learnerId,
+            relatedEntityId: session.id,
+            relatedEntityType: 'session',
+          }
+        );
+        continue;
+      }
+
+      const learnerWalletId = session.learner.wallet?.id;
+      const providerWalletId = session.provider.wallet?.id;
+
+      if (!learnerWalletId || !providerWalletId) {
+        console.error(`Cannot settle session ${session.id}: wallet not found`);
+        continue;
+      }
+
+      const completed = await prisma.$transaction(async (tx) => {
+        // 1. Mark session as completed
+        const { count } = await tx.session.updateMany({
+          where: { id: session.id, status: 'ACTIVE' },
+          data: {
+            status: 'COMPLETED',
+            learnerCompletionConfirmed: true,
+            providerCompletionConfirmed: true,
+            completedAt: now,
+            settledAt: now,
+            settlementOutcome: 'AUTO_COMPLETED',
+          },
+        });
+        if (count === 0) return false;
+
+        // 2. Close out the learner's reservation row
+        await tx.transaction.updateMany({
+          where: {
+            walletId: learnerWalletId,
+            sessionId: session.id,
+            status: 'PENDING',
+            type: { in: ['SESSION_CREDITS_RESERVED', 'SESSION_REQUEST_SENT'] },
+          },
+          data: {
+            type: 'SESSION_COMPLETED',
+            status: 'COMPLETED',
+            note: `Session auto-completed: ${session.sessionName}`,
+          },
+        });
+
+        // 3. Record the provider's earnings
+        const earnings = await tx.transaction.create({
+          data: {
+            walletId: providerWalletId,
+            amount: session.sessionCredits,
+            type: 'SESSION_COMPLETED',
+            status: 'COMPLETED',
+            relatedUserId: session.learnerId,
+            sessionId: session.id,
+            note: `Session auto-completed: ${session.sessionName} - earned ${session.sessionCredits} credits`,
+          },
+        });
+
+        // 4. Transfer session credits from learner's outgoing to provider's available
+        await settleHold(
+          tx,
+          learnerWalletId,
+          providerWalletId,
+          session.sessionCredits,
+          {
+            reference: ledgerReference('session', session.id),
+            transactionId: earnings.id,
+          }
+        );
+
+        return true;
+      });
+
+      if (!completed) continue;
+
+      result.sessionsCompleted++;
+      result.creditsTransferred += session.sessionCredits;
+      const confirmedBy = session.learnerCompletionConfirmed
+        ? displayName(session.learner)
+        : displayName(session.provider);
+      notifications.push(
+        {
+          userId: session.providerId,
+          type: 'SESSION_COMPLETED',
+          title: 'Session auto-completed',
+          message: `${session.sessionName} was completed automatically after ${confirmedBy} confirmed it - you earned ${session.sessionCredits} credits`,
+          relatedUserId: session.learnerId,
+          relatedEntityId: session.id,
+          relatedEntityType: 'session',
+        },
+        {
+          userId: session.learnerId,
+          type: 'SESSION_COMPLETED',
+          title: 'Session auto-completed',
+          message: `${session.sessionName} was completed automatically after ${confirmedBy} confirmed it. ${session.sessionCredits} credits were transferred to ${displayName(session.provider)}.`,
+          relatedUserId: session.providerId,
+          relatedEntityId: session.id,
+          relatedEntityType: 'session',
+        }
+      );
+    } catch (error) {
+      console.error(`Error settling session ${session.id}:`, error);
+    }
+  }
+
+  if (notifications.length > 0) {
+    await createNotifications(notifications);
+  }
+
+  return result;
+}
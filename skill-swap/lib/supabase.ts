@@ -15,21 +15,27 @@ export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
 // Storage bucket name for media files
 export const MEDIA_BUCKET = 'newsfeed-media';
 
+// Private storage bucket for files attached to session disputes. Objects
+// are only served through short-lived signed URLs, never public ones.
+export const DISPUTE_EVIDENCE_BUCKET = 'dispute-evidence';
+
 /**
  * Upload a file to Supabase Storage
  * @param file - The file buffer to upload
  * @param fileName - The name to give the file
  * @param contentType - The MIME type of the file
+ * @param bucket - The storage bucket, newsfeed media by default
  * @returns The public URL of the uploaded file
  */
 export async function uploadMediaToStorage(
   file: Buffer,
   fileName: string,
-  contentType: string
+  contentType: string,
+  bucket: string = MEDIA_BUCKET
 ): Promise<string | null> {
   try {
     const { data, error } = await supabase.storage
-      .from(MEDIA_BUCKET)
+      .from(bucket)
       .upload(fileName, file, {
         contentType,
         upsert: false,
@@ -48,7 +54,7 @@ export async function uploadMediaToStorage(
 
     // Get the public URL
     const { data: publicUrlData } = supabase.storage
-      .from(MEDIA_BUCKET)
+      .from(bucket)
       .getPublicUrl(data.path);
 
     return publicUrlData.publicUrl;
@@ -62,6 +68,77 @@ export async function uploadMediaToStorage(
   }
 }
 
+/**
+ * Upload a file to a private Supabase Storage bucket
+ * @param file - The file buffer to upload
+ * @param fileName - The path to give the file within the bucket
+ * @param contentType - The MIME type of the file
+ * @param bucket - The private storage bucket
+ * @returns The object path of the uploaded file, for createSignedStorageUrls
+ */
+export async function uploadPrivateFileToStorage(
+  file: Buffer,
+  fileName: string,
+  contentType: string,
+  bucket: string
+): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .upload(fileName, file, {
+        contentType,
+        upsert: false,
+      });
+
+    if (error) {
+      console.error('Supabase storage upload error:', error);
+      return null;
+    }
+
+    return data.path;
+  } catch (error) {
+    console.error('Error uploading to storage:', error);
+    return null;
+  }
+}
+
+/**
+ * Create short-lived signed URLs for objects in a private bucket
+ * @param bucket - The private storage bucket
+ * @param paths - The object paths to sign
+ * @param expiresIn - How long the URLs stay valid, in seconds
+ * @returns Signed URLs keyed by object path; paths that fail are left out
+ */
+export async function createSignedStorageUrls(
+  bucket: string,
+  paths: string[],
+  expiresIn: number
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  if (paths.length === 0) return urls;
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(paths, expiresIn);
+
+    if (error) {
+      console.error('Supabase storage signed URL error:', error);
+      return urls;
+    }
+
+    for (const item of data) {
+      if (item.path && item.signedUrl) {
+        urls.set(item.path, item.signedUrl);
+      }
+    }
+  } catch (error) {
+    console.error('Error creating signed URLs:', error);
+  }
+
+  return urls;
+}
+
 /**
  * Delete a file from Supabase Storage
  * @param filePath - The path of the file to delete
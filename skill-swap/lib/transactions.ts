@@ -0,0 +1,283 @@
+/**
+ * Transaction Helpers
+ *
+ * Shared query shape and formatting for credit transactions, used by the
+ * transaction history API and the transaction export.
+ *
+ * @fileoverview Credit transaction formatting
+ */
+
+// Human-readable labels for each transaction type
+export const TRANSACTION_LABELS: Record<string, string> = {
+  CONNECTION_REQUEST_SENT: 'Connection Request Sent',
+  CONNECTION_REQUEST_RECEIVED: 'Connection Request Received',
+  CONNECTION_REQUEST_REFUNDED: 'Connection Request Refunded',
+  SESSION_REQUEST_SENT: 'Session Request Sent',
+  SESSION_REQUEST_RECEIVED: 'Session Request Received',
+  SESSION_REQUEST_REFUNDED: 'Session Request Refunded',
+  SESSION_REQUEST_CANCELLED: 'Session Request Cancelled',
+  SESSION_CREDITS_RESERVED: 'Session Credits Reserved',
+  SESSION_COMPLETED: 'Session Completed',
+  SESSION_CANCELLED: 'Session Cancelled',
+  INITIAL_ALLOCATION: 'Initial Credit Allocation',
+  TRANSFER_SENT: 'Credits Sent',
+  TRANSFER_RECEIVED: 'Credits Received',
+  ADMIN_ADJUSTMENT: 'Admin Adjustment',
+  DISPUTE_HOLD: 'Dispute Hold',
+  DISPUTE_REFUND: 'Dispute Refund',
+  GROUP_SEAT_RESERVED: 'Group Session Seat Reserved',
+};
+
+const EARNING_TYPES = new Set([
+  'CONNECTION_REQUEST_RECEIVED',
+  'SESSION_REQUEST_RECEIVED',
+  'TRANSFER_RECEIVED',
+]);
+const SPENDING_TYPES = new Set([
+  'CONNECTION_REQUEST_SENT',
+  'SESSION_REQUEST_SENT',
+  'TRANSFER_SENT',
+]);
+
+// Gifts and tips; the other party is stored in relatedUserId
+export const TRANSFER_TYPES = new Set(['TRANSFER_SENT', 'TRANSFER_RECEIVED']);
+
+export interface TransactionUser {
+  id: string;
+  name: string | null;
+  image: string | null;
+}
+
+/**
+ * Whether a transaction counts as credits earned, spent, or neither
+ */
+export function classifyTransaction(tx: {
+  type: string;
+  amount: number;
+}): 'earned' | 'spent' | null {
+  if (EARNING_TYPES.has(tx.type)) return 'earned';
+  if (SPENDING_TYPES.has(tx.type)) return 'spent';
+  if (tx.type === 'SESSION_COMPLETED') {
+    return tx.amount >= 0 ? 'earned' : 'spent';
+  }
+  return null;
+}
+
+// Related records loaded with each transaction
+export const TRANSACTION_INCLUDE = {
+  connectionRequest: {
+    select: {
+      sender: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+      receiver: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+    },
+  },
+  sessionRequest: {
+    select: {
+      sessionName: true,
+      sender: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+      receiver: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+    },
+  },
+  session: {
+    select: {
+      id: true,
+      sessionName: true,
+      learner: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+      provider: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+      skill: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+  groupSeat: {
+    select: {
+      learner: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+      groupSession: {
+        select: {
+          sessionName: true,
+          provider: {
+            select: {
+              id: true,
+              name: true,
+              image: true,
+            },
+          },
+          skill: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+export interface TransactionWithRelations {
+  id: string;
+  walletId: string;
+  amount: number;
+  type: string;
+  status: string;
+  relatedUserId: string | null;
+  note: string | null;
+  createdAt: Date;
+  connectionRequest: {
+    sender: { id: string; name: string | null; image: string | null };
+    receiver: { id: string; name: string | null; image: string | null };
+  } | null;
+  sessionRequest: {
+    sessionName: string;
+    sender: { id: string; name: string | null; image: string | null };
+    receiver: { id: string; name: string | null; image: string | null };
+  } | null;
+  session: {
+    id: string;
+    sessionName: string;
+    learner: { id: string; name: string | null; image: string | null };
+    provider: { id: string; name: string | null; image: string | null };
+    skill: { name: string } | null;
+  } | null;
+  groupSeat: {
+    learner: { id: string; name: string | null; image: string | null };
+    groupSession: {
+      sessionName: string;
+      provider: { id: string; name: string | null; image: string | null };
+      skill: { name: string } | null;
+    };
+  } | null;
+}
+
+export type FormattedTransaction = ReturnType<typeof formatTransaction>;
+
+/**
+ * Shape a transaction for the client, resolving the other party
+ * and a short description of what the credits were for
+ */
+export function formatTransaction(
+  tx: TransactionWithRelations,
+  transferUsers?: Map<string, TransactionUser>
+) {
+  // Determine the related user and context
+  let relatedUser: TransactionUser | null = null;
+  let context = '';
+  let skillName = '';
+
+  if (TRANSFER_TYPES.has(tx.type)) {
+    // Gift, or a tip when it was sent for a session
+    relatedUser =
+      (tx.relatedUserId && transferUsers?.get(tx.relatedUserId)) || null;
+    context = tx.session ? `Tip - ${tx.session.sessionName}` : 'Gift';
+  } else if (tx.connectionRequest) {
+    // Connection-related transaction
+    const isOutgoing =
+      tx.type === 'CONNECTION_REQUEST_SENT' ||
+      tx.type === 'CONNECTION_REQUEST_REFUNDED';
+    relatedUser = isOutgoing
+      ? tx.connectionRequest.receiver
+      : tx.connectionRequest.sender;
+    context = 'Connection Request';
+  } else if (tx.sessionRequest) {
+    // Session request-related transaction
+    const isOutgoing =
+      tx.type === 'SESSION_REQUEST_SENT' ||
+      tx.type === 'SESSION_REQUEST_REFUNDED';
+    relatedUser = isOutgoing
+      ? tx.sessionRequest.receiver
+      : tx.sessionRequest.sender;
+    context = tx.sessionRequest.sessionName
+      ? `Session Request - ${tx.sessionRequest.sessionName}`
+      : 'Session Request';
+  } else if (tx.session) {
+    // Session-related transaction
+    // The provider's side: earnings from the learner, and earnings
+    // frozen or refunded in a dispute
+    const isProviderSide =
+      tx.type === 'SESSION_REQUEST_RECEIVED' ||
+      (tx.type === 'SESSION_COMPLETED' && tx.amount > 0) ||
+      ((tx.type === 'DISPUTE_HOLD' || tx.type === 'DISPUTE_REFUND') &&
+        tx.amount < 0);
+    relatedUser = isProviderSide ? tx.session.learner : tx.session.provider;
+    skillName = tx.session.skill?.name || '';
+    context = tx.session.sessionName
+      ? `Session - ${tx.session.sessionName}`
+      : skillName
+      ? `Session - ${skillName}`
+      : 'Session';
+  } else if (tx.groupSeat) {
+    // Group session seat: the provider earns from the seat's learner
+    const { groupSession } = tx.groupSeat;
+    relatedUser =
+      tx.amount > 0 && tx.type === 'SESSION_COMPLETED'
+        ? tx.groupSeat.learner
+        : groupSession.provider;
+    skillName = groupSession.skill?.name || '';
+    context = `Group Session - ${groupSession.sessionName}`;
+  }
+
+  // Determine if credit or debit
+  const isCredit = tx.amount > 0;
+
+  return {
+    id: tx.id,
+    amount: Math.abs(tx.amount),
+    isCredit,
+    type: tx.type,
+    status: tx.status,
+    note: tx.note,
+    context,
+    skillName,
+    relatedUser: relatedUser
+      ? {
+          id: relatedUser.id,
+          name: relatedUser.name,
+          image: relatedUser.image,
+        }
+      : null,
+    createdAt: tx.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Credit Transfers
+ *
+ * Gifts and tips between connected users. Each transfer is a
+ * TRANSFER_SENT / TRANSFER_RECEIVED transaction pair moved through the
+ * ledger. Senders are limited in how many transfers and how many credits
+ * they can send in a rolling 24 hours. The limits are checked inside the
+ * transfer's transaction with the sender's wallet row locked, so
+ * concurrent transfers can't both fit under them.
+ *
+ * @fileoverview Daily transfer limits and transfer history lookups
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CREDITS } from '@/lib/constants';
+import {
+  TRANSFER_TYPES,
+  type TransactionUser,
+} from '@/lib/transactions';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const TRANSFER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface TransferAllowance {
+  transfersLeft: number;
+  creditsLeft: number;
+}
+
+/**
+ * A transfer over the sender's daily limits, with the HTTP status the API
+ * should answer with and what the sender has left
+ */
+export class TransferLimitError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public allowance: TransferAllowance
+  ) {
+    super(message);
+    this.name = 'TransferLimitError';
+  }
+}
+
+/**
+ * How many more transfers and credits a wallet can send right now
+ */
+export async function getTransferAllowance(
+  walletId: string,
+  db: Db = prisma
+): Promise<TransferAllowance> {
+  const sent = await db.transaction.aggregate({
+    where: {
+      walletId,
+      type: 'TRANSFER_SENT',
+      createdAt: { gte: new Date(Date.now() - TRANSFER_WINDOW_MS) },
+    },
+    _count: true,
+    _sum: { amount: true },
+  });
+
+  // Sent amounts are stored negative
+  const creditsSent = Math.abs(sent._sum.amount ?? 0);
+
+  return {
+    transfersLeft: Math.max(0, CREDITS.MAX_TRANSFERS_PER_DAY - sent._count),
+    creditsLeft: Math.max(
+      0,
+      CREDITS.MAX_TRANSFER_CREDITS_PER_DAY - creditsSent
+    ),
+  };
+}
+
+/**
+ * Check a transfer of `amount` fits in the sender's daily limits, throwing
+ * a TransferLimitError if not. Call inside the transfer's transaction: the
+ * sender's wallet row is locked first, so concurrent transfers from the
+ * same wallet are checked one after the other.
+ */
+export async function checkTransferAllowance(
+  tx: Prisma.TransactionClient,
+  walletId: string,
+  amount: number
+): Promise<void> {
+  await tx.wallet.updateMany({
+    where: { id: walletId },
+    data: { updatedAt: new Date() },
+  });
+
+  const allowance = await getTransferAllowance(walletId, tx);
+
+  if (allowance.transfersLeft === 0) {
+    throw new TransferLimitError(
+      'You have reached your daily transfer limit',
+      429,
+      allowance
+    );
+  }
+
+  if (amount > allowance.creditsLeft) {
+    throw new TransferLimitError(
+      `You can send up to ${allowance.creditsLeft} more credits today`,
+      400,
+      allowance
+    );
+  }
+}
+
+/**
+ * Load the other party of each transfer in a page of transactions,
+ * keyed by user ID, for formatTransaction
+ */
+export async function loadTransferUsers(
+  transactions: { type: string; relatedUserId: string | null }[]
+): Promise<Map<string, TransactionUser>> {
+  const userIds = [
+    ...new Set(
+      transactions
+        .filter((tx) => TRANSFER_TYPES.has(tx.type) && tx.relatedUserId)
+        .map((tx) => tx.relatedUserId!)
+    ),
+  ];
+
+  if (userIds.length === 0) return new Map();
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, name: true, image: true },
+  });
+
+  return new Map(users.map((user) => [user.id, user]));
+}
@@ -8,6 +8,8 @@
  * @fileoverview Core TypeScript interfaces and type aliases
  */
 
+import type { EXPERIENCE_LEVELS } from "./constants"
+
 // =============================================================================
 // User & Profile Types
 // =============================================================================
@@ -109,16 +111,24 @@ export interface LearningPost {
   type: PostType
   title: string
   description: string
-  skillOffered: string
+  skillId: string | null
+  skillOffered: string | null
   skillsRequested: string[]
-  creditsOffered: number
+  creditsOffered: number // Credits per hour
   format: SessionFormat
   availability: Availability
+  experienceLevel: ExperienceLevel | null
   status: PostStatus
-  createdAt: Date
-  updatedAt: Date
+  closedAt: Date | string | null
+  createdAt: Date | string
+  updatedAt: Date | string
 }
 
+/**
+ * Experience level a learning post is aimed at
+ */
+export type ExperienceLevel = (typeof EXPERIENCE_LEVELS)[number]
+
 // =============================================================================
 // Connection Types
 // =============================================================================
@@ -0,0 +1,34 @@
+/**
+ * Availability Types
+ * Shared between the availability APIs, the settings editor and session
+ * booking
+ */
+
+export type AvailabilityExceptionType = 'AVAILABLE' | 'BLACKOUT';
+
+// A weekly recurring window, in minutes from midnight in the user's time zone
+export interface WeeklySlot {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface AvailabilityExceptionItem {
+  date: string; // "YYYY-MM-DD" in the user's time zone
+  type: AvailabilityExceptionType;
+  startMinute: number | null;
+  endMinute: number | null;
+  reason: string | null;
+}
+
+export interface AvailabilitySchedule {
+  timeZone: string;
+  slots: WeeklySlot[];
+  exceptions: AvailabilityExceptionItem[];
+}
+
+// A stretch of time the user is free, as absolute instants
+export interface FreeSlot {
+  startDate: Date | string;
+  endDate: Date | string;
+}
@@ -0,0 +1,78 @@
+/**
+ * Dispute Types
+ * Shared between the dispute APIs, the session dispute dialog and the
+ * admin disputes page
+ */
+
+export const DISPUTE_REASONS = [
+  { value: 'NO_SHOW', label: "They didn't show up" },
+  { value: 'INCOMPLETE', label: "The session wasn't completed" },
+  { value: 'NOT_AS_DESCRIBED', label: "The session wasn't what was agreed" },
+  { value: 'OTHER', label: 'Something else' },
+] as const;
+
+export type DisputeReason = (typeof DISPUTE_REASONS)[number]['value'];
+
+export type DisputeStatus = 'OPEN' | 'RESOLVED';
+
+// How an admin splits the frozen credits between learner and provider
+export type DisputeResolution = 'FULL_REFUND' | 'PARTIAL_REFUND' | 'NO_REFUND';
+
+export const DISPUTE_RESOLUTIONS: {
+  value: DisputeResolution;
+  label: string;
+}[] = [
+  { value: 'FULL_REFUND', label: 'Full refund to the learner' },
+  { value: 'PARTIAL_REFUND', label: 'Partial refund' },
+  { value: 'NO_REFUND', label: 'No refund, credits go to the provider' },
+];
+
+// Files accepted as dispute evidence
+export const DISPUTE_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+];
+
+export interface DisputeUser {
+  id: string;
+  name: string;
+  image: string | null;
+}
+
+export interface DisputeEvidenceItem {
+  id: string;
+  content: string;
+  submittedBy: DisputeUser;
+  attachment: {
+    url: string;
+    name: string;
+    type: string;
+    size: number;
+  } | null;
+  createdAt: Date | string;
+}
+
+export interface DisputeItem {
+  id: string;
+  sessionId: string;
+  sessionName: string;
+  sessionCredits: number;
+  reason: DisputeReason;
+  description: string;
+  status: DisputeStatus;
+  // Session status when the dispute was raised
+  sessionStatus: 'ACTIVE' | 'COMPLETED';
+  frozenCredits: number;
+  resolution: DisputeResolution | null;
+  refundedCredits: number | null;
+  resolutionNote: string | null;
+  createdAt: Date | string;
+  resolvedAt: Date | string | null;
+  raisedBy: DisputeUser;
+  learner: DisputeUser;
+  provider: DisputeUser;
+  evidence: DisputeEvidenceItem[];
+}
@@ -0,0 +1,51 @@
+/**
+ * Group Session Types
+ * Shared between the group sessions API and the sessions page
+ */
+
+export type GroupSessionStatus = 'OPEN' | 'COMPLETED' | 'CANCELLED';
+
+export type GroupSeatStatus = 'JOINED' | 'COMPLETED' | 'LEFT' | 'CANCELLED';
+
+export type GroupSeatSettlementOutcome = 'AUTO_COMPLETED' | 'REFUNDED';
+
+export interface GroupSessionUser {
+  id: string;
+  fullName: string;
+  profileImage: string | null;
+}
+
+export interface GroupSeatItem {
+  id: string;
+  learner: GroupSessionUser;
+  status: GroupSeatStatus;
+  creditsHeld: number;
+  learnerCompletionConfirmed: boolean;
+  providerCompletionConfirmed: boolean;
+  learnerRefundRequested: boolean;
+  refundReason: string | null;
+  settlementOutcome: GroupSeatSettlementOutcome | null;
+  joinedAt: Date | string;
+}
+
+export interface GroupSessionItem {
+  id: string;
+  sessionName: string;
+  description: string | null;
+  mode: string;
+  status: GroupSessionStatus;
+  startDate: Date | string;
+  endDate: Date | string;
+  seatLimit: number;
+  seatsTaken: number;
+  hourlyRate: number;
+  creditsPerSeat: number;
+  cancelReason: string | null;
+  skill: { id: string; name: string };
+  provider: GroupSessionUser;
+  isProvider: boolean;
+  // The viewer's own seat, when they hold one
+  mySeat: GroupSeatItem | null;
+  // Every seat, for the provider only
+  seats: GroupSeatItem[];
+}
@@ -0,0 +1,44 @@
+/**
+ * Activity History Types
+ * Shared between the history API and the /history page
+ */
+
+export type HistoryFilter = 'all' | 'sessions' | 'connections' | 'posts' | 'credits';
+
+export type HistoryItemType =
+  | 'session_taught'
+  | 'session_learned'
+  | 'session_cancelled'
+  | 'connection_made'
+  | 'post_created'
+  | 'credit_transaction';
+
+export interface HistoryItem {
+  id: string;
+  type: HistoryItemType;
+  description: string;
+  // Signed credit change; null when the activity didn't move credits
+  credits: number | null;
+  date: Date | string;
+  relatedUser: {
+    id: string;
+    name: string;
+    image: string | null;
+  } | null;
+}
+
+export interface MonthlyHistoryBucket {
+  key: string; // "2026-01"
+  month: string; // "Jan"
+  skillsTaught: number;
+  skillsLearned: number;
+  creditsEarned: number;
+  creditsSpent: number;
+}
+
+export interface HistorySummary {
+  skillsTaught: number;
+  skillsLearned: number;
+  totalSessions: number;
+  creditsBalance: number;
+}
@@ -0,0 +1,41 @@
+/**
+ * Skill Matching Types
+ * Shared between the matches API and the dashboard suggestions
+ */
+
+// How closely a skill name lines up with a wanted skill
+export type MatchStrength = 'exact' | 'alias' | 'partial';
+
+// A skill the other user teaches that covers one of my wants
+export interface OfferedSkillMatch {
+  skillId: string;
+  name: string;
+  proficiencyLevel: string;
+  teachingFormat: string;
+  matchedWant: string;
+  strength: MatchStrength;
+  meetsProficiencyTarget: boolean | null; // null when the want has no target
+}
+
+// Something the other user wants that I can teach
+export interface WantedSkillMatch {
+  name: string;
+  matchedSkill: string;
+  strength: MatchStrength;
+}
+
+export interface SkillMatch {
+  user: {
+    id: string;
+    name: string;
+    image: string | null;
+    bio: string | null;
+    timeZone: string;
+  };
+  score: number; // 0-100
+  isMutual: boolean;
+  theyOffer: OfferedSkillMatch[];
+  theyWant: WantedSkillMatch[];
+  // Hours between the two users' UTC offsets; null if unknown
+  timeZoneDifferenceHours: number | null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Moderation Types
+ * Shared between the reports API, the admin queue and the report dialog
+ */
+
+export type ReportContentType = 'post' | 'comment' | 'user' | 'review' | 'message';
+
+export const REPORT_CONTENT_TYPES: ReportContentType[] = [
+  'post',
+  'comment',
+  'user',
+  'review',
+  'message',
+];
+
+export const REPORT_REASONS = [
+  { value: 'SPAM', label: 'Spam' },
+  { value: 'HARASSMENT', label: 'Harassment or bullying' },
+  { value: 'INAPPROPRIATE', label: 'Inappropriate content' },
+  { value: 'SCAM', label: 'Scam or fraud' },
+  { value: 'IMPERSONATION', label: 'Impersonation' },
+  { value: 'OTHER', label: 'Something else' },
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number]['value'];
+
+export type ReportStatus = 'PENDING' | 'REVIEWED' | 'DISMISSED' | 'ACTIONED';
+
+// Actions an admin can take on a pending report
+export type ModerationAction = 'DISMISS' | 'WARN' | 'REMOVE_CONTENT' | 'SUSPEND';
+
+// Suspension lengths offered to admins; null means permanent
+export const SUSPENSION_DURATIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Permanent' },
+] as const;
+
+export const MAX_SUSPENSION_DAYS = 365;
+
+export interface ReportUser {
+  id: string;
+  name: string;
+  image: string | null;
+  status: string;
+}
+
+export interface AdminReportItem {
+  id: string;
+  contentType: ReportContentType;
+  contentId: string;
+  reason: string;
+  description: string | null;
+  status: ReportStatus;
+  action: string | null;
+  createdAt: Date | string;
+  reviewedAt: Date | string | null;
+  reportedBy: ReportUser | null;
+  reportedUser: ReportUser | null;
+  // Snippet of the reported content; null once it has been removed
+  contentPreview: string | null;
+}
+
+// Socket.io event sent right before a suspended user's sockets are dropped
+export const ACCOUNT_SUSPENDED_EVENT = 'account:suspended';
@@ -0,0 +1,26 @@
+/**
+ * Notification Types
+ * Shared between the notifications API, the socket push and the client
+ */
+
+export interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  isRead: boolean;
+  createdAt: Date | string;
+  relatedEntityId: string | null;
+  relatedEntityType: string | null;
+  link?: string;
+  relatedUser: {
+    id: string;
+    name: string;
+    image: string | null;
+  } | null;
+}
+
+// Socket.io event types
+export const NOTIFICATION_EVENT = 'notification:new';
+
+export type SocketNotificationPayload = NotificationItem;
@@ -0,0 +1,40 @@
+/**
+ * Reschedule Types
+ * Shared between the reschedule API and the sessions page
+ */
+
+export type RescheduleStatus =
+  | 'PENDING'
+  | 'ACCEPTED'
+  | 'DECLINED'
+  | 'WITHDRAWN'
+  | 'SUPERSEDED';
+
+// How a participant answers a pending proposal. Only the other party can
+// accept or decline; only the proposer can withdraw.
+export type RescheduleAction = 'ACCEPT' | 'DECLINE' | 'WITHDRAW';
+
+export interface RescheduleProposalItem {
+  id: string;
+  proposedBy: string;
+  proposedByName: string;
+  isMine: boolean;
+  previousStartDate: Date | string;
+  previousEndDate: Date | string;
+  proposedStartDate: Date | string;
+  proposedEndDate: Date | string;
+  reason: string | null;
+  status: RescheduleStatus;
+  createdAt: Date | string;
+  respondedAt: Date | string | null;
+}
+
+// Another session that overlaps a proposed time
+export interface ScheduleConflict {
+  sessionId: string;
+  sessionName: string;
+  startDate: Date | string;
+  endDate: Date | string;
+  // Whose calendar the session is on
+  userId: string;
+}
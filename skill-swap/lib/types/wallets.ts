@@ -0,0 +1,40 @@
+/**
+ * Wallet Repair Types
+ * Shared between the admin wallets API, the admin wallets page and the
+ * wallet repair script
+ */
+
+// Actions an admin can take on a PENDING hold
+export type HoldRepairAction = 'RELEASE' | 'REVERSE';
+
+export interface WalletOwner {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+// A wallet whose outgoing balance doesn't match its PENDING holds
+export interface WalletDiscrepancy {
+  walletId: string;
+  owner: WalletOwner;
+  outgoingBalance: number;
+  pendingHolds: number; // Sum of the wallet's PENDING hold transactions
+  difference: number; // outgoingBalance - pendingHolds
+}
+
+// A PENDING hold whose request or session is gone or already resolved
+export interface OrphanedHold {
+  transactionId: string;
+  walletId: string;
+  owner: WalletOwner;
+  type: string;
+  amount: number; // Credits held, always positive
+  reason: string;
+  note: string | null;
+  createdAt: Date | string;
+}
+
+export interface WalletRepairReport {
+  discrepancies: WalletDiscrepancy[];
+  orphanedHolds: OrphanedHold[];
+}
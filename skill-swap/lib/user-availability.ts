@@ -0,0 +1,154 @@
+/**
+ * User Availability
+ *
+ * Loading and saving the weekly schedule and date exceptions behind
+ * `lib/availability`, and the sessions that take time out of it. Saving
+ * replaces the whole schedule, as the settings editor always sends it in
+ * full.
+ *
+ * @fileoverview Availability persistence and busy periods
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { isValidTimeZone } from '@/lib/availability';
+import { openSessionRequestFilter } from '@/lib/request-expiry';
+import type {
+  AvailabilityExceptionItem,
+  AvailabilityExceptionType,
+  AvailabilitySchedule,
+  WeeklySlot,
+} from '@/lib/types/availability';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * A user's schedule, or null if the user doesn't exist. An unrecognised
+ * time zone falls back to UTC.
+ */
+export async function loadAvailabilitySchedule(
+  db: Db,
+  userId: string
+): Promise<AvailabilitySchedule | null> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      timeZone: true,
+      availabilitySlots: {
+        select: { dayOfWeek: true, startMinute: true, endMinute: true },
+        orderBy: [{ dayOfWeek: 'asc' }, { startMinute: 'asc' }],
+      },
+      availabilityExceptions: {
+        select: {
+          date: true,
+          type: true,
+          startMinute: true,
+          endMinute: true,
+          reason: true,
+        },
+        orderBy: [{ date: 'asc' }, { startMinute: 'asc' }],
+      },
+    },
+  });
+
+  if (!user) return null;
+
+  return {
+    timeZone:
+      user.timeZone && isValidTimeZone(user.timeZone) ? user.timeZone : 'UTC',
+    slots: user.availabilitySlots,
+    exceptions: user.availabilityExceptions.map((e) => ({
+      date: e.date.toISOString().slice(0, 10),
+      type: e.type as AvailabilityExceptionType,
+      startMinute: e.startMinute,
+      endMinute: e.endMinute,
+      reason: e.reason,
+    })),
+  };
+}
+
+/**
+ * A user's time zone, falling back to UTC like their schedule does
+ */
+export async function getUserTimeZone(db: Db, userId: string): Promise<string> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { timeZone: true },
+  });
+
+  return user?.timeZone && isValidTimeZone(user.timeZone)
+    ? user.timeZone
+    : 'UTC';
+}
+
+/**
+ * Replace a user's weekly slots and exceptions with an already validated
+ * schedule
+ */
+export async function saveAvailabilitySchedule(
+  userId: string,
+  schedule: { slots: WeeklySlot[]; exceptions: AvailabilityExceptionItem[] }
+) {
+  await prisma.$transaction([
+    prisma.availabilitySlot.deleteMany({ where: { userId } }),
+    prisma.availabilityException.deleteMany({ where: { userId } }),
+    prisma.availabilitySlot.createMany({
+      data: schedule.slots.map((slot) => ({ ...slot, userId })),
+    }),
+    prisma.availabilityException.createMany({
+      data: schedule.exceptions.map((exception) => ({
+        ...exception,
+        date: new Date(`${exception.date}T00:00:00Z`),
+        userId,
+      })),
+    }),
+  ]);
+}
+
+/**
+ * The times a user is already committed between `from` and `to`: their
+ * scheduled, active and disputed sessions other than `excludeSessionId`,
+ * open group sessions they host or hold a seat in, and slots held by
+ * their pending session requests
+ */
+export async function findBusyPeriods(
+  db: Db,
+  userId: string,
+  from: Date,
+  to: Date,
+  excludeSessionId?: string
+): Promise<{ startDate: Date; endDate: Date }[]> {
+  const overlapping = { startDate: { lt: to }, endDate: { gt: from } };
+  const period = { startDate: true, endDate: true } as const;
+
+  const [sessions, groupSessions, heldRequests] = await Promise.all([
+    db.session.findMany({
+      where: {
+        ...overlapping,
+        id: excludeSessionId ? { not: excludeSessionId } : undefined,
+        status: { in: ['SCHEDULED', 'ACTIVE', 'DISPUTED'] },
+        OR: [{ learnerId: userId }, { providerId: userId }],
+      },
+      select: period,
+    }),
+    db.groupSession.findMany({
+      where: {
+        ...overlapping,
+        status: 'OPEN',
+        OR: [
+          { providerId: userId },
+          { seats: { some: { learnerId: userId, status: 'JOINED' } } },
+        ],
+      },
+      select: period,
+    }),
+    db.sessionRequest.findMany({
+      where: {
+        AND: [overlapping, openSessionRequestFilter()],
+        OR: [{ senderId: userId }, { receiverId: userId }],
+      },
+      select: period,
+    }),
+  ]);
+
+  return [...sessions, ...groupSessions, ...heldRequests];
+}
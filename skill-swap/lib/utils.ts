@@ -131,3 +131,44 @@ export function debounce<T extends (...args: Parameters<T>) => ReturnType<T>>(
 export function generateClientId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
+
+/**
+ * Parses a date query parameter. Plain dates ("2026-01-31") are treated
+ * as the start of the day, or the end of it when `endOfDay` is set.
+ *
+ * @param value - Raw query parameter value
+ * @param endOfDay - Extend a plain date to 23:59:59.999 UTC
+ * @returns The parsed date, or null if missing or invalid
+ */
+export function parseDateParam(
+  value: string | null,
+  endOfDay = false
+): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Builds CSV text from rows of cells, quoting cells that need it. Cells
+ * starting with a formula character are prefixed with ' so spreadsheets
+ * show them as text rather than evaluating them; plain numbers, such as
+ * negative amounts, are left as they are.
+ *
+ * @param rows - Rows of cell values
+ * @returns CSV document with one line per row
+ */
+export function toCsv(rows: string[][]): string {
+  const escape = (value: string) => {
+    const safe =
+      /^[=+\-@]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value)
+        ? `'${value}`
+        : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  };
+  return rows.map((row) => row.map(escape).join(',')).join('\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Verification Tokens
+ *
+ * Single-use, expiring tokens stored in the VerificationToken table
+ * (password resets, email verification). Only a SHA-256 hash of the
+ * token is stored; the raw value goes out in the emailed link. The
+ * identifier is namespaced by purpose ("password-reset:user@x.com") so
+ * a token issued for one flow can't be redeemed in another.
+ *
+ * @fileoverview Hashed single-use token issuing and redemption
+ */
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '@/lib/prisma';
+
+export type TokenPurpose = 'password-reset' | 'email-verification';
+
+function toIdentifier(purpose: TokenPurpose, subject: string) {
+  return `${purpose}:${subject.toLowerCase()}`;
+}
+
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * When the newest unexpired token for this subject was issued, derived
+ * from its expiry; null if there isn't one. Used for rate limiting.
+ */
+export async function getLastTokenIssuedAt(
+  purpose: TokenPurpose,
+  subject: string,
+  ttlMs: number
+): Promise<Date | null> {
+  const latest = await prisma.verificationToken.findFirst({
+    where: {
+      identifier: toIdentifier(purpose, subject),
+      expires: { gt: new Date() },
+    },
+    orderBy: { expires: 'desc' },
+    select: { expires: true },
+  });
+
+  return latest ? new Date(latest.expires.getTime() - ttlMs) : null;
+}
+
+/**
+ * Issue a new token, replacing any earlier ones for the same subject,
+ * and return the raw value to send to the user
+ */
+export async function issueToken(
+  purpose: TokenPurpose,
+  subject: string,
+  ttlMs: number
+): Promise<string> {
+  const identifier = toIdentifier(purpose, subject);
+  const token = randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: {
+        identifier,
+        token: hashToken(token),
+        expires: new Date(Date.now() + ttlMs),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Redeem a token. Returns the subject (e.g. the email address) it was
+ * issued for, or null if it's unknown, expired or for another purpose.
+ * The token is deleted either way, so it can only be used once.
+ */
+export async function consumeToken(
+  purpose: TokenPurpose,
+  token: string
+): Promise<string | null> {
+  const hashed = hashToken(token);
+
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: hashed },
+  });
+
+  if (!record || !record.identifier.startsWith(`${purpose}:`)) {
+    return null;
+  }
+
+  // deleteMany doesn't throw if a concurrent request got here first
+  const { count } = await prisma.verificationToken.deleteMany({
+    where: { token: hashed },
+  });
+
+  if (count === 0 || record.expires <= new Date()) {
+    return null;
+  }
+
+  return record.identifier.slice(purpose.length + 1);
+}
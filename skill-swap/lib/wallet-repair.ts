@@ -0,0 +1,390 @@
+/**
+ * Wallet Repair Service
+ *
+ * Finds credits stuck in a wallet's outgoing balance and lets an admin
+ * put them right. A wallet's outgoing balance should equal the sum of its
+ * PENDING hold transactions; a hold is orphaned when the request or
+ * session it was held for has been deleted or already resolved.
+ *
+ * - Release: return an orphaned hold's credits to the payer's available
+ *   balance and mark the hold REFUNDED
+ * - Reverse: void an orphaned hold whose credits are no longer in outgoing,
+ *   marking it REVERSED without moving any credits
+ * - Release unbacked: return outgoing credits that no PENDING hold
+ *   accounts for
+ *
+ * Credits move through the ledger and every repair is recorded in the
+ * AdminLog.
+ *
+ * @fileoverview Wallet discrepancy detection and admin repairs
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ledgerReference, LedgerError, releaseHold } from '@/lib/ledger';
+import { logAdminAction } from '@/lib/moderation';
+import type {
+  HoldRepairAction,
+  OrphanedHold,
+  WalletDiscrepancy,
+  WalletOwner,
+  WalletRepairReport,
+} from '@/lib/types/wallets';
+
+// Transaction types that keep credits in the payer's outgoing balance
+// while PENDING
+export const HOLD_TRANSACTION_TYPES = [
+  'CONNECTION_REQUEST_SENT',
+  'SESSION_REQUEST_SENT',
+  'SESSION_CREDITS_RESERVED',
+  'DISPUTE_HOLD',
+  'GROUP_SEAT_RESERVED',
+];
+
+const HOLD_INCLUDE = {
+  connectionRequest: { select: { status: true } },
+  sessionRequest: { select: { status: true } },
+  session: { select: { status: true } },
+  groupSeat: { select: { status: true } },
+  wallet: {
+    select: {
+      user: { select: { id: true, fullName: true, name: true, email: true } },
+    },
+  },
+} satisfies Prisma.TransactionInclude;
+
+type HoldWithRelations = Prisma.TransactionGetPayload<{
+  include: typeof HOLD_INCLUDE;
+}>;
+
+/**
+ * A repair the admin asked for that can't be applied, with the HTTP
+ * status the API should answer with
+ */
+export class WalletRepairError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'WalletRepairError';
+  }
+}
+
+function toOwner(hold: HoldWithRelations): WalletOwner {
+  const user = hold.wallet.user;
+  return {
+    id: user.id,
+    name: user.fullName || user.name || 'User',
+    email: user.email,
+  };
+}
+
+/**
+ * Why a PENDING hold no longer backs anything, or null if it is still
+ * held for a pending request or active session
+ */
+function orphanReason(hold: HoldWithRelations): string | null {
+  switch (hold.type) {
+    case 'CONNECTION_REQUEST_SENT':
+      if (!hold.connectionRequest) return 'Connection request no longer exists';
+      if (hold.connectionRequest.status !== 'PENDING') {
+        return `Connection request is ${hold.connectionRequest.status.toLowerCase()}`;
+      }
+      return null;
+
+    case 'SESSION_REQUEST_SENT':
+    case 'SESSION_CREDITS_RESERVED':
+      // Request fees are held by the request; session credits (and
+      // reservations made before SESSION_CREDITS_RESERVED existed) by the session
+      if (hold.sessionRequest) {
+        return hold.sessionRequest.status === 'PENDING'
+          ? null
+          : `Session request is ${hold.sessionRequest.status.toLowerCase()}`;
+      }
+      if (hold.session) {
+        // Disputed sessions keep their credits held until resolved
+        return hold.session.status === 'ACTIVE' ||
+          hold.session.status === 'DISPUTED'
+          ? null
+          : `Session is ${hold.session.status.toLowerCase()}`;
+      }
+      return hold.type === 'SESSION_REQUEST_SENT'
+        ? 'Session request no longer exists'
+        : 'Session no longer exists';
+
+    case 'DISPUTE_HOLD':
+      if (!hold.session) return 'Session no longer exists';
+      return hold.session.status === 'DISPUTED'
+        ? null
+        : `Dispute is over; session is ${hold.session.status.toLowerCase()}`;
+
+    case 'GROUP_SEAT_RESERVED':
+      if (!hold.groupSeat) return 'Group session seat no longer exists';
+      return hold.groupSeat.status === 'JOINED'
+        ? null
+        : `Group session seat is ${hold.groupSeat.status.toLowerCase()}`;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sum of each wallet's PENDING holds, in credits
+ */
+async function sumPendingHolds(
+  client: Prisma.TransactionClient,
+  walletIds?: string[]
+): Promise<Map<string, number>> {
+  const holds = await client.transaction.findMany({
+    where: {
+      status: 'PENDING',
+      type: { in: HOLD_TRANSACTION_TYPES },
+      ...(walletIds ? { walletId: { in: walletIds } } : {}),
+    },
+    select: { walletId: true, amount: true },
+  });
+
+  // Connection request holds are stored positive, session holds negative
+  const totals = new Map<string, number>();
+  for (const hold of holds) {
+    totals.set(
+      hold.walletId,
+      (totals.get(hold.walletId) ?? 0) + Math.abs(hold.amount)
+    );
+  }
+  return totals;
+}
+
+/**
+ * List wallets whose outgoing balance disagrees with their PENDING holds,
+ * and every orphaned hold, oldest first
+ */
+export async function getWalletRepairReport(): Promise<WalletRepairReport> {
+  const [pendingTotals, holds] = await Promise.all([
+    sumPendingHolds(prisma),
+    prisma.transaction.findMany({
+      where: { status: 'PENDING', type: { in: HOLD_TRANSACTION_TYPES } },
+      include: HOLD_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const wallets = await prisma.wallet.findMany({
+    where: {
+      OR: [
+        { outgoingBalance: { not: 0 } },
+        { id: { in: [...pendingTotals.keys()] } },
+      ],
+    },
+    select: {
+      id: true,
+      outgoingBalance: true,
+      user: { select: { id: true, fullName: true, name: true, email: true } },
+    },
+  });
+
+  const discrepancies: WalletDiscrepancy[] = wallets
+    .map((wallet) => {
+      const pendingHolds = pendingTotals.get(wallet.id) ?? 0;
+      return {
+        walletId: wallet.id,
+        owner: {
+          id: wallet.user.id,
+          name: wallet.user.fullName || wallet.user.name || 'User',
+          email: wallet.user.email,
+        },
+        outgoingBalance: wallet.outgoingBalance,
+        pendingHolds,
+        difference: wallet.outgoingBalance - pendingHolds,
+      };
+    })
+    .filter((row) => row.difference !== 0)
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+
+  const orphanedHolds: OrphanedHold[] = [];
+  for (const hold of holds) {
+    const reason = orphanReason(hold);
+    if (!reason) continue;
+
+    orphanedHolds.push({
+      transactionId: hold.id,
+      walletId: hold.walletId,
+      owner: toOwner(hold),
+      type: hold.type,
+      amount: Math.abs(hold.amount),
+      reason,
+      note: hold.note,
+      createdAt: hold.createdAt,
+    });
+  }
+
+  return { discrepancies, orphanedHolds };
+}
+
+/**
+ * Release or reverse an orphaned hold and log it against the admin
+ */
+export async function repairHold(
+  adminId: string,
+  transactionId: string,
+  action: HoldRepairAction,
+  note?: string | null
+): Promise<{ amount: number }> {
+  return prisma.$transaction(async (tx) => {
+    const hold = await tx.transaction.findUnique({
+      where: { id: transactionId },
+      include: HOLD_INCLUDE,
+    });
+
+    if (!hold || !HOLD_TRANSACTION_TYPES.includes(hold.type)) {
+      throw new WalletRepairError('Hold not found', 404);
+    }
+
+    if (hold.status !== 'PENDING') {
+      throw new WalletRepairError('This hold has already been resolved', 409);
+    }
+
+    const reason = orphanReason(hold);
+    if (!reason) {
+      throw new WalletRepairError(
+        'This hold still belongs to a pending request or active session',
+        409
+      );
+    }
+
+    const amount = Math.abs(hold.amount);
+
+    if (action === 'REVERSE') {
+      // Only void a hold whose credits have already left outgoing;
+      // otherwise they would be stuck there for good
+      const [wallet, pendingTotals] = await Promise.all([
+        tx.wallet.findUniqueOrThrow({
+          where: { id: hold.walletId },
+          select: { outgoingBalance: true },
+        }),
+        sumPendingHolds(tx, [hold.walletId]),
+      ]);
+
+      if (wallet.outgoingBalance >= (pendingTotals.get(hold.walletId) ?? 0)) {
+        throw new WalletRepairError(
+          "This hold's credits are still in outgoing; release it instead",
+          409
+        );
+      }
+    }
+
+    // Guard against a concurrent repair or request resolving the same hold
+    const { count } = await tx.transaction.updateMany({
+      where: { id: hold.id, status: 'PENDING' },
+      data: {
+        status: action === 'RELEASE' ? 'REFUNDED' : 'REVERSED',
+        note: `${hold.note ? `${hold.note} - ` : ''}${
+          action === 'RELEASE' ? 'released' : 'reversed'
+        } by admin`,
+      },
+    });
+
+    if (count === 0) {
+      throw new WalletRepairError('This hold has already been resolved', 409);
+    }
+
+    if (action === 'RELEASE') {
+      try {
+        await releaseHold(tx, hold.walletId, amount, {
+          reference: ledgerReference('transaction', hold.id),
+          transactionId: hold.id,
+        });
+      } catch (error) {
+        if (error instanceof LedgerError) {
+          throw new WalletRepairError(
+            "The wallet's outgoing balance doesn't cover this hold; reverse it instead",
+            409
+          );
+        }
+        throw error;
+      }
+    }
+
+    await logAdminAction(tx, {
+      adminId,
+      action: action === 'RELEASE' ? 'HOLD_RELEASED' : 'HOLD_REVERSED',
+      targetUserId: hold.wallet.user.id,
+      targetEntityType: 'transaction',
+      targetEntityId: hold.id,
+      reason: note?.trim() || reason,
+      details: {
+        walletId: hold.walletId,
+        type: hold.type,
+        amount,
+        orphanReason: reason,
+      },
+    });
+
+    return { amount };
+  });
+}
+
+/**
+ * Return outgoing credits no PENDING hold accounts for to the wallet's
+ * available balance and log it against the admin
+ */
+export async function releaseUnbackedOutgoing(
+  adminId: string,
+  walletId: string,
+  note?: string | null
+): Promise<{ amount: number }> {
+  return prisma.$transaction(async (tx) => {
+    const wallet = await tx.wallet.findUnique({
+      where: { id: walletId },
+      select: { id: true, userId: true, outgoingBalance: true },
+    });
+
+    if (!wallet) {
+      throw new WalletRepairError('Wallet not found', 404);
+    }
+
+    const pendingTotals = await sumPendingHolds(tx, [wallet.id]);
+    const pendingHolds = pendingTotals.get(wallet.id) ?? 0;
+    const amount = wallet.outgoingBalance - pendingHolds;
+
+    if (amount <= 0) {
+      throw new WalletRepairError(
+        'Every outgoing credit in this wallet is backed by a pending hold',
+        409
+      );
+    }
+
+    const adjustment = await tx.transaction.create({
+      data: {
+        walletId: wallet.id,
+        amount,
+        type: 'ADMIN_ADJUSTMENT',
+        status: 'COMPLETED',
+        note: `Released ${amount} stuck outgoing credits`,
+      },
+    });
+
+    await releaseHold(tx, wallet.id, amount, {
+      reference: ledgerReference('wallet', wallet.id),
+      transactionId: adjustment.id,
+    });
+
+    await logAdminAction(tx, {
+      adminId,
+      action: 'WALLET_OUTGOING_RELEASED',
+      targetUserId: wallet.userId,
+      targetEntityType: 'wallet',
+      targetEntityId: wallet.id,
+      reason: note?.trim() || 'Outgoing balance not backed by pending holds',
+      details: {
+        amount,
+        outgoingBalance: wallet.outgoingBalance,
+        pendingHolds,
+        transactionId: adjustment.id,
+      },
+    });
+
+    return { amount };
+  });
+}
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "suspendedUntil" TIMESTAMP(3),
+ADD COLUMN     "suspensionReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "users_status_idx" ON "users"("status");
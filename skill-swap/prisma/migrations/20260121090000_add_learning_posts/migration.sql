@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "learning_posts" (
+    "id" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "skillId" TEXT,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "skillOffered" TEXT,
+    "skillsRequested" TEXT,
+    "creditsOffered" INTEGER NOT NULL DEFAULT 50,
+    "format" TEXT NOT NULL,
+    "availability" TEXT NOT NULL,
+    "experienceLevel" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "learning_posts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "learning_posts_authorId_idx" ON "learning_posts"("authorId");
+
+-- CreateIndex
+CREATE INDEX "learning_posts_skillId_idx" ON "learning_posts"("skillId");
+
+-- CreateIndex
+CREATE INDEX "learning_posts_type_status_idx" ON "learning_posts"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "learning_posts_createdAt_idx" ON "learning_posts"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "learning_posts" ADD CONSTRAINT "learning_posts_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "learning_posts" ADD CONSTRAINT "learning_posts_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "skills"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "session_requests" ADD COLUMN     "hourlyRate" INTEGER,
+ADD COLUMN     "sessionCredits" INTEGER NOT NULL DEFAULT 40;
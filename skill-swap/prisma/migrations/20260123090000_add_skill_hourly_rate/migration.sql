@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "skills" ADD COLUMN     "hourlyRate" INTEGER NOT NULL DEFAULT 50;
@@ -0,0 +1,56 @@
+-- AlterTable: credits are whole numbers
+ALTER TABLE "wallets" ALTER COLUMN "availableBalance" SET DATA TYPE INTEGER USING ROUND("availableBalance")::INTEGER,
+ALTER COLUMN "availableBalance" SET DEFAULT 0,
+ALTER COLUMN "outgoingBalance" SET DATA TYPE INTEGER USING ROUND("outgoingBalance")::INTEGER,
+ALTER COLUMN "incomingBalance" SET DATA TYPE INTEGER USING ROUND("incomingBalance")::INTEGER;
+
+ALTER TABLE "transactions" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount")::INTEGER;
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "walletId" TEXT,
+    "account" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "reference" TEXT,
+    "transactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transferId_idx" ON "ledger_entries"("transferId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_walletId_account_idx" ON "ledger_entries"("walletId", "account");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_reference_idx" ON "ledger_entries"("reference");
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: open the ledger with each wallet's current balances, one
+-- balanced ISSUANCE -> wallet account pair per non-zero balance
+INSERT INTO "ledger_entries" ("id", "transferId", "walletId", "account", "amount", "kind")
+SELECT gen_random_uuid()::TEXT, b."transferId", e."walletId", e."account", e."amount", 'OPENING_BALANCE'
+FROM (
+    SELECT w."id" AS "walletId", v."account", v."balance", gen_random_uuid()::TEXT AS "transferId"
+    FROM "wallets" w
+    CROSS JOIN LATERAL (VALUES
+        ('AVAILABLE', w."availableBalance"),
+        ('OUTGOING', w."outgoingBalance"),
+        ('INCOMING', w."incomingBalance")
+    ) AS v("account", "balance")
+    WHERE v."balance" <> 0
+) b
+CROSS JOIN LATERAL (VALUES
+    (b."walletId", b."account", b."balance"),
+    (NULL, 'ISSUANCE', -b."balance")
+) AS e("walletId", "account", "amount");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "settledAt" TIMESTAMP(3),
+ADD COLUMN "settlementOutcome" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_status_endDate_idx" ON "sessions"("status", "endDate");
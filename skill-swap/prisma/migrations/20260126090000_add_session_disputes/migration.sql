@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "session_disputes" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "raisedById" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "sessionStatus" TEXT NOT NULL,
+    "frozenCredits" INTEGER NOT NULL,
+    "resolution" TEXT,
+    "refundedCredits" INTEGER,
+    "resolutionNote" TEXT,
+    "resolvedByAdminId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dispute_evidence" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "submittedById" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attachmentUrl" TEXT,
+    "attachmentName" TEXT,
+    "attachmentType" TEXT,
+    "attachmentSize" INTEGER,
+
+    CONSTRAINT "dispute_evidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_disputes_sessionId_idx" ON "session_disputes"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "session_disputes_status_idx" ON "session_disputes"("status");
+
+-- CreateIndex
+CREATE INDEX "dispute_evidence_disputeId_idx" ON "dispute_evidence"("disputeId");
+
+-- AddForeignKey
+ALTER TABLE "session_disputes" ADD CONSTRAINT "session_disputes_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_disputes" ADD CONSTRAINT "session_disputes_raisedById_fkey" FOREIGN KEY ("raisedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dispute_evidence" ADD CONSTRAINT "dispute_evidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "session_disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dispute_evidence" ADD CONSTRAINT "dispute_evidence_submittedById_fkey" FOREIGN KEY ("submittedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
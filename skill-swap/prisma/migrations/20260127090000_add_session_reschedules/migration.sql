@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "session_reschedules" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "proposedBy" TEXT NOT NULL,
+    "previousStartDate" TIMESTAMP(3) NOT NULL,
+    "previousEndDate" TIMESTAMP(3) NOT NULL,
+    "proposedStartDate" TIMESTAMP(3) NOT NULL,
+    "proposedEndDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_reschedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_reschedules_sessionId_idx" ON "session_reschedules"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "session_reschedules_status_idx" ON "session_reschedules"("status");
+
+-- AddForeignKey
+ALTER TABLE "session_reschedules" ADD CONSTRAINT "session_reschedules_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "session_requests" ADD COLUMN     "recurrenceCount" INTEGER,
+ADD COLUMN     "recurrenceFrequency" TEXT,
+ADD COLUMN     "recurrenceUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "occurrenceIndex" INTEGER,
+ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "session_series" (
+    "id" TEXT NOT NULL,
+    "learnerId" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "sessionName" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "occurrenceCount" INTEGER NOT NULL,
+    "sessionCredits" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "cancelledBy" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_series_learnerId_idx" ON "session_series"("learnerId");
+
+-- CreateIndex
+CREATE INDEX "session_series_providerId_idx" ON "session_series"("providerId");
+
+-- CreateIndex
+CREATE INDEX "sessions_status_startDate_idx" ON "sessions"("status", "startDate");
+
+-- CreateIndex
+CREATE INDEX "sessions_seriesId_idx" ON "sessions"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "session_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_series" ADD CONSTRAINT "session_series_learnerId_fkey" FOREIGN KEY ("learnerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_series" ADD CONSTRAINT "session_series_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
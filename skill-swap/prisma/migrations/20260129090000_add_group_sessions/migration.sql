@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "groupSeatId" TEXT;
+
+-- CreateTable
+CREATE TABLE "group_sessions" (
+    "id" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "sessionName" TEXT NOT NULL,
+    "description" TEXT,
+    "mode" TEXT NOT NULL DEFAULT 'ONLINE',
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "seatLimit" INTEGER NOT NULL,
+    "hourlyRate" INTEGER NOT NULL,
+    "creditsPerSeat" INTEGER NOT NULL,
+    "cancelReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "group_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "group_session_seats" (
+    "id" TEXT NOT NULL,
+    "groupSessionId" TEXT NOT NULL,
+    "learnerId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'JOINED',
+    "creditsHeld" INTEGER NOT NULL,
+    "learnerCompletionConfirmed" BOOLEAN NOT NULL DEFAULT false,
+    "providerCompletionConfirmed" BOOLEAN NOT NULL DEFAULT false,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "leftAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "group_session_seats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "group_sessions_providerId_idx" ON "group_sessions"("providerId");
+
+-- CreateIndex
+CREATE INDEX "group_sessions_status_startDate_idx" ON "group_sessions"("status", "startDate");
+
+-- CreateIndex
+CREATE INDEX "group_session_seats_learnerId_idx" ON "group_session_seats"("learnerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_session_seats_groupSessionId_learnerId_key" ON "group_session_seats"("groupSessionId", "learnerId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_groupSeatId_fkey" FOREIGN KEY ("groupSeatId") REFERENCES "group_session_seats"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_sessions" ADD CONSTRAINT "group_sessions_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_sessions" ADD CONSTRAINT "group_sessions_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "skills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_session_seats" ADD CONSTRAINT "group_session_seats_groupSessionId_fkey" FOREIGN KEY ("groupSessionId") REFERENCES "group_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_session_seats" ADD CONSTRAINT "group_session_seats_learnerId_fkey" FOREIGN KEY ("learnerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "skills" ALTER COLUMN "availabilityWindow" SET DEFAULT '09:00-17:00';
+
+-- CreateTable
+CREATE TABLE "availability_slots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startMinute" INTEGER NOT NULL,
+    "endMinute" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "availability_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "availability_exceptions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "type" TEXT NOT NULL,
+    "startMinute" INTEGER,
+    "endMinute" INTEGER,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "availability_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "availability_slots_userId_idx" ON "availability_slots"("userId");
+
+-- CreateIndex
+CREATE INDEX "availability_exceptions_userId_date_idx" ON "availability_exceptions"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "availability_slots" ADD CONSTRAINT "availability_slots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "availability_exceptions" ADD CONSTRAINT "availability_exceptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every day of the week gets the window from the user's oldest
+-- teaching skill, since the old "HH:MM-HH:MM" strings had no days
+INSERT INTO "availability_slots" ("id", "userId", "dayOfWeek", "startMinute", "endMinute", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    w."ownerId",
+    d.day,
+    w."startMinute",
+    w."endMinute",
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON ("ownerId")
+        "ownerId",
+        substr("availabilityWindow", 1, 2)::int * 60 + substr("availabilityWindow", 4, 2)::int AS "startMinute",
+        substr("availabilityWindow", 7, 2)::int * 60 + substr("availabilityWindow", 10, 2)::int AS "endMinute"
+    FROM "skills"
+    WHERE "isTeaching" = true
+      AND "availabilityWindow" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]-([01][0-9]|2[0-3]):[0-5][0-9]$'
+    ORDER BY "ownerId", "createdAt"
+) w
+CROSS JOIN generate_series(0, 6) AS d(day)
+WHERE w."endMinute" > w."startMinute";
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "calendarTokenCreatedAt" TIMESTAMP(3),
+ADD COLUMN     "calendarTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarTokenHash_key" ON "users"("calendarTokenHash");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "group_session_seats" ADD COLUMN     "learnerRefundRequested" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "refundReason" TEXT,
+ADD COLUMN     "settledAt" TIMESTAMP(3),
+ADD COLUMN     "settlementOutcome" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "dispute_evidence" RENAME COLUMN "attachmentUrl" TO "attachmentPath";
+
+-- Existing rows hold public URLs; keep only the object path within the bucket
+UPDATE "dispute_evidence"
+SET "attachmentPath" = split_part("attachmentPath", '/dispute-evidence/', 2)
+WHERE "attachmentPath" LIKE '%/dispute-evidence/%';
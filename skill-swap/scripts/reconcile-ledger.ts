@@ -0,0 +1,62 @@
+/**
+ * Ledger Reconcile Command
+ *
+ * Recomputes every wallet's available/outgoing/incoming balance from the
+ * credit ledger and reports where the stored balances have drifted.
+ * Pass --fix to overwrite drifted balances with the ledger's.
+ *
+ * Exits non-zero if drift is left unfixed or the ledger doesn't balance.
+ *
+ * @fileoverview npm run ledger:reconcile [-- --fix]
+ */
+import 'dotenv/config';
+import { reconcileWallets } from '@/lib/ledger';
+import { prisma } from '@/lib/prisma';
+
+async function main() {
+  const fix = process.argv.includes('--fix');
+  const result = await reconcileWallets({ fix });
+
+  console.log(`Checked ${result.walletsChecked} wallet(s)`);
+
+  if (result.drift.length === 0) {
+    console.log('No drift: stored balances match the ledger');
+  } else {
+    console.log(`Found ${result.drift.length} drifted balance(s):`);
+    console.table(
+      result.drift.map((row) => ({
+        wallet: row.walletId,
+        user: row.userId,
+        account: row.account,
+        recorded: row.recorded,
+        ledger: row.ledger,
+        difference: row.recorded - row.ledger,
+      }))
+    );
+    console.log(
+      result.fixed
+        ? 'Stored balances were reset to the ledger values'
+        : 'Run with --fix to reset stored balances to the ledger values'
+    );
+  }
+
+  if (result.ledgerTotal !== 0) {
+    console.error(
+      `Ledger is unbalanced: entries sum to ${result.ledgerTotal}, expected 0`
+    );
+  }
+
+  const failed =
+    result.ledgerTotal !== 0 || (result.drift.length > 0 && !result.fixed);
+  return failed ? 1 : 0;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error('Error reconciling wallets:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,117 @@
+/**
+ * Wallet Repair Command
+ *
+ * Lists wallets whose outgoing balance doesn't match their PENDING holds
+ * and the orphaned holds behind them. With an admin's email it can also
+ * apply the same repairs as the admin wallets page, logged to AdminLog:
+ *
+ *   npm run wallet:repair
+ *   npm run wallet:repair -- --admin a@b.com --release <transactionId>
+ *   npm run wallet:repair -- --admin a@b.com --reverse <transactionId>
+ *   npm run wallet:repair -- --admin a@b.com --release-unbacked <walletId>
+ *
+ * Add --note "..." to record a reason with the repair.
+ *
+ * @fileoverview npm run wallet:repair
+ */
+import 'dotenv/config';
+import { prisma } from '@/lib/prisma';
+import {
+  getWalletRepairReport,
+  releaseUnbackedOutgoing,
+  repairHold,
+  WalletRepairError,
+} from '@/lib/wallet-repair';
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function printReport() {
+  const { discrepancies, orphanedHolds } = await getWalletRepairReport();
+
+  if (discrepancies.length === 0) {
+    console.log('Every outgoing balance matches its pending holds');
+  } else {
+    console.log(`${discrepancies.length} wallet(s) with mismatched outgoing balance:`);
+    console.table(
+      discrepancies.map((row) => ({
+        wallet: row.walletId,
+        owner: row.owner.email || row.owner.name,
+        outgoing: row.outgoingBalance,
+        pendingHolds: row.pendingHolds,
+        difference: row.difference,
+      }))
+    );
+  }
+
+  if (orphanedHolds.length === 0) {
+    console.log('No orphaned holds');
+  } else {
+    console.log(`${orphanedHolds.length} orphaned hold(s):`);
+    console.table(
+      orphanedHolds.map((hold) => ({
+        transaction: hold.transactionId,
+        owner: hold.owner.email || hold.owner.name,
+        type: hold.type,
+        amount: hold.amount,
+        reason: hold.reason,
+      }))
+    );
+  }
+
+  return discrepancies.length > 0 || orphanedHolds.length > 0 ? 1 : 0;
+}
+
+async function main() {
+  const releaseId = argValue('--release');
+  const reverseId = argValue('--reverse');
+  const walletId = argValue('--release-unbacked');
+  const note = argValue('--note');
+
+  if (!releaseId && !reverseId && !walletId) {
+    return printReport();
+  }
+
+  const email = argValue('--admin');
+  const admin = email
+    ? await prisma.user.findUnique({
+        where: { email },
+        select: { id: true, isAdmin: true },
+      })
+    : null;
+
+  if (!admin?.isAdmin) {
+    console.error('Repairs need --admin <email> of an admin user');
+    return 1;
+  }
+
+  const { amount } = walletId
+    ? await releaseUnbackedOutgoing(admin.id, walletId, note)
+    : await repairHold(
+        admin.id,
+        (releaseId ?? reverseId)!,
+        releaseId ? 'RELEASE' : 'REVERSE',
+        note
+      );
+
+  console.log(
+    reverseId ? 'Hold reversed' : `Released ${amount} credits back to the wallet`
+  );
+  return 0;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (error instanceof WalletRepairError) {
+      console.error(error.message);
+    } else {
+      console.error('Error repairing wallets:', error);
+    }
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
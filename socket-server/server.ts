@@ -213,24 +213,127 @@ const io = new Server(server, {
 });
 
 // Middleware: Authenticate the Socket Connection
-io.use((socket, next) => {
+io.use(async (socket, next) => {
   const token = socket.handshake.auth.token;
 
   if (!token) {
     return next(new Error('Authentication error: No token'));
   }
 
+  let userId: string;
   try {
     // Verify using the SHARED secret
     const decoded = jwt.verify(
       token,
       process.env.SOCKET_SECRET as string
     ) as any;
-    socket.data.userId = decoded.userId;
-    next();
+    userId = decoded.userId;
   } catch (err) {
-    next(new Error('Authentication error: Invalid token'));
+    return next(new Error('Authentication error: Invalid token'));
   }
+
+  // Refuse suspended accounts (expired temporary suspensions are allowed)
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { status: true, suspendedUntil: true },
+    });
+    if (
+      user?.status === 'SUSPENDED' &&
+      (!user.suspendedUntil || user.suspendedUntil > new Date())
+    ) {
+      return next(new Error('Authentication error: Account suspended'));
+    }
+  } catch (err) {
+    console.error('Error checking account status:', err);
+  }
+
+  socket.data.userId = userId;
+  next();
+});
+
+// ==================== INTERNAL PUBLISH ENDPOINT ====================
+// Next.js API routes POST here to push events to users' personal rooms.
+// Requests carry a short-lived JWT signed with SOCKET_SECRET and scope 'internal'.
+const ALLOWED_INTERNAL_EVENTS = new Set(['notification:new']);
+const MAX_EVENTS_PER_REQUEST = 100;
+
+// Verify the internal bearer token; sends the error response and returns false on failure
+function verifyInternalRequest(
+  req: express.Request,
+  res: express.Response
+): boolean {
+  const authHeader = req.headers.authorization || '';
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+  if (!token) {
+    res.status(401).json({ error: 'Missing token' });
+    return false;
+  }
+
+  try {
+    const decoded = jwt.verify(
+      token,
+      process.env.SOCKET_SECRET as string
+    ) as any;
+    if (decoded.scope !== 'internal') {
+      res.status(403).json({ error: 'Invalid token scope' });
+      return false;
+    }
+  } catch (err) {
+    res.status(401).json({ error: 'Invalid token' });
+    return false;
+  }
+
+  return true;
+}
+
+app.post('/internal/emit', express.json({ limit: '100kb' }), (req, res) => {
+  if (!verifyInternalRequest(req, res)) return;
+
+  const events = req.body?.events;
+  if (!Array.isArray(events) || events.length > MAX_EVENTS_PER_REQUEST) {
+    return res.status(400).json({ error: 'Invalid events payload' });
+  }
+
+  let delivered = 0;
+  for (const item of events) {
+    if (
+      typeof item?.userId !== 'string' ||
+      !ALLOWED_INTERNAL_EVENTS.has(item?.event)
+    ) {
+      continue;
+    }
+    // Redis Adapter routes this to whichever node holds the user's sockets
+    io.to(item.userId).emit(item.event, item.payload);
+    delivered++;
+  }
+
+  console.log(`[INTERNAL] Published ${delivered}/${events.length} events`);
+  return res.json({ delivered });
+});
+
+// Drop all sockets of suspended users across every node
+app.post('/internal/disconnect', express.json({ limit: '10kb' }), (req, res) => {
+  if (!verifyInternalRequest(req, res)) return;
+
+  const userIds = req.body?.userIds;
+  if (
+    !Array.isArray(userIds) ||
+    userIds.length > MAX_EVENTS_PER_REQUEST ||
+    userIds.some((id) => typeof id !== 'string')
+  ) {
+    return res.status(400).json({ error: 'Invalid userIds payload' });
+  }
+
+  for (const userId of userIds) {
+    // Tell the client first so it can sign out, then close the connections
+    io.to(userId).emit('account:suspended', { userId });
+    io.in(userId).disconnectSockets(true);
+  }
+
+  console.log(`[INTERNAL] Disconnected ${userIds.length} suspended users`);
+  return res.json({ disconnected: userIds.length });
 });
 
 io.on('connection', (socket) => {